@@ -0,0 +1,643 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Copy,
+  Download,
+  Lock,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Save,
+  Server,
+  Store,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { api, errorMessage } from './api';
+import { formatIssue, parseCatalog, type CatalogResult, type Product } from './catalog';
+import { catalogAdapter, type CatalogAdapter } from './catalogSource';
+import { csvToRaw, productsToCsv } from './catalogCsv';
+import {
+  BULK_PRICE_MODES,
+  EMPTY_PRODUCT,
+  applyBulkPrice,
+  duplicateProduct,
+  moveItem,
+  removeProducts,
+  upsertProduct,
+  type BulkPriceEdit,
+} from './adminCatalog';
+import { MIN_PASSCODE_LENGTH, hasPasscode, isUnlocked, lock, setPasscode, unlock } from './adminAuth';
+import { DEFAULT_MOCK_CONFIG, loadMockConfig, resetMockData, saveMockConfig, type MockConfig } from './mockConfig';
+import { goToShop } from './route';
+import { ProductFormDialog } from './ProductForm';
+import { formatKrw, manwonLabel } from './currency';
+import { Dialog, DialogTitle } from './DialogFrame';
+import { useI18n } from './i18n';
+import { cx } from './utils';
+
+const BTN =
+  'inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-40';
+const BTN_PRIMARY =
+  'inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-40';
+const INPUT = 'bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm';
+
+// --- Admin page (#admin) ---
+export default function AdminPage() {
+  const [unlocked, setUnlocked] = useState(isUnlocked);
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-100">
+      {unlocked ? (
+        <AdminConsole
+          adapter={catalogAdapter}
+          onLock={() => {
+            lock();
+            setUnlocked(false);
+          }}
+        />
+      ) : (
+        <PasscodeGate onUnlock={() => setUnlocked(true)} />
+      )}
+    </div>
+  );
+}
+
+// --- Passcode gate ---
+function PasscodeGate({ onUnlock }: { onUnlock: () => void }) {
+  const { t } = useI18n();
+  const [first] = useState(() => !hasPasscode());
+  const [code, setCode] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (first) {
+      if (code.length < MIN_PASSCODE_LENGTH) {
+        return setError(t('admin.passcode.tooShort', { min: MIN_PASSCODE_LENGTH }));
+      }
+      if (code !== confirm) return setError(t('admin.passcode.mismatch'));
+      await setPasscode(code);
+      onUnlock();
+    } else if (await unlock(code)) onUnlock();
+    else {
+      setError(t('admin.passcode.wrong'));
+      setCode('');
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="mx-auto mt-24 w-[min(380px,92vw)] rounded-2xl p-6 ring-1 ring-white/10 bg-white/[0.03] space-y-4">
+      <div className="flex items-center gap-2 font-semibold">
+        <Lock className="h-5 w-5" /> {t('admin.title')}
+      </div>
+      <p className="text-sm text-slate-400">
+        {first ? t('admin.passcode.setupHint') : t('admin.passcode.enterHint')}
+      </p>
+      <input
+        type="password"
+        autoFocus
+        autoComplete={first ? 'new-password' : 'current-password'}
+        className={cx(INPUT, 'w-full')}
+        placeholder={t('admin.passcode.label')}
+        aria-label={t('admin.passcode.label')}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      {first && (
+        <input
+          type="password"
+          autoComplete="new-password"
+          className={cx(INPUT, 'w-full')}
+          placeholder={t('admin.passcode.confirm')}
+          aria-label={t('admin.passcode.confirm')}
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+        />
+      )}
+      {error && (
+        <div className="text-sm text-rose-300" role="alert">
+          {error}
+        </div>
+      )}
+      <div className="flex justify-between gap-2">
+        <button type="button" className={BTN} onClick={goToShop}>
+          <Store className="h-4 w-4" /> {t('admin.toShop')}
+        </button>
+        <button type="submit" className={BTN_PRIMARY}>
+          {first ? t('admin.passcode.set') : t('admin.passcode.unlock')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// --- Console ---
+type Editing = { product: Product; originalId: string | null };
+type PendingImport = { fileName: string } & CatalogResult;
+
+const download = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+function AdminConsole({ adapter, onLock }: { adapter: CatalogAdapter; onLock: () => void }) {
+  const { t } = useI18n();
+  // 작업본: 저장 버튼을 누르기 전까지는 어댑터에 쓰지 않는다
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [modified, setModified] = useState(adapter.isModified);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const load = () => {
+    setProducts(null);
+    setLoadError(null);
+    adapter
+      .load()
+      .then((r) => {
+        setProducts(r.products);
+        setDirty(false);
+        setSelected([]);
+      })
+      .catch((e: unknown) => setLoadError(errorMessage(e)));
+  };
+  useEffect(load, [adapter]);
+
+  // 저장하지 않은 변경이 있으면 창을 닫기 전에 확인
+  useEffect(() => {
+    if (!dirty) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [dirty]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 3000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  if (loadError) {
+    return (
+      <div className="mx-auto max-w-xl mt-24 text-center space-y-3">
+        <div className="text-rose-300">{loadError}</div>
+        <button className={BTN} onClick={load}>
+          {t('common.retry')}
+        </button>
+      </div>
+    );
+  }
+  if (!products) return <div className="mt-24 text-center text-slate-400">{t('shop.loading')}</div>;
+
+  const update = (next: Product[]) => {
+    setProducts(next);
+    setDirty(true);
+  };
+  const toggle = (id: string) => setSelected((s) => (s.includes(id) ? s.filter((x) => x !== id) : [...s, id]));
+  const allSelected = products.length > 0 && selected.length === products.length;
+
+  const leave = (action: () => void) => {
+    if (dirty && !window.confirm(t('admin.confirmLeave'))) return;
+    action();
+  };
+
+  // 서버가 거절하거나 닿지 않으면 작업본은 그대로 두고 알린다 (다시 저장하면 된다)
+  const save = async () => {
+    try {
+      await adapter.save(products);
+    } catch (e) {
+      setNotice(t('admin.saveFailed', { error: errorMessage(e) }));
+      return;
+    }
+    setDirty(false);
+    setModified(adapter.isModified());
+    setNotice(t('admin.saved', { count: products.length }));
+  };
+
+  const reset = async () => {
+    if (!window.confirm(t('admin.confirmReset'))) return;
+    try {
+      await adapter.reset();
+    } catch (e) {
+      setNotice(t('admin.resetFailed', { error: errorMessage(e) }));
+      return;
+    }
+    setModified(adapter.isModified());
+    load();
+    setNotice(t('admin.resetDone'));
+  };
+
+  const remove = (ids: string[]) => {
+    if (!window.confirm(t('admin.confirmDelete', { count: ids.length }))) return;
+    update(removeProducts(products, ids));
+    setSelected((s) => s.filter((x) => !ids.includes(x)));
+  };
+
+  const importFile = async (file: File) => {
+    const text = await file.text();
+    try {
+      const raw = /\.json$/i.test(file.name) ? JSON.parse(text) : csvToRaw(text);
+      setPending({ fileName: file.name, ...parseCatalog(raw) });
+    } catch (e) {
+      setNotice(t('admin.importFailed', { error: errorMessage(e) }));
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-6 space-y-4">
+      <header className="flex flex-wrap items-center gap-2">
+        <h1 className="text-xl font-semibold mr-auto">
+          {t('admin.heading')}
+          <span className="ml-2 text-sm font-normal text-slate-400">
+            {adapter.name} · {modified ? t('admin.modified') : t('admin.original')}
+            {dirty && ` · ${t('admin.unsaved')}`}
+          </span>
+        </h1>
+        <button className={BTN_PRIMARY} onClick={save} disabled={!dirty}>
+          <Save className="h-4 w-4" /> {t('admin.save')}
+        </button>
+        <button className={BTN} onClick={reset} disabled={!modified}>
+          <RotateCcw className="h-4 w-4" /> {t('admin.reset')}
+        </button>
+        <button className={BTN} onClick={() => leave(goToShop)}>
+          <Store className="h-4 w-4" /> {t('admin.toShop')}
+        </button>
+        <button className={BTN} onClick={() => leave(onLock)}>
+          <Lock className="h-4 w-4" /> {t('admin.lock')}
+        </button>
+      </header>
+
+      {notice && (
+        <div className="rounded-xl ring-1 ring-emerald-400/30 bg-emerald-500/[0.06] px-3 py-2 text-sm" role="status">
+          {notice}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className={BTN_PRIMARY}
+          onClick={() => setEditing({ product: structuredClone(EMPTY_PRODUCT), originalId: null })}
+        >
+          <Plus className="h-4 w-4" /> {t('admin.newProduct')}
+        </button>
+        <button className={BTN} onClick={() => download('products.json', JSON.stringify(products, null, 2), 'application/json')}>
+          <Download className="h-4 w-4" /> {t('admin.exportJson')}
+        </button>
+        <button className={BTN} onClick={() => download('products.csv', productsToCsv(products), 'text/csv;charset=utf-8')}>
+          <Download className="h-4 w-4" /> {t('admin.exportCsv')}
+        </button>
+        <button className={BTN} onClick={() => fileRef.current?.click()}>
+          <Upload className="h-4 w-4" /> {t('admin.import')}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {selected.length > 0 && (
+        <BulkBar
+          count={selected.length}
+          onApply={(edit) => update(applyBulkPrice(products, selected, edit))}
+          onDelete={() => remove(selected)}
+          onClear={() => setSelected([])}
+        />
+      )}
+
+      <div className="overflow-x-auto rounded-2xl ring-1 ring-white/10">
+        <table className="w-full text-sm">
+          <thead className="bg-white/[0.03] text-left text-slate-400">
+            <tr>
+              <th className="p-3 w-10">
+                <input
+                  type="checkbox"
+                  aria-label={t('admin.selectAll')}
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? [] : products.map((p) => p.id))}
+                />
+              </th>
+              <th className="p-3">{t('admin.col.order')}</th>
+              <th className="p-3">{t('admin.col.product')}</th>
+              <th className="p-3">{t('admin.col.specs')}</th>
+              <th className="p-3 text-right">{t('admin.col.price')}</th>
+              <th className="p-3 text-right">{t('admin.col.stock')}</th>
+              <th className="p-3 text-right">{t('admin.col.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((p, i) => (
+              <tr key={p.id} className={cx('border-t border-white/5', selected.includes(p.id) && 'bg-indigo-500/[0.06]')}>
+                <td className="p-3">
+                  <input
+                    type="checkbox"
+                    aria-label={t('admin.select', { title: p.title })}
+                    checked={selected.includes(p.id)}
+                    onChange={() => toggle(p.id)}
+                  />
+                </td>
+                <td className="p-3 whitespace-nowrap">
+                  <span className="inline-block w-6 tabular-nums text-slate-400">{i + 1}</span>
+                  <button
+                    className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-30"
+                    aria-label={t('admin.moveUp')}
+                    disabled={i === 0}
+                    onClick={() => update(moveItem(products, i, -1))}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-30"
+                    aria-label={t('admin.moveDown')}
+                    disabled={i === products.length - 1}
+                    onClick={() => update(moveItem(products, i, 1))}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                </td>
+                <td className="p-3">
+                  <div className="font-medium">
+                    {p.img} {p.title}
+                  </div>
+                  <div className="text-xs text-slate-500">{p.id}</div>
+                </td>
+                <td className="p-3 text-slate-400">
+                  {p.cpu.model} · {p.gpu.model} · {p.ram.capacityGB}GB
+                </td>
+                <td className="p-3 text-right tabular-nums whitespace-nowrap">
+                  <div>{formatKrw(p.price)}</div>
+                  <div className="text-xs text-slate-500">
+                    {p.sale ? t('admin.salePrice', { price: formatKrw(p.sale.price) }) : manwonLabel(p.price)}
+                  </div>
+                </td>
+                <td className={cx('p-3 text-right tabular-nums', p.stock === 0 && 'text-rose-300')}>
+                  {p.stock ?? '-'}
+                </td>
+                <td className="p-3 text-right whitespace-nowrap">
+                  <button
+                    className="p-2 rounded-lg hover:bg-white/10"
+                    aria-label={t('admin.edit', { title: p.title })}
+                    onClick={() => setEditing({ product: structuredClone(p), originalId: p.id })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="p-2 rounded-lg hover:bg-white/10"
+                    aria-label={t('admin.duplicate', { title: p.title })}
+                    onClick={() => update(duplicateProduct(products, p.id))}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="p-2 rounded-lg hover:bg-white/10 text-rose-300"
+                    aria-label={t('admin.delete', { title: p.title })}
+                    onClick={() => remove([p.id])}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {products.length === 0 && (
+              <tr>
+                <td colSpan={7} className="p-8 text-center text-slate-400">
+                  {t('admin.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {api.mock && <MockServerPanel dirty={dirty} onNotice={setNotice} />}
+
+      {editing && (
+        <ProductFormDialog
+          initial={editing.product}
+          takenIds={products.map((p) => p.id).filter((id) => id !== editing.originalId)}
+          onClose={() => setEditing(null)}
+          onSave={(p) => {
+            update(upsertProduct(products, p, editing.originalId));
+            setSelected((s) => s.map((id) => (id === editing.originalId ? p.id : id)));
+            setEditing(null);
+          }}
+        />
+      )}
+
+      {pending && (
+        <ImportDialog
+          pending={pending}
+          onCancel={() => setPending(null)}
+          onConfirm={() => {
+            update(pending.products);
+            setSelected([]);
+            setPending(null);
+            setNotice(t('admin.imported', { count: pending.products.length }));
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// --- Bulk price bar ---
+function BulkBar({
+  count,
+  onApply,
+  onDelete,
+  onClear,
+}: {
+  count: number;
+  onApply: (edit: BulkPriceEdit) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}) {
+  const { t } = useI18n();
+  const [edit, setEdit] = useState<BulkPriceEdit>({ mode: 'percent', value: -5, roundTo: 1000 });
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-2xl ring-1 ring-indigo-400/30 bg-indigo-500/[0.06] p-3 text-sm">
+      <span className="font-medium mr-1">{t('admin.bulk.selected', { count })}</span>
+      <select
+        className={INPUT}
+        aria-label={t('admin.bulk.mode')}
+        value={edit.mode}
+        onChange={(e) => setEdit({ ...edit, mode: e.target.value as BulkPriceEdit['mode'] })}
+      >
+        {BULK_PRICE_MODES.map((m) => (
+          <option key={m.value} value={m.value}>
+            {t(m.label)}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        className={cx(INPUT, 'w-32')}
+        aria-label={edit.mode === 'percent' ? t('admin.bulk.percentValue') : t('admin.bulk.amountValue')}
+        value={Number.isNaN(edit.value) ? '' : edit.value}
+        onChange={(e) => setEdit({ ...edit, value: e.target.value === '' ? NaN : Number(e.target.value) })}
+      />
+      <span className="text-slate-400">{edit.mode === 'percent' ? '%' : t('admin.bulk.won')}</span>
+      <select
+        className={INPUT}
+        aria-label={t('admin.bulk.round')}
+        value={edit.roundTo}
+        onChange={(e) => setEdit({ ...edit, roundTo: Number(e.target.value) })}
+      >
+        <option value={0}>{t('admin.bulk.roundNone')}</option>
+        <option value={1000}>{t('admin.bulk.round1000')}</option>
+        <option value={10000}>{t('admin.bulk.round10000')}</option>
+      </select>
+      <button className={BTN_PRIMARY} disabled={Number.isNaN(edit.value)} onClick={() => onApply(edit)}>
+        {t('admin.apply')}
+      </button>
+      <span className="ml-auto" />
+      <button className={cx(BTN, 'text-rose-300')} onClick={onDelete}>
+        <Trash2 className="h-4 w-4" /> {t('admin.bulk.delete')}
+      </button>
+      <button className={BTN} onClick={onClear}>
+        {t('admin.bulk.clear')}
+      </button>
+    </div>
+  );
+}
+
+// --- Mock server settings ---
+// VITE_API_URL 없이 브라우저 안의 모의 서버를 쓸 때만 보인다. 설정은 다음 요청부터 적용된다.
+function MockServerPanel({ dirty, onNotice }: { dirty: boolean; onNotice: (message: string) => void }) {
+  const { t } = useI18n();
+  const [config, setConfig] = useState<MockConfig>(loadMockConfig);
+  const [draft, setDraft] = useState({ latencyMs: config.latencyMs, failurePercent: config.failureRate * 100 });
+  const invalid = Number.isNaN(draft.latencyMs) || Number.isNaN(draft.failurePercent);
+
+  const apply = (next: MockConfig | null) => {
+    saveMockConfig(next);
+    const saved = loadMockConfig();
+    setConfig(saved);
+    setDraft({ latencyMs: saved.latencyMs, failurePercent: saved.failureRate * 100 });
+    onNotice(t('admin.mock.applied', { latency: saved.latencyMs, failure: Math.round(saved.failureRate * 100) }));
+  };
+
+  const resetData = () => {
+    if (!window.confirm(dirty ? t('admin.mock.confirmResetDirty') : t('admin.mock.confirmReset'))) return;
+    resetMockData();
+    window.location.reload();
+  };
+
+  const num = (v: string) => (v === '' ? NaN : Number(v));
+
+  return (
+    <section className="rounded-2xl ring-1 ring-white/10 p-4 space-y-3 text-sm">
+      <h2 className="flex items-center gap-2 font-medium">
+        <Server className="h-4 w-4" /> {t('api.mock.name')}
+        <span className="font-normal text-slate-400">
+          {t('admin.mock.current', { latency: config.latencyMs, failure: Math.round(config.failureRate * 100) })}
+        </span>
+      </h2>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          {t('admin.mock.latency')}
+          <input
+            type="number"
+            min={0}
+            max={10000}
+            step={50}
+            className={cx(INPUT, 'w-28')}
+            value={Number.isNaN(draft.latencyMs) ? '' : draft.latencyMs}
+            onChange={(e) => setDraft({ ...draft, latencyMs: num(e.target.value) })}
+          />
+          <span className="text-slate-400">ms</span>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('admin.mock.failureRate')}
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            className={cx(INPUT, 'w-24')}
+            value={Number.isNaN(draft.failurePercent) ? '' : draft.failurePercent}
+            onChange={(e) => setDraft({ ...draft, failurePercent: num(e.target.value) })}
+          />
+          <span className="text-slate-400">%</span>
+        </label>
+        <button
+          className={BTN_PRIMARY}
+          disabled={invalid}
+          onClick={() => apply({ latencyMs: draft.latencyMs, failureRate: draft.failurePercent / 100 })}
+        >
+          {t('admin.apply')}
+        </button>
+        <button className={BTN} onClick={() => apply(null)}>
+          {t('admin.mock.defaults', {
+            latency: DEFAULT_MOCK_CONFIG.latencyMs,
+            failure: Math.round(DEFAULT_MOCK_CONFIG.failureRate * 100),
+          })}
+        </button>
+        <span className="ml-auto" />
+        <button className={cx(BTN, 'text-rose-300')} onClick={resetData}>
+          <Trash2 className="h-4 w-4" /> {t('admin.mock.resetData')}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">{t('admin.mock.hint')}</p>
+    </section>
+  );
+}
+
+// --- Import confirmation ---
+function ImportDialog({
+  pending,
+  onCancel,
+  onConfirm,
+}: {
+  pending: PendingImport;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <Dialog onClose={onCancel} className="w-[min(560px,95vw)] flex flex-col">
+      <DialogTitle className="p-4 border-b border-white/10">
+        {t('admin.importDialog.title', { file: pending.fileName })}
+      </DialogTitle>
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3 text-sm">
+        <p>{t('admin.importDialog.summary', { count: pending.products.length })}</p>
+        {pending.issues.length > 0 && (
+          <div className="rounded-xl ring-1 ring-amber-400/30 bg-amber-500/[0.06] p-3">
+            <div className="font-medium text-amber-300">
+              {t('admin.importDialog.skipped', { count: pending.issues.length })}
+            </div>
+            <ul className="mt-1 list-disc pl-5 text-slate-300">
+              {pending.issues.map((i, idx) => (
+                <li key={idx}>{formatIssue(i)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      <div className="border-t border-white/10 p-4 flex justify-end gap-2">
+        <button className={BTN} onClick={onCancel}>
+          {t('admin.cancel')}
+        </button>
+        <button className={BTN_PRIMARY} disabled={pending.products.length === 0} onClick={onConfirm}>
+          {t('admin.importDialog.confirm')}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
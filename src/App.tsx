@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import {
   ShoppingCart,
   Cpu,
@@ -6,7 +6,6 @@ import {
   Search,
   Filter,
   SlidersHorizontal,
-  X,
   Trash2,
   Check,
   Info,
@@ -18,191 +17,192 @@ import {
   Minus,
   Monitor,
   Gauge,
+  AlertTriangle,
+  Loader2,
+  RotateCcw,
+  Package,
+  Wrench,
+  CircuitBoard,
+  Zap,
+  Sparkles,
 } from 'lucide-react';
+import { formatIssue, type CatalogIssue, type Product } from './catalog';
+import { useCatalog } from './catalogSource';
+import { ADMIN_HASH } from './route';
+import { ICON, cx } from './utils';
+import { EMPTY_FILTERS, applyFilters, labelFacets, tallyFacets, type Filters } from './facets';
+import { ActiveFilterChips, FilterPanel } from './FilterPanel';
+import { SORT_OPTIONS, sortProducts, type SortKey } from './sorting';
+import { cartCount, productQty, retryCartSync, useCart, useCartSync } from './cart';
+import { priceCart } from './pricing';
+import { CouponField, PriceBreakdown, PriceTag } from './PriceTag';
+import { isSoldOut, maxCartQty, remainingStock, stockLimitMessage } from './inventory';
+import { RestockButton, RestockNotice, StockBadge } from './Stock';
+import { BuildSummary, ConfiguratorDialog } from './Configurator';
+import { CheckoutDialog } from './CheckoutDialog';
+import { OrdersDialog } from './OrdersDialog';
+import { readUrlState, writeUrlState, type Layout, type ShopUrlState } from './urlState';
+import { checkBuild } from './compat';
+import { CompatPanel } from './CompatPanel';
+import { boardLabel, cpuDetail, cpuLabel, gpuLabel, ramLabel, storageLabel } from './specs';
+import { isEstimated, perfScore, valueScore } from './benchmarks';
+import { DEFAULT_GAME, FILTER_RESOLUTION, type Resolution } from './games';
+import { GamePerformance } from './GamePerformance';
+import { CompareBar, CompareDialog } from './CompareDialog';
+import { COMPARE_LIMIT } from './compare';
+import { NO_HIGHLIGHT, highlighterFor, parseQuery, searchProducts, type Highlighter } from './search';
+import { Highlight } from './Highlight';
+import { SearchBox } from './SearchBox';
+import { PriceDropBadge, PriceDropNotice, WishButton, WishlistButton, WishlistDrawer } from './WishlistDrawer';
+import { manwonLabel, useMoney } from './currency';
+import { useI18n } from './i18n';
+import { LocaleSwitcher } from './LocaleSwitcher';
+import { ratingIndex, useReviews } from './reviews';
+import { RatingBadge, ReviewSection } from './ReviewSection';
+import { ProductGallery, ProductThumb } from './ProductImage';
+import { Dialog, DialogClose, DialogTitle, Drawer } from './DialogFrame';
+import { useRovingGrid } from './rovingGrid';
+import { needsSummary, useNeeds } from './recommend';
+import { RecommendDialog } from './RecommendDialog';
+import { recordView } from './recent';
+import { pruneRestockAlerts } from './restock';
+import { RecentStrip } from './RecentStrip';
+import { SimilarProducts } from './SimilarProducts';
 
-// --- Utilities ---
-const KRW = new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' });
-const cx = (...cls: (string | boolean | undefined)[]) => cls.filter(Boolean).join(' ');
+// --- Data ---
+// 상품 목록은 public/products.json 에서 불러온다 (src/catalog.ts 참고)
+export type { Product } from './catalog';
 
-// 아이콘 가시성(어두운 배경에서도 잘 보이도록)
-const ICON = 'h-7 w-7 text-emerald-700';
-const ICON_DIM = 'h-7 w-7 text-emerald-400';
+const NO_PRODUCTS: Product[] = [];
 
-// --- Data ---
-export type Product = {
-  id: string;
-  name: string; // A, B, ...
-  title: string; // "A 컴퓨터"
-  price: number; // for sort/total
-  priceLabel: string; // "100만원"
-  cpu: string;
-  gpu: string;
-  ram: string;
-  storage: string;
-  img: string; // emoji placeholder (replace with image URL if needed)
-  tags?: string[];
-};
-
-const PRODUCTS: Product[] = [
-  {
-    id: 'A',
-    name: 'A',
-    title: 'A 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 i9-14900K',
-    gpu: 'NVIDIA RTX 5090',
-    ram: '128GB DDR5',
-    storage: 'NVMe SSD 4TB',
-    img: '💻',
-  },
-  {
-    id: 'B',
-    name: 'B',
-    title: 'B 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 i7-14700K',
-    gpu: 'NVIDIA RTX 4080 Super',
-    ram: '64GB DDR5',
-    storage: 'NVMe SSD 2TB',
-    img: '💻',
-  },
-  {
-    id: 'C',
-    name: 'C',
-    title: 'C 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 i5-14600K',
-    gpu: 'NVIDIA RTX 4070 Ti',
-    ram: '32GB DDR5',
-    storage: 'NVMe SSD 1TB',
-    img: '💻',
-  },
-  {
-    id: 'D',
-    name: 'D',
-    title: 'D 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 i5-13400F',
-    gpu: 'NVIDIA RTX 3060',
-    ram: '16GB DDR4',
-    storage: 'NVMe SSD 512GB',
-    img: '💻',
-  },
-  {
-    id: 'E',
-    name: 'E',
-    title: 'E 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 i3-13100',
-    gpu: 'Intel UHD Graphics 730',
-    ram: '8GB DDR4',
-    storage: 'SSD 256GB',
-    img: '💻',
-  },
-  {
-    id: 'F',
-    name: 'F',
-    title: 'F 컴퓨터',
-    price: 1000000,
-    priceLabel: '100만원',
-    cpu: '인텔 Pentium G6400',
-    gpu: 'Intel UHD Graphics 610',
-    ram: '4GB DDR4',
-    storage: 'SSD 128GB',
-    img: '💻',
-  },
-];
-
-// --- Types ---
-type SortKey = 'featured' | 'price' | 'cpu' | 'gpu' | 'ram' | 'name';
-
-// --- Helpers for parsing tiers ---
-const parseRamGB = (ram: string) => {
-  const m = /([0-9]+)GB/i.exec(ram || '');
-  return m ? parseInt(m[1], 10) : 0;
-};
-const tierMap = (value: string, order: string[]): number => {
-  const idx = order.findIndex((k) => value?.toLowerCase().includes(k.toLowerCase()));
-  return idx === -1 ? order.length : idx;
-};
-const cpuTier = (cpu: string) => tierMap(cpu, ['i9', 'i7', 'i5', 'i3', 'pentium', 'celeron']);
-const gpuTier = (gpu: string) =>
-  tierMap(gpu, ['5090', '4090', '4080', '4070', '4060', '3060', 'uhd 7', 'uhd 6', 'intel uhd']);
+// --- Spec labels (derived from structured specs) ---
+const specLabels = (p: Product) => ({
+  cpu: cpuLabel(p.cpu),
+  gpu: gpuLabel(p.gpu),
+  ram: ramLabel(p.ram),
+  storage: storageLabel(p.storage),
+});
 
 // --- Main Component ---
 export default function PCShop() {
-  const [query, setQuery] = useState('');
-  const [layout, setLayout] = useState<'grid' | 'list'>('grid');
-  const [sort, setSort] = useState<SortKey>('featured');
-  const [minRam, setMinRam] = useState(0);
-  const [selected, setSelected] = useState<string[]>([]); // compare list
-  const [cart, setCart] = useState<Record<string, number>>(() => {
-    try {
-      return JSON.parse(localStorage.getItem('pcshop_cart') || '{}');
-    } catch {
-      return {};
-    }
-  });
+  const { t } = useI18n();
+  const { state: catalog, reload } = useCatalog();
+  const products = catalog.status === 'ready' ? catalog.products : NO_PRODUCTS;
+  // 주소창과 동기화되는 상태 (새로고침/링크 공유/뒤로가기)
+  const [initial] = useState(readUrlState);
+  const [query, setQuery] = useState(initial.query);
+  const [layout, setLayout] = useState<Layout>(initial.layout);
+  const [sort, setSort] = useState<SortKey>(initial.sort);
+  const [filters, setFilters] = useState<Filters>(initial.filters);
+  const [selected, setSelected] = useState<string[]>(initial.selected); // compare list
+  const [compareOpen, setCompareOpen] = useState(initial.compareOpen);
+  const [compareNotice, setCompareNotice] = useState<string | null>(null);
+  const [cartNotice, setCartNotice] = useState<string | null>(null); // 재고 한도 안내
+  const [detailId, setDetailId] = useState<string | null>(initial.detailId);
   const [showFilters, setShowFilters] = useState(false);
-  const [detail, setDetail] = useState<Product | null>(null);
+  const [configuring, setConfiguring] = useState<Product | null>(null); // 커스텀 구성 창
+  const [orders, setOrders] = useState<{ orderId: string | null } | null>(null); // 주문 내역 창
+  const [showWishlist, setShowWishlist] = useState(false);
+  const [showRecommend, setShowRecommend] = useState(false); // 나에게 맞는 PC 찾기
+
+  const lastUrlState = useRef<ShopUrlState | null>(null);
+  useEffect(() => {
+    const next: ShopUrlState = { query, filters, sort, layout, selected, compareOpen, detailId };
+    writeUrlState(next, lastUrlState.current);
+    lastUrlState.current = next;
+  }, [query, filters, sort, layout, selected, compareOpen, detailId]);
+
+  useEffect(() => {
+    const onPop = () => {
+      const s = readUrlState();
+      setQuery(s.query);
+      setFilters(s.filters);
+      setSort(s.sort);
+      setLayout(s.layout);
+      setSelected(s.selected);
+      setCompareOpen(s.compareOpen);
+      setDetailId(s.detailId);
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem('pcshop_cart', JSON.stringify(cart));
-  }, [cart]);
+    if (catalog.status === 'ready') pruneRestockAlerts(catalog.products);
+  }, [catalog]);
+
+  const detail = products.find((p) => p.id === detailId) ?? null;
+
+  // 검색어 → facet 순서로 거른다 (facet 개수는 검색 결과 기준, 검색 결과는 관련도 순)
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+  const searched = useMemo(() => searchProducts(products, parsedQuery), [products, parsedQuery]);
+  const highlighter = useMemo(() => highlighterFor(parsedQuery), [parsedQuery]);
+  // 평점순 정렬과 별점 필터는 후기 저장소의 평균 별점을 쓴다
+  const reviews = useReviews();
+  const ratings = useMemo(() => ratingIndex(reviews), [reviews]);
+
+  // 개수만 메모하고, 언어를 따르는 항목 이름(GPU 등급, 게임 이름)은 그릴 때마다 붙인다
+  const tally = useMemo(() => tallyFacets(searched, filters, ratings), [searched, filters, ratings]);
+  const counts = labelFacets(tally);
 
+  // '추천' 정렬은 저장된 맞춤 추천 답변을 따른다
+  const needs = useNeeds();
   const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    let list = PRODUCTS.filter((p) => {
-      const text = `${p.title} ${p.cpu} ${p.gpu} ${p.ram} ${p.storage} ${p.tags?.join(' ')}`.toLowerCase();
-      const okQ = q ? text.includes(q) : true;
-      const okRam = parseRamGB(p.ram) >= minRam;
-      return okQ && okRam;
-    });
-
-    list = [...list].sort((a, b) => {
-      if (sort === 'price') return a.price - b.price;
-      if (sort === 'cpu') return cpuTier(a.cpu) - cpuTier(b.cpu);
-      if (sort === 'gpu') return gpuTier(a.gpu) - gpuTier(b.gpu);
-      if (sort === 'ram') return parseRamGB(b.ram) - parseRamGB(a.ram);
-      if (sort === 'name') return a.name.localeCompare(b.name, 'ko');
-      return 0; // featured (original order)
-    });
-
-    return list;
-  }, [query, minRam, sort]);
-
-  const totalItems = Object.values(cart).reduce((a, b) => a + b, 0);
-  const totalPrice = Object.entries(cart).reduce((sum, [id, qty]) => {
-    const p = PRODUCTS.find((x) => x.id === id);
-    return p ? sum + p.price * qty : sum;
-  }, 0);
+    return sortProducts(applyFilters(searched, filters, ratings), sort, ratings, needs);
+  }, [searched, filters, sort, ratings, needs]);
 
-  const toggleSelect = (id: string) => {
-    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : prev.length >= 3 ? prev : [...prev, id]));
+  const grid = useRovingGrid(filtered.length);
+  const gridHintId = useId();
+
+  const resetAll = () => {
+    setQuery('');
+    setFilters(EMPTY_FILTERS);
   };
 
-  const addToCart = (id: string, qty = 1) => {
-    setCart((prev) => ({ ...prev, [id]: (prev[id] || 0) + qty }));
+  const { cart, dispatch } = useCart();
+
+  // 비교 목록은 선택한 순서대로 (카탈로그에서 사라진 상품은 빠진다)
+  const compareItems = useMemo(
+    () => selected.flatMap((id) => products.filter((p) => p.id === id)),
+    [selected, products]
+  );
+
+  useEffect(() => {
+    if (!compareNotice) return;
+    const timer = window.setTimeout(() => setCompareNotice(null), 3000);
+    return () => window.clearTimeout(timer);
+  }, [compareNotice]);
+
+  useEffect(() => {
+    if (!cartNotice) return;
+    const timer = window.setTimeout(() => setCartNotice(null), 3000);
+    return () => window.clearTimeout(timer);
+  }, [cartNotice]);
+
+  const toggleSelect = (id: string) => {
+    if (selected.includes(id)) setSelected(selected.filter((x) => x !== id));
+    else if (selected.length >= COMPARE_LIMIT) setCompareNotice(t('compare.limit', { count: COMPARE_LIMIT }));
+    else setSelected([...selected, id]);
   };
-  const removeFromCart = (id: string) => {
-    setCart((prev) => {
-      const next = { ...prev } as Record<string, number>;
-      delete next[id];
-      return next;
-    });
+  const addToCompare = (id: string) => {
+    if (!selected.includes(id)) toggleSelect(id);
   };
-  const setQty = (id: string, qty: number) => {
-    if (qty <= 0) return removeFromCart(id);
-    setCart((prev) => ({ ...prev, [id]: qty }));
+  const removeFromCompare = (id: string) => setSelected((prev) => prev.filter((x) => x !== id));
+
+  // 호환성 검사에서 오류가 난 구성은 담지 않는다 (버튼도 비활성화되지만 한 번 더 막음)
+  // 재고보다 많이 담으려 하면 남은 만큼만 담고 안내한다
+  const addToCart = (id: string, qty = 1) => {
+    const p = products.find((x) => x.id === id);
+    if (!p || !checkBuild(p).ok) return false;
+    const room = remainingStock(cart, p);
+    if (room < qty) setCartNotice(stockLimitMessage(p));
+    if (room === 0) return false;
+    dispatch({ type: 'add', productId: id, qty, stock: p.stock });
+    return true;
   };
 
   return (
-    <div className="relative min-h-screen text-emerald-500">
+    <div className={cx('relative min-h-screen text-emerald-500', compareItems.length > 0 && 'pb-24')}>
       {/* Global background layer to cover the entire window */}
       <div className="fixed inset-0 -z-10 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950" />
       {/* Header */}
@@ -212,57 +212,70 @@ export default function PCShop() {
             <span className="inline-flex h-9 w-9 items-center justify-center rounded-2xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/40">
               <Cpu className={ICON} />
             </span>
-            오기택의 컴퓨터샵
+            {t('shop.title')}
           </div>
           <div className="ml-auto flex items-center gap-2">
-            <div className="hidden md:flex items-center gap-2 rounded-2xl bg-transparent ring-1 ring-white/10 px-3 py-2">
-              <Search className={ICON_DIM} />
-              <input
-                placeholder="검색: i7, 4070, 32GB ..."
-                className="bg-transparent outline-none placeholder:text-slate-400 text-sm w-64"
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-              />
-            </div>
+            <LocaleSwitcher />
+            <SearchBox
+              value={query}
+              onChange={setQuery}
+              products={products}
+              onPickProduct={setDetailId}
+              placeholder={t('search.placeholder')}
+              className="hidden md:block w-80"
+              boxClassName="flex items-center gap-2 rounded-2xl bg-transparent ring-1 ring-white/10 px-3 py-2"
+            />
             <button
               className="md:hidden inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10"
               onClick={() => setShowFilters(true)}
             >
-              <Filter className={ICON} /> 필터
+              <Filter className={ICON} /> {t('filter.title')}
             </button>
-            <CartButton count={totalItems} amount={totalPrice} />
+            <button
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => setOrders({ orderId: null })}
+              title={t('order.history')}
+            >
+              <Package className={ICON} /> <span className="hidden sm:inline text-sm">{t('shop.orders')}</span>
+            </button>
+            <WishlistButton products={products} onOpen={() => setShowWishlist(true)} />
+            <CartButton products={products} onViewOrder={(orderId) => setOrders({ orderId })} />
           </div>
         </div>
       </header>
       {/* Toolbar */}
       <div className="max-w-7xl mx-auto px-4 py-4 flex flex-wrap items-center gap-3">
-        <div className="hidden md:flex items-center gap-3">
-          <SlidersHorizontal className={ICON} />
-          <label className="text-sm opacity-80">최소 RAM</label>
-          <input
-            type="range"
-            min={0}
-            max={128}
-            step={8}
-            value={minRam}
-            onChange={(e) => setMinRam(parseInt(e.target.value, 10))}
-            className="accent-indigo-400"
-          />
-          <span className="text-sm tabular-nums w-12 text-right">{minRam}GB</span>
+        <div className="text-sm text-slate-400 tabular-nums">
+          {catalog.status === 'ready' && t('shop.count', { count: filtered.length })}
         </div>
+        {needs && sort === 'featured' && (
+          <button
+            className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs bg-indigo-500/15 ring-1 ring-inset ring-indigo-400/40 hover:bg-indigo-500/25"
+            onClick={() => setShowRecommend(true)}
+            title={t('rec.edit')}
+          >
+            <Sparkles className="h-3.5 w-3.5" /> {t('rec.active', { summary: needsSummary(needs) })}
+          </button>
+        )}
 
         <div className="ml-auto flex items-center gap-2">
+          <button
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+            onClick={() => setShowRecommend(true)}
+            title={t('rec.open')}
+          >
+            <Sparkles className={ICON} /> <span className="hidden sm:inline">{t('rec.open')}</span>
+          </button>
           <select
             value={sort}
             onChange={(e) => setSort(e.target.value as SortKey)}
             className="bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm"
           >
-            <option value="featured">정렬: 추천</option>
-            <option value="price">가격(낮은순)</option>
-            <option value="cpu">CPU 등급</option>
-            <option value="gpu">GPU 등급</option>
-            <option value="ram">RAM(높은순)</option>
-            <option value="name">이름</option>
+            {SORT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.value === 'featured' ? t('sort.prefix', { label: t(o.label) }) : t(o.label)}
+              </option>
+            ))}
           </select>
           <div className="flex rounded-xl overflow-hidden ring-1 ring-white/10">
             <button
@@ -272,7 +285,7 @@ export default function PCShop() {
               )}
               onClick={() => setLayout('grid')}
             >
-              <LayoutGrid className={ICON} /> 그리드
+              <LayoutGrid className={ICON} /> {t('shop.grid')}
             </button>
             <button
               className={cx(
@@ -281,133 +294,218 @@ export default function PCShop() {
               )}
               onClick={() => setLayout('list')}
             >
-              <List className={ICON} /> 리스트
+              <List className={ICON} /> {t('shop.list')}
             </button>
           </div>
         </div>
       </div>
       {/* Content */}
-      <main className="max-w-7xl mx-auto px-4 pb-28">
-        {filtered.length === 0 ? (
-          <EmptyState
-            onReset={() => {
-              setQuery('');
-              setMinRam(0);
-              setSort('featured');
-            }}
-          />
-        ) : layout === 'grid' ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filtered.map((p) => (
-              <Card key={p.id}>
-                <ProductCard
-                  product={p}
-                  selected={selected.includes(p.id)}
-                  onSelect={() => toggleSelect(p.id)}
-                  onAdd={() => addToCart(p.id)}
-                  onDetail={() => setDetail(p)}
-                />
-              </Card>
-            ))}
-          </div>
-        ) : (
-          <div className="space-y-3">
-            {filtered.map((p) => (
-              <Card key={p.id}>
-                <ProductRow
-                  product={p}
-                  selected={selected.includes(p.id)}
-                  onSelect={() => toggleSelect(p.id)}
-                  onAdd={() => addToCart(p.id)}
-                  onDetail={() => setDetail(p)}
-                />
-              </Card>
-            ))}
+      <main className="max-w-7xl mx-auto px-4 pb-28 md:grid md:grid-cols-[220px_minmax(0,1fr)] md:gap-6">
+        <aside className="hidden md:block">
+          <div className="sticky top-20">
+            <div className="flex items-center gap-2 mb-3 font-semibold">
+              <SlidersHorizontal className={ICON} /> {t('filter.title')}
+            </div>
+            <FilterPanel filters={filters} counts={counts} onChange={setFilters} />
           </div>
-        )}
+        </aside>
+        <div className="min-w-0">
+          {catalog.status === 'ready' && catalog.issues.length > 0 && <CatalogIssues issues={catalog.issues} />}
+          <RecentStrip products={products} onDetail={setDetailId} />
+          <ActiveFilterChips
+            filters={filters}
+            query={query}
+            onChange={setFilters}
+            onClearQuery={() => setQuery('')}
+            onReset={resetAll}
+          />
+          {catalog.status === 'loading' ? (
+            <LoadingState />
+          ) : catalog.status === 'error' ? (
+            <ErrorState message={catalog.error} onRetry={reload} />
+          ) : filtered.length === 0 ? (
+            <EmptyState
+              onReset={() => {
+                resetAll();
+                setSort('featured');
+              }}
+            />
+          ) : (
+            <>
+              <p id={gridHintId} className="sr-only">
+                {t('shop.gridHint')}
+              </p>
+              <div
+                ref={grid.container}
+                className={layout === 'grid' ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4' : 'space-y-3'}
+                role="list"
+                aria-label={t('shop.resultsLabel')}
+                aria-describedby={gridHintId}
+                onKeyDown={grid.onKeyDown}
+              >
+                {filtered.map((p, i) => (
+                  <Card key={p.id} role="listitem" aria-label={p.title} {...grid.itemProps(i, () => setDetailId(p.id))}>
+                    {layout === 'grid' ? (
+                      <ProductCard
+                        product={p}
+                        highlight={highlighter}
+                        selected={selected.includes(p.id)}
+                        onSelect={() => toggleSelect(p.id)}
+                        onAdd={() => addToCart(p.id)}
+                        onDetail={() => setDetailId(p.id)}
+                      />
+                    ) : (
+                      <ProductRow
+                        product={p}
+                        highlight={highlighter}
+                        selected={selected.includes(p.id)}
+                        onSelect={() => toggleSelect(p.id)}
+                        onAdd={() => addToCart(p.id)}
+                        onDetail={() => setDetailId(p.id)}
+                      />
+                    )}
+                  </Card>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
       </main>
       {/* Compare Bar */}
-      <CompareBar ids={selected} onClear={() => setSelected([])} />
+      <CompareBar
+        items={compareItems}
+        notice={compareNotice}
+        onRemove={removeFromCompare}
+        onClear={() => setSelected([])}
+        onOpen={() => setCompareOpen(true)}
+      />
       {/* Floating Filter Drawer for mobile */}
       {showFilters && (
-        <div className="fixed inset-0 z-50 flex">
-          <div className="w-80 max-w-[80%] bg-slate-900/95 backdrop-blur border-r border-white/10 p-4">
-            <div className="flex items-center justify-between mb-4">
-              <div className="font-semibold">필터</div>
-              <button className="p-2 hover:bg-transparent rounded-lg" onClick={() => setShowFilters(false)}>
-                <X className={ICON} />
-              </button>
+        <Drawer side="left" onClose={() => setShowFilters(false)} className="w-80 max-w-[80%] overflow-y-auto p-4">
+          <div className="flex items-center justify-between mb-4">
+            <DialogTitle>{t('filter.title')}</DialogTitle>
+            <DialogClose />
+          </div>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm opacity-80">{t('search.label')}</label>
+              <SearchBox
+                value={query}
+                onChange={setQuery}
+                products={products}
+                onPickProduct={(id) => {
+                  setShowFilters(false);
+                  setDetailId(id);
+                }}
+                placeholder={t('search.placeholderShort')}
+                className="mt-1"
+                boxClassName="flex items-center gap-2 rounded-xl bg-transparent ring-1 ring-white/10 px-3 py-2"
+              />
             </div>
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm opacity-80">검색</label>
-                <div className="mt-1 flex items-center gap-2 rounded-xl bg-transparent ring-1 ring-white/10 px-3 py-2">
-                  <Search className={ICON_DIM} />
-                  <input
-                    placeholder="i7, 4070, 32GB ..."
-                    className="bg-transparent outline-none placeholder:text-slate-400 text-sm w-full"
-                    value={query}
-                    onChange={(e) => setQuery(e.target.value)}
-                  />
-                </div>
-              </div>
-              <div>
-                <label className="text-sm opacity-80">최소 RAM</label>
-                <div className="mt-2 flex items-center gap-2">
-                  <input
-                    type="range"
-                    min={0}
-                    max={128}
-                    step={8}
-                    value={minRam}
-                    onChange={(e) => setMinRam(parseInt(e.target.value, 10))}
-                    className="accent-indigo-400 w-full"
-                  />
-                  <span className="text-sm tabular-nums w-14 text-right">{minRam}GB</span>
-                </div>
-              </div>
-              <div>
-                <label className="text-sm opacity-80">정렬</label>
-                <select
-                  value={sort}
-                  onChange={(e) => setSort(e.target.value as SortKey)}
-                  className="mt-2 bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm w-full"
-                >
-                  <option value="featured">추천</option>
-                  <option value="price">가격(낮은순)</option>
-                  <option value="cpu">CPU 등급</option>
-                  <option value="gpu">GPU 등급</option>
-                  <option value="ram">RAM(높은순)</option>
-                  <option value="name">이름</option>
-                </select>
-              </div>
+            <div>
+              <label className="text-sm opacity-80">{t('shop.sort')}</label>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SortKey)}
+                className="mt-2 bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm w-full"
+              >
+                {SORT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {t(o.label)}
+                  </option>
+                ))}
+              </select>
             </div>
-            <button
-              className="mt-6 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
-              onClick={() => setShowFilters(false)}
-            >
-              적용하기 <ChevronRight className={ICON} />
-            </button>
+            <FilterPanel filters={filters} counts={counts} onChange={setFilters} />
           </div>
-          <div className="flex-1 bg-black/50" onClick={() => setShowFilters(false)} />
-        </div>
+          <button
+            className="mt-4 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+            onClick={resetAll}
+          >
+            <RotateCcw className={ICON} /> {t('filter.reset')}
+          </button>
+          <button
+            className="mt-3 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+            onClick={() => setShowFilters(false)}
+          >
+            {t('shop.showResults', { count: filtered.length })} <ChevronRight className={ICON} />
+          </button>
+        </Drawer>
       )}
       {/* Detail / Compare Modal */}
-      {detail && <DetailModal product={detail} onClose={() => setDetail(null)} onAdd={() => addToCart(detail.id)} />}
-      {/* Cart Drawer (state sync) */}
-      <CartDrawer cart={cart} onQty={setQty} onRemove={removeFromCart} />
+      {detail && (
+        <DetailModal
+          product={detail}
+          products={products}
+          compared={selected}
+          onClose={() => setDetailId(null)}
+          onAdd={addToCart}
+          onToggleCompare={toggleSelect}
+          onDetail={setDetailId}
+          onConfigure={() => setConfiguring(detail)}
+          game={filters.game}
+        />
+      )}
+      {showRecommend && (
+        <RecommendDialog
+          products={products}
+          onClose={() => setShowRecommend(false)}
+          onDetail={setDetailId}
+          onApply={() => setSort('featured')}
+        />
+      )}
+      {compareOpen && compareItems.length > 0 && (
+        <CompareDialog
+          items={compareItems}
+          initialGame={filters.game}
+          onRemove={removeFromCompare}
+          onDetail={setDetailId}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+      {configuring && <ConfiguratorDialog product={configuring} onClose={() => setConfiguring(null)} />}
+      {orders && <OrdersDialog products={products} initialOrderId={orders.orderId} onClose={() => setOrders(null)} />}
+      {showWishlist && (
+        <WishlistDrawer
+          products={products}
+          compareIds={selected}
+          onClose={() => setShowWishlist(false)}
+          onMoveToCart={(id) => addToCart(id)}
+          onCompare={addToCompare}
+          onDetail={(id) => {
+            setShowWishlist(false);
+            setDetailId(id);
+          }}
+        />
+      )}
+      <PriceDropNotice products={products} onOpen={() => setShowWishlist(true)} />
+      <RestockNotice products={products} onOpen={setDetailId} />
+      {cartNotice && (
+        <div
+          className="fixed top-20 left-1/2 -translate-x-1/2 z-[70] px-4 py-2 rounded-xl bg-slate-900/95 ring-1 ring-amber-400/40 shadow-xl text-sm text-amber-200"
+          role="status"
+        >
+          {cartNotice}
+        </div>
+      )}
       {/* Footer */}
       <footer className="border-t border-white/10 py-10 text-center text-sm text-slate-400">
-        © {new Date().getFullYear()} 오기택 • 쇼핑몰 UI
+        {t('shop.footer', { year: String(new Date().getFullYear()) })}
+        <a href={ADMIN_HASH} className="ml-3 underline underline-offset-2 hover:text-slate-200">
+          {t('shop.admin')}
+        </a>
       </footer>
     </div>
   );
 }
 
 // --- Reusable UI ---
-function Card({ children }: { children: React.ReactNode }) {
+function Card({ children, ...props }: React.HTMLAttributes<HTMLDivElement>) {
   return (
-    <div className="group rounded-2xl p-4 ring-1 ring-white/10 bg-white/[0.03] hover:bg-white/[0.05] transition shadow-sm hover:shadow-md">
+    <div
+      {...props}
+      className="group rounded-2xl p-4 ring-1 ring-white/10 bg-white/[0.03] hover:bg-white/[0.05] transition shadow-sm hover:shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+    >
       {children}
     </div>
   );
@@ -421,450 +519,536 @@ function Tag({ children }: { children: React.ReactNode }) {
   );
 }
 
-function SpecRow({ icon, label, value }: { icon: React.ReactNode; label: string; value: string }) {
+function SpecRow({
+  icon,
+  label,
+  value,
+  highlight = NO_HIGHLIGHT,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  highlight?: Highlighter;
+}) {
   return (
     <div className="flex items-center gap-2 text-sm">
       <span className="opacity-70">{icon}</span>
       <span className="opacity-70 w-16">{label}</span>
-      <span className="font-medium">{value}</span>
+      <span className="font-medium">
+        <Highlight text={value} highlighter={highlight} />
+      </span>
     </div>
   );
 }
 
 function ProductCard({
   product,
+  highlight,
   onAdd,
   onDetail,
   selected,
   onSelect,
 }: {
   product: Product;
+  highlight: Highlighter;
   onAdd: () => void;
   onDetail: () => void;
   selected: boolean;
   onSelect: () => void;
 }) {
-  const r = parseRamGB(product.ram);
+  const { t } = useI18n();
+  const l = specLabels(product);
+  const compat = checkBuild(product);
+  const soldOut = isSoldOut(product);
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-start gap-3">
-        <div className="h-16 w-16 rounded-2xl bg-gradient-to-br from-indigo-500/30 to-fuchsia-500/30 ring-1 ring-white/10 flex items-center justify-center text-2xl">
-          {product.img}
-        </div>
+        <ProductThumb product={product} sizes="64px" className="h-16 w-16 rounded-2xl text-2xl" />
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
-            <h3 className="font-semibold truncate">{product.title}</h3>
-            {product.tags?.slice(0, 2).map((t) => (
-              <Tag key={t}>{t}</Tag>
+            <h3 className="font-semibold truncate">
+              <Highlight text={product.title} highlighter={highlight} />
+            </h3>
+            {product.tags?.slice(0, 2).map((tag) => (
+              <Tag key={tag}>
+                <Highlight text={tag} highlighter={highlight} />
+              </Tag>
             ))}
           </div>
-          <div className="text-sm text-slate-400">
-            {product.priceLabel} ({KRW.format(product.price)})
+          <PriceTag product={product} />
+          <div className="mt-1 flex flex-wrap items-center gap-1">
+            <RatingBadge product={product} />
+            <StockBadge product={product} />
+            <PriceDropBadge product={product} />
           </div>
         </div>
+        <WishButton product={product} />
         <button
           className={cx(
             'p-2 rounded-xl ring-1 ring-white/10',
             selected ? 'bg-emerald-500/20 ring-emerald-400/40' : 'bg-transparent'
           )}
           onClick={onSelect}
-          title={selected ? '비교에서 제외' : '비교에 추가'}
+          title={selected ? t('compare.removeShort') : t('compare.add')}
         >
           <GitCompare className={ICON} />
         </button>
       </div>
 
       <div className="mt-4 space-y-2">
-        <SpecRow icon={<Cpu className={ICON} />} label="CPU" value={product.cpu} />
-        <SpecRow icon={<Monitor className={ICON} />} label="GPU" value={product.gpu} />
-        <SpecRow icon={<Gauge className={ICON} />} label="RAM" value={product.ram} />
-        <SpecRow icon={<HardDrive className={ICON} />} label="저장장치" value={product.storage} />
+        <SpecRow icon={<Cpu className={ICON} />} label={t('spec.cpu')} value={l.cpu} highlight={highlight} />
+        <SpecRow icon={<Monitor className={ICON} />} label={t('spec.gpu')} value={l.gpu} highlight={highlight} />
+        <SpecRow icon={<Gauge className={ICON} />} label={t('spec.ram')} value={l.ram} highlight={highlight} />
+        <SpecRow icon={<HardDrive className={ICON} />} label={t('spec.storage')} value={l.storage} highlight={highlight} />
+        <PerfBar product={product} />
       </div>
 
-      <div className="mt-4 flex items-center gap-2">
+      <div className="mt-4 flex flex-wrap items-center gap-2">
         <button
-          className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
           onClick={onAdd}
+          disabled={!compat.ok || soldOut}
+          title={!compat.ok ? t('compat.blocked') : soldOut ? stockLimitMessage(product) : undefined}
         >
-          <ShoppingCart className={ICON} /> 담기
+          <ShoppingCart className={ICON} /> {soldOut ? t('stock.out') : t('product.add')}
         </button>
         <button
           className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
           onClick={onDetail}
         >
-          <Info className={ICON} /> 상세보기
+          <Info className={ICON} /> {t('product.details')}
         </button>
-        {r >= 64 && <Tag>메모리 빵빵</Tag>}
+        {soldOut && <RestockButton product={product} />}
+        {product.ram.capacityGB >= 64 && <Tag>{t('product.bigMemory')}</Tag>}
+      </div>
+    </div>
+  );
+}
+
+// 종합 성능 점수 막대 (0~100, 벤치마크 표 기준)
+function PerfBar({ product }: { product: Product }) {
+  const { t } = useI18n();
+  const score = perfScore(product);
+  const estimated = isEstimated(product);
+  return (
+    <div
+      className="flex items-center gap-2 text-xs"
+      title={
+        t('product.valueTitle', { score: valueScore(product).toFixed(2) }) + (estimated ? t('product.estimated') : '')
+      }
+    >
+      <span className="w-14 shrink-0 text-slate-400">{t('product.perf')}</span>
+      <div
+        className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden"
+        role="meter"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={score}
+        aria-label={t('product.perfLabel')}
+      >
+        <div className="h-full rounded-full bg-gradient-to-r from-indigo-400 to-emerald-400" style={{ width: `${score}%` }} />
       </div>
+      <span className="w-12 text-right tabular-nums">
+        {score.toFixed(0)}
+        {estimated && '*'}
+      </span>
     </div>
   );
 }
 
 function ProductRow({
   product,
+  highlight,
   onAdd,
   onDetail,
   selected,
   onSelect,
 }: {
   product: Product;
+  highlight: Highlighter;
   onAdd: () => void;
   onDetail: () => void;
   selected: boolean;
   onSelect: () => void;
 }) {
+  const { t } = useI18n();
+  const l = specLabels(product);
+  const compat = checkBuild(product);
+  const soldOut = isSoldOut(product);
   return (
     <div className="flex items-center gap-4">
-      <div className="h-14 w-14 rounded-2xl bg-gradient-to-br from-indigo-500/30 to-fuchsia-500/30 ring-1 ring-white/10 flex items-center justify-center text-xl">
-        {product.img}
-      </div>
+      <ProductThumb product={product} sizes="56px" className="h-14 w-14 rounded-2xl text-xl" />
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
-          <h3 className="font-semibold truncate">{product.title}</h3>
-          {product.tags?.slice(0, 2).map((t) => (
-            <Tag key={t}>{t}</Tag>
+          <h3 className="font-semibold truncate">
+            <Highlight text={product.title} highlighter={highlight} />
+          </h3>
+          {product.tags?.slice(0, 2).map((tag) => (
+            <Tag key={tag}>
+              <Highlight text={tag} highlighter={highlight} />
+            </Tag>
           ))}
+          <RatingBadge product={product} />
+          <StockBadge product={product} />
+          <PriceDropBadge product={product} />
         </div>
         <div className="mt-1 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
-          <SpecRow icon={<Cpu className={ICON} />} label="CPU" value={product.cpu} />
-          <SpecRow icon={<Monitor className={ICON} />} label="GPU" value={product.gpu} />
-          <SpecRow icon={<Gauge className={ICON} />} label="RAM" value={product.ram} />
-          <SpecRow icon={<HardDrive className={ICON} />} label="저장장치" value={product.storage} />
+          <SpecRow icon={<Cpu className={ICON} />} label={t('spec.cpu')} value={l.cpu} highlight={highlight} />
+          <SpecRow icon={<Monitor className={ICON} />} label={t('spec.gpu')} value={l.gpu} highlight={highlight} />
+          <SpecRow icon={<Gauge className={ICON} />} label={t('spec.ram')} value={l.ram} highlight={highlight} />
+          <SpecRow icon={<HardDrive className={ICON} />} label={t('spec.storage')} value={l.storage} highlight={highlight} />
+        </div>
+        <div className="mt-2 max-w-md">
+          <PerfBar product={product} />
         </div>
       </div>
       <div className="hidden md:flex flex-col items-end gap-2 w-48">
-        <div className="text-sm text-slate-400">{product.priceLabel}</div>
-        <div className="text-base font-semibold">{KRW.format(product.price)}</div>
+        <PriceTag product={product} align="right" />
         <div className="flex gap-2">
           <button
             className="px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
             onClick={onDetail}
           >
-            상세
+            {t('product.detailsShort')}
           </button>
           <button
-            className="px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+            className="px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
             onClick={onAdd}
+            disabled={!compat.ok || soldOut}
+            title={!compat.ok ? t('compat.blocked') : soldOut ? stockLimitMessage(product) : undefined}
           >
-            담기
+            {soldOut ? t('stock.out') : t('product.add')}
           </button>
+          <WishButton product={product} className="px-3" />
           <button
             className={cx(
               'px-3 py-2 rounded-xl ring-1',
               selected ? 'bg-emerald-500/20 ring-emerald-400/40' : 'bg-transparent ring-white/10'
             )}
             onClick={onSelect}
-            title={selected ? '비교에서 제외' : '비교에 추가'}
+            title={selected ? t('compare.removeShort') : t('compare.add')}
           >
             <GitCompare className={ICON} />
           </button>
         </div>
+        {soldOut && <RestockButton product={product} className="text-sm" />}
       </div>
     </div>
   );
 }
 
 function EmptyState({ onReset }: { onReset: () => void }) {
+  const { t } = useI18n();
   return (
     <div className="rounded-2xl ring-1 ring-white/10 bg-white/[0.03] py-16 text-center">
       <div className="mx-auto h-16 w-16 rounded-2xl bg-transparent ring-1 ring-white/10 flex items-center justify-center">
         <Search className={'h-7 w-7 text-slate-400'} />
       </div>
-      <h3 className="mt-4 text-lg font-semibold">조건에 맞는 상품이 없어요</h3>
-      <p className="mt-1 text-slate-400">필터를 조정하거나 검색어를 바꿔보세요.</p>
+      <h3 className="mt-4 text-lg font-semibold">{t('shop.empty')}</h3>
+      <p className="mt-1 text-slate-400">{t('shop.emptyHint')}</p>
       <button
         className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
         onClick={onReset}
       >
-        초기화 <ChevronRight className={ICON} />
+        {t('shop.reset')} <ChevronRight className={ICON} />
       </button>
     </div>
   );
 }
 
-function CompareBar({ ids, onClear }: { ids: string[]; onClear: () => void }) {
-  if (ids.length === 0) return null;
-  const items = PRODUCTS.filter((p) => ids.includes(p.id));
+function LoadingState() {
+  const { t } = useI18n();
   return (
-    <div
-      className={
-        'absolute right-0 top-0 bottom-0 w-[min(420px,95vw)] ' +
-        'bg-slate-900/95 backdrop-blur border-l border-white/10 ' +
-        'transform transition-transform duration-300 ' +
-        'translate-x-full'
-      }
-    >
-      <div className="h-full flex flex-col rounded-tl-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 p-3 shadow-xl">
-        <div className="flex items-center gap-2 mb-2">
-          <GitCompare className={ICON} />
-          <div className="text-sm font-medium">비교</div>
-          <div className="ml-auto">
-            <button
-              className="px-2 py-1 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10"
-              onClick={onClear}
-            >
-              초기화
-            </button>
-          </div>
-        </div>
-        <div className="flex flex-wrap gap-2">
-          {items.map((p) => (
-            <div key={p.id} className="px-2 py-1 rounded-lg bg-transparent ring-1 ring-white/10 text-xs">
-              {p.title}
-            </div>
-          ))}
-        </div>
-        <div className="mt-auto pt-3">
-          <CompareDialog products={items} />
-        </div>
-      </div>
+    <div className="rounded-2xl ring-1 ring-white/10 bg-white/[0.03] py-16 text-center">
+      <Loader2 className={cx(ICON, 'mx-auto animate-spin')} />
+      <p className="mt-3 text-slate-400">{t('shop.loading')}</p>
     </div>
   );
 }
 
-function TableRow({ label, values }: { label: string; values: string[] }) {
+function ErrorState({ message, onRetry }: { message: string; onRetry: () => void }) {
+  const { t } = useI18n();
   return (
-    <div className="grid grid-cols-[120px_repeat(3,minmax(0,1fr))] gap-3 py-2 px-3 text-sm">
-      <div className="opacity-70">{label}</div>
-      {values.map((v, i) => (
-        <div key={i} className="font-medium">
-          {v}
-        </div>
-      ))}
+    <div className="rounded-2xl ring-1 ring-rose-400/30 bg-rose-500/[0.05] py-16 text-center">
+      <AlertTriangle className="mx-auto h-7 w-7 text-rose-400" />
+      <h3 className="mt-4 text-lg font-semibold">{t('shop.loadError')}</h3>
+      <p className="mt-1 text-slate-400">{message}</p>
+      <button
+        className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+        onClick={onRetry}
+      >
+        <RotateCcw className={ICON} /> {t('common.retry')}
+      </button>
     </div>
   );
 }
 
-function CompareDialog({ products }: { products: Product[] }) {
-  const [open, setOpen] = useState(false);
+// 상품 데이터 파일의 잘못된 행 목록 (해당 행은 목록에서 제외됨)
+function CatalogIssues({ issues }: { issues: CatalogIssue[] }) {
+  const { t } = useI18n();
   return (
-    <>
-      <button
-        className="px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
-        onClick={() => setOpen(true)}
-      >
-        비교하기
-      </button>
-      {open && (
-        <div className="fixed inset-0 z-50 flex">
-          <div className="m-auto w-[min(900px,95vw)] rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 shadow-xl">
-            <div className="flex items-center justify-between p-4 border-b border-white/10">
-              <div className="font-semibold">상품 비교</div>
-              <button className="p-2 hover:bg-transparent rounded-lg" onClick={() => setOpen(false)}>
-                <X className={ICON} />
-              </button>
-            </div>
-            <div className="p-4">
-              <div className="grid grid-cols-[120px_repeat(3,minmax(0,1fr))] gap-3 py-2 px-3 text-sm font-semibold">
-                <div />
-                {products.map((p) => (
-                  <div key={p.id}>{p.title}</div>
-                ))}
-              </div>
-              <div className="divide-y divide-white/10">
-                <TableRow label="가격" values={products.map((p) => `${p.priceLabel} (${KRW.format(p.price)})`)} />
-                <TableRow label="CPU" values={products.map((p) => p.cpu)} />
-                <TableRow label="GPU" values={products.map((p) => p.gpu)} />
-                <TableRow label="RAM" values={products.map((p) => p.ram)} />
-                <TableRow label="저장장치" values={products.map((p) => p.storage)} />
-                <TableRow label="특징" values={products.map((p) => (p.tags || []).join(', '))} />
-              </div>
-            </div>
-          </div>
-          <div className="flex-1 bg-black/50" onClick={() => setOpen(false)} />
-        </div>
-      )}
-    </>
+    <details className="mb-4 rounded-2xl ring-1 ring-amber-400/30 bg-amber-500/[0.05] px-4 py-3 text-sm">
+      <summary className="cursor-pointer text-amber-300">
+        <AlertTriangle className="inline h-4 w-4 mr-1 -mt-0.5" />
+        {t('shop.catalogIssues', { count: issues.length })}
+      </summary>
+      <ul className="mt-2 space-y-1 text-slate-300 list-disc pl-5">
+        {issues.map((i, idx) => (
+          <li key={idx}>{formatIssue(i)}</li>
+        ))}
+      </ul>
+    </details>
   );
 }
 
-function DetailModal({ product, onClose, onAdd }: { product: Product; onClose: () => void; onAdd: () => void }) {
+function DetailModal({
+  product,
+  products,
+  compared,
+  onClose,
+  onAdd,
+  onToggleCompare,
+  onDetail,
+  onConfigure,
+  game: initialGame,
+}: {
+  product: Product;
+  products: Product[];
+  compared: string[];
+  onClose: () => void;
+  onAdd: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  onDetail: (id: string) => void; // 비슷한 상품으로 옮겨 가기
+  onConfigure: () => void;
+  game: string | null;
+}) {
+  const { t } = useI18n();
+  const header = useRef<HTMLDivElement>(null);
+  // 상세를 연 상품은 '최근 본 상품' 에 남긴다. 비슷한 상품으로 옮겨 가면 맨 위부터 다시 보여 준다.
+  useEffect(() => {
+    recordView(product.id);
+    const panel = header.current?.closest<HTMLElement>('[role="dialog"]');
+    panel?.scrollTo({ top: 0 });
+    panel?.focus({ preventScroll: true });
+  }, [product.id]);
+  const l = specLabels(product);
+  const compat = checkBuild(product);
+  const soldOut = isSoldOut(product);
+  const [game, setGame] = useState(initialGame ?? DEFAULT_GAME);
+  const [res, setRes] = useState<Resolution>(FILTER_RESOLUTION);
   return (
-    <div className="fixed inset-0 z-50 flex">
-      <div className="m-auto w-[min(720px,95vw)] rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 shadow-xl">
-        <div className="flex items-center justify-between p-4 border-b border-white/10">
-          <div className="font-semibold">{product.title} 상세 정보</div>
-          <button className="p-2 hover:bg-transparent rounded-lg" onClick={onClose}>
-            <X className={ICON} />
-          </button>
-        </div>
-        <div className="p-6 grid grid-cols-1 sm:grid-cols-[200px_1fr] gap-6">
-          <div className="h-40 rounded-2xl bg-gradient-to-br from-indigo-500/30 to-fuchsia-500/30 ring-1 ring-white/10 flex items-center justify-center text-5xl">
-            {product.img}
-          </div>
-          <div>
-            <div className="text-2xl font-semibold">{KRW.format(product.price)}</div>
-            <div className="text-sm text-slate-400">표기 가격: {product.priceLabel}</div>
-            <div className="mt-4 space-y-2">
-              <SpecRow icon={<Cpu className={ICON} />} label="CPU" value={product.cpu} />
-              <SpecRow icon={<Monitor className={ICON} />} label="GPU" value={product.gpu} />
-              <SpecRow icon={<Gauge className={ICON} />} label="RAM" value={product.ram} />
-              <SpecRow icon={<HardDrive className={ICON} />} label="저장장치" value={product.storage} />
-            </div>
-            <div className="mt-4 flex items-center gap-2">
-              <button
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
-                onClick={onAdd}
-              >
-                <ShoppingCart className={ICON} /> 장바구니 담기
-              </button>
-              <button
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
-                onClick={onClose}
-              >
-                닫기
-              </button>
+    <Dialog onClose={onClose} className="w-[min(720px,95vw)] overflow-y-auto">
+      <div ref={header} className="flex items-center justify-between p-4 border-b border-white/10">
+        <DialogTitle>{t('product.detailTitle', { title: product.title })}</DialogTitle>
+        <WishButton product={product} className="ml-auto mr-1" />
+        <DialogClose />
+      </div>
+      <div className="p-6 grid grid-cols-1 sm:grid-cols-[200px_1fr] gap-6">
+        <ProductGallery key={product.id} product={product} />
+        <div>
+          <div className="flex items-start gap-2">
+            <PriceTag product={product} size="lg" />
+            <div className="mt-1 flex flex-wrap gap-1">
+              <StockBadge product={product} showCount />
+              <PriceDropBadge product={product} />
             </div>
           </div>
+          <div className="text-xs text-slate-400">{t('price.vatIncluded')}</div>
+          <div className="mt-4 space-y-2">
+            <SpecRow icon={<Cpu className={ICON} />} label={t('spec.cpu')} value={l.cpu} />
+            <div className="pl-[5.5rem] -mt-1 text-xs text-slate-400">{cpuDetail(product.cpu)}</div>
+            <SpecRow icon={<Monitor className={ICON} />} label={t('spec.gpu')} value={l.gpu} />
+            <SpecRow icon={<Gauge className={ICON} />} label={t('spec.ram')} value={l.ram} />
+            <SpecRow icon={<HardDrive className={ICON} />} label={t('spec.storage')} value={l.storage} />
+            {product.board && (
+              <SpecRow icon={<CircuitBoard className={ICON} />} label={t('spec.board')} value={boardLabel(product.board)} />
+            )}
+            {product.psu && (
+              <SpecRow icon={<Zap className={ICON} />} label={t('spec.psu')} value={`${product.psu.watts}W`} />
+            )}
+          </div>
+          <div className="mt-4">
+            <CompatPanel report={compat} psuWatts={product.psu?.watts} />
+          </div>
+          <div className="mt-4">
+            <GamePerformance product={product} game={game} res={res} onGame={setGame} onRes={setRes} />
+          </div>
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+              onClick={() => onAdd(product.id)}
+              disabled={!compat.ok || soldOut}
+              title={!compat.ok ? t('compat.blocked') : soldOut ? stockLimitMessage(product) : undefined}
+            >
+              <ShoppingCart className={ICON} /> {soldOut ? t('stock.out') : t('product.addToCart')}
+            </button>
+            {soldOut && <RestockButton product={product} className="px-4" />}
+            <button
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={onConfigure}
+            >
+              <Wrench className={ICON} /> {t('config.open')}
+            </button>
+            <button
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={onClose}
+            >
+              {t('common.close')}
+            </button>
+          </div>
+          <div className="mt-4">
+            <SimilarProducts
+              product={product}
+              products={products}
+              compared={compared}
+              onToggleCompare={onToggleCompare}
+              onAdd={onAdd}
+              onDetail={onDetail}
+            />
+          </div>
+          <div className="mt-4">
+            <ReviewSection product={product} />
+          </div>
         </div>
       </div>
-      <div className="flex-1 bg-black/50" onClick={onClose} />
-    </div>
+    </Dialog>
   );
 }
 
 // --- Cart ---
-function CartButton({ count, amount }: { count: number; amount: number }) {
+function CartButton({ products, onViewOrder }: { products: Product[]; onViewOrder: (orderId: string) => void }) {
   const [open, setOpen] = useState(false);
-  useEffect(() => {
-    const handler = () => setOpen((prev) => prev); // placeholder to mount drawer
-    window.addEventListener('pcshop_cart_refresh', handler);
-    return () => window.removeEventListener('pcshop_cart_refresh', handler);
-  }, []);
+  const { t } = useI18n();
+  const { formatKrw } = useMoney();
+  const [checkout, setCheckout] = useState(false);
+  const { cart } = useCart();
+  const count = cartCount(cart);
+  const amount = priceCart(cart, products).total;
   return (
     <>
       <button
         className="relative inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
         onClick={() => setOpen(true)}
-        title="장바구니 열기"
+        title={t('cart.open')}
       >
         <ShoppingCart className={ICON} />
         <span className="text-sm tabular-nums">{count}</span>
-        {amount > 0 && <span className="text-xs text-slate-400">{KRW.format(amount)}</span>}
+        {amount > 0 && <span className="text-xs text-slate-400">{formatKrw(amount)}</span>}
       </button>
-      {open && <CartDrawerOpen onClose={() => setOpen(false)} />}
+      {open && (
+        <Drawer side="right" onClose={() => setOpen(false)} className="w-[min(420px,95vw)]">
+          <CartPanel
+            products={products}
+            onCheckout={() => {
+              setOpen(false);
+              setCheckout(true);
+            }}
+          />
+        </Drawer>
+      )}
+      {checkout && (
+        <CheckoutDialog
+          products={products}
+          onClose={() => setCheckout(false)}
+          onViewOrder={(orderId) => {
+            setCheckout(false);
+            onViewOrder(orderId);
+          }}
+        />
+      )}
     </>
   );
 }
 
-function CartDrawerOpen({ onClose }: { onClose: () => void }) {
-  const [mounted, setMounted] = useState(false);
-  useEffect(() => {
-    setMounted(true);
-  }, []);
-
-  return (
-    <div className="fixed inset-0 z-50">
-      {/* overlay */}
-      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
-
-      {/* right panel */}
-      <div
-        className={
-          'absolute right-0 top-0 bottom-0 w-[min(420px,95vw)] ' +
-          'bg-slate-900/95 backdrop-blur border-l border-white/10 ' +
-          'transform transition-transform duration-300 ' +
-          (mounted ? 'translate-x-110' : 'translate-x-full')
-        }
-      >
-        <CartPanel onClose={onClose} />
-      </div>
-    </div>
-  );
-}
-
-function CartDrawer({
-  cart,
-  onQty,
-  onRemove,
-}: {
-  cart: Record<string, number>;
-  onQty: (id: string, qty: number) => void;
-  onRemove: (id: string) => void;
-}) {
-  // Hidden persistent drawer container (keeps state in sync & provides API)
-  useEffect(() => {
-    (window as any).pcshop_setQty = onQty;
-    (window as any).pcshop_remove = onRemove;
-    window.dispatchEvent(new Event('pcshop_cart_refresh'));
-  }, [onQty, onRemove, cart]);
-  return null;
-}
+function CartPanel({ products, onCheckout }: { products: Product[]; onCheckout: () => void }) {
+  const { locale, t } = useI18n();
+  const { formatKrw } = useMoney();
+  const { cart, dispatch } = useCart();
+  const sync = useCartSync();
 
-function CartPanel({ onClose }: { onClose: () => void }) {
-  const [cart, setCartState] = useState<Record<string, number>>(() => {
-    try {
-      return JSON.parse(localStorage.getItem('pcshop_cart') || '{}');
-    } catch {
-      return {};
-    }
-  });
-  useEffect(() => {
-    const sync = () => setCartState(JSON.parse(localStorage.getItem('pcshop_cart') || '{}'));
-    window.addEventListener('storage', sync);
-    window.addEventListener('pcshop_cart_refresh', sync);
-    return () => {
-      window.removeEventListener('storage', sync);
-      window.removeEventListener('pcshop_cart_refresh', sync);
-    };
-  }, []);
-
-  const setQty = (id: string, qty: number) => {
-    (window as any).pcshop_setQty?.(id, qty);
-    setTimeout(() => window.dispatchEvent(new Event('pcshop_cart_refresh')), 0);
-  };
-  const remove = (id: string) => {
-    (window as any).pcshop_remove?.(id);
-    setTimeout(() => window.dispatchEvent(new Event('pcshop_cart_refresh')), 0);
-  };
-
-  const entries = Object.entries(cart);
-  const total = entries.reduce((sum, [id, q]) => {
-    const p = PRODUCTS.find((x) => x.id === id);
-    return p ? sum + p.price * q : sum;
-  }, 0);
+  // 카탈로그에서 빠진 상품은 장바구니 표시에서 제외 (priceCart 가 걸러 준다)
+  const pricing = priceCart(cart, products);
+  const lines = pricing.lines;
 
   return (
-    <div className="h-[50dvh] flex min-h-0 flex-col">
+    <div className="flex-1 flex min-h-0 flex-col">
       <div className="flex items-center justify-between p-4 border-b border-white/10">
-        <div className="font-semibold">장바구니</div>
-        <button className="p-2 hover:bg-transparent rounded-lg" onClick={onClose}>
-          <X className={ICON} />
-        </button>
+        <DialogTitle>{t('cart.title')}</DialogTitle>
+        <div className="flex items-center gap-1">
+          {cart.lines.length > 0 && (
+            <button
+              className="px-2 py-1 text-xs rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => dispatch({ type: 'clear' })}
+            >
+              {t('cart.clear')}
+            </button>
+          )}
+          <DialogClose />
+        </div>
       </div>
       <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
-        {entries.length === 0 ? (
-          <div className="text-sm text-slate-400">담긴 상품이 없습니다.</div>
+        {sync.status === 'error' && (
+          <div className="flex items-center gap-2 text-sm text-rose-300" role="alert">
+            <span className="flex-1">{t('cart.syncError', { message: sync.error ?? '' })}</span>
+            <button
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10 text-slate-200"
+              onClick={() => void retryCartSync()}
+            >
+              <RotateCcw className="h-3.5 w-3.5" /> {t('common.retry')}
+            </button>
+          </div>
+        )}
+        {sync.status === 'loading' && lines.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <Loader2 className="h-4 w-4 animate-spin" /> {t('cart.loading')}
+          </div>
+        ) : lines.length === 0 ? (
+          <div className="text-sm text-slate-400">{t('cart.empty')}</div>
         ) : (
-          entries.map(([id, q]) => {
-            const p = PRODUCTS.find((x) => x.id === id)!;
+          lines.map(({ line, product: p, unit, listUnit }) => {
+            const q = line.qty;
+            // 같은 상품의 다른 구성 라인까지 합쳐서 재고 한도를 본다
+            const inCart = productQty(cart, p.id);
+            const max = maxCartQty(p);
             return (
-              <div key={id} className="flex items-center gap-3 p-3 rounded-xl bg-transparent ring-1 ring-white/10">
-                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-indigo-500/30 to-fuchsia-500/30 ring-1 ring-white/10 flex items-center justify-center text-xl">
-                  {p.img}
-                </div>
+              <div key={line.key} className="flex items-center gap-3 p-3 rounded-xl bg-transparent ring-1 ring-white/10">
+                <ProductThumb product={p} sizes="48px" className="h-12 w-12 rounded-xl text-xl" />
                 <div className="min-w-0 flex-1">
                   <div className="font-medium truncate">{p.title}</div>
+                  {line.build && <BuildSummary build={line.build} />}
                   <div className="text-xs text-slate-400">
-                    {p.priceLabel} · {KRW.format(p.price)}
+                    {unit < listUnit && <span className="mr-1 line-through">{formatKrw(listUnit)}</span>}
+                    {formatKrw(unit)}
+                    {locale === 'ko' && ` · ${manwonLabel(unit)}`}
                   </div>
+                  {inCart >= max && (
+                    <div className={cx('text-xs', inCart > max ? 'text-rose-300' : 'text-amber-300')}>
+                      {inCart <= max
+                        ? t('stock.cartMax', { count: max })
+                        : max === 0
+                          ? t('stock.cartSoldOut')
+                          : t('stock.cartOnly', { count: max })}
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <button
                     className="p-2 rounded-lg bg-transparent ring-1 ring-white/10"
-                    onClick={() => setQty(id, Math.max(0, q - 1))}
+                    onClick={() => dispatch({ type: 'setQty', key: line.key, qty: q - 1, stock: p.stock })}
                   >
                     <Minus className={ICON} />
                   </button>
                   <span className="w-6 text-center tabular-nums">{q}</span>
                   <button
-                    className="p-2 rounded-lg bg-transparent ring-1 ring-white/10"
-                    onClick={() => setQty(id, q + 1)}
+                    className="p-2 rounded-lg bg-transparent ring-1 ring-white/10 disabled:opacity-40"
+                    onClick={() => dispatch({ type: 'setQty', key: line.key, qty: q + 1, stock: p.stock })}
+                    disabled={inCart >= max}
+                    title={inCart >= max ? stockLimitMessage(p) : undefined}
                   >
                     <Plus className={ICON} />
                   </button>
                 </div>
-                <button className="p-2 rounded-lg bg-transparent ring-1 ring-white/10" onClick={() => remove(id)}>
+                <button className="p-2 rounded-lg bg-transparent ring-1 ring-white/10" onClick={() => dispatch({ type: 'remove', key: line.key })}>
                   <Trash2 className={ICON} />
                 </button>
               </div>
@@ -873,15 +1057,14 @@ function CartPanel({ onClose }: { onClose: () => void }) {
         )}
       </div>
       <div className="border-t border-white/10 p-4 space-y-3">
-        <div className="flex items-center justify-between text-sm">
-          <span className="opacity-80">총액</span>
-          <span className="font-semibold">{KRW.format(total)}</span>
-        </div>
+        {lines.length > 0 && <CouponField pricing={pricing} />}
+        <PriceBreakdown pricing={pricing} />
         <button
           className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-500/20 ring-1 ring-inset ring-emerald-400/50 hover:bg-emerald-500/30 disabled:opacity-50"
-          disabled={entries.length === 0}
+          disabled={lines.length === 0 || sync.status === 'loading'}
+          onClick={onCheckout}
         >
-          <Check className={ICON} /> 결제 진행 (데모)
+          <Check className={ICON} /> {t('cart.checkout')}
         </button>
       </div>
     </div>
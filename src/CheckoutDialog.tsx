@@ -0,0 +1,609 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  CreditCard,
+  Loader2,
+  PackageCheck,
+  RotateCcw,
+  Truck,
+} from 'lucide-react';
+import { errorMessage, type StockShortage } from './api';
+import type { Product } from './catalog';
+import { useCart, type CartState } from './cart';
+import { catalogAdapter, refreshCatalog, type CatalogAdapter } from './catalogSource';
+import { formatStockIssue, stockIssues, stockTable } from './inventory';
+import { BuildSummary } from './Configurator';
+import { ProductThumb } from './ProductImage';
+import {
+  DELIVERY_OPTIONS,
+  EMPTY_SHIPPING,
+  createOrderId,
+  deliveryFee,
+  formatPhone,
+  validateShipping,
+  type DeliveryOption,
+  type ShippingErrors,
+  type ShippingInfo,
+} from './checkout';
+import { checkStock, placeOrder, stockShortage, type Order } from './orders';
+import { priceCart } from './pricing';
+import { CouponField, PriceBreakdown } from './PriceTag';
+import {
+  MOCK_OUTCOMES,
+  PAYMENT_METHODS,
+  createMockPaymentProvider,
+  requestWithTimeout,
+  type MockOutcome,
+  type PaymentMethod,
+  type PaymentProvider,
+} from './payment';
+import { useMoney } from './currency';
+import { t, useI18n } from './i18n';
+import type { MessageKey } from './messages';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { ICON, cx } from './utils';
+
+// --- Checkout flow ---
+// 장바구니 확인 → 배송지 → 배송 방법 → 결제 수단 → 주문 완료
+type Step = 'review' | 'shipping' | 'delivery' | 'payment' | 'done';
+
+const STEPS: { key: Step; label: MessageKey }[] = [
+  { key: 'review', label: 'checkout.step.review' },
+  { key: 'shipping', label: 'checkout.step.shipping' },
+  { key: 'delivery', label: 'checkout.step.delivery' },
+  { key: 'payment', label: 'checkout.step.payment' },
+  { key: 'done', label: 'checkout.step.done' },
+];
+
+type PayState =
+  | { status: 'idle' }
+  | { status: 'processing' }
+  | { status: 'failed'; message: string }
+  | { status: 'approved'; orderId: string; transactionId: string; amount: number };
+
+// 결제 승인 뒤 주문 내역을 서버에 남기는 단계. 실패해도 결제는 끝났으므로 완료 화면에서 재시도한다.
+// 그 사이 재고가 팔려 서버가 주문을 받지 않으면 결제를 취소(voiding)하고 장바구니 확인 단계로 돌아간다.
+type OrderSave = { status: 'saving' | 'saved' | 'voiding' } | { status: 'error'; message: string };
+
+// 결제한 주문과 결제 당시의 장바구니 (결제를 취소하면 장바구니를 되돌린다)
+type Placed = { order: Order; cart: CartState };
+
+// 서버가 알려 준 남은 수량을 목록에 덮어쓴다 (다시 읽은 카탈로그에 아직 반영되지 않았을 수 있다)
+const withShortage = (products: Product[], items: StockShortage[]) =>
+  products.map((p) => {
+    const short = items.find((i) => i.productId === p.id);
+    return short ? { ...p, stock: short.available } : p;
+  });
+
+export function CheckoutDialog({
+  products,
+  provider,
+  catalog = catalogAdapter,
+  onClose,
+  onViewOrder,
+}: {
+  products: Product[];
+  provider?: PaymentProvider; // 없으면 데모용 mock provider 를 쓴다
+  catalog?: CatalogAdapter; // 재고 재확인용 (기본: 매장과 같은 어댑터)
+  onClose: () => void;
+  onViewOrder?: (orderId: string) => void;
+}) {
+  const { t } = useI18n();
+  const { formatKrw } = useMoney();
+  const { cart, dispatch } = useCart();
+  const [step, setStep] = useState<Step>('review');
+  const [shipping, setShipping] = useState<ShippingInfo>(EMPTY_SHIPPING);
+  const [shippingErrors, setShippingErrors] = useState<ShippingErrors>({});
+  const [delivery, setDelivery] = useState<DeliveryOption>('standard');
+  const [method, setMethod] = useState<PaymentMethod>('card');
+  const [mockOutcome, setMockOutcome] = useState<MockOutcome>('approve');
+  const [pay, setPay] = useState<PayState>({ status: 'idle' });
+  const [placed, setPlaced] = useState<Placed | null>(null);
+  const [orderSave, setOrderSave] = useState<OrderSave>({ status: 'saving' });
+  const [notice, setNotice] = useState<MessageKey | null>(null); // 재고 때문에 장바구니 확인 단계로 돌아온 이유
+  // 결제 창을 열 때와 결제 직전에 최신 카탈로그로 재고를 다시 확인한다 (읽기 실패 시 화면의 목록 기준)
+  const [latest, setLatest] = useState<Product[] | null>(null);
+  const loadLatest = useCallback(
+    (signal?: AbortSignal) =>
+      catalog.load(signal).then(
+        (r) => r.products,
+        () => products
+      ),
+    [catalog, products]
+  );
+
+  // 창을 열 때 (그리고 매장 목록이 다시 읽혔을 때) 확인한다
+  useEffect(() => {
+    const ctrl = new AbortController();
+    loadLatest(ctrl.signal).then((p) => {
+      if (!ctrl.signal.aborted) setLatest(p);
+    });
+    return () => ctrl.abort();
+  }, [loadLatest]);
+
+  const pricing = priceCart(cart, products);
+  const lines = pricing.lines;
+  const fee = deliveryFee(delivery);
+  const total = pricing.total + fee;
+  const stock = latest ?? products;
+  const issues = stockIssues(cart, stock);
+  const stepIndex = STEPS.findIndex((s) => s.key === step);
+  const busy = pay.status === 'processing';
+  const payProvider = provider ?? createMockPaymentProvider({ outcome: mockOutcome });
+
+  const goShippingNext = () => {
+    const errs = validateShipping(shipping);
+    setShippingErrors(errs);
+    if (Object.keys(errs).length === 0) {
+      setShipping((s) => ({ ...s, phone: formatPhone(s.phone) }));
+      setStep('delivery');
+    }
+  };
+
+  // 모자란 상품을 보여 주도록 장바구니 확인 단계로 돌아간다
+  const backToReview = async (items: StockShortage[], reason: MessageKey) => {
+    setLatest(withShortage(await loadLatest(), items));
+    setNotice(reason);
+    setPay({ status: 'idle' });
+    setStep('review');
+  };
+
+  const storeOrder = async (paid: Placed) => {
+    setOrderSave({ status: 'saving' });
+    try {
+      await placeOrder(paid.order);
+      setOrderSave({ status: 'saved' });
+      refreshCatalog(); // 주문한 만큼 줄어든 재고를 매장 목록에 반영
+    } catch (e) {
+      const short = stockShortage(e);
+      if (short) return voidOrder(paid, short);
+      setOrderSave({ status: 'error', message: t('checkout.orderSaveError', { error: errorMessage(e) }) });
+    }
+  };
+
+  // 결제한 사이에 재고가 팔려 주문을 접수하지 못했다. 결제를 취소하고 장바구니를 되돌린다.
+  const voidOrder = async (paid: Placed, items: StockShortage[]) => {
+    setOrderSave({ status: 'voiding' });
+    try {
+      await payProvider.cancelPayment(paid.order.payment.transactionId);
+    } catch (e) {
+      // 완료 화면의 재시도는 주문 저장부터 다시 한다 (여전히 재고가 모자라면 다시 취소를 시도)
+      setOrderSave({ status: 'error', message: t('checkout.voidError', { error: errorMessage(e) }) });
+      return;
+    }
+    dispatch({ type: 'restore', cart: paid.cart });
+    setPlaced(null);
+    setOrderSave({ status: 'saving' });
+    refreshCatalog();
+    await backToReview(items, 'checkout.stockVoided');
+  };
+
+  const submitPayment = async () => {
+    const orderId = createOrderId();
+    setNotice(null);
+    setPay({ status: 'processing' });
+    const fresh = await loadLatest();
+    setLatest(fresh);
+    if (stockIssues(cart, fresh).length > 0) {
+      // 그 사이 재고가 줄었으면 결제하지 않고 장바구니 확인 단계로 돌려보낸다
+      setPay({ status: 'idle' });
+      setStep('review');
+      return;
+    }
+    // 서버에서도 재고를 확인한 뒤에 결제한다
+    try {
+      await checkStock(lines.map(({ line }) => ({ productId: line.productId, qty: line.qty })));
+    } catch (e) {
+      const short = stockShortage(e);
+      if (short) return backToReview(short, 'checkout.stockChanged');
+      setPay({ status: 'failed', message: t('checkout.stockCheckError', { error: errorMessage(e) }) });
+      return;
+    }
+    const result = await requestWithTimeout(payProvider, {
+      orderId,
+      amount: total,
+      method,
+      customerName: shipping.recipient,
+    });
+    if (result.status === 'approved') {
+      const order: Order = {
+        id: orderId,
+        placedAt: result.approvedAt,
+        lines: lines.map(({ line, product, unit }) => ({
+          productId: product.id,
+          title: product.title,
+          img: product.img,
+          unitPrice: unit,
+          qty: line.qty,
+          ...(line.build ? { build: line.build } : {}),
+        })),
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        ...(pricing.coupon?.status === 'applied' ? { couponCode: pricing.coupon.coupon.code } : {}),
+        deliveryFee: fee,
+        total,
+        delivery,
+        shipping,
+        payment: { method, transactionId: result.transactionId },
+      };
+      const paid = { order, cart }; // cart: 이 결제를 시작할 때의 장바구니
+      setPlaced(paid);
+      setPay({ status: 'approved', orderId, transactionId: result.transactionId, amount: total });
+      dispatch({ type: 'clear' });
+      setStep('done');
+      void storeOrder(paid);
+    } else if (result.status === 'declined') {
+      setPay({ status: 'failed', message: t('checkout.declined', { reason: result.reason }) });
+    } else {
+      setPay({ status: 'failed', message: t('checkout.timeout') });
+    }
+  };
+
+  return (
+    <Dialog onClose={onClose} closable={!busy} className="w-[min(720px,95vw)] flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <DialogTitle>{t('checkout.title')}</DialogTitle>
+        <DialogClose />
+      </div>
+
+      <ol className="flex items-center gap-1 px-4 pt-3 text-xs">
+        {STEPS.map((s, i) => (
+          <li key={s.key} className="flex items-center gap-1">
+            <span
+              className={cx(
+                'inline-flex h-5 w-5 items-center justify-center rounded-full ring-1 ring-inset tabular-nums',
+                i < stepIndex && 'bg-emerald-500/30 ring-emerald-400/50',
+                i === stepIndex && 'bg-indigo-500/30 ring-indigo-400/60',
+                i > stepIndex && 'ring-white/15 opacity-60'
+              )}
+            >
+              {i < stepIndex ? <Check className="h-3 w-3" /> : i + 1}
+            </span>
+            <span className={cx(i === stepIndex ? 'font-medium' : 'opacity-60')}>{t(s.label)}</span>
+            {i < STEPS.length - 1 && <ChevronRight className="h-3 w-3 opacity-40" />}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4">
+        {step === 'review' && (
+          <div className="space-y-3">
+            {lines.length === 0 && <div className="text-sm text-slate-400">{t('cart.empty')}</div>}
+            {notice && (
+              <div className="flex items-start gap-2 rounded-xl ring-1 ring-rose-400/30 bg-rose-500/[0.06] p-3 text-sm text-rose-300">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {t(notice)}
+              </div>
+            )}
+            {issues.length > 0 && (
+              <div className="rounded-xl ring-1 ring-amber-400/30 bg-amber-500/[0.06] p-3 text-sm space-y-2" role="alert">
+                <div className="flex items-center gap-2 font-medium text-amber-300">
+                  <AlertTriangle className="h-4 w-4" /> {t('checkout.stockAlert')}
+                </div>
+                <ul className="list-disc pl-5 space-y-1">
+                  {issues.map((i) => (
+                    <li key={i.product.id}>{formatStockIssue(i)}</li>
+                  ))}
+                </ul>
+                <div className="flex justify-end">
+                  <button
+                    className="px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+                    onClick={() => dispatch({ type: 'fitStock', stock: stockTable(stock) })}
+                  >
+                    {t('checkout.fitStock')}
+                  </button>
+                </div>
+              </div>
+            )}
+            {lines.map(({ line, product, unit, total: lineTotal }) => (
+              <div key={line.key} className="flex items-center gap-3 p-3 rounded-xl ring-1 ring-white/10">
+                <ProductThumb product={product} sizes="40px" className="h-10 w-10 rounded-lg text-xl" />
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium truncate">{product.title}</div>
+                  {line.build && <BuildSummary build={line.build} />}
+                  <div className="text-xs text-slate-400">
+                    {formatKrw(unit)} × {line.qty}
+                  </div>
+                </div>
+                <div className="font-medium tabular-nums">{formatKrw(lineTotal)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'shipping' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label={t('checkout.recipient')} error={shippingErrors.recipient}>
+              <TextInput
+                value={shipping.recipient}
+                onChange={(v) => setShipping({ ...shipping, recipient: v })}
+                autoComplete="name"
+              />
+            </Field>
+            <Field label={t('checkout.phone')} error={shippingErrors.phone}>
+              <TextInput
+                value={shipping.phone}
+                onChange={(v) => setShipping({ ...shipping, phone: v })}
+                placeholder="010-1234-5678"
+                inputMode="tel"
+                autoComplete="tel"
+              />
+            </Field>
+            <Field label={t('checkout.postalCode')} error={shippingErrors.postalCode}>
+              <TextInput
+                value={shipping.postalCode}
+                onChange={(v) => setShipping({ ...shipping, postalCode: v.replace(/\D/g, '').slice(0, 5) })}
+                placeholder="06236"
+                inputMode="numeric"
+                autoComplete="postal-code"
+              />
+            </Field>
+            <div className="hidden sm:block" />
+            <Field label={t('checkout.address1')} error={shippingErrors.address1} wide>
+              <TextInput
+                value={shipping.address1}
+                onChange={(v) => setShipping({ ...shipping, address1: v })}
+                placeholder={t('checkout.address1Placeholder')}
+                autoComplete="address-line1"
+              />
+            </Field>
+            <Field label={t('checkout.address2')} error={shippingErrors.address2} wide>
+              <TextInput
+                value={shipping.address2}
+                onChange={(v) => setShipping({ ...shipping, address2: v })}
+                placeholder={t('checkout.address2Placeholder')}
+                autoComplete="address-line2"
+              />
+            </Field>
+            <Field label={t('checkout.memo')} wide>
+              <TextInput
+                value={shipping.memo}
+                onChange={(v) => setShipping({ ...shipping, memo: v })}
+                placeholder={t('checkout.memoPlaceholder')}
+              />
+            </Field>
+          </div>
+        )}
+
+        {step === 'delivery' && (
+          <div className="space-y-2" role="radiogroup" aria-label={t('checkout.step.delivery')}>
+            {DELIVERY_OPTIONS.map((o) => (
+              <ChoiceCard
+                key={o.value}
+                checked={delivery === o.value}
+                onSelect={() => setDelivery(o.value)}
+                icon={<Truck className={ICON} />}
+                title={t(o.label)}
+                hint={t(o.eta)}
+                aside={o.fee === 0 ? t('price.free') : formatKrw(o.fee)}
+              />
+            ))}
+          </div>
+        )}
+
+        {step === 'payment' && (
+          <div className="space-y-4">
+            <div className="space-y-2" role="radiogroup" aria-label={t('payment.method')}>
+              {PAYMENT_METHODS.map((m) => (
+                <ChoiceCard
+                  key={m.value}
+                  checked={method === m.value}
+                  onSelect={() => setMethod(m.value)}
+                  icon={<CreditCard className={ICON} />}
+                  title={t(m.label)}
+                  hint={t(m.hint)}
+                />
+              ))}
+            </div>
+            {!provider && (
+              <label className="block text-sm">
+                <span className="opacity-80">{t('checkout.mockOutcome')}</span>
+                <select
+                  value={mockOutcome}
+                  onChange={(e) => setMockOutcome(e.target.value as MockOutcome)}
+                  className="mt-1 bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm w-full"
+                >
+                  {MOCK_OUTCOMES.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {t(o.label)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <div className="rounded-xl ring-1 ring-white/10 p-3 text-sm space-y-1">
+              <div className="opacity-80">
+                {shipping.recipient} · {shipping.phone}
+              </div>
+              <div className="opacity-80">
+                ({shipping.postalCode}) {shipping.address1} {shipping.address2}
+              </div>
+            </div>
+            {pay.status === 'failed' && (
+              <div className="flex items-start gap-2 rounded-xl ring-1 ring-rose-400/30 bg-rose-500/[0.06] p-3 text-sm text-rose-300">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {pay.message}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && pay.status === 'approved' && (
+          <div className="py-6 text-center">
+            <PackageCheck className="mx-auto h-10 w-10 text-emerald-400" />
+            <h3 className="mt-3 text-lg font-semibold">{t('checkout.done')}</h3>
+            <p className="mt-1 text-slate-400">{t('checkout.doneHint')}</p>
+            <div className="mt-4 inline-block text-left rounded-xl ring-1 ring-white/10 px-4 py-3 text-sm space-y-1">
+              <div>
+                {t('checkout.orderId')} <span className="font-semibold tabular-nums">{pay.orderId}</span>
+              </div>
+              <div>{t('checkout.paidAmount', { amount: formatKrw(pay.amount) })}</div>
+              <div className="text-xs text-slate-400">{t('checkout.approval', { id: pay.transactionId })}</div>
+            </div>
+            {orderSave.status === 'saving' && (
+              <p className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-400">
+                <Loader2 className="h-4 w-4 animate-spin" /> {t('checkout.orderSaving')}
+              </p>
+            )}
+            {orderSave.status === 'voiding' && (
+              <p className="mt-3 flex items-center justify-center gap-2 text-sm text-amber-200">
+                <Loader2 className="h-4 w-4 animate-spin" /> {t('checkout.orderVoiding')}
+              </p>
+            )}
+            {orderSave.status === 'error' && placed && (
+              <div className="mt-4 mx-auto max-w-md flex items-start gap-2 rounded-xl ring-1 ring-amber-400/30 bg-amber-500/[0.06] p-3 text-left text-sm text-amber-200">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div className="flex-1">
+                  {orderSave.message}
+                  <button
+                    className="mt-2 flex items-center gap-1 px-3 py-1.5 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+                    onClick={() => storeOrder(placed)}
+                  >
+                    <RotateCcw className="h-4 w-4" /> {t('common.retry')}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-white/10 p-4 space-y-3">
+        {step === 'review' && lines.length > 0 && <CouponField pricing={pricing} />}
+        {step !== 'done' && <PriceBreakdown pricing={pricing} deliveryFee={stepIndex >= 2 ? fee : undefined} />}
+        <div className="flex items-center gap-2">
+          {stepIndex > 0 && step !== 'done' && (
+            <button
+              className="inline-flex items-center gap-1 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => setStep(STEPS[stepIndex - 1].key)}
+              disabled={busy}
+            >
+              <ChevronLeft className={ICON} /> {t('checkout.back')}
+            </button>
+          )}
+          <div className="ml-auto" />
+          {step === 'review' && (
+            <PrimaryButton disabled={lines.length === 0 || issues.length > 0} onClick={() => setStep('shipping')}>
+              {t('checkout.toShipping')}
+            </PrimaryButton>
+          )}
+          {step === 'shipping' && <PrimaryButton onClick={goShippingNext}>{t('checkout.toDelivery')}</PrimaryButton>}
+          {step === 'delivery' && <PrimaryButton onClick={() => setStep('payment')}>{t('checkout.toPayment')}</PrimaryButton>}
+          {step === 'payment' && (
+            <PrimaryButton disabled={busy} onClick={submitPayment}>
+              {busy ? <Loader2 className={cx(ICON, 'animate-spin')} /> : <Check className={ICON} />}
+              {t('checkout.pay', { amount: formatKrw(total) })}
+            </PrimaryButton>
+          )}
+          {step === 'done' && pay.status === 'approved' && onViewOrder && (
+            <button
+              className="inline-flex items-center gap-1 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50"
+              onClick={() => onViewOrder(pay.orderId)}
+              disabled={orderSave.status !== 'saved'}
+            >
+              {t('checkout.viewOrder')}
+            </button>
+          )}
+          {step === 'done' && <PrimaryButton onClick={onClose}>{t('checkout.continue')}</PrimaryButton>}
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+function Field({
+  label,
+  error,
+  wide,
+  children,
+}: {
+  label: string;
+  error?: MessageKey;
+  wide?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className={cx('block text-sm', wide && 'sm:col-span-2')}>
+      <span className="opacity-80">{label}</span>
+      <div className="mt-1">{children}</div>
+      {error && <span className="mt-1 block text-xs text-rose-300">{t(error)}</span>}
+    </label>
+  );
+}
+
+function TextInput({
+  value,
+  onChange,
+  ...rest
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+  autoComplete?: string;
+}) {
+  return (
+    <input
+      {...rest}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 outline-none focus:ring-indigo-400/60 placeholder:text-slate-500"
+    />
+  );
+}
+
+function ChoiceCard({
+  checked,
+  onSelect,
+  icon,
+  title,
+  hint,
+  aside,
+}: {
+  checked: boolean;
+  onSelect: () => void;
+  icon: React.ReactNode;
+  title: string;
+  hint: string;
+  aside?: string;
+}) {
+  return (
+    <button
+      role="radio"
+      aria-checked={checked}
+      onClick={onSelect}
+      className={cx(
+        'w-full flex items-center gap-3 p-3 rounded-xl text-left ring-1 ring-inset',
+        checked ? 'bg-indigo-500/15 ring-indigo-400/50' : 'bg-transparent ring-white/10 hover:bg-white/5'
+      )}
+    >
+      <span className="opacity-80">{icon}</span>
+      <span className="flex-1">
+        <span className="block font-medium">{title}</span>
+        <span className="block text-xs text-slate-400">{hint}</span>
+      </span>
+      {aside && <span className="text-sm tabular-nums">{aside}</span>}
+    </button>
+  );
+}
+
+function PrimaryButton({
+  disabled,
+  onClick,
+  children,
+}: {
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-emerald-500/20 ring-1 ring-inset ring-emerald-400/50 hover:bg-emerald-500/30 disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Check, GitCompare, Link2, Trophy, X } from 'lucide-react';
+import type { Product } from './catalog';
+import { COMPARE_LIMIT, bestIndexes, compareRows, compareShareUrl, isUniform } from './compare';
+import { DEFAULT_GAME, FILTER_RESOLUTION, GAMES, findGame, type Resolution } from './games';
+import { GamePicker } from './GamePerformance';
+import { useCurrency } from './currency';
+import { useI18n } from './i18n';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { ICON, cx } from './utils';
+
+// --- Compare tray (화면 하단) ---
+export function CompareBar({
+  items,
+  notice,
+  onRemove,
+  onClear,
+  onOpen,
+}: {
+  items: Product[];
+  notice: string | null;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpen: () => void;
+}) {
+  const { t } = useI18n();
+  if (items.length === 0) return null;
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-30 p-3 pointer-events-none">
+      <div className="pointer-events-auto max-w-7xl mx-auto rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 shadow-xl p-3 flex items-center gap-3">
+        <GitCompare className={cx(ICON, 'shrink-0')} />
+        <div className="text-sm font-medium shrink-0 tabular-nums">
+          {t('compare.tray', { count: items.length, limit: COMPARE_LIMIT })}
+        </div>
+        <div className="flex-1 min-w-0 flex gap-2 overflow-x-auto">
+          {items.map((p) => (
+            <span
+              key={p.id}
+              className="shrink-0 inline-flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg ring-1 ring-white/10 text-xs"
+            >
+              {p.title}
+              <button
+                className="p-0.5 rounded bg-transparent hover:bg-white/10"
+                onClick={() => onRemove(p.id)}
+                aria-label={t('compare.remove', { title: p.title })}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+        {notice && (
+          <div className="hidden sm:block text-xs text-amber-300 shrink-0" role="status">
+            {notice}
+          </div>
+        )}
+        <button
+          className="shrink-0 px-2 py-1 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10 text-sm"
+          onClick={onClear}
+        >
+          {t('compare.reset')}
+        </button>
+        <button
+          className="shrink-0 px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+          onClick={onOpen}
+          disabled={items.length < 2}
+          title={items.length < 2 ? t('compare.needTwo') : undefined}
+        >
+          {t('compare.open')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// --- Compare dialog ---
+export function CompareDialog({
+  items,
+  initialGame,
+  onRemove,
+  onDetail,
+  onClose,
+}: {
+  items: Product[];
+  initialGame: string | null;
+  onRemove: (id: string) => void;
+  onDetail: (id: string) => void; // 상세 보기는 비교 창 위에 겹쳐 열린다
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  useCurrency(); // 가격 행은 표시 통화를 따른다
+  const [diffOnly, setDiffOnly] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [game, setGame] = useState(initialGame ?? DEFAULT_GAME);
+  const [res, setRes] = useState<Resolution>(FILTER_RESOLUTION);
+  const g = findGame(game) ?? GAMES[0];
+
+  const rows = compareRows(g, res);
+  const visible = diffOnly && items.length > 1 ? rows.filter((r) => !isUniform(r, items)) : rows;
+  // 상품 열은 최소 폭을 두고 넘치면 가로 스크롤
+  const columns = { gridTemplateColumns: `120px repeat(${items.length}, minmax(180px, 1fr))` };
+
+  const share = async () => {
+    const url = compareShareUrl(items.map((p) => p.id));
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      window.prompt(t('compare.copyPrompt'), url);
+    }
+  };
+
+  return (
+    <Dialog onClose={onClose} className="w-[min(1100px,95vw)] flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 p-4 border-b border-white/10">
+        <DialogTitle>{t('compare.title')}</DialogTitle>
+        <label className="ml-auto inline-flex items-center gap-2 text-sm cursor-pointer">
+          <input type="checkbox" checked={diffOnly} onChange={(e) => setDiffOnly(e.target.checked)} />
+          {t('compare.diffOnly')}
+        </label>
+        <button
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10 text-sm"
+          onClick={share}
+        >
+          {copied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+          {copied ? t('compare.copied') : t('compare.share')}
+        </button>
+        <DialogClose />
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto p-4">
+        <div className="min-w-max">
+          <div className="grid gap-3 py-2 px-3 text-sm font-semibold" style={columns}>
+            <div />
+            {items.map((p) => (
+              <div key={p.id} className="flex items-start gap-1">
+                <button
+                  className="flex-1 text-left p-0 bg-transparent hover:underline"
+                  onClick={() => onDetail(p.id)}
+                  title={t('product.details')}
+                >
+                  {p.title}
+                </button>
+                <button
+                  className="p-0.5 rounded bg-transparent hover:bg-white/10 font-normal"
+                  onClick={() => onRemove(p.id)}
+                  aria-label={t('compare.remove', { title: p.title })}
+                  title={t('compare.removeShort')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="divide-y divide-white/10">
+            {visible.map((row) => {
+              const best = bestIndexes(row, items);
+              return (
+                <div key={row.key} className="grid gap-3 py-2 px-3 text-sm" style={columns}>
+                  <div className="opacity-70">{row.label}</div>
+                  {items.map((p, i) => (
+                    <div key={p.id} className={cx('font-medium', best.includes(i) && 'text-amber-200')}>
+                      {best.includes(i) && (
+                        <Trophy className="inline h-3.5 w-3.5 mr-1 -mt-0.5" aria-label={t('compare.best')} />
+                      )}
+                      {row.text(p)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+            {visible.length === 0 && (
+              <div className="py-6 text-center text-sm text-slate-400">{t('compare.allSame')}</div>
+            )}
+          </div>
+        </div>
+        <div className="mt-4 px-3 flex flex-wrap items-center gap-3">
+          <span className="text-sm opacity-70">{t('game.title')}</span>
+          <GamePicker game={g.id} res={res} onGame={setGame} onRes={setRes} />
+        </div>
+      </div>
+    </Dialog>
+  );
+}
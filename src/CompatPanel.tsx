@@ -0,0 +1,59 @@
+import { AlertTriangle, CheckCircle2, Info, XCircle, Zap } from 'lucide-react';
+import type { CompatLevel, CompatReport } from './compat';
+import { useI18n } from './i18n';
+import { cx } from './utils';
+
+const LEVEL_STYLE: Record<CompatLevel, string> = {
+  error: 'text-rose-300',
+  warning: 'text-amber-300',
+  info: 'text-slate-400',
+};
+
+const LEVEL_ICON: Record<CompatLevel, typeof XCircle> = {
+  error: XCircle,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+// --- Compatibility / power summary ---
+export function CompatPanel({ report, psuWatts }: { report: CompatReport; psuWatts?: number }) {
+  const { t } = useI18n();
+  const problems = report.issues.filter((i) => i.level !== 'info');
+  return (
+    <div
+      className={cx(
+        'rounded-xl ring-1 p-3 text-sm space-y-2',
+        report.ok ? 'ring-white/10' : 'ring-rose-400/40 bg-rose-500/[0.05]'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        {report.ok ? (
+          <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+        ) : (
+          <XCircle className="h-4 w-4 text-rose-400" />
+        )}
+        <span className="font-medium">
+          {report.ok ? (problems.length ? t('compat.okWithNotes') : t('compat.ok')) : t('compat.incompatible')}
+        </span>
+        <span className="ml-auto inline-flex items-center gap-1 text-xs text-slate-400 tabular-nums">
+          <Zap className="h-3.5 w-3.5" />
+          {t('compat.power', { watts: report.estimatedWatts, recommended: report.recommendedPsuWatts })}
+          {psuWatts !== undefined && t('compat.installed', { watts: psuWatts })}
+        </span>
+      </div>
+      {report.issues.length > 0 && (
+        <ul className="space-y-1">
+          {report.issues.map((i) => {
+            const Icon = LEVEL_ICON[i.level];
+            return (
+              <li key={i.code} className={cx('flex items-start gap-2', LEVEL_STYLE[i.level])}>
+                <Icon className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{i.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, type ReactNode } from 'react';
+import { AlertTriangle, Check, Cpu, Gauge, HardDrive, Loader2, Monitor, RotateCcw, ShoppingCart } from 'lucide-react';
+import type { Product } from './catalog';
+import { dispatchCart, useCart, type CartBuild } from './cart';
+import { remainingStock, stockLimitMessage } from './inventory';
+import {
+  PART_SLOTS,
+  applyBuild,
+  basePart,
+  partDelta,
+  partLabel,
+  useParts,
+  type BuildSelection,
+  type Part,
+  type PartSlot,
+} from './parts';
+import { currentPrice } from './pricing';
+import { checkBuild } from './compat';
+import { CompatPanel } from './CompatPanel';
+import { cpuLabel, gpuLabel, ramLabel, storageLabel } from './specs';
+import { formatPrice, useCurrency } from './currency';
+import { t, useI18n } from './i18n';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { ICON, cx } from './utils';
+
+const SLOT_ICON: Record<PartSlot, ReactNode> = {
+  cpu: <Cpu className={ICON} />,
+  gpu: <Monitor className={ICON} />,
+  ram: <Gauge className={ICON} />,
+  storage: <HardDrive className={ICON} />,
+};
+
+const signedPrice = (n: number) =>
+  n === 0 ? t('config.baseDelta') : `${n > 0 ? '+' : '−'}${formatPrice(Math.abs(n))}`;
+
+const buildSummary = (p: Product): CartBuild['summary'] => ({
+  cpu: cpuLabel(p.cpu),
+  gpu: gpuLabel(p.gpu),
+  ram: ramLabel(p.ram),
+  storage: storageLabel(p.storage),
+});
+
+// --- Custom build configurator ---
+export function ConfiguratorDialog({
+  product,
+  onClose,
+  onAdded,
+}: {
+  product: Product;
+  onClose: () => void;
+  onAdded?: () => void;
+}) {
+  const { t } = useI18n();
+  const { state, reload } = useParts();
+  const [selection, setSelection] = useState<BuildSelection>({});
+
+  return (
+    <Dialog onClose={onClose} className="w-[min(860px,95vw)] flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <DialogTitle>{t('config.title', { title: product.title })}</DialogTitle>
+        <DialogClose />
+      </div>
+      {state.status === 'loading' ? (
+        <div className="p-10 text-center text-slate-400">
+          <Loader2 className={cx(ICON, 'mx-auto animate-spin')} />
+          <p className="mt-2">{t('config.loading')}</p>
+        </div>
+      ) : state.status === 'error' ? (
+        <div className="p-10 text-center">
+          <AlertTriangle className="mx-auto h-7 w-7 text-rose-400" />
+          <p className="mt-2 text-slate-400">{state.error}</p>
+          <button
+            className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+            onClick={reload}
+          >
+            <RotateCcw className={ICON} /> {t('common.retry')}
+          </button>
+        </div>
+      ) : (
+        <ConfiguratorBody
+          product={product}
+          parts={state.parts}
+          selection={selection}
+          onSelect={(slot, id) => setSelection((s) => ({ ...s, [slot]: id }))}
+          onReset={() => setSelection({})}
+          onAdd={(build) => {
+            dispatchCart({ type: 'add', productId: product.id, build, stock: product.stock });
+            onAdded?.();
+            onClose();
+          }}
+        />
+      )}
+    </Dialog>
+  );
+}
+
+function ConfiguratorBody({
+  product,
+  parts,
+  selection,
+  onSelect,
+  onReset,
+  onAdd,
+}: {
+  product: Product;
+  parts: Part[];
+  selection: BuildSelection;
+  onSelect: (slot: PartSlot, id: string | undefined) => void;
+  onReset: () => void;
+  onAdd: (build: CartBuild | undefined) => void;
+}) {
+  const { t } = useI18n();
+  useCurrency(); // 가격은 표시 통화로 보여 준다
+  const configured = applyBuild(product, selection, parts);
+  const summary = buildSummary(configured.product);
+  const compat = checkBuild(configured.product);
+  const changed = Object.keys(configured.selection).length > 0;
+  const full = remainingStock(useCart().cart, product) === 0; // 품절이거나 이미 재고만큼 담음
+
+  return (
+    <>
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        {PART_SLOTS.map(({ slot, label }) => {
+          const base = basePart(product, slot, parts);
+          const options = parts.filter((x) => x.slot === slot && x.id !== base?.id);
+          return (
+            <fieldset key={slot} className="rounded-xl ring-1 ring-white/10 p-3">
+              <legend className="px-1 text-sm flex items-center gap-2">
+                {SLOT_ICON[slot]} {t(label)}
+              </legend>
+              <div className="space-y-1">
+                <OptionRow
+                  label={t('config.base', { label: summaryOf(product, slot) })}
+                  delta={0}
+                  checked={!configured.selection[slot]}
+                  onSelect={() => onSelect(slot, undefined)}
+                />
+                {options.map((part) => (
+                  <OptionRow
+                    key={part.id}
+                    label={partLabel(part)}
+                    delta={partDelta(product, part, parts)}
+                    checked={configured.selection[slot] === part.id}
+                    onSelect={() => onSelect(slot, part.id)}
+                  />
+                ))}
+              </div>
+            </fieldset>
+          );
+        })}
+      </div>
+      <div className="px-4 pb-3">
+        <CompatPanel report={compat} psuWatts={product.psu?.watts} />
+      </div>
+      <div className="border-t border-white/10 p-4 grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4 items-end">
+        <div className="text-sm space-y-0.5">
+          <div className="font-medium mb-1">{t('config.summary')}</div>
+          <div className="opacity-80">CPU {summary.cpu}</div>
+          <div className="opacity-80">GPU {summary.gpu}</div>
+          <div className="opacity-80">RAM {summary.ram}</div>
+          <div className="opacity-80">
+            {t('spec.storage')} {summary.storage}
+          </div>
+        </div>
+        <div className="text-right space-y-2">
+          <div className="text-sm text-slate-400">
+            {t('config.priceLine', { base: formatPrice(currentPrice(product)), delta: signedPrice(configured.priceDelta) })}
+          </div>
+          <div className="text-2xl font-semibold tabular-nums">{formatPrice(currentPrice(configured.product))}</div>
+          <div className="flex gap-2 justify-end">
+            <button
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50"
+              onClick={onReset}
+              disabled={!changed}
+            >
+              <RotateCcw className={ICON} /> {t('config.reset')}
+            </button>
+            <button
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+              disabled={!compat.ok || full}
+              title={
+                !compat.ok ? t('compat.blocked') : full ? stockLimitMessage(product) : undefined
+              }
+              onClick={() =>
+                onAdd(
+                  changed
+                    ? { parts: configured.selection, priceDelta: configured.priceDelta, summary }
+                    : undefined
+                )
+              }
+            >
+              <ShoppingCart className={ICON} /> {t('config.add')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+const summaryOf = (p: Product, slot: PartSlot) => buildSummary(p)[slot];
+
+function OptionRow({
+  label,
+  delta,
+  checked,
+  onSelect,
+}: {
+  label: string;
+  delta: number;
+  checked: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      role="radio"
+      aria-checked={checked}
+      onClick={onSelect}
+      className={cx(
+        'w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm',
+        checked ? 'bg-indigo-500/15 ring-1 ring-inset ring-indigo-400/50' : 'bg-transparent hover:bg-white/5'
+      )}
+    >
+      <span
+        className={cx(
+          'h-4 w-4 rounded-full ring-1 ring-inset flex items-center justify-center shrink-0',
+          checked ? 'ring-indigo-300' : 'ring-white/25'
+        )}
+      >
+        {checked && <Check className="h-3 w-3" />}
+      </span>
+      <span className="flex-1 min-w-0 truncate">{label}</span>
+      <span className={cx('tabular-nums text-xs', delta > 0 ? 'text-amber-300' : delta < 0 ? 'text-emerald-300' : 'opacity-60')}>
+        {signedPrice(delta)}
+      </span>
+    </button>
+  );
+}
+
+// 장바구니/주문 라인에 붙는 구성 요약 한 줄
+export function BuildSummary({ build }: { build: CartBuild }) {
+  const { t } = useI18n();
+  const parts = PART_SLOTS.filter(({ slot }) => build.parts[slot]).map(({ slot }) => build.summary[slot]);
+  return (
+    <div className="text-xs text-indigo-200/90 truncate" title={Object.values(build.summary).join(' · ')}>
+      {t('config.custom', { parts: parts.join(' · ') })}
+    </div>
+  );
+}
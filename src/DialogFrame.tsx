@@ -0,0 +1,127 @@
+import React, { useEffect, useId, useRef, useState, type RefObject } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { DialogContext, handleOverlayKeys, useDialog, useOverlayLayer } from './dialog';
+import { useI18n } from './i18n';
+import { ICON, cx } from './utils';
+
+// --- Dialog / Drawer ---
+// 모든 겹 화면(상세, 비교, 장바구니, 필터 서랍 …)이 공유한다. body 에 포털로 띄우고, 나중에 연 것이 위에 쌓인다.
+// 제목은 <DialogTitle> 로 넣으면 aria-labelledby 로 연결되고, 제목이 화면에 없으면 label 을 준다.
+
+type OverlayProps = {
+  onClose: () => void;
+  children: React.ReactNode;
+  label?: string;
+  className?: string;
+  // false 면 Esc·배경 클릭으로 닫히지 않는다 (결제 진행 중 등)
+  closable?: boolean;
+  initialFocus?: RefObject<HTMLElement | null>;
+};
+
+function Overlay({
+  onClose,
+  children,
+  label,
+  closable = true,
+  initialFocus,
+  layerClassName,
+  panelClassName,
+  onBackdrop,
+}: OverlayProps & { layerClassName: string; panelClassName: string; onBackdrop?: () => void }) {
+  const layer = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useOverlayLayer(layer, initialFocus);
+  const close = () => {
+    if (closable) onClose();
+  };
+
+  return createPortal(
+    <div ref={layer} className={layerClassName} onKeyDown={(e) => handleOverlayKeys(e, close)}>
+      {onBackdrop && <div className="absolute inset-0" aria-hidden onClick={closable ? onBackdrop : undefined} />}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={label ? undefined : titleId}
+        aria-label={label}
+        tabIndex={-1}
+        className={cx('focus:outline-none', panelClassName)}
+      >
+        <DialogContext.Provider value={{ titleId, close, closable }}>{children}</DialogContext.Provider>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+// 화면 가운데 뜨는 대화상자. 너비와 내부 배치(flex-col/overflow)는 className 으로 정한다. 바깥을 누르면 닫힌다.
+export function Dialog({ className, ...props }: OverlayProps) {
+  return (
+    <Overlay
+      {...props}
+      onBackdrop={props.onClose}
+      layerClassName="fixed inset-0 z-50 flex bg-black/40"
+      panelClassName={cx(
+        'relative m-auto max-h-[90dvh] rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 shadow-xl',
+        className
+      )}
+    />
+  );
+}
+
+// 화면 전체를 덮는 어두운 보기 (사진 크게 보기)
+export function FullscreenDialog({ className, ...props }: OverlayProps) {
+  return (
+    <Overlay {...props} layerClassName="fixed inset-0 z-50" panelClassName={cx('absolute inset-0 bg-black/90', className)} />
+  );
+}
+
+// 옆에서 밀려 들어오는 서랍. 배경을 누르면 닫힌다. 너비는 className 으로 준다.
+export function Drawer({ side, className, ...props }: OverlayProps & { side: 'left' | 'right' }) {
+  const [shown, setShown] = useState(false);
+  useEffect(() => {
+    // 첫 그림은 화면 밖에서 그리고 다음 프레임에 밀어 넣어야 transition 이 보인다
+    const frame = requestAnimationFrame(() => setShown(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <Overlay
+      {...props}
+      onBackdrop={props.onClose}
+      layerClassName="fixed inset-0 z-50 bg-black/50"
+      panelClassName={cx(
+        'absolute top-0 bottom-0 flex flex-col bg-slate-900/95 backdrop-blur',
+        'transform transition-transform duration-300',
+        side === 'left' ? 'left-0 border-r' : 'right-0 border-l',
+        'border-white/10',
+        shown ? 'translate-x-0' : side === 'left' ? '-translate-x-full' : 'translate-x-full',
+        className
+      )}
+    />
+  );
+}
+
+export function DialogTitle({ className, children }: { className?: string; children: React.ReactNode }) {
+  const { titleId } = useDialog();
+  return (
+    <h2 id={titleId} className={cx('font-semibold', className)}>
+      {children}
+    </h2>
+  );
+}
+
+export function DialogClose({ className }: { className?: string }) {
+  const { close, closable } = useDialog();
+  const { t } = useI18n();
+  return (
+    <button
+      className={cx('p-2 hover:bg-transparent rounded-lg', className)}
+      onClick={close}
+      disabled={!closable}
+      aria-label={t('common.close')}
+    >
+      <X className={ICON} />
+    </button>
+  );
+}
@@ -0,0 +1,240 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { activeChips, toggleIn, type FacetCounts, type FacetOption, type Filters } from './facets';
+import { useI18n } from './i18n';
+import { cx } from './utils';
+
+// --- Filter panel (desktop sidebar + mobile drawer 공용) ---
+export function FilterPanel({
+  filters,
+  counts,
+  onChange,
+}: {
+  filters: Filters;
+  counts: FacetCounts;
+  onChange: (f: Filters) => void;
+}) {
+  const { t } = useI18n();
+  const set = (patch: Partial<Filters>) => onChange({ ...filters, ...patch });
+  const [lo, hi] = counts.priceBounds;
+  const toManwon = (v: number | null) => (v === null ? '' : String(Math.round(v / 10000)));
+  const fromManwon = (s: string) => (s.trim() === '' || Number.isNaN(Number(s)) ? null : Number(s) * 10000);
+
+  return (
+    <div className="space-y-5">
+      <FacetSection title="CPU">
+        {counts.cpu.map((o) => (
+          <CheckOption
+            key={o.value}
+            option={o}
+            checked={filters.cpu.includes(o.value)}
+            onToggle={() => set({ cpu: toggleIn(filters.cpu, o.value) })}
+          />
+        ))}
+      </FacetSection>
+
+      <FacetSection title={t('filter.gpuTier')}>
+        {counts.gpu.map((o) => (
+          <CheckOption
+            key={o.value}
+            option={o}
+            checked={filters.gpu.includes(o.value)}
+            onToggle={() => set({ gpu: toggleIn(filters.gpu, o.value) })}
+          />
+        ))}
+      </FacetSection>
+
+      <FacetSection title={t('filter.game')}>
+        <select
+          value={filters.game ?? ''}
+          onChange={(e) => set({ game: e.target.value || null })}
+          className="bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm w-full"
+        >
+          <option value="">{t('filter.all')}</option>
+          {counts.game.map((o) => (
+            <option key={o.value} value={o.value} disabled={o.count === 0 && o.value !== filters.game}>
+              {o.label} ({o.count})
+            </option>
+          ))}
+        </select>
+      </FacetSection>
+
+      <FacetSection title={t('filter.stock')}>
+        <CheckOption
+          option={{ value: 'soldout', label: t('filter.includeSoldOut'), count: counts.soldOut }}
+          checked={filters.includeSoldOut}
+          onToggle={() => set({ includeSoldOut: !filters.includeSoldOut })}
+        />
+      </FacetSection>
+
+      <FacetSection title={t('filter.rating')}>
+        <StepSelect options={counts.rating} value={filters.minRating} onChange={(v) => set({ minRating: v })} />
+      </FacetSection>
+
+      <FacetSection title={t('filter.minRam')}>
+        <StepSelect options={counts.ram} value={filters.minRam} onChange={(v) => set({ minRam: v })} />
+      </FacetSection>
+
+      <FacetSection title={t('filter.minStorage')}>
+        <StepSelect options={counts.storage} value={filters.minStorage} onChange={(v) => set({ minStorage: v })} />
+      </FacetSection>
+
+      <FacetSection title={t('filter.price')}>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder={toManwon(lo)}
+            value={toManwon(filters.priceMin)}
+            onChange={(e) => set({ priceMin: fromManwon(e.target.value) })}
+            className="w-full bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm"
+            aria-label={t('filter.priceMin')}
+          />
+          <span className="opacity-60">~</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder={toManwon(hi)}
+            value={toManwon(filters.priceMax)}
+            onChange={(e) => set({ priceMax: fromManwon(e.target.value) })}
+            className="w-full bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm"
+            aria-label={t('filter.priceMax')}
+          />
+        </div>
+      </FacetSection>
+
+      {counts.tags.length > 0 && (
+        <FacetSection title={t('filter.tags')}>
+          <div className="flex flex-wrap gap-2">
+            {counts.tags.map((o) => {
+              const on = filters.tags.includes(o.value);
+              return (
+                <button
+                  key={o.value}
+                  className={cx(
+                    'px-2.5 py-1 rounded-full text-xs ring-1 ring-inset',
+                    on ? 'bg-indigo-500/25 ring-indigo-400/50' : 'bg-transparent ring-white/10',
+                    o.count === 0 && !on && 'opacity-40'
+                  )}
+                  aria-pressed={on}
+                  onClick={() => set({ tags: toggleIn(filters.tags, o.value) })}
+                >
+                  #{o.label} <span className="tabular-nums opacity-60">{o.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </FacetSection>
+      )}
+    </div>
+  );
+}
+
+function FacetSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset>
+      <legend className="text-sm opacity-80 mb-2">{title}</legend>
+      <div className="space-y-1">{children}</div>
+    </fieldset>
+  );
+}
+
+function CheckOption<T extends string>({
+  option,
+  checked,
+  onToggle,
+}: {
+  option: FacetOption<T>;
+  checked: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <label
+      className={cx(
+        'flex items-center gap-2 text-sm cursor-pointer rounded-lg px-2 py-1 hover:bg-white/5',
+        option.count === 0 && !checked && 'opacity-40'
+      )}
+    >
+      <input type="checkbox" className="sr-only" checked={checked} onChange={onToggle} />
+      <span
+        className={cx(
+          'h-4 w-4 rounded ring-1 ring-inset flex items-center justify-center',
+          checked ? 'bg-emerald-500/30 ring-emerald-400/60' : 'ring-white/20'
+        )}
+      >
+        {checked && <Check className="h-3 w-3 text-emerald-300" />}
+      </span>
+      <span className="flex-1">{option.label}</span>
+      <span className="tabular-nums text-xs text-slate-400">{option.count}</span>
+    </label>
+  );
+}
+
+function StepSelect({
+  options,
+  value,
+  onChange,
+}: {
+  options: FacetOption<number>[];
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm w-full"
+    >
+      {options.map((o) => (
+        <option key={o.value} value={o.value} disabled={o.count === 0 && o.value !== value}>
+          {o.label} ({o.count})
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// --- Active filter chips ---
+export function ActiveFilterChips({
+  filters,
+  query,
+  onChange,
+  onClearQuery,
+  onReset,
+}: {
+  filters: Filters;
+  query: string;
+  onChange: (f: Filters) => void;
+  onClearQuery: () => void;
+  onReset: () => void;
+}) {
+  const { t } = useI18n();
+  const chips = activeChips(filters);
+  const q = query.trim();
+  if (chips.length === 0 && !q) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {q && <Chip label={t('filter.chip.query', { query: q })} onRemove={onClearQuery} />}
+      {chips.map((c) => (
+        <Chip key={c.key} label={c.label} onRemove={() => onChange(c.remove(filters))} />
+      ))}
+      <button className="text-xs px-2 py-1 rounded-lg bg-transparent hover:bg-white/10 underline" onClick={onReset}>
+        {t('filter.resetAll')}
+      </button>
+    </div>
+  );
+}
+
+function Chip({ label, onRemove }: { label: string; onRemove: () => void }) {
+  const { t } = useI18n();
+  return (
+    <span className="inline-flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full text-xs bg-emerald-500/15 ring-1 ring-inset ring-emerald-400/30">
+      {label}
+      <button className="p-0.5 rounded-full bg-transparent hover:bg-white/10" onClick={onRemove} aria-label={t('filter.chip.remove', { label })}>
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </span>
+  );
+}
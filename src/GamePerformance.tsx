@@ -0,0 +1,109 @@
+import { Gamepad2 } from 'lucide-react';
+import type { Product } from './catalog';
+import { GAMES, RESOLUTIONS, estimateFps, findGame, fpsGrade, type FpsEstimate, type Resolution } from './games';
+import { localize, useI18n } from './i18n';
+import { ICON, cx } from './utils';
+
+const GRADE_STYLE: Record<ReturnType<typeof fpsGrade>, string> = {
+  smooth: 'text-emerald-300',
+  playable: 'text-amber-300',
+  poor: 'text-rose-300',
+};
+
+// --- Game / preset picker (상세 보기, 비교 공용) ---
+export function GamePicker({
+  game,
+  res,
+  onGame,
+  onRes,
+}: {
+  game: string;
+  res: Resolution;
+  onGame: (id: string) => void;
+  onRes: (r: Resolution) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={game}
+        onChange={(e) => onGame(e.target.value)}
+        className="bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm"
+        aria-label={t('game.pick')}
+      >
+        {GAMES.map((g) => (
+          <option key={g.id} value={g.id}>
+            {localize(g.name)}
+          </option>
+        ))}
+      </select>
+      <div className="inline-flex rounded-xl ring-1 ring-white/10 overflow-hidden" role="radiogroup" aria-label={t('game.preset')}>
+        {RESOLUTIONS.map((r) => (
+          <button
+            key={r.value}
+            role="radio"
+            aria-checked={res === r.value}
+            className={cx('px-3 py-2 text-sm', res === r.value ? 'bg-indigo-500/25' : 'bg-transparent hover:bg-white/5')}
+            onClick={() => onRes(r.value)}
+          >
+            {t(r.label)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FpsValue({ estimate, className }: { estimate: FpsEstimate; className?: string }) {
+  const { t } = useI18n();
+  return (
+    <span
+      className={cx('tabular-nums font-semibold', GRADE_STYLE[fpsGrade(estimate.fps)], className)}
+      title={estimate.bottleneck === 'cpu' ? t('game.cpuBottleneckHint') : t('game.gpuBottleneckHint')}
+    >
+      {estimate.fps}fps
+    </span>
+  );
+}
+
+// --- 상세 보기 "게임 성능" 섹션 ---
+export function GamePerformance({
+  product,
+  game,
+  res,
+  onGame,
+  onRes,
+}: {
+  product: Product;
+  game: string;
+  res: Resolution;
+  onGame: (id: string) => void;
+  onRes: (r: Resolution) => void;
+}) {
+  const { t } = useI18n();
+  const g = findGame(game) ?? GAMES[0];
+  const current = estimateFps(product, g, res);
+  return (
+    <section className="rounded-xl ring-1 ring-white/10 p-3 space-y-3">
+      <div className="flex items-center gap-2 font-medium">
+        <Gamepad2 className={ICON} /> {t('game.title')}
+      </div>
+      <GamePicker game={g.id} res={res} onGame={onGame} onRes={onRes} />
+      <div className="flex items-baseline gap-3">
+        <FpsValue estimate={current} className="text-3xl" />
+        <span className="text-xs text-slate-400">
+          {current.bottleneck === 'cpu' ? t('game.cpuBottleneck') : t('game.gpuBottleneck')} · {t('game.estimate')}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        {RESOLUTIONS.map((r) => (
+          <div key={r.value} className={cx('rounded-lg px-2 py-1.5 ring-1 ring-inset', r.value === res ? 'ring-indigo-400/50' : 'ring-white/10')}>
+            <div className="text-slate-400">{t(r.label)}</div>
+            <FpsValue estimate={estimateFps(product, g, r.value)} />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">{t('game.disclaimer')}</p>
+    </section>
+  );
+}
@@ -0,0 +1,18 @@
+import { highlightSegments, type Highlighter } from './search';
+
+// 검색어와 일치하는 부분을 강조해서 보여준다
+export function Highlight({ text, highlighter }: { text: string; highlighter: Highlighter }) {
+  return (
+    <>
+      {highlightSegments(text, highlighter).map((s, i) =>
+        s.hit ? (
+          <mark key={i} className="bg-amber-400/25 text-inherit rounded-sm">
+            {s.text}
+          </mark>
+        ) : (
+          s.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import { Languages } from 'lucide-react';
+import { CURRENCIES, setCurrency, useCurrency, type DisplayCurrency } from './currency';
+import { LOCALES, setLocale, useI18n, type Locale } from './i18n';
+import { ICON } from './utils';
+
+// --- Language / display currency switcher (header) ---
+// 둘 다 이 브라우저에 기억된다. 결제 금액은 통화와 상관없이 원화로 처리된다 (src/currency.ts 참고).
+export function LocaleSwitcher() {
+  const { locale, t } = useI18n();
+  const currency = useCurrency();
+  return (
+    <div className="inline-flex items-center gap-1 rounded-xl ring-1 ring-white/10 px-2 py-1">
+      <Languages className={ICON} aria-hidden />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t('shop.language')}
+        className="bg-transparent text-sm py-1 outline-none"
+      >
+        {LOCALES.map((l) => (
+          <option key={l.value} value={l.value}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value as DisplayCurrency)}
+        aria-label={t('shop.currency')}
+        title={t('shop.currency')}
+        className="bg-transparent text-sm py-1 outline-none tabular-nums"
+      >
+        {CURRENCIES.map((c) => (
+          <option key={c} value={c}>
+            {c}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
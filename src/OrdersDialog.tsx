@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Loader2, Package, RotateCcw } from 'lucide-react';
+import type { Product } from './catalog';
+import { dispatchCart } from './cart';
+import { BuildSummary } from './Configurator';
+import { DELIVERY_OPTIONS } from './checkout';
+import {
+  orderStatus,
+  orderStatusLabel,
+  orderTimeline,
+  planReorder,
+  refreshOrders,
+  useOrders,
+  type Order,
+  type ReorderPlan,
+} from './orders';
+import { useMoney } from './currency';
+import { useI18n } from './i18n';
+import { PAYMENT_METHODS } from './payment';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { ICON, cx } from './utils';
+
+const DATE_TIME: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+// --- Order history ---
+export function OrdersDialog({
+  products,
+  initialOrderId = null,
+  onClose,
+}: {
+  products: Product[];
+  initialOrderId?: string | null;
+  onClose: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const { formatKrw } = useMoney();
+  const { status, data: orders, error } = useOrders();
+  const [openId, setOpenId] = useState<string | null>(initialOrderId);
+  const open = orders.find((o) => o.id === openId) ?? null;
+
+  return (
+    <Dialog onClose={onClose} className="w-[min(720px,95vw)] flex flex-col">
+      <div className="flex items-center gap-2 p-4 border-b border-white/10">
+        {open && (
+          <button className="p-2 hover:bg-transparent rounded-lg" onClick={() => setOpenId(null)} title={t('order.list')}>
+            <ChevronLeft className={ICON} />
+          </button>
+        )}
+        <DialogTitle>{open ? t('order.title', { id: open.id }) : t('order.history')}</DialogTitle>
+        <DialogClose className="ml-auto" />
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto p-4">
+        {error && (
+          <div
+            className="mb-3 flex items-center gap-2 rounded-xl ring-1 ring-rose-400/30 bg-rose-500/[0.06] p-3 text-sm text-rose-200"
+            role="alert"
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span className="flex-1">{t('order.loadError', { message: error })}</span>
+            <button
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => void refreshOrders()}
+            >
+              <RotateCcw className="h-4 w-4" /> {t('common.retry')}
+            </button>
+          </div>
+        )}
+        {open ? (
+          <OrderDetail order={open} products={products} onReordered={onClose} />
+        ) : status === 'loading' && orders.length === 0 ? (
+          <div className="py-12 flex items-center justify-center gap-2 text-slate-400">
+            <Loader2 className="h-5 w-5 animate-spin" /> {t('order.loading')}
+          </div>
+        ) : orders.length === 0 ? (
+          !error && (
+            <div className="py-12 text-center text-slate-400">
+              <Package className="mx-auto h-8 w-8 opacity-60" />
+              <p className="mt-2">{t('order.empty')}</p>
+            </div>
+          )
+        ) : (
+          <ul className="space-y-3">
+            {orders.map((o) => (
+              <li key={o.id}>
+                <button
+                  className="w-full flex items-center gap-3 p-3 rounded-xl text-left bg-transparent ring-1 ring-white/10 hover:bg-white/5"
+                  onClick={() => setOpenId(o.id)}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="text-xs text-slate-400">{formatDate(o.placedAt, DATE_TIME)}</div>
+                    <div className="font-medium truncate">
+                      {o.lines[0]?.title}
+                      {o.lines.length > 1 && t('order.more', { count: o.lines.length - 1 })}
+                    </div>
+                    <div className="text-xs text-slate-400 tabular-nums">{o.id}</div>
+                  </div>
+                  <StatusBadge order={o} />
+                  <div className="font-semibold tabular-nums">{formatKrw(o.total)}</div>
+                  <ChevronRight className="h-4 w-4 opacity-60" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Dialog>
+  );
+}
+
+function StatusBadge({ order }: { order: Order }) {
+  useI18n();
+  const s = orderStatus(order);
+  return (
+    <span
+      className={cx(
+        'text-xs px-2 py-1 rounded-full ring-1 ring-inset',
+        s === 'delivered' ? 'bg-emerald-500/15 ring-emerald-400/40' : 'bg-indigo-500/15 ring-indigo-400/40'
+      )}
+    >
+      {orderStatusLabel(s)}
+    </span>
+  );
+}
+
+function OrderDetail({
+  order,
+  products,
+  onReordered,
+}: {
+  order: Order;
+  products: Product[];
+  onReordered: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const { formatKrw } = useMoney();
+  const [pending, setPending] = useState<ReorderPlan | null>(null);
+  const timeline = orderTimeline(order);
+
+  const addAll = (plan: ReorderPlan) => {
+    plan.lines.forEach((l) =>
+      dispatchCart({ type: 'add', productId: l.productId, qty: l.qty, build: l.build, stock: l.stock })
+    );
+    onReordered();
+  };
+  const reorder = () => {
+    const plan = planReorder(order, products);
+    if (plan.warnings.length > 0) setPending(plan);
+    else addAll(plan);
+  };
+
+  return (
+    <div className="space-y-5">
+      <ol className="grid grid-cols-4 gap-2">
+        {timeline.map((step) => (
+          <li key={step.status} className="text-center text-xs">
+            <div
+              className={cx(
+                'mx-auto h-7 w-7 rounded-full flex items-center justify-center ring-1 ring-inset',
+                step.done ? 'bg-emerald-500/30 ring-emerald-400/60' : 'ring-white/15'
+              )}
+            >
+              {step.done && <Check className="h-4 w-4 text-emerald-300" />}
+            </div>
+            <div className={cx('mt-1 font-medium', !step.done && 'opacity-60')}>{t(step.label)}</div>
+            <div className="text-slate-400">
+              {step.done ? '' : t('order.scheduled')}
+              {formatDate(step.at, DATE_TIME)}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <section className="space-y-2">
+        {order.lines.map((l, i) => (
+          <div key={i} className="flex items-center gap-3 p-3 rounded-xl ring-1 ring-white/10">
+            <div className="text-xl">{l.img}</div>
+            <div className="min-w-0 flex-1">
+              <div className="font-medium truncate">{l.title}</div>
+              {l.build && <BuildSummary build={l.build} />}
+              <div className="text-xs text-slate-400">
+                {formatKrw(l.unitPrice)} × {l.qty}
+              </div>
+            </div>
+            <div className="tabular-nums">{formatKrw(l.unitPrice * l.qty)}</div>
+          </div>
+        ))}
+      </section>
+
+      <section className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="rounded-xl ring-1 ring-white/10 p-3 space-y-1">
+          <div className="font-medium">{t('order.shipping')}</div>
+          <div className="opacity-80">
+            {order.shipping.recipient} · {order.shipping.phone}
+          </div>
+          <div className="opacity-80">
+            ({order.shipping.postalCode}) {order.shipping.address1} {order.shipping.address2}
+          </div>
+          <div className="opacity-80">{t(DELIVERY_OPTIONS.find((d) => d.value === order.delivery)?.label ?? 'checkout.delivery.standard')}</div>
+          {order.shipping.memo && <div className="text-xs text-slate-400">{t('order.memo', { memo: order.shipping.memo })}</div>}
+        </div>
+        <div className="rounded-xl ring-1 ring-white/10 p-3 space-y-1">
+          <div className="font-medium">{t('order.payment')}</div>
+          <div className="flex justify-between opacity-80">
+            <span>{t('order.subtotal')}</span>
+            <span className="tabular-nums">{formatKrw(order.subtotal)}</span>
+          </div>
+          {!!order.discount && (
+            <div className="flex justify-between opacity-80">
+              <span>
+                {order.couponCode ? t('order.discountCoupon', { code: order.couponCode }) : t('order.discount')}
+              </span>
+              <span className="tabular-nums text-rose-300">−{formatKrw(order.discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between opacity-80">
+            <span>{t('price.delivery')}</span>
+            <span className="tabular-nums">{order.deliveryFee ? formatKrw(order.deliveryFee) : t('price.free')}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>{t('order.total')}</span>
+            <span className="tabular-nums">{formatKrw(order.total)}</span>
+          </div>
+          <div className="text-xs text-slate-400">
+            {t(PAYMENT_METHODS.find((m) => m.value === order.payment.method)?.label ?? 'payment.card')} ·{' '}
+            {order.payment.transactionId}
+          </div>
+        </div>
+      </section>
+
+      {pending ? (
+        <div className="rounded-xl ring-1 ring-amber-400/30 bg-amber-500/[0.06] p-3 text-sm space-y-2">
+          <div className="flex items-center gap-2 font-medium text-amber-300">
+            <AlertTriangle className="h-4 w-4" /> {t('order.changed')}
+          </div>
+          <ul className="list-disc pl-5 space-y-1">
+            {pending.warnings.map((w, i) => (
+              <li key={i}>
+                {w.kind === 'removed'
+                  ? t('order.warn.removed', { title: w.title })
+                  : w.kind === 'stock'
+                    ? w.available === 0
+                      ? t('order.warn.soldOut', { title: w.title })
+                      : t('order.warn.stock', { title: w.title, count: w.available })
+                    : t('order.warn.price', { title: w.title, before: formatKrw(w.before), after: formatKrw(w.after) })}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2 justify-end">
+            <button
+              className="px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => setPending(null)}
+            >
+              {t('order.cancel')}
+            </button>
+            <button
+              className="px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+              disabled={pending.lines.length === 0}
+              onClick={() => addAll(pending)}
+            >
+              {t('order.addAtCurrent')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+          onClick={reorder}
+        >
+          <RotateCcw className={ICON} /> {t('order.reorder')}
+        </button>
+      )}
+    </div>
+  );
+}
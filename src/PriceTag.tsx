@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Check, TicketPercent, X } from 'lucide-react';
+import type { Product } from './catalog';
+import { dispatchCart } from './cart';
+import { RATES_AS_OF, manwonLabel, useMoney } from './currency';
+import { localize, useI18n } from './i18n';
+import { unitPrice, vatSplit, type CartPricing } from './pricing';
+import { cx } from './utils';
+
+// --- Price tag (카드/목록/상세 공용) ---
+// 할인 중이면 정가에 취소선, 할인율과 종료일을 함께 보여준다. "NN만원" 표기는 가격 숫자에서 만든다.
+// 표시 통화가 원화가 아니면 환산 가격 옆에 실제 결제될 원화 금액을 붙인다.
+export function PriceTag({ product, size = 'md', align }: { product: Product; size?: 'md' | 'lg'; align?: 'right' }) {
+  const { locale, t, formatDate } = useI18n();
+  const { currency, formatKrw, formatPrice } = useMoney();
+  const price = unitPrice(product);
+  const onSale = price.discount > 0;
+  return (
+    <div className={cx(align === 'right' && 'text-right')}>
+      {onSale && (
+        <div className={cx('flex items-center gap-1.5 text-xs', align === 'right' && 'justify-end')}>
+          <span className="rounded-full px-1.5 py-0.5 bg-rose-500/20 text-rose-200 tabular-nums">{price.percent}%</span>
+          <span className="text-slate-500 line-through tabular-nums">{formatPrice(price.list)}</span>
+        </div>
+      )}
+      <div className={cx('tabular-nums', size === 'lg' ? 'text-2xl font-semibold' : 'text-base font-semibold')}>
+        {formatPrice(price.final)}
+        {(currency !== 'KRW' || locale === 'ko') && (
+          <span className={cx('ml-1.5 font-normal text-slate-400', size === 'lg' ? 'text-sm' : 'text-xs')}>
+            {currency === 'KRW' ? manwonLabel(price.final) : t('price.settlement', { amount: formatKrw(price.final) })}
+          </span>
+        )}
+      </div>
+      {price.endsAt && (
+        <div className="text-xs text-rose-300">
+          {t('price.saleUntil', { date: formatDate(price.endsAt, { month: 'long', day: 'numeric' }) })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Cart price breakdown (장바구니/결제 공용) ---
+export function PriceBreakdown({ pricing, deliveryFee }: { pricing: CartPricing; deliveryFee?: number }) {
+  const { t } = useI18n();
+  const { formatKrw, approxPrice } = useMoney();
+  const total = pricing.total + (deliveryFee ?? 0);
+  const { supply, vat } = vatSplit(total);
+  const coupon = pricing.coupon?.status === 'applied' ? pricing.coupon : null;
+  return (
+    <div className="text-sm space-y-1">
+      <Row label={t('price.listSubtotal')} value={formatKrw(pricing.listSubtotal)} />
+      {pricing.saleDiscount > 0 && (
+        <Row label={t('price.saleDiscount')} value={`−${formatKrw(pricing.saleDiscount)}`} discount />
+      )}
+      {pricing.quantity.map((d) => (
+        <Row
+          key={d.key}
+          label={t('price.quantityDiscount', { label: d.label })}
+          value={`−${formatKrw(d.amount)}`}
+          discount
+        />
+      ))}
+      {pricing.bundles.map((d) => (
+        <Row
+          key={d.key}
+          label={t('price.bundleDiscount', { label: d.label })}
+          value={`−${formatKrw(d.amount)}`}
+          discount
+        />
+      ))}
+      {coupon && (
+        <Row
+          label={t('price.couponDiscount', { label: localize(coupon.coupon.label) })}
+          value={`−${formatKrw(coupon.amount)}`}
+          discount
+        />
+      )}
+      {deliveryFee !== undefined && (
+        <Row label={t('price.delivery')} value={deliveryFee === 0 ? t('price.free') : formatKrw(deliveryFee)} />
+      )}
+      <Row label={t('price.total')} value={formatKrw(total)} strong />
+      <div className="flex justify-end gap-2 text-xs text-slate-400 tabular-nums">
+        <span>{t('price.supply', { amount: formatKrw(supply) })}</span>
+        <span>{t('price.vat', { amount: formatKrw(vat) })}</span>
+      </div>
+      {approxPrice(total) && (
+        <div className="text-right text-xs text-slate-400">
+          <div className="tabular-nums">{approxPrice(total)}</div>
+          <div>{t('price.krwNote', { date: RATES_AS_OF })}</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Row({ label, value, strong, discount }: { label: string; value: string; strong?: boolean; discount?: boolean }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="opacity-80 min-w-0 truncate">{label}</span>
+      <span className={cx('tabular-nums shrink-0', strong && 'font-semibold text-base', discount && 'text-rose-300')}>
+        {value}
+      </span>
+    </div>
+  );
+}
+
+// --- Coupon input ---
+export function CouponField({ pricing }: { pricing: CartPricing }) {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const result = pricing.coupon;
+  if (result?.status === 'applied') {
+    return (
+      <div className="flex items-center gap-2 text-sm rounded-xl px-3 py-2 ring-1 ring-emerald-400/30 bg-emerald-500/[0.06]">
+        <Check className="h-4 w-4 text-emerald-300" />
+        <span className="flex-1 min-w-0 truncate">
+          {result.coupon.code} · {localize(result.coupon.label)}
+        </span>
+        <button
+          className="p-1 rounded-lg bg-transparent hover:bg-white/10"
+          onClick={() => dispatchCart({ type: 'setCoupon', code: null })}
+          aria-label={t('coupon.remove')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+  const apply = () => {
+    if (code.trim()) dispatchCart({ type: 'setCoupon', code });
+  };
+  return (
+    <div>
+      <div className="flex gap-2">
+        <label className="flex-1 flex items-center gap-2 rounded-xl ring-1 ring-white/10 px-3 py-2 text-sm">
+          <TicketPercent className="h-4 w-4 opacity-70" />
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            placeholder={t('coupon.placeholder')}
+            aria-label={t('coupon.placeholder')}
+            className="w-full bg-transparent outline-none uppercase placeholder:normal-case placeholder:text-slate-500"
+          />
+        </label>
+        <button
+          className="px-3 py-2 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50"
+          onClick={apply}
+          disabled={!code.trim()}
+        >
+          {t('coupon.apply')}
+        </button>
+      </div>
+      {result?.status === 'invalid' && (
+        <div className="mt-1 text-xs text-rose-300" role="alert">
+          {result.code}: {result.reason}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,601 @@
+import { useState, type ReactNode } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { issueMessage, validateProduct, type Product, type ProductImage, type SalePrice } from './catalog';
+import {
+  CASE_FORM_FACTORS,
+  CPU_VENDORS,
+  GPU_VENDORS,
+  RAM_TYPES,
+  STORAGE_INTERFACES,
+  STORAGE_KINDS,
+  type BoardSpec,
+  type CaseFormFactor,
+  type CpuSpec,
+  type GpuSpec,
+  type RamSpec,
+  type StorageDevice,
+} from './specs';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { useI18n } from './i18n';
+import { cx } from './utils';
+
+const INPUT = 'w-full bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm';
+
+// 빈 칸은 NaN (필수 숫자) 또는 undefined (선택 숫자) 로 두고 검증에서 걸러낸다
+const toNumber = (v: string) => (v.trim() === '' ? NaN : Number(v));
+const toOptionalNumber = (v: string) => (v.trim() === '' ? undefined : Number(v));
+const showNumber = (v: number | undefined) => (v === undefined || Number.isNaN(v) ? '' : String(v));
+
+// datetime-local 입력값(로컬 시각) ↔ ISO 문자열
+const pad = (n: number) => String(n).padStart(2, '0');
+const toLocalInput = (iso: string | undefined) => {
+  const d = iso ? new Date(iso) : null;
+  if (!d || Number.isNaN(d.getTime())) return '';
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+const fromLocalInput = (v: string) => (v ? new Date(v).toISOString() : undefined);
+
+// --- Product create / edit form ---
+export function ProductFormDialog({
+  initial,
+  takenIds,
+  onSave,
+  onClose,
+}: {
+  initial: Product;
+  takenIds: string[]; // 다른 상품이 쓰는 id (중복 검사용)
+  onSave: (p: Product) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Product>(initial);
+  const [tagsText, setTagsText] = useState((initial.tags ?? []).join(', '));
+  const [submitted, setSubmitted] = useState(false);
+
+  const issues = validateProduct(draft);
+  if (takenIds.includes(draft.id)) {
+    issues.push({ row: 0, field: 'id', message: 'admin.form.idTaken', params: { id: draft.id } });
+  }
+  const errorOf = (field: string) =>
+    submitted ? issues.filter((i) => i.field === field || i.field?.startsWith(`${field}[`)).map(issueMessage) : [];
+
+  const set = (patch: Partial<Product>) => setDraft((d) => ({ ...d, ...patch }));
+  const setSale = (patch: Partial<SalePrice>) =>
+    setDraft((d) => ({ ...d, sale: { price: NaN, ...d.sale, ...patch } }));
+  const setCpu = (patch: Partial<CpuSpec>) => setDraft((d) => ({ ...d, cpu: { ...d.cpu, ...patch } }));
+  const setGpu = (patch: Partial<GpuSpec>) => setDraft((d) => ({ ...d, gpu: { ...d.gpu, ...patch } }));
+  const setRam = (patch: Partial<RamSpec>) => setDraft((d) => ({ ...d, ram: { ...d.ram, ...patch } }));
+  const setBoard = (patch: Partial<BoardSpec>) =>
+    setDraft((d) => ({ ...d, board: { chipset: '', socket: '', memoryType: 'DDR5', ...d.board, ...patch } }));
+  const setDevice = (i: number, patch: Partial<StorageDevice>) =>
+    setDraft((d) => ({ ...d, storage: d.storage.map((x, j) => (j === i ? { ...x, ...patch } : x)) }));
+  const images = draft.images ?? [];
+  // 사진을 모두 지우면 images 항목 자체를 없앤다 (이모지로 표시)
+  const setImages = (next: ProductImage[]) => set({ images: next.length > 0 ? next : undefined });
+  const setImage = (i: number, patch: Partial<ProductImage>) =>
+    setImages(images.map((x, j) => (j === i ? { ...x, ...patch } : x)));
+
+  const submit = () => {
+    setSubmitted(true);
+    if (issues.length === 0) onSave(draft);
+  };
+
+  return (
+    <Dialog onClose={onClose} className="w-[min(860px,95vw)] flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <DialogTitle>{initial.id ? t('admin.edit', { title: initial.title }) : t('admin.newProduct')}</DialogTitle>
+        <DialogClose />
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-5">
+        {submitted && issues.length > 0 && (
+          <div className="rounded-xl ring-1 ring-rose-400/30 bg-rose-500/[0.06] p-3 text-sm" role="alert">
+            <div className="font-medium text-rose-300">{t('admin.form.checkInput', { count: issues.length })}</div>
+            <ul className="mt-1 list-disc pl-5 text-slate-300">
+              {issues.slice(0, 8).map((i, n) => (
+                <li key={n}>{issueMessage(i)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Section title={t('admin.form.basics')}>
+          <Field label="id" errors={errorOf('id')}>
+            <input className={INPUT} value={draft.id} onChange={(e) => set({ id: e.target.value.trim() })} />
+          </Field>
+          <Field label={t('admin.form.name')} errors={errorOf('name')}>
+            <input className={INPUT} value={draft.name} onChange={(e) => set({ name: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.title')} errors={errorOf('title')}>
+            <input className={INPUT} value={draft.title} onChange={(e) => set({ title: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.img')} errors={errorOf('img')}>
+            <input className={INPUT} value={draft.img} onChange={(e) => set({ img: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.price')} errors={errorOf('price')}>
+            <input
+              type="number"
+              min={0}
+              className={INPUT}
+              value={showNumber(draft.price)}
+              onChange={(e) => set({ price: toNumber(e.target.value) })}
+            />
+          </Field>
+          <OptionalNumberField
+            label={t('admin.form.stock')}
+            value={draft.stock}
+            errors={errorOf('stock')}
+            onChange={(v) => set({ stock: v })}
+          />
+          <Field label={t('admin.form.tags')} errors={errorOf('tags')} wide>
+            <input
+              className={INPUT}
+              value={tagsText}
+              onChange={(e) => {
+                setTagsText(e.target.value);
+                const tags = e.target.value.split(',').map((tag) => tag.trim()).filter(Boolean);
+                set({ tags });
+              }}
+            />
+          </Field>
+        </Section>
+
+        <Section title={t('admin.form.photos')}>
+          <div className="sm:col-span-2 space-y-2">
+            {images.map((img, i) => (
+              <div key={i} className="grid grid-cols-[2fr_2fr_1fr_auto] gap-2 items-center">
+                <input
+                  className={INPUT}
+                  placeholder={t('admin.form.photoSrc')}
+                  aria-label={t('admin.form.photoPath')}
+                  value={img.src}
+                  onChange={(e) => setImage(i, { src: e.target.value.trim() })}
+                />
+                <input
+                  className={INPUT}
+                  placeholder={t('admin.form.alt')}
+                  aria-label={t('admin.form.alt')}
+                  value={img.alt}
+                  onChange={(e) => setImage(i, { alt: e.target.value })}
+                />
+                <WidthsInput
+                  label={t('admin.form.photoWidths')}
+                  value={img.widths}
+                  onChange={(widths) => setImage(i, { widths })}
+                />
+                <button
+                  className="p-2 rounded-lg bg-transparent hover:bg-white/10"
+                  onClick={() => setImages(images.filter((_, j) => j !== i))}
+                  aria-label={t('admin.form.removePhoto')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <p className="text-xs text-slate-400">{t('admin.form.photoHint')}</p>
+            <Errors messages={errorOf('images')} />
+            <button
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => setImages([...images, { src: '', alt: draft.title }])}
+            >
+              <Plus className="h-4 w-4" /> {t('admin.form.addPhoto')}
+            </button>
+          </div>
+        </Section>
+
+        <OptionalSection
+          title={t('admin.form.sale')}
+          enabled={!!draft.sale}
+          onToggle={(on) => set({ sale: on ? { price: NaN } : undefined })}
+        >
+          <NumberField
+            label={t('admin.form.salePrice')}
+            value={draft.sale?.price ?? NaN}
+            errors={errorOf('sale.price')}
+            onChange={(v) => setSale({ price: v })}
+          />
+          <div className="hidden sm:block" />
+          <Field label={t('admin.form.saleStart')} errors={errorOf('sale.startsAt')}>
+            <input
+              type="datetime-local"
+              className={INPUT}
+              value={toLocalInput(draft.sale?.startsAt)}
+              onChange={(e) => setSale({ startsAt: fromLocalInput(e.target.value) })}
+            />
+          </Field>
+          <Field label={t('admin.form.saleEnd')} errors={errorOf('sale.endsAt')}>
+            <input
+              type="datetime-local"
+              className={INPUT}
+              value={toLocalInput(draft.sale?.endsAt)}
+              onChange={(e) => setSale({ endsAt: fromLocalInput(e.target.value) })}
+            />
+          </Field>
+        </OptionalSection>
+
+        <Section title={t('spec.cpu')}>
+          <Field label={t('admin.form.vendor')} errors={errorOf('cpu.vendor')}>
+            <Select value={draft.cpu.vendor} options={CPU_VENDORS} onChange={(v) => setCpu({ vendor: v })} />
+          </Field>
+          <Field label={t('admin.form.cpuFamily')} errors={errorOf('cpu.family')}>
+            <input className={INPUT} value={draft.cpu.family} onChange={(e) => setCpu({ family: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.model')} errors={errorOf('cpu.model')}>
+            <input className={INPUT} value={draft.cpu.model} onChange={(e) => setCpu({ model: e.target.value })} />
+          </Field>
+          <NumberField
+            label={t('admin.form.cores')}
+            value={draft.cpu.cores}
+            errors={errorOf('cpu.cores')}
+            onChange={(v) => setCpu({ cores: v })}
+          />
+          <NumberField
+            label={t('admin.form.threads')}
+            value={draft.cpu.threads}
+            errors={errorOf('cpu.threads')}
+            onChange={(v) => setCpu({ threads: v })}
+          />
+          <NumberField
+            label={t('admin.form.boost')}
+            step={0.1}
+            value={draft.cpu.boostGHz}
+            errors={errorOf('cpu.boostGHz')}
+            onChange={(v) => setCpu({ boostGHz: v })}
+          />
+          <Field label={t('admin.form.cpuSocket')} errors={errorOf('cpu.socket')}>
+            <input
+              className={INPUT}
+              value={draft.cpu.socket ?? ''}
+              onChange={(e) => setCpu({ socket: e.target.value.trim() || undefined })}
+            />
+          </Field>
+          <OptionalNumberField
+            label={t('admin.form.tdp')}
+            value={draft.cpu.tdpW}
+            errors={errorOf('cpu.tdpW')}
+            onChange={(v) => setCpu({ tdpW: v })}
+          />
+          <Field label={t('admin.form.memoryTypes')} errors={errorOf('cpu.memoryTypes')}>
+            <div className="flex gap-3 py-2 text-sm">
+              {RAM_TYPES.map((type) => (
+                <label key={type} className="inline-flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={draft.cpu.memoryTypes?.includes(type) ?? false}
+                    onChange={(e) => {
+                      const cur = draft.cpu.memoryTypes ?? [];
+                      const next = e.target.checked ? [...cur, type] : cur.filter((x) => x !== type);
+                      setCpu({ memoryTypes: next.length ? next : undefined });
+                    }}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </Field>
+        </Section>
+
+        <Section title={t('spec.gpu')}>
+          <Field label={t('admin.form.vendor')} errors={errorOf('gpu.vendor')}>
+            <Select value={draft.gpu.vendor} options={GPU_VENDORS} onChange={(v) => setGpu({ vendor: v })} />
+          </Field>
+          <Field label={t('admin.form.family')} errors={errorOf('gpu.family')}>
+            <input className={INPUT} value={draft.gpu.family} onChange={(e) => setGpu({ family: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.model')} errors={errorOf('gpu.model')}>
+            <input className={INPUT} value={draft.gpu.model} onChange={(e) => setGpu({ model: e.target.value })} />
+          </Field>
+          <NumberField label="VRAM (GB)" value={draft.gpu.vramGB} errors={errorOf('gpu.vramGB')} onChange={(v) => setGpu({ vramGB: v })} />
+          <NumberField
+            label="FP32 TFLOPS"
+            step={0.1}
+            value={draft.gpu.tflops}
+            errors={errorOf('gpu.tflops')}
+            onChange={(v) => setGpu({ tflops: v })}
+          />
+          <Field label={t('admin.form.integrated')} errors={errorOf('gpu.integrated')}>
+            <label className="inline-flex items-center gap-1.5 py-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.gpu.integrated ?? false}
+                onChange={(e) => setGpu({ integrated: e.target.checked || undefined })}
+              />
+              {t('admin.form.cpuIntegrated')}
+            </label>
+          </Field>
+          <OptionalNumberField
+            label={t('admin.form.tdp')}
+            value={draft.gpu.tdpW}
+            errors={errorOf('gpu.tdpW')}
+            onChange={(v) => setGpu({ tdpW: v })}
+          />
+          <OptionalNumberField
+            label={t('admin.form.gpuLength')}
+            value={draft.gpu.lengthMm}
+            errors={errorOf('gpu.lengthMm')}
+            onChange={(v) => setGpu({ lengthMm: v })}
+          />
+        </Section>
+
+        <Section title={t('admin.form.memory')}>
+          <NumberField
+            label={t('admin.form.capacity')}
+            value={draft.ram.capacityGB}
+            errors={errorOf('ram.capacityGB')}
+            onChange={(v) => setRam({ capacityGB: v })}
+          />
+          <Field label={t('admin.form.ramType')} errors={errorOf('ram.type')}>
+            <Select value={draft.ram.type} options={RAM_TYPES} onChange={(v) => setRam({ type: v })} />
+          </Field>
+          <OptionalNumberField
+            label={t('admin.form.ramSpeed')}
+            value={draft.ram.speedMHz}
+            errors={errorOf('ram.speedMHz')}
+            onChange={(v) => setRam({ speedMHz: v })}
+          />
+        </Section>
+
+        <Section title={t('spec.storage')}>
+          <div className="sm:col-span-2 space-y-2">
+            {draft.storage.map((d, i) => (
+              <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                <Select value={d.kind} options={STORAGE_KINDS} onChange={(v) => setDevice(i, { kind: v })} />
+                <Select value={d.interface} options={STORAGE_INTERFACES} onChange={(v) => setDevice(i, { interface: v })} />
+                <input
+                  type="number"
+                  min={0}
+                  className={INPUT}
+                  placeholder={t('admin.form.capacity')}
+                  aria-label={t('admin.form.capacity')}
+                  value={showNumber(d.capacityGB)}
+                  onChange={(e) => setDevice(i, { capacityGB: toNumber(e.target.value) })}
+                />
+                <button
+                  className="p-2 rounded-lg bg-transparent hover:bg-white/10 disabled:opacity-40"
+                  onClick={() => set({ storage: draft.storage.filter((_, j) => j !== i) })}
+                  disabled={draft.storage.length === 1}
+                  aria-label={t('admin.form.removeStorage')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <Errors messages={errorOf('storage')} />
+            <button
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => set({ storage: [...draft.storage, { kind: 'SSD', interface: 'NVMe', capacityGB: 1024 }] })}
+            >
+              <Plus className="h-4 w-4" /> {t('admin.form.addStorage')}
+            </button>
+          </div>
+        </Section>
+
+        <OptionalSection
+          title={t('spec.board')}
+          enabled={!!draft.board}
+          onToggle={(on) => set({ board: on ? { chipset: '', socket: '', memoryType: draft.ram.type } : undefined })}
+        >
+          <Field label={t('admin.form.chipset')} errors={errorOf('board.chipset')}>
+            <input className={INPUT} value={draft.board?.chipset ?? ''} onChange={(e) => setBoard({ chipset: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.socket')} errors={errorOf('board.socket')}>
+            <input className={INPUT} value={draft.board?.socket ?? ''} onChange={(e) => setBoard({ socket: e.target.value })} />
+          </Field>
+          <Field label={t('admin.form.boardMemory')} errors={errorOf('board.memoryType')}>
+            <Select
+              value={draft.board?.memoryType ?? 'DDR5'}
+              options={RAM_TYPES}
+              onChange={(v) => setBoard({ memoryType: v })}
+            />
+          </Field>
+        </OptionalSection>
+
+        <OptionalSection
+          title={t('admin.form.case')}
+          enabled={!!draft.case}
+          onToggle={(on) => set({ case: on ? { maxGpuLengthMm: NaN } : undefined })}
+        >
+          <NumberField
+            label={t('admin.form.maxGpuLength')}
+            value={draft.case?.maxGpuLengthMm ?? NaN}
+            errors={errorOf('case.maxGpuLengthMm')}
+            onChange={(v) => set({ case: { ...draft.case, maxGpuLengthMm: v } })}
+          />
+          <Field label={t('admin.form.formFactor')} errors={errorOf('case.formFactor')}>
+            <select
+              className={INPUT}
+              value={draft.case?.formFactor ?? ''}
+              onChange={(e) =>
+                set({
+                  case: {
+                    maxGpuLengthMm: draft.case?.maxGpuLengthMm ?? NaN,
+                    formFactor: (e.target.value || undefined) as CaseFormFactor | undefined,
+                  },
+                })
+              }
+            >
+              <option value="">{t('admin.form.unknown')}</option>
+              {CASE_FORM_FACTORS.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </OptionalSection>
+
+        <OptionalSection
+          title={t('spec.psu')}
+          enabled={!!draft.psu}
+          onToggle={(on) => set({ psu: on ? { watts: NaN } : undefined })}
+        >
+          <NumberField
+            label={t('admin.form.psuWatts')}
+            value={draft.psu?.watts ?? NaN}
+            errors={errorOf('psu.watts')}
+            onChange={(v) => set({ psu: { watts: v } })}
+          />
+        </OptionalSection>
+      </div>
+      <div className="border-t border-white/10 p-4 flex justify-end gap-2">
+        <button
+          className="px-4 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+          onClick={onClose}
+        >
+          {t('admin.cancel')}
+        </button>
+        <button
+          className="px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+          onClick={submit}
+        >
+          {t('admin.save')}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <fieldset className="rounded-xl ring-1 ring-white/10 p-3">
+      <legend className="px-1 text-sm font-medium">{title}</legend>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">{children}</div>
+    </fieldset>
+  );
+}
+
+function OptionalSection({
+  title,
+  enabled,
+  onToggle,
+  children,
+}: {
+  title: string;
+  enabled: boolean;
+  onToggle: (on: boolean) => void;
+  children: ReactNode;
+}) {
+  const { t } = useI18n();
+  return (
+    <fieldset className={cx('rounded-xl ring-1 ring-white/10 p-3', !enabled && 'opacity-70')}>
+      <legend className="px-1 text-sm font-medium">
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+          {t('admin.form.optional', { title })}
+        </label>
+      </legend>
+      {enabled && <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">{children}</div>}
+    </fieldset>
+  );
+}
+
+function Field({ label, errors, wide, children }: { label: string; errors: string[]; wide?: boolean; children: ReactNode }) {
+  return (
+    <label className={cx('block text-sm', wide && 'sm:col-span-2')}>
+      <span className="opacity-80">{label}</span>
+      <div className="mt-1">{children}</div>
+      <Errors messages={errors} />
+    </label>
+  );
+}
+
+function Errors({ messages }: { messages: string[] }) {
+  if (messages.length === 0) return null;
+  return <div className="mt-1 text-xs text-rose-300">{messages.join(' · ')}</div>;
+}
+
+function NumberField({
+  label,
+  value,
+  errors,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  errors: string[];
+  step?: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <Field label={label} errors={errors}>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        className={INPUT}
+        value={showNumber(value)}
+        onChange={(e) => onChange(toNumber(e.target.value))}
+      />
+    </Field>
+  );
+}
+
+function OptionalNumberField({
+  label,
+  value,
+  errors,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  errors: string[];
+  onChange: (v: number | undefined) => void;
+}) {
+  return (
+    <Field label={label} errors={errors}>
+      <input
+        type="number"
+        min={0}
+        className={INPUT}
+        value={showNumber(value)}
+        onChange={(e) => onChange(toOptionalNumber(e.target.value))}
+      />
+    </Field>
+  );
+}
+
+function Select<T extends string>({ value, options, onChange }: { value: T; options: readonly T[]; onChange: (v: T) => void }) {
+  return (
+    <select className={INPUT} value={value} onChange={(e) => onChange(e.target.value as T)}>
+      {options.map((o) => (
+        <option key={o} value={o}>
+          {o}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// 쉼표로 구분한 너비 목록. 입력 중인 글자("400, ")를 지우지 않도록 글자는 따로 들고,
+// 바깥 값이 바뀌었을 때(사진 삭제로 줄이 당겨지는 등)만 바깥 값으로 다시 보여 준다.
+const parseWidths = (v: string) => {
+  const widths = v.split(',').map((s) => s.trim()).filter(Boolean).map(Number);
+  return widths.length > 0 ? widths : undefined;
+};
+const formatWidths = (widths: number[] | undefined) => widths?.join(', ') ?? '';
+
+function WidthsInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number[] | undefined;
+  onChange: (widths: number[] | undefined) => void;
+}) {
+  const [text, setText] = useState(() => formatWidths(value));
+  const shown = formatWidths(parseWidths(text)) === formatWidths(value) ? text : formatWidths(value);
+  return (
+    <input
+      className={INPUT}
+      inputMode="numeric"
+      placeholder={label}
+      aria-label={label}
+      value={shown}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseWidths(e.target.value));
+      }}
+    />
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import { ChevronLeft, ChevronRight, Maximize2 } from 'lucide-react';
+import type { Product, ProductImage } from './catalog';
+import { DialogClose, FullscreenDialog } from './DialogFrame';
+import { useI18n } from './i18n';
+import { imageSources, primaryImage, productImages } from './images';
+import { ICON, cx } from './utils';
+
+const FRAME = 'relative overflow-hidden bg-gradient-to-br from-indigo-500/30 to-fuchsia-500/30 ring-1 ring-white/10';
+
+// --- Single image with blur-up placeholder ---
+// 작은 미리보기를 흐리게 깔아 두고, 본 이미지가 오면 서서히 바꾼다. 못 불러오면 onError 로 알린다.
+function SmartImage({
+  image,
+  sizes,
+  eager,
+  fit = 'cover',
+  className,
+  onError,
+}: {
+  image: ProductImage;
+  sizes: string;
+  eager?: boolean;
+  fit?: 'cover' | 'contain';
+  className?: string;
+  onError: () => void;
+}) {
+  const [loaded, setLoaded] = useState(false);
+  const { src, srcSet } = imageSources(image);
+  return (
+    <>
+      {image.placeholder && !loaded && (
+        <img
+          src={image.placeholder}
+          alt=""
+          aria-hidden
+          className="absolute inset-0 h-full w-full object-cover blur-md scale-110"
+        />
+      )}
+      <img
+        // 캐시에 있던 이미지는 onLoad 전에 이미 완료돼 있을 수 있다
+        ref={(el) => {
+          if (el?.complete && el.naturalWidth > 0 && !loaded) setLoaded(true);
+        }}
+        src={src}
+        srcSet={srcSet}
+        sizes={srcSet ? sizes : undefined}
+        alt={image.alt}
+        loading={eager ? 'eager' : 'lazy'}
+        decoding="async"
+        draggable={false}
+        onLoad={() => setLoaded(true)}
+        onError={onError}
+        className={cx(
+          'relative h-full w-full transition-opacity duration-300',
+          fit === 'cover' ? 'object-cover' : 'object-contain',
+          loaded ? 'opacity-100' : 'opacity-0',
+          className
+        )}
+      />
+    </>
+  );
+}
+
+// --- Thumbnail (카드/목록/장바구니/찜/검색 제안) ---
+// 사진이 없거나 불러오지 못하면 예전처럼 이모지를 보여 준다. className 으로 크기/모서리/글자 크기를 정한다.
+export function ProductThumb({ product, sizes, className }: { product: Product; sizes: string; className?: string }) {
+  const image = primaryImage(product);
+  const [failed, setFailed] = useState<string | null>(null); // 실패한 src (상품이 바뀌면 다시 시도)
+  const broken = !image || failed === image.src;
+  return (
+    <div className={cx(FRAME, 'shrink-0 flex items-center justify-center', className)}>
+      {broken ? (
+        <span aria-hidden>{product.img}</span>
+      ) : (
+        <SmartImage key={image.src} image={image} sizes={sizes} onError={() => setFailed(image.src)} />
+      )}
+    </div>
+  );
+}
+
+// --- Detail gallery: main image (hover zoom) + thumbnail strip + lightbox ---
+export function ProductGallery({ product }: { product: Product }) {
+  const { t } = useI18n();
+  const [failed, setFailed] = useState<string[]>([]); // 불러오지 못한 사진은 목록에서 뺀다
+  const images = productImages(product).filter((img) => !failed.includes(img.src));
+  const [index, setIndex] = useState(0);
+  const [lightbox, setLightbox] = useState(false);
+  const [zoom, setZoom] = useState<{ x: number; y: number } | null>(null); // 마우스를 올린 위치 (%)
+  const current = images[Math.min(index, images.length - 1)];
+
+  if (!current) {
+    return <div className={cx(FRAME, 'h-40 rounded-2xl flex items-center justify-center text-5xl')}>{product.img}</div>;
+  }
+
+  return (
+    <div className="space-y-2 w-full max-w-xs mx-auto sm:max-w-none">
+      <button
+        className={cx(FRAME, 'group block w-full aspect-square rounded-2xl cursor-zoom-in p-0')}
+        onClick={() => setLightbox(true)}
+        onPointerMove={(e) => {
+          if (e.pointerType !== 'mouse') return;
+          const r = e.currentTarget.getBoundingClientRect();
+          setZoom({ x: ((e.clientX - r.left) / r.width) * 100, y: ((e.clientY - r.top) / r.height) * 100 });
+        }}
+        onPointerLeave={() => setZoom(null)}
+        aria-label={t('gallery.open')}
+      >
+        <div
+          className="absolute inset-0 transition-transform duration-150"
+          style={zoom ? { transform: 'scale(2)', transformOrigin: `${zoom.x}% ${zoom.y}%` } : undefined}
+        >
+          <SmartImage
+            key={current.src}
+            image={current}
+            sizes="(min-width: 640px) 200px, 90vw"
+            eager
+            onError={() => setFailed((f) => [...f, current.src])}
+          />
+        </div>
+        <span className="absolute right-2 bottom-2 p-1.5 rounded-lg bg-slate-900/70 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Maximize2 className="h-4 w-4" />
+        </span>
+      </button>
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto" role="group" aria-label={t('gallery.label')}>
+          {images.map((img, i) => (
+            <button
+              key={img.src}
+              className={cx(
+                FRAME,
+                'h-12 w-12 shrink-0 rounded-lg p-0',
+                i === index ? 'ring-2 ring-indigo-400' : 'opacity-70 hover:opacity-100'
+              )}
+              onClick={() => setIndex(i)}
+              aria-label={t('gallery.thumb', { index: String(i + 1), alt: img.alt })}
+              aria-current={i === index}
+            >
+              <SmartImage image={img} sizes="48px" onError={() => setFailed((f) => [...f, img.src])} />
+            </button>
+          ))}
+        </div>
+      )}
+      {lightbox && (
+        <Lightbox
+          images={images}
+          index={images.indexOf(current)}
+          onIndex={setIndex}
+          onClose={() => setLightbox(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+// --- Fullscreen lightbox ---
+// 상세 대화상자 위에 한 겹 더 쌓인다. ←/→ 로 넘기고 Esc 로 닫는다. 두 손가락으로 벌리거나 두 번 눌러 확대하고, 확대한 상태에서는 끌어서 옮긴다.
+type View = { scale: number; x: number; y: number };
+const RESET: View = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 4;
+
+function Lightbox({
+  images,
+  index,
+  onIndex,
+  onClose,
+}: {
+  images: ProductImage[];
+  index: number;
+  onIndex: (i: number) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [view, setView] = useState<View>(RESET);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{ dist: number; scale: number } | null>(null);
+  const image = images[index];
+  const go = (step: number) => {
+    setView(RESET);
+    onIndex((index + step + images.length) % images.length);
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft' && images.length > 1) go(-1);
+      else if (e.key === 'ArrowRight' && images.length > 1) go(1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const distance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const onPointerDown = (e: ReactPointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) gesture.current = { dist: distance(), scale: view.scale };
+  };
+  const onPointerMove = (e: ReactPointerEvent) => {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2 && gesture.current) {
+      const g = gesture.current;
+      const scale = Math.min(MAX_SCALE, Math.max(1, (g.scale * distance()) / g.dist));
+      setView((v) => (scale === 1 ? RESET : { ...v, scale }));
+    } else if (pointers.current.size === 1 && view.scale > 1) {
+      setView((v) => ({ ...v, x: v.x + e.clientX - prev.x, y: v.y + e.clientY - prev.y }));
+    }
+  };
+  const onPointerUp = (e: ReactPointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) gesture.current = null;
+  };
+
+  if (!image) return null;
+  return (
+    <FullscreenDialog onClose={onClose} label={image.alt} className="flex flex-col">
+      <div className="flex items-center gap-2 p-3 text-sm text-slate-300">
+        <span className="tabular-nums">{t('gallery.counter', { index: String(index + 1), count: String(images.length) })}</span>
+        <span className="truncate">{image.alt}</span>
+        <DialogClose className="ml-auto" />
+      </div>
+      <div
+        className="relative flex-1 min-h-0 overflow-hidden touch-none select-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={() => setView((v) => (v.scale > 1 ? RESET : { scale: 2.5, x: 0, y: 0 }))}
+      >
+        <div
+          className={cx('absolute inset-4', view.scale > 1 ? 'cursor-grab' : 'cursor-zoom-in')}
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          <SmartImage key={image.src} image={image} sizes="100vw" fit="contain" eager onError={() => undefined} />
+        </div>
+        {images.length > 1 && (
+          <>
+            <button
+              className="absolute left-3 top-1/2 -translate-y-1/2 p-3 rounded-full bg-slate-900/70 hover:bg-slate-800"
+              onClick={() => go(-1)}
+              onPointerDown={(e) => e.stopPropagation()}
+              aria-label={t('gallery.prev')}
+            >
+              <ChevronLeft className={ICON} />
+            </button>
+            <button
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-3 rounded-full bg-slate-900/70 hover:bg-slate-800"
+              onClick={() => go(1)}
+              onPointerDown={(e) => e.stopPropagation()}
+              aria-label={t('gallery.next')}
+            >
+              <ChevronRight className={ICON} />
+            </button>
+          </>
+        )}
+      </div>
+      <p className="p-3 text-center text-xs text-slate-400">{t('gallery.zoomHint')}</p>
+    </FullscreenDialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { History, X } from 'lucide-react';
+import type { Product } from './catalog';
+import { useMoney } from './currency';
+import { useI18n } from './i18n';
+import { currentPrice } from './pricing';
+import { ProductThumb } from './ProductImage';
+import { clearRecent, recentProducts, removeRecent, useRecentViews } from './recent';
+import { ICON } from './utils';
+
+// --- 최근 본 상품 (상품 목록 위) ---
+export function RecentStrip({ products, onDetail }: { products: Product[]; onDetail: (id: string) => void }) {
+  const { t } = useI18n();
+  const { formatPrice } = useMoney();
+  const items = recentProducts(useRecentViews(), products);
+  if (items.length === 0) return null;
+  return (
+    <section className="mb-4" aria-label={t('recent.title')}>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <History className={ICON} />
+        <h2 className="font-medium">{t('recent.title')}</h2>
+        <button
+          className="ml-auto px-2 py-1 rounded-lg bg-transparent text-xs text-slate-400 hover:bg-white/10"
+          onClick={clearRecent}
+        >
+          {t('recent.clear')}
+        </button>
+      </div>
+      <ul className="flex gap-2 overflow-x-auto pb-1">
+        {items.map((p) => (
+          <li key={p.id} className="relative shrink-0 group">
+            <button
+              className="w-36 flex items-center gap-2 p-2 pr-6 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/5 text-left"
+              onClick={() => onDetail(p.id)}
+            >
+              <ProductThumb product={p} sizes="36px" className="h-9 w-9 rounded-lg text-lg" />
+              <span className="min-w-0">
+                <span className="block text-xs font-medium truncate">{p.title}</span>
+                <span className="block text-xs text-slate-400 tabular-nums">{formatPrice(currentPrice(p))}</span>
+              </span>
+            </button>
+            <button
+              className="absolute right-1 top-1 p-0.5 rounded bg-transparent text-slate-400 hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              onClick={() => removeRecent(p.id)}
+              aria-label={t('recent.remove', { title: p.title })}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
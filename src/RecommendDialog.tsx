@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import {
+  AlertTriangle,
+  Bot,
+  Briefcase,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Clapperboard,
+  Gamepad2,
+  Minimize2,
+  RotateCcw,
+  Sparkles,
+  VolumeX,
+  X,
+} from 'lucide-react';
+import type { Product } from './catalog';
+import { useI18n } from './i18n';
+import { Dialog, DialogClose, DialogTitle } from './DialogFrame';
+import { currentPrice } from './pricing';
+import { useMoney } from './currency';
+import { ProductThumb } from './ProductImage';
+import {
+  BUDGETS,
+  DEFAULT_NEEDS,
+  PREFERENCES,
+  RESOLUTION_CHOICES,
+  USAGES,
+  budgetLabel,
+  clearNeeds,
+  needsSummary,
+  rankProducts,
+  saveNeeds,
+  useNeeds,
+  type Match,
+  type Needs,
+  type Preference,
+  type ReasonTone,
+  type Usage,
+} from './recommend';
+import { ICON, cx } from './utils';
+
+const USAGE_ICONS: Record<Usage, React.ReactNode> = {
+  gaming: <Gamepad2 className={ICON} />,
+  video: <Clapperboard className={ICON} />,
+  office: <Briefcase className={ICON} />,
+  ai: <Bot className={ICON} />,
+};
+
+const PREF_ICONS: Record<Preference, React.ReactNode> = {
+  quiet: <VolumeX className={ICON} />,
+  compact: <Minimize2 className={ICON} />,
+};
+
+const TONE_CLASS: Record<ReasonTone, string> = {
+  good: 'text-emerald-300',
+  warn: 'text-amber-300',
+  bad: 'text-rose-300',
+};
+
+// --- "나에게 맞는 PC 찾기" 대화상자 ---
+// 질문 네 개(예산 → 용도 → 해상도 → 선호)를 차례로 묻고 결과를 보여 준다. 결과를 보는 순간 답변을 저장한다.
+// 이미 답한 적이 있으면 바로 결과부터 보여 준다.
+type Step = 'budget' | 'usage' | 'resolution' | 'prefs' | 'results';
+const QUESTIONS: Step[] = ['budget', 'usage', 'resolution', 'prefs'];
+
+export function RecommendDialog({
+  products,
+  onClose,
+  onDetail,
+  onApply,
+}: {
+  products: Product[];
+  onClose: () => void;
+  onDetail: (id: string) => void;
+  onApply: () => void; // '추천' 정렬로 바꾼다
+}) {
+  const { t } = useI18n();
+  const saved = useNeeds();
+  const [draft, setDraft] = useState<Needs>(saved ?? DEFAULT_NEEDS);
+  const [step, setStep] = useState<Step>(saved ? 'results' : 'budget');
+  const index = QUESTIONS.indexOf(step);
+
+  // 이유 문장이 언어를 따르므로 메모하지 않고 그릴 때마다 매긴다 (카탈로그가 작아 충분히 싸다)
+  const ranked = rankProducts(products, draft);
+
+  const set = (patch: Partial<Needs>) => setDraft((d) => ({ ...d, ...patch }));
+  const togglePref = (pref: Preference) =>
+    set({ prefs: draft.prefs.includes(pref) ? draft.prefs.filter((p) => p !== pref) : [...draft.prefs, pref] });
+  const showResults = () => {
+    saveNeeds(draft);
+    setStep('results');
+  };
+
+  return (
+    <Dialog onClose={onClose} className="w-[min(40rem,calc(100vw-2rem))] flex flex-col">
+      <div className="flex items-center gap-2 p-4 border-b border-white/10">
+        <Sparkles className={ICON} />
+        <DialogTitle>{step === 'results' ? t('rec.resultsTitle') : t('rec.title')}</DialogTitle>
+        {index >= 0 && (
+          <span className="text-xs text-slate-400 tabular-nums">
+            {t('rec.step', { step: index + 1, total: QUESTIONS.length })}
+          </span>
+        )}
+        <DialogClose className="ml-auto" />
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4">
+        {step === 'budget' && (
+          <Question title={t('rec.q.budget')}>
+            {BUDGETS.map((b) => (
+              <Choice
+                key={b.value}
+                checked={draft.budget === b.value}
+                onSelect={() => set({ budget: b.value })}
+                title={budgetLabel(b.value)}
+              />
+            ))}
+          </Question>
+        )}
+        {step === 'usage' && (
+          <Question title={t('rec.q.usage')}>
+            {USAGES.map((u) => (
+              <Choice
+                key={u.value}
+                checked={draft.usage === u.value}
+                onSelect={() => set({ usage: u.value })}
+                icon={USAGE_ICONS[u.value]}
+                title={t(u.label)}
+                hint={t(u.hint)}
+              />
+            ))}
+          </Question>
+        )}
+        {step === 'resolution' && (
+          <Question title={t('rec.q.resolution')} hint={t('rec.q.resolutionHint')}>
+            {RESOLUTION_CHOICES.map((r) => (
+              <Choice
+                key={r.value}
+                checked={draft.resolution === r.value}
+                onSelect={() => set({ resolution: r.value })}
+                title={r.name}
+                hint={t(r.hint)}
+              />
+            ))}
+          </Question>
+        )}
+        {step === 'prefs' && (
+          <Question title={t('rec.q.prefs')} multiple>
+            {PREFERENCES.map((p) => (
+              <Choice
+                key={p.value}
+                multiple
+                checked={draft.prefs.includes(p.value)}
+                onSelect={() => togglePref(p.value)}
+                icon={PREF_ICONS[p.value]}
+                title={t(p.label)}
+                hint={t(p.hint)}
+              />
+            ))}
+          </Question>
+        )}
+        {step === 'results' && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-400">{needsSummary(draft)}</p>
+            {ranked.length === 0 ? (
+              <p className="py-8 text-center text-sm text-slate-400">{t('rec.empty')}</p>
+            ) : (
+              <ol className="space-y-3">
+                {ranked.map((m, i) => (
+                  <MatchRow
+                    key={m.product.id}
+                    match={m}
+                    rank={i + 1}
+                    onDetail={() => {
+                      onClose();
+                      onDetail(m.product.id);
+                    }}
+                  />
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 p-4 border-t border-white/10">
+        {index > 0 && (
+          <button
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+            onClick={() => setStep(QUESTIONS[index - 1])}
+          >
+            <ChevronLeft className={ICON} /> {t('rec.back')}
+          </button>
+        )}
+        {step === 'results' && (
+          <>
+            <button
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+              onClick={() => setStep('budget')}
+            >
+              <RotateCcw className={ICON} /> {t('rec.restart')}
+            </button>
+            {saved && (
+              <button
+                className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+                onClick={() => {
+                  clearNeeds();
+                  onClose();
+                }}
+              >
+                <X className={ICON} /> {t('rec.clear')}
+              </button>
+            )}
+          </>
+        )}
+        <div className="ml-auto">
+          {index >= 0 && index < QUESTIONS.length - 1 && (
+            <PrimaryButton onClick={() => setStep(QUESTIONS[index + 1])}>
+              {t('rec.next')} <ChevronRight className={ICON} />
+            </PrimaryButton>
+          )}
+          {step === 'prefs' && (
+            <PrimaryButton onClick={showResults}>
+              {t('rec.showResults')} <ChevronRight className={ICON} />
+            </PrimaryButton>
+          )}
+          {step === 'results' && (
+            <PrimaryButton
+              onClick={() => {
+                onApply();
+                onClose();
+              }}
+            >
+              <Check className={ICON} /> {t('rec.apply')}
+            </PrimaryButton>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+function Question({
+  title,
+  hint,
+  multiple,
+  children,
+}: {
+  title: string;
+  hint?: string;
+  multiple?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium">{title}</h3>
+        {hint && <p className="text-xs text-slate-400">{hint}</p>}
+      </div>
+      <div className="space-y-2" role={multiple ? 'group' : 'radiogroup'} aria-label={title}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function Choice({
+  checked,
+  multiple,
+  onSelect,
+  icon,
+  title,
+  hint,
+}: {
+  checked: boolean;
+  multiple?: boolean;
+  onSelect: () => void;
+  icon?: React.ReactNode;
+  title: string;
+  hint?: string;
+}) {
+  return (
+    <button
+      role={multiple ? 'checkbox' : 'radio'}
+      aria-checked={checked}
+      onClick={onSelect}
+      className={cx(
+        'w-full flex items-center gap-3 p-3 rounded-xl text-left ring-1 ring-inset',
+        checked ? 'bg-indigo-500/15 ring-indigo-400/50' : 'bg-transparent ring-white/10 hover:bg-white/5'
+      )}
+    >
+      {icon && <span className="opacity-80">{icon}</span>}
+      <span className="flex-1">
+        <span className="block font-medium">{title}</span>
+        {hint && <span className="block text-xs text-slate-400">{hint}</span>}
+      </span>
+      {checked && <Check className={cx(ICON, 'text-indigo-300')} />}
+    </button>
+  );
+}
+
+function MatchRow({ match, rank, onDetail }: { match: Match; rank: number; onDetail: () => void }) {
+  const { t } = useI18n();
+  const { formatPrice } = useMoney();
+  const { product: p, score, reasons, overBudget, underpowered } = match;
+  return (
+    <li className="flex gap-3 p-3 rounded-xl ring-1 ring-white/10">
+      <ProductThumb product={p} sizes="56px" className="h-14 w-14 rounded-xl text-2xl" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-400 tabular-nums">#{rank}</span>
+          <button className="p-0 bg-transparent font-medium text-left hover:underline" onClick={onDetail}>
+            {p.title}
+          </button>
+          {overBudget && <Flag>{t('rec.flag.overBudget')}</Flag>}
+          {underpowered && <Flag>{t('rec.flag.underpowered')}</Flag>}
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="h-1.5 flex-1 max-w-40 rounded-full bg-white/10 overflow-hidden"
+            role="meter"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={score}
+            aria-label={t('rec.score', { score })}
+          >
+            <div
+              className={cx('h-full', score >= 75 ? 'bg-emerald-400' : score >= 50 ? 'bg-amber-400' : 'bg-rose-400')}
+              style={{ width: `${score}%` }}
+            />
+          </div>
+          <span className="text-xs tabular-nums">{t('rec.score', { score })}</span>
+          <span className="ml-auto text-sm tabular-nums">{formatPrice(currentPrice(p))}</span>
+        </div>
+        <ul className="text-xs space-y-0.5">
+          {reasons.map((r) => (
+            <li key={r.text} className={TONE_CLASS[r.tone]}>
+              · {r.text}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </li>
+  );
+}
+
+function Flag({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[11px] bg-rose-500/15 text-rose-300 ring-1 ring-inset ring-rose-400/40">
+      <AlertTriangle className="h-3 w-3" /> {children}
+    </span>
+  );
+}
+
+function PrimaryButton({ onClick, children }: { onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
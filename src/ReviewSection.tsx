@@ -0,0 +1,443 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { ImagePlus, Loader2, MessageSquarePlus, RotateCcw, Star, ThumbsUp, X } from 'lucide-react';
+import { errorMessage, isApiError } from './api';
+import type { Product } from './catalog';
+import { useI18n } from './i18n';
+import type { MessageKey } from './messages';
+import {
+  EMPTY_DRAFT,
+  MAX_REVIEW_PHOTOS,
+  REVIEW_SORTS,
+  USE_CASES,
+  addReview,
+  productReviews,
+  ratingIndex,
+  ratingOf,
+  readReviewPhoto,
+  refreshReviews,
+  sortReviews,
+  toggleHelpful,
+  useReviewStore,
+  useReviews,
+  validateReview,
+  type RatingSummary,
+  type Review,
+  type ReviewDraft,
+  type ReviewErrors,
+  type ReviewSort,
+  type UseCase,
+} from './reviews';
+import { ICON, cx } from './utils';
+
+// --- Stars ---
+export function RatingStars({ value, className = 'h-4 w-4' }: { value: number; className?: string }) {
+  const { t } = useI18n();
+  const filled = Math.round(value);
+  return (
+    <span className="inline-flex" role="img" aria-label={t('review.starsLabel', { value: value.toFixed(1) })}>
+      {[1, 2, 3, 4, 5].map((i) => (
+        <Star key={i} className={cx(className, i <= filled ? 'fill-amber-400 text-amber-400' : 'text-slate-500')} />
+      ))}
+    </span>
+  );
+}
+
+// --- 카드/목록용 평균 별점 (후기가 없으면 표시하지 않음) ---
+export function RatingBadge({ product }: { product: Product }) {
+  const { t } = useI18n();
+  const reviews = useReviews();
+  const summary = useMemo(() => ratingOf(ratingIndex(reviews), product.id), [reviews, product.id]);
+  if (summary.count === 0) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-slate-300"
+      title={t('review.badge', { value: summary.average.toFixed(1), count: summary.count })}
+    >
+      <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+      <span className="tabular-nums">{summary.average.toFixed(1)}</span>
+      <span className="tabular-nums text-slate-400">({summary.count})</span>
+    </span>
+  );
+}
+
+// --- 상세 화면의 후기 영역 ---
+export function ReviewSection({ product }: { product: Product }) {
+  const { t } = useI18n();
+  const { status, data, error } = useReviewStore();
+  const { reviews, voted } = data;
+  const [sort, setSort] = useState<ReviewSort>('recent');
+  const [writing, setWriting] = useState(false);
+  const [posted, setPosted] = useState(false);
+  const list = useMemo(() => sortReviews(productReviews(reviews, product.id), sort), [reviews, product.id, sort]);
+  const summary = ratingOf(ratingIndex(list), product.id);
+
+  return (
+    <section className="rounded-2xl ring-1 ring-white/10 p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <h4 className="font-semibold">{t('review.title')}</h4>
+        <span className="text-sm text-slate-400">{t('review.count', { count: summary.count })}</span>
+        {!writing && (
+          <button
+            className="ml-auto inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+            onClick={() => {
+              setWriting(true);
+              setPosted(false);
+            }}
+          >
+            <MessageSquarePlus className={ICON} /> {t('review.write')}
+          </button>
+        )}
+      </div>
+
+      {summary.count > 0 && <RatingSummaryView summary={summary} />}
+
+      {writing && (
+        <ReviewForm
+          productId={product.id}
+          onCancel={() => setWriting(false)}
+          onPosted={() => {
+            setWriting(false);
+            setPosted(true);
+            setSort('recent');
+          }}
+        />
+      )}
+      {posted && (
+        <div className="text-sm text-emerald-300" role="status">
+          {t('review.thanks')}
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="flex items-center gap-2 text-sm text-rose-300" role="alert">
+          <span className="flex-1">{t('review.loadError', { message: error ?? '' })}</span>
+          <button
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-transparent ring-1 ring-white/10 hover:bg-white/10 text-slate-200"
+            onClick={() => void refreshReviews()}
+          >
+            <RotateCcw className="h-3.5 w-3.5" /> {t('common.retry')}
+          </button>
+        </div>
+      )}
+      {status === 'loading' && list.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          <Loader2 className="inline h-4 w-4 mr-1 -mt-0.5 animate-spin" />
+          {t('review.loading')}
+        </p>
+      ) : list.length === 0 ? (
+        !writing && status !== 'error' && <p className="text-sm text-slate-400">{t('review.none')}</p>
+      ) : (
+        <>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+            aria-label={t('review.sort')}
+            className="bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-1.5 text-sm"
+          >
+            {REVIEW_SORTS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {t(o.label)}
+              </option>
+            ))}
+          </select>
+          <ul className="space-y-3">
+            {list.map((r) => (
+              <li key={r.id}>
+                <ReviewItem review={r} voted={voted.includes(r.id)} />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
+
+// 평균 별점과 점수별 분포 막대
+function RatingSummaryView({ summary }: { summary: RatingSummary }) {
+  const { t } = useI18n();
+  const max = Math.max(...summary.histogram, 1);
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-4 items-center">
+      <div className="text-center">
+        <div className="text-3xl font-semibold tabular-nums">{summary.average.toFixed(1)}</div>
+        <RatingStars value={summary.average} />
+      </div>
+      <div className="space-y-1">
+        {[5, 4, 3, 2, 1].map((star) => {
+          const n = summary.histogram[star - 1];
+          return (
+            <div key={star} className="flex items-center gap-2 text-xs">
+              <span className="w-8 text-slate-400 tabular-nums">{t('review.starN', { star: String(star) })}</span>
+              <div
+                className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden"
+                role="meter"
+                aria-valuemin={0}
+                aria-valuemax={summary.count}
+                aria-valuenow={n}
+                aria-label={t('review.starN', { star: String(star) })}
+              >
+                <div className="h-full rounded-full bg-amber-400" style={{ width: `${(n / max) * 100}%` }} />
+              </div>
+              <span className="w-6 text-right tabular-nums text-slate-400">{n}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ReviewItem({ review: r, voted }: { review: Review; voted: boolean }) {
+  const { t, formatDate } = useI18n();
+  const useCase = USE_CASES.find((u) => u.value === r.useCase);
+  return (
+    <article className="rounded-xl ring-1 ring-white/10 p-3 text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <RatingStars value={r.rating} className="h-3.5 w-3.5" />
+        <span className="font-medium">{r.title}</span>
+        {useCase && (
+          <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-500/15 ring-1 ring-inset ring-indigo-400/30 text-indigo-200">
+            {t(useCase.label)}
+          </span>
+        )}
+      </div>
+      <div className="text-xs text-slate-400">
+        {r.author || t('review.anonymous')} · {formatDate(r.createdAt, { dateStyle: 'medium' })}
+      </div>
+      <p className="whitespace-pre-line opacity-90">{r.body}</p>
+      {(r.pros.length > 0 || r.cons.length > 0) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+          {r.pros.length > 0 && <PointList title={t('review.pros')} items={r.pros} tone="text-emerald-300" />}
+          {r.cons.length > 0 && <PointList title={t('review.cons')} items={r.cons} tone="text-rose-300" />}
+        </div>
+      )}
+      {r.photos.length > 0 && (
+        <div className="flex gap-2">
+          {r.photos.map((src, i) => (
+            <img
+              key={i}
+              src={src}
+              alt={t('review.photoAlt', { index: String(i + 1) })}
+              className="h-20 w-20 rounded-lg object-cover ring-1 ring-white/10"
+            />
+          ))}
+        </div>
+      )}
+      <button
+        className={cx(
+          'inline-flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs ring-1',
+          voted ? 'bg-indigo-500/20 ring-indigo-400/50' : 'bg-transparent ring-white/10 hover:bg-white/10'
+        )}
+        onClick={() => void toggleHelpful(r.id)}
+        aria-pressed={voted}
+      >
+        <ThumbsUp className="h-3.5 w-3.5" /> {t('review.helpful', { count: r.helpful })}
+      </button>
+    </article>
+  );
+}
+
+function PointList({ title, items, tone }: { title: string; items: string[]; tone: string }) {
+  return (
+    <div>
+      <div className={cx('font-medium', tone)}>{title}</div>
+      <ul className="list-disc pl-4 opacity-80">
+        {items.map((p, i) => (
+          <li key={i}>{p}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// --- Review form ---
+function ReviewForm({
+  productId,
+  onCancel,
+  onPosted,
+}: {
+  productId: string;
+  onCancel: () => void;
+  onPosted: () => void;
+}) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ReviewDraft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<ReviewErrors>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const set = (patch: Partial<ReviewDraft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files) return;
+    const room = MAX_REVIEW_PHOTOS - draft.photos.length;
+    try {
+      const photos = await Promise.all([...files].slice(0, room).map((f) => readReviewPhoto(f)));
+      setDraft((d) => ({ ...d, photos: [...d.photos, ...photos].slice(0, MAX_REVIEW_PHOTOS) }));
+      setSaveError(null);
+    } catch {
+      setSaveError(t('review.error.photo'));
+    }
+  };
+
+  const submit = async () => {
+    const errs = validateReview(draft);
+    setErrors(errs);
+    if (Object.keys(errs).length > 0) return;
+    setSubmitting(true);
+    setSaveError(null);
+    try {
+      await addReview(productId, draft);
+      onPosted();
+    } catch (e) {
+      // 413: 사진 때문에 저장 공간이 모자람
+      setSaveError(isApiError(e) && e.status === 413 ? t('review.error.save') : t('review.error.server', { message: errorMessage(e) }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const input = 'w-full bg-transparent ring-1 ring-white/10 rounded-xl px-3 py-2 text-sm';
+
+  return (
+    <div className="rounded-xl ring-1 ring-indigo-400/30 bg-indigo-500/[0.04] p-3 space-y-3 text-sm">
+      <fieldset>
+        <legend className="opacity-80 mb-1">{t('review.field.rating')}</legend>
+        <StarPicker value={draft.rating} onChange={(rating) => set({ rating })} />
+        <FieldError error={errors.rating} />
+      </fieldset>
+      <FormField label={t('review.field.title')} error={errors.title}>
+        <input
+          className={input}
+          value={draft.title}
+          maxLength={60}
+          placeholder={t('review.placeholder.title')}
+          onChange={(e) => set({ title: e.target.value })}
+        />
+      </FormField>
+      <FormField label={t('review.field.body')} error={errors.body}>
+        <textarea
+          className={cx(input, 'min-h-24')}
+          value={draft.body}
+          maxLength={2000}
+          placeholder={t('review.placeholder.body')}
+          onChange={(e) => set({ body: e.target.value })}
+        />
+      </FormField>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <FormField label={t('review.field.pros')}>
+          <textarea className={input} rows={3} value={draft.pros} onChange={(e) => set({ pros: e.target.value })} />
+        </FormField>
+        <FormField label={t('review.field.cons')}>
+          <textarea className={input} rows={3} value={draft.cons} onChange={(e) => set({ cons: e.target.value })} />
+        </FormField>
+        <FormField label={t('review.field.useCase')}>
+          <select
+            className={input}
+            value={draft.useCase}
+            onChange={(e) => set({ useCase: e.target.value as UseCase })}
+          >
+            {USE_CASES.map((u) => (
+              <option key={u.value} value={u.value}>
+                {t(u.label)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label={t('review.field.author')}>
+          <input className={input} value={draft.author} maxLength={20} onChange={(e) => set({ author: e.target.value })} />
+        </FormField>
+      </div>
+      <div>
+        <div className="opacity-80 mb-1">{t('review.field.photos', { count: MAX_REVIEW_PHOTOS })}</div>
+        <div className="flex flex-wrap gap-2">
+          {draft.photos.map((src, i) => (
+            <div key={i} className="relative">
+              <img
+                src={src}
+                alt={t('review.photoAlt', { index: String(i + 1) })}
+                className="h-16 w-16 rounded-lg object-cover ring-1 ring-white/10"
+              />
+              <button
+                className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-900 ring-1 ring-white/20"
+                onClick={() => set({ photos: draft.photos.filter((_, j) => j !== i) })}
+                aria-label={t('review.removePhoto')}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {draft.photos.length < MAX_REVIEW_PHOTOS && (
+            <label className="h-16 w-16 rounded-lg ring-1 ring-dashed ring-white/20 flex items-center justify-center cursor-pointer hover:bg-white/5">
+              <ImagePlus className={ICON} />
+              <span className="sr-only">{t('review.addPhoto')}</span>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="sr-only"
+                onChange={(e) => {
+                  void addPhotos(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      {saveError && (
+        <div className="text-xs text-rose-300" role="alert">
+          {saveError}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <button className="px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10" onClick={onCancel}>
+          {t('order.cancel')}
+        </button>
+        <button
+          className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+          onClick={() => void submit()}
+          disabled={submitting}
+        >
+          {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {t('review.submit')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function StarPicker({ value, onChange }: { value: number; onChange: (v: number) => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="inline-flex gap-1" role="radiogroup" aria-label={t('review.field.rating')}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          role="radio"
+          aria-checked={value === n}
+          aria-label={t('review.rate', { count: n })}
+          className="p-0.5 rounded bg-transparent hover:bg-white/10"
+          onClick={() => onChange(n)}
+        >
+          <Star className={cx('h-6 w-6', n <= value ? 'fill-amber-400 text-amber-400' : 'text-slate-500')} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function FormField({ label, error, children }: { label: string; error?: MessageKey; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block opacity-80 mb-1">{label}</span>
+      {children}
+      <FieldError error={error} />
+    </label>
+  );
+}
+
+function FieldError({ error }: { error?: MessageKey }) {
+  const { t } = useI18n();
+  return error ? <span className="mt-1 block text-xs text-rose-300">{t(error)}</span> : null;
+}
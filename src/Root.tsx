@@ -0,0 +1,18 @@
+import { Suspense, lazy } from 'react';
+import App from './App.tsx';
+import { useRoute } from './route';
+
+// 관리자 화면은 #admin 으로 들어올 때만 불러온다 (매장 번들에 포함하지 않음)
+const AdminPage = lazy(() => import('./Admin.tsx'));
+
+export default function Root() {
+  const route = useRoute();
+  if (route === 'admin') {
+    return (
+      <Suspense fallback={<div className="min-h-screen bg-slate-950" />}>
+        <AdminPage />
+      </Suspense>
+    );
+  }
+  return <App />;
+}
@@ -0,0 +1,199 @@
+import { useId, useState, type KeyboardEvent } from 'react';
+import { Clock, Cpu, Monitor, Search, Trash2, X } from 'lucide-react';
+import type { Product } from './catalog';
+import { useMoney } from './currency';
+import { useI18n } from './i18n';
+import type { MessageKey } from './messages';
+import { currentPrice } from './pricing';
+import { addRecentSearch, clearRecentSearches, removeRecentSearch, useRecentSearches } from './recentSearches';
+import { ProductThumb } from './ProductImage';
+import { suggest, type Suggestion } from './suggest';
+import { ICON_DIM, cx } from './utils';
+
+const GROUP_TITLE: Record<Suggestion['kind'], MessageKey> = {
+  recent: 'search.group.recent',
+  'clear-recent': 'search.group.recent',
+  spec: 'search.group.spec',
+  product: 'search.group.product',
+};
+
+// --- Search box with autocomplete (ARIA combobox) ---
+// 헤더와 모바일 필터 드로어가 함께 쓴다. ↑/↓ 로 이동, Enter 로 선택, Esc 로 닫기(닫혀 있으면 검색어 지우기).
+export function SearchBox({
+  value,
+  onChange,
+  products,
+  onPickProduct,
+  placeholder,
+  className,
+  boxClassName,
+}: {
+  value: string;
+  onChange: (q: string) => void;
+  products: Product[];
+  onPickProduct: (id: string) => void;
+  placeholder?: string;
+  className?: string;
+  boxClassName?: string;
+}) {
+  const { t } = useI18n();
+  const baseId = useId();
+  const listId = `${baseId}-list`;
+  const recent = useRecentSearches();
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  // 사양 제안 문구(제조사 표기)가 언어를 따르므로 메모하지 않고 그릴 때마다 만든다 (카탈로그가 작아 충분히 싸다)
+  const items = suggest(products, value, recent);
+  const expanded = open && items.length > 0;
+  const optionId = (s: Suggestion) => `${baseId}-${s.id}`;
+
+  const close = () => {
+    setOpen(false);
+    setActive(-1);
+  };
+
+  const choose = (s: Suggestion) => {
+    if (s.kind === 'clear-recent') {
+      clearRecentSearches();
+    } else if (s.kind === 'product') {
+      addRecentSearch(value);
+      onPickProduct(s.product.id);
+    } else {
+      onChange(s.query);
+      addRecentSearch(s.query);
+    }
+    close();
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return; // 한글 조합 중에는 Enter/방향키를 가로채지 않는다
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (items.length === 0) return;
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => (i === -1 && step < 0 ? items.length - 1 : (i + step + items.length) % items.length));
+    } else if (e.key === 'Enter') {
+      if (expanded && active >= 0) {
+        e.preventDefault();
+        choose(items[active]);
+      } else {
+        addRecentSearch(value);
+        close();
+      }
+    } else if (e.key === 'Escape') {
+      // 쓸 일이 없을 때는 그대로 두어 감싼 대화상자/서랍이 닫히게 한다
+      if (expanded) close();
+      else if (value) onChange('');
+      else return;
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div className={cx('relative', className)}>
+      <div className={boxClassName}>
+        <Search className={ICON_DIM} />
+        <input
+          role="combobox"
+          aria-expanded={expanded}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded && active >= 0 ? optionId(items[active]) : undefined}
+          placeholder={placeholder}
+          className="bg-transparent outline-none placeholder:text-slate-400 text-sm w-full"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+            setActive(-1);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={close}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+      <ul
+        id={listId}
+        role="listbox"
+        aria-label={t('search.suggestions')}
+        hidden={!expanded}
+        className="absolute left-0 right-0 top-full mt-2 z-50 max-h-96 overflow-y-auto rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-white/10 shadow-xl p-1 text-sm"
+        // 목록을 누를 때 input 이 blur 되어 목록이 먼저 닫히지 않도록
+        onMouseDown={(e) => e.preventDefault()}
+      >
+        {items.map((s, i) => {
+          const heading = i === 0 || GROUP_TITLE[items[i - 1].kind] !== GROUP_TITLE[s.kind];
+          return [
+            heading && (
+              <li key={`${s.id}-heading`} role="presentation" className="px-3 pt-2 pb-1 text-xs text-slate-400">
+                {t(GROUP_TITLE[s.kind])}
+              </li>
+            ),
+            <li
+              key={s.id}
+              id={optionId(s)}
+              role="option"
+              aria-selected={i === active}
+              className={cx(
+                'flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer',
+                i === active ? 'bg-indigo-500/20' : 'hover:bg-white/5'
+              )}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => choose(s)}
+            >
+              <SuggestionContent suggestion={s} />
+            </li>,
+          ];
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function SuggestionContent({ suggestion: s }: { suggestion: Suggestion }) {
+  const { t } = useI18n();
+  const { formatPrice } = useMoney();
+  if (s.kind === 'clear-recent') {
+    return (
+      <span className="inline-flex items-center gap-2 text-xs text-slate-400">
+        <Trash2 className="h-3.5 w-3.5" /> {t('search.clearRecent')}
+      </span>
+    );
+  }
+  if (s.kind === 'recent') {
+    return (
+      <>
+        <Clock className="h-4 w-4 opacity-60" />
+        <span className="flex-1 truncate">{s.query}</span>
+        <button
+          tabIndex={-1}
+          className="p-0.5 rounded bg-transparent hover:bg-white/10"
+          aria-label={t('search.removeRecent', { query: s.query })}
+          onClick={(e) => {
+            e.stopPropagation();
+            removeRecentSearch(s.query);
+          }}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </>
+    );
+  }
+  if (s.kind === 'spec') {
+    return (
+      <>
+        {s.group === 'CPU' ? <Cpu className="h-4 w-4 opacity-60" /> : <Monitor className="h-4 w-4 opacity-60" />}
+        <span className="flex-1 truncate">{s.label}</span>
+        <span className="text-xs text-slate-400">{s.group}</span>
+      </>
+    );
+  }
+  return (
+    <>
+      <ProductThumb product={s.product} sizes="28px" className="h-7 w-7 rounded-md text-base" />
+      <span className="flex-1 truncate">{s.product.title}</span>
+      <span className="text-xs text-slate-400 tabular-nums">{formatPrice(currentPrice(s.product))}</span>
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import { useMemo } from 'react';
+import { ArrowDown, ArrowUp, GitCompare, ShoppingCart } from 'lucide-react';
+import type { Product } from './catalog';
+import { checkBuild } from './compat';
+import { useMoney } from './currency';
+import { useI18n } from './i18n';
+import { isSoldOut } from './inventory';
+import type { MessageKey } from './messages';
+import { ProductThumb } from './ProductImage';
+import { similarProducts, type Similar, type SpecPart } from './similar';
+import { ICON, cx } from './utils';
+
+const PART_LABELS: Record<SpecPart, MessageKey> = {
+  cpu: 'spec.cpu',
+  gpu: 'spec.gpu',
+  ram: 'spec.ram',
+  storage: 'spec.storage',
+};
+
+// --- 비슷한 상품 (상세 보기 아래) ---
+// 이름을 누르면 그 상품의 상세로 바뀌고, 비교·담기는 상세를 닫지 않고 바로 한다.
+export function SimilarProducts({
+  product,
+  products,
+  compared,
+  onToggleCompare,
+  onAdd,
+  onDetail,
+}: {
+  product: Product;
+  products: Product[];
+  compared: string[];
+  onToggleCompare: (id: string) => void;
+  onAdd: (id: string) => void;
+  onDetail: (id: string) => void;
+}) {
+  const { t } = useI18n();
+  const items = useMemo(() => similarProducts(product, products), [product, products]);
+  if (items.length === 0) return null;
+  return (
+    <section aria-label={t('similar.title')}>
+      <h3 className="font-medium mb-2">{t('similar.title')}</h3>
+      <ul className="space-y-2">
+        {items.map((s) => (
+          <SimilarRow
+            key={s.product.id}
+            item={s}
+            compared={compared.includes(s.product.id)}
+            onToggleCompare={() => onToggleCompare(s.product.id)}
+            onAdd={() => onAdd(s.product.id)}
+            onDetail={() => onDetail(s.product.id)}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function SimilarRow({
+  item,
+  compared,
+  onToggleCompare,
+  onAdd,
+  onDetail,
+}: {
+  item: Similar;
+  compared: boolean;
+  onToggleCompare: () => void;
+  onAdd: () => void;
+  onDetail: () => void;
+}) {
+  const { t } = useI18n();
+  const { formatPrice } = useMoney();
+  const { product: p, priceDiff, diffs } = item;
+  const blocked = isSoldOut(p) || !checkBuild(p).ok;
+  return (
+    <li className="flex items-center gap-3 p-2 rounded-xl ring-1 ring-white/10">
+      <ProductThumb product={p} sizes="40px" className="h-10 w-10 rounded-lg text-xl" />
+      <div className="flex-1 min-w-0">
+        <button className="block max-w-full p-0 bg-transparent text-sm font-medium text-left truncate hover:underline" onClick={onDetail}>
+          {p.title}
+        </button>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <span className={cx('tabular-nums', priceDiff > 0 ? 'text-amber-300' : priceDiff < 0 ? 'text-emerald-300' : 'text-slate-400')}>
+            {priceDiff === 0
+              ? t('similar.samePrice')
+              : t(priceDiff > 0 ? 'similar.pricier' : 'similar.cheaper', { amount: formatPrice(Math.abs(priceDiff)) })}
+          </span>
+          {diffs.map((d) => (
+            <span
+              key={d.part}
+              className={cx(
+                'inline-flex items-center gap-0.5 px-1 rounded',
+                d.better ? 'bg-emerald-500/15 text-emerald-300' : 'bg-white/5 text-slate-400'
+              )}
+              title={t(d.better ? 'similar.better' : 'similar.worse', { part: t(PART_LABELS[d.part]) })}
+            >
+              {t(PART_LABELS[d.part])}
+              {d.better ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+            </span>
+          ))}
+        </div>
+      </div>
+      <button
+        className={cx(
+          'p-2 rounded-xl ring-1 ring-white/10',
+          compared ? 'bg-emerald-500/20 ring-emerald-400/40' : 'bg-transparent hover:bg-white/10'
+        )}
+        onClick={onToggleCompare}
+        aria-pressed={compared}
+        aria-label={compared ? t('compare.removeShort') : t('compare.add')}
+        title={compared ? t('compare.removeShort') : t('compare.add')}
+      >
+        <GitCompare className={ICON} />
+      </button>
+      <button
+        className="p-2 rounded-xl bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30 disabled:opacity-50"
+        onClick={onAdd}
+        disabled={blocked}
+        aria-label={isSoldOut(p) ? t('stock.out') : t('similar.add', { title: p.title })}
+        title={isSoldOut(p) ? t('stock.out') : t('product.addToCart')}
+      >
+        <ShoppingCart className={ICON} />
+      </button>
+    </li>
+  );
+}
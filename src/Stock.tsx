@@ -0,0 +1,81 @@
+import { Bell, BellRing, X } from 'lucide-react';
+import type { Product } from './catalog';
+import { STOCK_LABELS, stockStatus, type StockStatus } from './inventory';
+import { useI18n } from './i18n';
+import { hasRestockAlert, removeRestockAlerts, restockedProducts, toggleRestockAlert, useRestockAlerts } from './restock';
+import { ICON, cx } from './utils';
+
+const BADGE_TONE: Record<StockStatus, string> = {
+  in: 'bg-emerald-500/15 ring-emerald-400/40 text-emerald-200',
+  low: 'bg-amber-500/15 ring-amber-400/40 text-amber-200',
+  out: 'bg-slate-500/20 ring-slate-400/40 text-slate-300',
+};
+
+// --- Stock badge (카드/목록/상세 공용) ---
+export function StockBadge({ product, showCount }: { product: Product; showCount?: boolean }) {
+  const { t } = useI18n();
+  const status = stockStatus(product);
+  return (
+    <span className={cx('text-[10px] px-2 py-1 rounded-full ring-1 ring-inset whitespace-nowrap', BADGE_TONE[status])}>
+      {t(STOCK_LABELS[status])}
+      {showCount && status === 'low' && ` ${t('stock.left', { count: product.stock ?? 0 })}`}
+    </span>
+  );
+}
+
+// --- 재입고 알림 신청 (품절 상품의 담기 버튼 자리) ---
+export function RestockButton({ product, className }: { product: Product; className?: string }) {
+  const { t } = useI18n();
+  const requested = hasRestockAlert(useRestockAlerts(), product.id);
+  return (
+    <button
+      className={cx(
+        'inline-flex items-center gap-2 px-3 py-2 rounded-xl ring-1',
+        requested ? 'bg-amber-500/15 ring-amber-400/40' : 'bg-transparent ring-white/10 hover:bg-white/10',
+        className
+      )}
+      onClick={() => toggleRestockAlert(product.id)}
+      aria-pressed={requested}
+      title={requested ? t('restock.cancel') : t('restock.hint')}
+    >
+      {requested ? <BellRing className={ICON} /> : <Bell className={ICON} />}
+      {requested ? t('restock.requested') : t('restock.request')}
+    </button>
+  );
+}
+
+// --- In-app notification ---
+// 알림을 신청한 상품이 다시 입고되면 화면 위쪽에 알린다. 확인하거나 닫으면 신청이 끝난다.
+export function RestockNotice({ products, onOpen }: { products: Product[]; onOpen: (id: string) => void }) {
+  const { t } = useI18n();
+  const restocked = restockedProducts(useRestockAlerts(), products);
+  if (restocked.length === 0) return null;
+  const first = restocked[0];
+  const done = () => removeRestockAlerts(restocked.map((p) => p.id));
+  return (
+    <div className="fixed top-20 left-4 z-40 w-[min(360px,calc(100vw-2rem))]" role="status">
+      <div className="flex items-start gap-3 p-3 rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-emerald-400/40 shadow-xl text-sm">
+        <BellRing className="h-5 w-5 shrink-0 text-emerald-300" />
+        <div className="min-w-0 flex-1">
+          <div className="font-medium">{t('restock.noticeTitle')}</div>
+          <div className="text-slate-300 truncate">
+            {t('restock.noticeBody', { title: first.title })}
+            {restocked.length > 1 && t('restock.noticeMore', { count: restocked.length - 1 })}
+          </div>
+          <button
+            className="mt-1 text-xs underline"
+            onClick={() => {
+              done();
+              onOpen(first.id);
+            }}
+          >
+            {t('restock.view')}
+          </button>
+        </div>
+        <button className="p-1 rounded-lg bg-transparent hover:bg-white/10" onClick={done} aria-label={t('common.closeNotice')}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { BellRing, GitCompare, Heart, ShoppingCart, X } from 'lucide-react';
+import type { Product } from './catalog';
+import {
+  dismissPriceDrops,
+  isWished,
+  priceDrop,
+  removeWish,
+  toggleWish,
+  unseenPriceDrops,
+  useWishlist,
+} from './wishlist';
+import { currentPrice } from './pricing';
+import { ProductThumb } from './ProductImage';
+import { useMoney } from './currency';
+import { useI18n } from './i18n';
+import { DialogClose, DialogTitle, Drawer } from './DialogFrame';
+import { ICON, cx } from './utils';
+
+// --- Heart toggle (카드/목록/상세 공용) ---
+export function WishButton({ product, className }: { product: Product; className?: string }) {
+  const { t } = useI18n();
+  const wished = isWished(useWishlist(), product.id);
+  return (
+    <button
+      className={cx(
+        'p-2 rounded-xl ring-1',
+        wished ? 'bg-rose-500/15 ring-rose-400/40' : 'bg-transparent ring-white/10 hover:bg-white/10',
+        className
+      )}
+      onClick={() => toggleWish(product)}
+      aria-pressed={wished}
+      title={wished ? t('wish.remove') : t('wish.add')}
+    >
+      <Heart className={cx(ICON, wished && 'fill-rose-400 text-rose-400')} />
+    </button>
+  );
+}
+
+// 찜한 뒤 가격이 내린 상품에만 표시
+export function PriceDropBadge({ product }: { product: Product }) {
+  const item = useWishlist().find((w) => w.productId === product.id);
+  return item && priceDrop(item, product) > 0 ? <DropBadge /> : null;
+}
+
+function DropBadge() {
+  const { t } = useI18n();
+  return (
+    <span className="text-[10px] px-2 py-1 rounded-full bg-rose-500/20 ring-1 ring-inset ring-rose-400/40 text-rose-200">
+      {t('wish.drop')}
+    </span>
+  );
+}
+
+// --- Header button ---
+export function WishlistButton({ products, onOpen }: { products: Product[]; onOpen: () => void }) {
+  const { t } = useI18n();
+  const list = useWishlist();
+  const dropped = unseenPriceDrops(list, products).length > 0;
+  return (
+    <button
+      className="relative inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-transparent ring-1 ring-white/10 hover:bg-white/10"
+      onClick={onOpen}
+      title={t('wish.title')}
+    >
+      <Heart className={ICON} />
+      <span className="text-sm tabular-nums">{list.length}</span>
+      {dropped && (
+        <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-rose-400" aria-label={t('wish.dropAlert')} />
+      )}
+    </button>
+  );
+}
+
+// --- Drawer ---
+export function WishlistDrawer({
+  products,
+  compareIds,
+  onClose,
+  onMoveToCart,
+  onCompare,
+  onDetail,
+}: {
+  products: Product[];
+  compareIds: string[];
+  onClose: () => void;
+  onMoveToCart: (id: string) => boolean;
+  onCompare: (id: string) => void;
+  onDetail: (id: string) => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const { formatPrice } = useMoney();
+  const list = useWishlist();
+  const rows = list.flatMap((item) => {
+    const product = products.find((p) => p.id === item.productId);
+    return product ? [{ item, product }] : [];
+  });
+
+  return (
+    <Drawer side="right" onClose={onClose} className="w-[min(420px,95vw)]">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <DialogTitle>{t('wish.title')}</DialogTitle>
+        <DialogClose />
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
+        {rows.length === 0 && (
+          <div className="py-12 text-center text-slate-400">
+            <Heart className="mx-auto h-8 w-8 opacity-60" />
+            <p className="mt-2">{t('wish.empty')}</p>
+          </div>
+        )}
+        {rows.map(({ item, product }) => {
+          const drop = priceDrop(item, product);
+          const price = currentPrice(product);
+          const comparing = compareIds.includes(product.id);
+          return (
+            <div key={product.id} className="p-3 rounded-xl ring-1 ring-white/10 space-y-2">
+              <div className="flex items-start gap-3">
+                <button className="shrink-0 p-0 bg-transparent" onClick={() => onDetail(product.id)} title={t('wish.detail')}>
+                  <ProductThumb product={product} sizes="48px" className="h-12 w-12 rounded-xl text-2xl" />
+                </button>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <button className="font-medium truncate text-left hover:underline" onClick={() => onDetail(product.id)}>
+                      {product.title}
+                    </button>
+                    {drop > 0 && <DropBadge />}
+                  </div>
+                  <div className="text-sm tabular-nums">
+                    {drop > 0 && <span className="mr-2 text-slate-400 line-through">{formatPrice(item.savedPrice)}</span>}
+                    {formatPrice(price)}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {t('wish.savedAt', { date: formatDate(item.savedAt, { dateStyle: 'medium' }) })}
+                    {drop > 0 && (
+                      <span className="text-rose-300"> · {t('wish.dropAmount', { amount: formatPrice(drop) })}</span>
+                    )}
+                    {price > item.savedPrice &&
+                      ` · ${t('wish.riseAmount', { amount: formatPrice(price - item.savedPrice) })}`}
+                  </div>
+                </div>
+                <button
+                  className="p-1 rounded-lg bg-transparent hover:bg-white/10"
+                  onClick={() => removeWish(product.id)}
+                  aria-label={t('wish.removeItem', { title: product.title })}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-xl text-sm bg-indigo-500/20 ring-1 ring-inset ring-indigo-400/50 hover:bg-indigo-500/30"
+                  onClick={() => {
+                    if (onMoveToCart(product.id)) removeWish(product.id);
+                  }}
+                >
+                  <ShoppingCart className="h-4 w-4" /> {t('wish.moveToCart')}
+                </button>
+                <button
+                  className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-xl text-sm bg-transparent ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-50"
+                  onClick={() => onCompare(product.id)}
+                  disabled={comparing}
+                >
+                  <GitCompare className="h-4 w-4" /> {comparing ? t('wish.comparing') : t('compare.add')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Drawer>
+  );
+}
+
+// --- In-app notification ---
+// 찜한 상품의 가격이 내려가면 화면 위쪽에 알린다. 닫으면 같은 가격으로는 다시 알리지 않는다.
+export function PriceDropNotice({ products, onOpen }: { products: Product[]; onOpen: () => void }) {
+  const { t } = useI18n();
+  const { formatPrice } = useMoney();
+  const drops = unseenPriceDrops(useWishlist(), products);
+  if (drops.length === 0) return null;
+  const first = drops[0];
+  return (
+    <div className="fixed top-20 right-4 z-40 w-[min(360px,calc(100vw-2rem))]" role="status">
+      <div className="flex items-start gap-3 p-3 rounded-2xl bg-slate-900/95 backdrop-blur ring-1 ring-rose-400/40 shadow-xl text-sm">
+        <BellRing className="h-5 w-5 shrink-0 text-rose-300" />
+        <div className="min-w-0 flex-1">
+          <div className="font-medium">{t('wish.noticeTitle')}</div>
+          <div className="text-slate-300 truncate">
+            {t('wish.noticeBody', { title: first.product.title, amount: formatPrice(first.amount) })}
+            {drops.length > 1 && t('restock.noticeMore', { count: drops.length - 1 })}
+          </div>
+          <button
+            className="mt-1 text-xs underline"
+            onClick={() => {
+              dismissPriceDrops(drops);
+              onOpen();
+            }}
+          >
+            {t('wish.view')}
+          </button>
+        </div>
+        <button
+          className="p-1 rounded-lg bg-transparent hover:bg-white/10"
+          onClick={() => dismissPriceDrops(drops)}
+          aria-label={t('common.closeNotice')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// --- Admin passcode gate ---
+// 관리자 화면을 실수로 열지 않도록 막는 간단한 로컬 잠금. 처음 들어올 때 정한 암호의 해시만 저장한다.
+// (서버 인증이 아니므로 보안 장치가 아니다. 백엔드가 생기면 서버 로그인으로 바꾼다.)
+
+const PASSCODE_KEY = 'pcshop_admin_passcode_v1';
+const SESSION_KEY = 'pcshop_admin_unlocked';
+export const MIN_PASSCODE_LENGTH = 4;
+
+async function sha256(text: string) {
+  const buf = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const hasPasscode = () => localStorage.getItem(PASSCODE_KEY) !== null;
+
+export async function setPasscode(code: string) {
+  localStorage.setItem(PASSCODE_KEY, await sha256(code));
+  sessionStorage.setItem(SESSION_KEY, '1');
+}
+
+export async function unlock(code: string) {
+  const ok = (await sha256(code)) === localStorage.getItem(PASSCODE_KEY);
+  if (ok) sessionStorage.setItem(SESSION_KEY, '1');
+  return ok;
+}
+
+// 잠금 해제 상태는 탭을 닫을 때까지만 유지
+export const isUnlocked = () => sessionStorage.getItem(SESSION_KEY) === '1';
+export const lock = () => sessionStorage.removeItem(SESSION_KEY);
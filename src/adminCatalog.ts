@@ -0,0 +1,84 @@
+import type { Product } from './catalog';
+import { t } from './i18n';
+import type { MessageKey } from './messages';
+
+// --- Admin catalog operations ---
+// 관리자 화면의 작업본(상품 배열)을 다루는 순수 함수들. 배열 순서가 곧 '추천' 정렬 순서다.
+
+export const EMPTY_PRODUCT: Product = {
+  id: '',
+  name: '',
+  title: '',
+  price: 0,
+  img: '🖥️',
+  tags: [],
+  cpu: { vendor: 'Intel', family: '', model: '', cores: 0, threads: 0, boostGHz: 0 },
+  gpu: { vendor: 'NVIDIA', family: '', model: '', vramGB: 0, tflops: 0 },
+  ram: { capacityGB: 16, type: 'DDR5' },
+  storage: [{ kind: 'SSD', interface: 'NVMe', capacityGB: 1024 }],
+};
+
+// 이미 있는 id 와 겹치지 않도록 -2, -3 ... 을 붙인다
+export function uniqueId(base: string, products: Product[]) {
+  const taken = new Set(products.map((p) => p.id));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+export const moveItem = (products: Product[], index: number, delta: number) => {
+  const to = index + delta;
+  if (to < 0 || to >= products.length) return products;
+  const next = [...products];
+  const [item] = next.splice(index, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// 복제본은 원본 바로 뒤에 넣는다
+export function duplicateProduct(products: Product[], id: string) {
+  const index = products.findIndex((p) => p.id === id);
+  if (index === -1) return products;
+  const src = products[index];
+  const copy: Product = {
+    ...structuredClone(src),
+    id: uniqueId(`${src.id}-copy`, products),
+    title: t('admin.copyTitle', { title: src.title }),
+  };
+  return [...products.slice(0, index + 1), copy, ...products.slice(index + 1)];
+}
+
+export const upsertProduct = (products: Product[], product: Product, originalId: string | null) =>
+  originalId === null
+    ? [...products, product]
+    : products.map((p) => (p.id === originalId ? product : p));
+
+export const removeProducts = (products: Product[], ids: string[]) => products.filter((p) => !ids.includes(p.id));
+
+// --- Bulk price edit ---
+export type BulkPriceMode = 'percent' | 'amount' | 'set';
+
+export const BULK_PRICE_MODES: { value: BulkPriceMode; label: MessageKey }[] = [
+  { value: 'percent', label: 'admin.bulk.percent' },
+  { value: 'amount', label: 'admin.bulk.amount' },
+  { value: 'set', label: 'admin.bulk.set' },
+];
+
+export type BulkPriceEdit = {
+  mode: BulkPriceMode;
+  value: number; // percent: -10 = 10% 인하, amount: -50000 = 5만원 인하
+  roundTo: number; // 1000 = 천원 단위 반올림 (0 이면 그대로)
+};
+
+export function bulkPrice(p: Product, edit: BulkPriceEdit): Product {
+  const raw = edit.mode === 'percent' ? p.price * (1 + edit.value / 100) : edit.mode === 'amount' ? p.price + edit.value : edit.value;
+  const rounded = edit.roundTo > 0 ? Math.round(raw / edit.roundTo) * edit.roundTo : Math.round(raw);
+  const price = Math.max(0, rounded);
+  // 정가가 할인가 아래로 내려가면 할인은 의미가 없으므로 뺀다
+  const { sale, ...rest } = p;
+  return sale && sale.price < price ? { ...rest, price, sale } : { ...rest, price };
+}
+
+export const applyBulkPrice = (products: Product[], ids: string[], edit: BulkPriceEdit) =>
+  products.map((p) => (ids.includes(p.id) ? bulkPrice(p, edit) : p));
@@ -0,0 +1,217 @@
+import type { CatalogResult, Product } from './catalog';
+import type { CartState } from './cart';
+import { t } from './i18n';
+import type { Order, OrderLine } from './orders';
+import type { Review, ReviewData } from './reviews';
+import type { SortKey } from './sorting';
+
+// --- API client ---
+// 상품·장바구니·주문·후기는 모두 이 클라이언트를 거쳐 서버와 주고받는다.
+// 요청은 Transport 로 나가며, VITE_API_URL 이 있으면 그 서버로, 없으면 브라우저 안의 모의 서버(src/mockServer.ts)로 간다.
+// 서버 계약(경로, 본문 모양)은 아래 createApiClient 가 기준이다.
+
+export type ApiResource = 'products' | 'cart' | 'orders' | 'reviews';
+
+export interface ApiTransport {
+  readonly id: string; // 언어와 상관없는 고정 식별자 (캐시·로더 키)
+  readonly name: string; // 화면에 보이는 이름
+  readonly mock: boolean;
+  fetch(request: Request): Promise<Response>;
+  // 다른 탭 등 바깥에서 자원이 바뀌면 알린다 (지원하지 않으면 생략)
+  watch?(resource: ApiResource, onChange: () => void): () => void;
+}
+
+// --- Errors ---
+// status 0 은 서버에 닿지 못한 경우 (네트워크 오류). body 는 오류 응답 본문 그대로 (code 등으로 오류를 구분할 때 쓴다)
+export type ApiError = Error & { status: number; body?: unknown };
+
+const apiError = (message: string, status: number, body?: unknown): ApiError =>
+  Object.assign(new Error(message), { status, body });
+
+export const isApiError = (e: unknown): e is ApiError =>
+  e instanceof Error && typeof (e as Partial<ApiError>).status === 'number';
+
+// 다시 시도하면 나아질 수 있는 오류인지 (네트워크, 시간 초과, 서버 과부하·장애)
+export const isRetryable = (e: unknown) =>
+  isApiError(e) && (e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500);
+
+export const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+const isAbort = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export const abortError = () => new DOMException(t('api.error.aborted'), 'AbortError');
+
+// signal 로 취소할 수 있는 대기 (재시도 간격, 모의 서버 응답 지연)
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+
+// --- Contract ---
+export type ProductQuery = {
+  q?: string; // 검색어 (src/search.ts 문법)
+  sort?: SortKey;
+  ids?: string[];
+  offset?: number;
+  limit?: number;
+};
+
+// issues: 원본 데이터에서 건너뛴 행, modified: 관리자 수정본을 쓰는 중인지
+export type ProductPage = CatalogResult & { total: number; modified: boolean };
+
+// 주문 409 의 본문. duplicate: 같은 주문 번호가 이미 있음, outOfStock: items 의 상품이 모자람
+export type StockShortage = { productId: string; requested: number; available: number };
+export type OrderConflict = { error: string } & ({ code: 'duplicate' } | { code: 'outOfStock'; items: StockShortage[] });
+
+// id·작성 시각·'도움이 돼요' 수는 서버가 정한다
+export type ReviewInput = Omit<Review, 'id' | 'createdAt' | 'helpful'>;
+
+type RequestOptions = { query?: Record<string, string | number | undefined>; body?: unknown; signal?: AbortSignal };
+
+const API_ROOT = 'http://mock.api/'; // 모의 서버용 가짜 주소 (실제로 네트워크에 나가지 않는다)
+
+// 읽기(GET)만 일시적인 오류(isRetryable)에 다시 보낸다. 쓰기는 서버에 두 번 반영될 수 있어 호출 측이 정한다.
+const GET_RETRIES = 2;
+const RETRY_DELAY_MS = 400; // 다시 보낼 때마다 두 배로 늘린다
+
+export function createApiClient(transport: ApiTransport, baseUrl = API_ROOT) {
+  async function request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send<T>(method, path, options);
+      } catch (e) {
+        if (method !== 'GET' || attempt >= GET_RETRIES || !isRetryable(e)) throw e;
+        await wait(RETRY_DELAY_MS * 2 ** attempt, options.signal);
+      }
+    }
+  }
+
+  async function send<T>(method: string, path: string, { query, body, signal }: RequestOptions): Promise<T> {
+    const url = new URL(path.replace(/^\//, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    Object.entries(query ?? {}).forEach(([k, v]) => {
+      if (v !== undefined && v !== '') url.searchParams.set(k, String(v));
+    });
+    const req = new Request(url, {
+      method,
+      signal,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    let res: Response;
+    try {
+      res = await transport.fetch(req);
+    } catch (e) {
+      if (isAbort(e)) throw e;
+      throw apiError(t('api.error.network', { message: errorMessage(e) }), 0);
+    }
+    const text = await res.text();
+    let data: unknown = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      if (res.ok) throw apiError(t('api.error.badResponse'), res.status);
+    }
+    if (!res.ok) {
+      const message = (data as { error?: unknown } | null)?.error;
+      const fallback = t('api.error.http', { status: res.status });
+      throw apiError(typeof message === 'string' ? message : fallback, res.status, data ?? undefined);
+    }
+    return data as T;
+  }
+
+  const enc = encodeURIComponent;
+
+  return {
+    id: transport.id,
+    get name() {
+      return transport.name;
+    },
+    mock: transport.mock,
+    watch: (resource: ApiResource, onChange: () => void) => transport.watch?.(resource, onChange) ?? (() => {}),
+
+    products: {
+      list: (q: ProductQuery = {}, signal?: AbortSignal) =>
+        request<ProductPage>('GET', '/products', {
+          query: { q: q.q, sort: q.sort, ids: q.ids?.join(','), offset: q.offset, limit: q.limit },
+          signal,
+        }),
+      get: (id: string, signal?: AbortSignal) => request<Product>('GET', `/products/${enc(id)}`, { signal }),
+      // 관리자: 목록 전체를 바꾼다 / 배포된 원본으로 되돌린다
+      replace: (products: Product[]) => request<ProductPage>('PUT', '/products', { body: products }),
+      reset: () => request<ProductPage>('DELETE', '/products'),
+    },
+
+    cart: {
+      get: (signal?: AbortSignal) => request<CartState>('GET', '/cart', { signal }),
+      put: (cart: CartState) => request<CartState>('PUT', '/cart', { body: cart }),
+    },
+
+    orders: {
+      list: (signal?: AbortSignal) => request<Order[]>('GET', '/orders', { signal }),
+      get: (id: string, signal?: AbortSignal) => request<Order>('GET', `/orders/${enc(id)}`, { signal }),
+      create: (order: Order) => request<Order>('POST', '/orders', { body: order }),
+      // 결제 전에 재고가 충분한지 확인한다 (모자라면 outOfStock 409)
+      checkStock: (lines: Pick<OrderLine, 'productId' | 'qty'>[]) =>
+        request<{ ok: true }>('POST', '/orders/stock-check', { body: { lines } }),
+    },
+
+    // voted: 지금 사용자가 '도움이 돼요'를 누른 후기 id
+    reviews: {
+      list: (productId?: string, signal?: AbortSignal) =>
+        request<ReviewData>('GET', '/reviews', { query: { productId }, signal }),
+      create: (input: ReviewInput) => request<Review>('POST', '/reviews', { body: input }),
+      vote: (reviewId: string, helpful: boolean) =>
+        request<Review>('PUT', `/reviews/${enc(reviewId)}/vote`, { body: { helpful } }),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// --- Transports ---
+export const MOCK_TRANSPORT_ID = 'mock';
+
+export function createFetchTransport(baseUrl: string): ApiTransport {
+  return { id: baseUrl, name: baseUrl, mock: false, fetch: (req) => fetch(req) };
+}
+
+// 모의 서버 코드는 처음 쓸 때 불러온다 (실제 서버를 쓰면 내려받지 않는다)
+function createLazyMockTransport(): ApiTransport {
+  let server: Promise<ApiTransport> | null = null;
+  const load = () => (server ??= import('./mockServer').then((m) => m.createMockTransport()));
+  return {
+    id: MOCK_TRANSPORT_ID,
+    get name() {
+      return t('api.mock.name');
+    },
+    mock: true,
+    fetch: (req) => load().then((s) => s.fetch(req)),
+    watch(resource, onChange) {
+      let stop: (() => void) | undefined;
+      let cancelled = false;
+      void load().then((s) => {
+        if (!cancelled) stop = s.watch?.(resource, onChange);
+      });
+      return () => {
+        cancelled = true;
+        stop?.();
+      };
+    },
+  };
+}
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export const api: ApiClient = API_URL
+  ? createApiClient(createFetchTransport(API_URL), API_URL)
+  : createApiClient(createLazyMockTransport());
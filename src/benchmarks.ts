@@ -0,0 +1,71 @@
+import type { Product } from './catalog';
+import { currentPrice } from './pricing';
+import type { CpuSpec, GpuSpec } from './specs';
+
+// --- Benchmarks ---
+// 부품별 벤치마크 점수표. CPU 는 멀티코어 종합 점수(PassMark CPU Mark 기준),
+// GPU 는 3DMark Time Spy 그래픽 점수 기준의 대략적인 값이다.
+// 표에 없는 부품은 사양(스레드×클럭, FP32 TFLOPS)으로 추정해서 맨 아래로 밀리지 않게 한다.
+
+const CPU_BENCH: Record<string, number> = {
+  'i9-14900K': 60500,
+  'i7-14700K': 53500,
+  'i5-14600K': 39500,
+  'i5-13400F': 25500,
+  'i3-13100': 14800,
+  'Pentium G6400': 3900,
+  'Ryzen 7 7800X3D': 34500,
+  'Ryzen 5 7600': 27000,
+};
+
+const GPU_BENCH: Record<string, number> = {
+  'RTX 5090': 48000,
+  'RTX 4080 Super': 28500,
+  'RTX 4070 Ti': 22700,
+  'RTX 4060': 10600,
+  'RTX 3060': 8800,
+  'RX 7800 XT': 19800,
+  'UHD Graphics 730': 750,
+  'UHD Graphics 610': 450,
+};
+
+// 표의 값과 사양을 비교해 맞춘 환산 계수
+const CPU_PER_THREAD_GHZ = 320;
+const GPU_PER_TFLOP = 550;
+
+export type BenchScore = { score: number; estimated: boolean };
+
+export const cpuBench = (c: CpuSpec): BenchScore => {
+  const known = CPU_BENCH[c.model];
+  return known !== undefined
+    ? { score: known, estimated: false }
+    : { score: Math.round(c.threads * c.boostGHz * CPU_PER_THREAD_GHZ), estimated: true };
+};
+
+export const gpuBench = (g: GpuSpec): BenchScore => {
+  const known = GPU_BENCH[g.model];
+  return known !== undefined
+    ? { score: known, estimated: false }
+    : { score: Math.round(g.tflops * GPU_PER_TFLOP), estimated: true };
+};
+
+// --- Composite performance ---
+// 게이밍/작업용 PC 기준으로 GPU 비중을 조금 더 둔다. 기준 부품(최상위) 대비 0~100 점.
+export const CPU_REF = 60000; // 게임 FPS 추정(src/games.ts)도 같은 기준을 쓴다
+const GPU_REF = 48000;
+const CPU_WEIGHT = 0.4;
+const GPU_WEIGHT = 0.6;
+
+export const perfScore = (p: Product) => {
+  const cpu = Math.min(1, cpuBench(p.cpu).score / CPU_REF);
+  const gpu = Math.min(1, gpuBench(p.gpu).score / GPU_REF);
+  return Math.round((CPU_WEIGHT * cpu + GPU_WEIGHT * gpu) * 1000) / 10;
+};
+
+// 만원당 성능 점수 (가성비)
+export const valueScore = (p: Product) => {
+  const price = currentPrice(p);
+  return price > 0 ? perfScore(p) / (price / 10000) : 0;
+};
+
+export const isEstimated = (p: Product) => cpuBench(p.cpu).estimated || gpuBench(p.gpu).estimated;
@@ -0,0 +1,274 @@
+import { useSyncExternalStore } from 'react';
+import { api, errorMessage } from './api';
+import type { BuildSelection } from './parts';
+
+// --- Cart store ---
+// 화면 쪽 장바구니의 유일한 저장소. 헤더 버튼과 드로어가 모두 이 스토어를 구독한다.
+// 서버(/cart)와 동기화하며, 모의 서버는 아래 loadCart/saveCart 로 localStorage 에 버전과 함께 저장한다.
+
+// 커스텀 구성 상품: 고른 부품과 담을 당시의 차액/사양 요약을 함께 기억한다
+export type CartBuild = {
+  parts: BuildSelection;
+  priceDelta: number; // 기본 구성 대비 (KRW)
+  summary: { cpu: string; gpu: string; ram: string; storage: string };
+};
+
+export type CartLine = {
+  key: string; // productId + 구성 부품으로 만든 고유 키
+  productId: string;
+  qty: number;
+  build?: CartBuild;
+};
+
+export type CartState = { lines: CartLine[]; coupon?: string }; // coupon: 입력한 쿠폰 코드 (검증은 pricing.ts)
+
+// stock: 상품 재고. 같은 상품의 다른 구성 라인과 합쳐서 이 수량을 넘지 않게 줄인다 (없으면 MAX_LINE_QTY 만 적용)
+export type CartAction =
+  | { type: 'add'; productId: string; qty?: number; build?: CartBuild; stock?: number }
+  | { type: 'setQty'; key: string; qty: number; stock?: number }
+  | { type: 'remove'; key: string }
+  | { type: 'fitStock'; stock: Record<string, number> } // productId → 재고 (결제 직전 재확인용)
+  | { type: 'setCoupon'; code: string | null }
+  | { type: 'clear' }
+  | { type: 'restore'; cart: CartState }; // 결제를 취소한 주문의 장바구니를 되돌린다
+
+export const CART_STORAGE_KEY = 'pcshop_cart_v2'; // 키는 고정, 스키마는 payload 의 version 으로 구분
+const LEGACY_STORAGE_KEY = 'pcshop_cart'; // { [productId]: qty }
+const CART_VERSION = 3; // v2: 구성 정보 없는 라인, v3: build 추가
+
+type PersistedCart = { version: number; lines: CartLine[]; coupon?: string };
+
+export const MAX_LINE_QTY = 99;
+
+const clampQty = (qty: number) => Math.min(MAX_LINE_QTY, Math.max(0, Math.floor(qty)));
+
+// 같은 상품을 담은 라인(구성이 다른 것 포함)의 수량 합계. exceptKey 라인은 빼고 센다.
+export const productQty = (state: CartState, productId: string, exceptKey?: string) =>
+  state.lines.reduce((sum, l) => (l.productId === productId && l.key !== exceptKey ? sum + l.qty : sum), 0);
+
+const room = (stock: number | undefined, used: number) => (stock === undefined ? Infinity : Math.max(0, stock - used));
+
+export const lineKey = (productId: string, build?: CartBuild) => {
+  const parts = build?.parts ?? {};
+  const keys = Object.keys(parts).sort() as (keyof BuildSelection)[];
+  if (keys.length === 0) return productId;
+  return `${productId}?${keys.map((k) => `${k}=${parts[k]}`).join('&')}`;
+};
+
+export function cartReducer(state: CartState, action: CartAction): CartState {
+  switch (action.type) {
+    case 'add': {
+      const key = lineKey(action.productId, action.build);
+      const qty = Math.min(action.qty ?? 1, room(action.stock, productQty(state, action.productId)));
+      if (qty <= 0) return state;
+      const existing = state.lines.find((l) => l.key === key);
+      if (existing) {
+        return {
+          ...state,
+          lines: state.lines.map((l) => (l.key === key ? { ...l, qty: clampQty(l.qty + qty) } : l)),
+        };
+      }
+      const line: CartLine = { key, productId: action.productId, qty: clampQty(qty) };
+      if (action.build && Object.keys(action.build.parts).length > 0) line.build = action.build;
+      return line.qty > 0 ? { ...state, lines: [...state.lines, line] } : state;
+    }
+    case 'setQty': {
+      const target = state.lines.find((l) => l.key === action.key);
+      if (!target) return state;
+      if (clampQty(action.qty) === 0) return cartReducer(state, { type: 'remove', key: action.key });
+      // 품절된 상품은 수량만 못 바꾸고 라인은 남긴다 (결제 전 재고 확인에서 정리)
+      const qty = Math.min(clampQty(action.qty), room(action.stock, productQty(state, target.productId, action.key)));
+      if (qty === 0) return state;
+      return { ...state, lines: state.lines.map((l) => (l.key === action.key ? { ...l, qty } : l)) };
+    }
+    case 'remove':
+      return { ...state, lines: state.lines.filter((l) => l.key !== action.key) };
+    case 'fitStock': {
+      const used = new Map<string, number>();
+      let changed = false;
+      const lines = state.lines.flatMap((l) => {
+        const before = used.get(l.productId) ?? 0;
+        const qty = Math.min(l.qty, room(action.stock[l.productId], before));
+        used.set(l.productId, before + qty);
+        if (qty !== l.qty) changed = true;
+        return qty > 0 ? [{ ...l, qty }] : [];
+      });
+      return changed ? { ...state, lines } : state;
+    }
+    case 'setCoupon': {
+      const code = action.code?.trim().toUpperCase() || undefined;
+      return code === state.coupon ? state : { ...state, coupon: code };
+    }
+    case 'clear':
+      return { lines: [] };
+    case 'restore':
+      return action.cart;
+  }
+}
+
+// --- Persistence (모의 서버가 쓴다) ---
+const isLine = (v: unknown): v is CartLine => {
+  if (typeof v !== 'object' || v === null) return false;
+  const l = v as Partial<CartLine>;
+  return typeof l.key === 'string' && typeof l.productId === 'string' && typeof l.qty === 'number' && l.qty > 0;
+};
+
+// v1: { "A": 2, "B": 1 } → v2 lines
+const migrateLegacy = (raw: string): CartState => {
+  const data = JSON.parse(raw) as unknown;
+  if (typeof data !== 'object' || data === null) return { lines: [] };
+  const lines = Object.entries(data as Record<string, unknown>)
+    .filter(([, qty]) => typeof qty === 'number' && qty > 0)
+    .map(([productId, qty]) => ({ key: lineKey(productId), productId, qty: clampQty(qty as number) }));
+  return { lines };
+};
+
+export function loadCart(storage: Storage = localStorage): CartState {
+  try {
+    const raw = storage.getItem(CART_STORAGE_KEY);
+    if (raw) {
+      const data = JSON.parse(raw) as Partial<PersistedCart>;
+      if (!Array.isArray(data.lines)) return { lines: [] };
+      if (data.version === CART_VERSION) {
+        const lines = data.lines.filter(isLine);
+        return typeof data.coupon === 'string' ? { lines, coupon: data.coupon } : { lines };
+      }
+      if (data.version === 2) {
+        // v2 라인은 구성 정보가 없으므로 기본 구성으로 옮긴다
+        const lines = data.lines.filter(isLine).map(({ productId, qty }) => ({ key: lineKey(productId), productId, qty }));
+        saveCart({ lines }, storage);
+        return { lines };
+      }
+      return { lines: [] };
+    }
+    const legacy = storage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const migrated = migrateLegacy(legacy);
+      saveCart(migrated, storage);
+      storage.removeItem(LEGACY_STORAGE_KEY);
+      return migrated;
+    }
+  } catch {
+    // 깨진 데이터는 무시하고 빈 장바구니로 시작
+  }
+  return { lines: [] };
+}
+
+export function saveCart(state: CartState, storage: Storage = localStorage) {
+  const data: PersistedCart = { version: CART_VERSION, lines: state.lines, coupon: state.coupon };
+  try {
+    storage.setItem(CART_STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // 저장 공간 부족 등은 무시 (메모리 상태는 유지)
+  }
+}
+
+// --- Store ---
+// 담기·수량 변경은 화면에 바로 반영하고, 잠시 모았다가 장바구니 전체를 서버에 PUT 한다.
+// 서버에서 읽어 오는 동안 들어온 변경은 모아 두었다가 읽어 온 장바구니 위에 다시 적용한다 (처음 읽기와 다시 읽기 모두).
+export type CartSync = {
+  status: 'loading' | 'saved' | 'saving' | 'error';
+  error: string | null;
+};
+
+const PUSH_DELAY_MS = 300;
+
+let state: CartState = { lines: [] };
+let sync: CartSync = { status: 'loading', error: null };
+let loaded = false;
+let started = false;
+let pulling = false;
+let queued: CartAction[] = []; // 읽는 중(또는 처음 읽기 전)에 들어온 변경
+let pushTimer: ReturnType<typeof setTimeout> | undefined;
+let pushing = false;
+let dirty = false; // 서버에 아직 보내지 않은 변경이 있음
+const listeners = new Set<() => void>();
+const emit = () => listeners.forEach((l) => l());
+
+const setSync = (next: CartSync) => {
+  sync = next;
+  emit();
+};
+
+async function pull() {
+  // 보내지 않은 변경이 있으면 읽지 않는다 (읽은 값이 그 변경을 덮어쓴다)
+  if (pulling || dirty || pushing) return;
+  started = true;
+  pulling = true;
+  setSync({ status: 'loading', error: null });
+  try {
+    const server = await api.cart.get();
+    const pending = queued.length > 0;
+    state = queued.reduce(cartReducer, server);
+    queued = [];
+    loaded = true;
+    setSync({ status: 'saved', error: null });
+    if (pending) schedulePush();
+  } catch (e) {
+    setSync({ status: 'error', error: errorMessage(e) });
+    // 다시 읽기에 실패했으면 모아 둔 변경은 이미 화면에 있으므로 그대로 보낸다
+    if (loaded && queued.length > 0) {
+      queued = [];
+      schedulePush();
+    }
+  } finally {
+    pulling = false;
+  }
+}
+
+async function push() {
+  if (pushing) return; // 보내는 중이면 끝난 뒤 dirty 를 보고 다시 보낸다
+  pushing = true;
+  dirty = false;
+  setSync({ status: 'saving', error: null });
+  try {
+    await api.cart.put(state);
+    if (!dirty) setSync({ status: 'saved', error: null });
+  } catch (e) {
+    if (!dirty) setSync({ status: 'error', error: errorMessage(e) });
+  } finally {
+    pushing = false;
+    if (dirty) void push();
+  }
+}
+
+function schedulePush() {
+  dirty = true;
+  clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => void push(), PUSH_DELAY_MS);
+}
+
+export function dispatchCart(action: CartAction) {
+  const next = cartReducer(state, action);
+  if (next === state) return;
+  state = next;
+  if (loaded && !pulling) schedulePush();
+  else queued.push(action);
+  emit();
+}
+
+// 오류가 난 단계(읽기/저장)를 다시 시도한다
+export const retryCartSync = () => (loaded ? push() : pull());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!started) void pull();
+  return () => listeners.delete(listener);
+};
+const getSnapshot = () => state;
+
+// 다른 탭에서 장바구니가 바뀌면 다시 읽는다 (이쪽에 보내지 않은 변경이 있으면 이쪽이 이긴다)
+api.watch('cart', () => {
+  if (started && loaded) void pull();
+});
+
+export function useCart() {
+  const cart = useSyncExternalStore(subscribe, getSnapshot);
+  return { cart, dispatch: dispatchCart };
+}
+
+export const useCartSync = () => useSyncExternalStore(subscribe, () => sync);
+
+// --- Selectors ---
+// 금액 계산(할인가, 쿠폰 등)은 src/pricing.ts 의 priceCart
+export const cartCount = (cart: CartState) => cart.lines.reduce((sum, l) => sum + l.qty, 0);
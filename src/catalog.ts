@@ -0,0 +1,232 @@
+import {
+  validateBoard,
+  validateCase,
+  validateCpu,
+  validateGpu,
+  validatePsu,
+  validateRam,
+  validateStorage,
+  type BoardSpec,
+  type CaseSpec,
+  type CpuSpec,
+  type GpuSpec,
+  type PsuSpec,
+  type RamSpec,
+  type SpecError,
+  type StorageDevice,
+} from './specs';
+import { t, type MessageParams } from './i18n';
+import type { MessageKey } from './messages';
+
+// --- Catalog ---
+// 상품 목록은 public/products.json 에서 런타임에 불러온다.
+// (상품 추가/수정 시 TSX를 건드리지 않고 JSON만 바꿔서 배포, 관리자 화면의 수정본은 src/catalogSource.ts)
+
+export type Product = {
+  id: string;
+  name: string; // A, B, ...
+  title: string; // "A 컴퓨터"
+  price: number; // 정가 (KRW, 부가세 포함). 화면의 "NN만원" 표기는 src/currency.ts 가 이 값으로 만든다
+  sale?: SalePrice;
+  stock?: number; // 재고 수량 (없으면 재고를 관리하지 않는 상품 → 항상 구매 가능)
+  cpu: CpuSpec;
+  gpu: GpuSpec;
+  ram: RamSpec;
+  storage: StorageDevice[]; // 여러 개면 "NVMe SSD 1TB + HDD 2TB"
+  board?: BoardSpec;
+  case?: CaseSpec;
+  psu?: PsuSpec;
+  img: string; // 이모지. 사진이 없거나 못 불러오면 대신 보여 준다
+  images?: ProductImage[]; // 첫 장이 대표 이미지
+  tags?: string[];
+};
+
+// 상품 사진. src 에 '{w}' 가 있으면 widths 의 각 너비로 바꿔 srcset 을 만든다 (src/images.ts)
+export type ProductImage = {
+  src: string; // public/ 기준 상대 경로 또는 절대 URL
+  alt: string;
+  widths?: number[]; // 미리 만들어 둔 가로 크기(px)
+  placeholder?: string; // 불러오는 동안 흐리게 깔아 둘 아주 작은 이미지 (data URI)
+};
+
+// 기간 한정 할인가 (기간이 없으면 상시)
+export type SalePrice = {
+  price: number;
+  startsAt?: string; // ISO
+  endsAt?: string; // ISO
+};
+
+export type CatalogIssue = {
+  row: number; // 0-based index in the source array
+  id?: string;
+  field?: string;
+  message: MessageKey; // 화면에서 t(message, params) 로 보여 준다 (formatIssue)
+  params?: MessageParams;
+};
+
+export type CatalogResult = {
+  products: Product[];
+  issues: CatalogIssue[]; // rows that were skipped (or partially wrong)
+};
+
+export const CATALOG_URL = `${import.meta.env.BASE_URL}products.json`;
+
+const STRING_FIELDS = ['id', 'name', 'title', 'img'] as const;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const validateImage = (v: unknown, field: string): SpecError[] => {
+  const err = (path: string, message: MessageKey): SpecError => ({ field, message, params: { field: path } });
+  if (!isRecord(v)) return [err(field, 'catalog.issue.object')];
+  const errs: SpecError[] = [];
+  if (typeof v.src !== 'string' || v.src.trim() === '') errs.push(err(`${field}.src`, 'catalog.issue.empty'));
+  if (typeof v.alt !== 'string') errs.push(err(`${field}.alt`, 'catalog.issue.altText'));
+  const widths = v.widths;
+  if (widths !== undefined && !(Array.isArray(widths) && widths.every((w) => Number.isInteger(w) && w > 0))) {
+    errs.push(err(`${field}.widths`, 'catalog.issue.widths'));
+  }
+  if (v.placeholder !== undefined && typeof v.placeholder !== 'string') {
+    errs.push(err(`${field}.placeholder`, 'catalog.issue.notString'));
+  }
+  return errs;
+};
+
+// 한 행을 검증한다. 문제가 있으면 issues 에 쌓고 null 을 돌려준다.
+const validateRow = (raw: unknown, row: number, issues: CatalogIssue[]): Product | null => {
+  if (!isRecord(raw)) {
+    issues.push({ row, message: 'catalog.issue.notObject' });
+    return null;
+  }
+  const id = typeof raw.id === 'string' ? raw.id : undefined;
+  const before = issues.length;
+  // params 를 주지 않으면 메시지의 {field} 에 필드 이름을 넣는다
+  const fail = (field: string, message: MessageKey, params: MessageParams = { field }) =>
+    issues.push({ row, id, field, message, params });
+
+  for (const key of STRING_FIELDS) {
+    const v = raw[key];
+    if (v === undefined || v === null) fail(key, 'catalog.issue.missing');
+    else if (typeof v !== 'string') fail(key, 'catalog.issue.notString');
+    else if (v.trim() === '') fail(key, 'catalog.issue.empty');
+  }
+
+  const price = raw.price;
+  if (price === undefined || price === null) fail('price', 'catalog.issue.missing');
+  else if (typeof price !== 'number' || !Number.isFinite(price)) fail('price', 'catalog.issue.notNumber');
+  else if (price < 0) fail('price', 'catalog.issue.negative');
+
+  const sale = raw.sale;
+  if (sale !== undefined) {
+    const s = isRecord(sale) ? sale : {};
+    const from = typeof s.startsAt === 'string' ? Date.parse(s.startsAt) : NaN;
+    const to = typeof s.endsAt === 'string' ? Date.parse(s.endsAt) : NaN;
+    if (typeof s.price !== 'number' || !Number.isFinite(s.price) || s.price < 0) {
+      fail('sale.price', 'catalog.issue.nonNegativeNumber');
+    } else if (typeof price === 'number' && s.price >= price) {
+      fail('sale.price', 'catalog.issue.saleNotLower');
+    }
+    if (s.startsAt !== undefined && Number.isNaN(from)) fail('sale.startsAt', 'catalog.issue.badDate');
+    if (s.endsAt !== undefined && Number.isNaN(to)) fail('sale.endsAt', 'catalog.issue.badDate');
+    if (from > to) fail('sale.endsAt', 'catalog.issue.saleEndsBeforeStart');
+  }
+
+  const stock = raw.stock;
+  if (stock !== undefined && !(typeof stock === 'number' && Number.isInteger(stock) && stock >= 0)) {
+    fail('stock', 'catalog.issue.nonNegativeInteger');
+  }
+
+  [
+    ...validateCpu(raw.cpu),
+    ...validateGpu(raw.gpu),
+    ...validateRam(raw.ram),
+    ...validateStorage(raw.storage),
+    ...validateBoard(raw.board),
+    ...validateCase(raw.case),
+    ...validatePsu(raw.psu),
+  ].forEach((e) => fail(e.field, e.message, e.params));
+
+  const tags = raw.tags;
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every((t) => typeof t === 'string'))) {
+    fail('tags', 'catalog.issue.stringList');
+  }
+
+  const images = raw.images;
+  if (images !== undefined) {
+    if (!Array.isArray(images)) fail('images', 'catalog.issue.list');
+    else images.forEach((img, i) => validateImage(img, `images[${i}]`).forEach((e) => fail(e.field, e.message, e.params)));
+  }
+
+  if (issues.length > before) return null;
+  return {
+    id: raw.id as string,
+    name: raw.name as string,
+    title: raw.title as string,
+    price: price as number,
+    ...(sale !== undefined ? { sale: sale as SalePrice } : {}),
+    ...(stock !== undefined ? { stock: stock as number } : {}),
+    cpu: raw.cpu as CpuSpec,
+    gpu: raw.gpu as GpuSpec,
+    ram: raw.ram as RamSpec,
+    storage: raw.storage as StorageDevice[],
+    img: raw.img as string,
+    ...(images ? { images: images as ProductImage[] } : {}),
+    ...(tags ? { tags: tags as string[] } : {}),
+    ...(raw.board ? { board: raw.board as BoardSpec } : {}),
+    ...(raw.case ? { case: raw.case as CaseSpec } : {}),
+    ...(raw.psu ? { psu: raw.psu as PsuSpec } : {}),
+  };
+};
+
+// 관리자 화면의 상품 편집 폼 검증용 (행 번호 없이 필드별 메시지만)
+export function validateProduct(raw: unknown): CatalogIssue[] {
+  const issues: CatalogIssue[] = [];
+  validateRow(raw, 0, issues);
+  return issues;
+}
+
+/**
+ * 원본 데이터(JSON 파싱 결과)를 검증해서 유효한 상품만 돌려준다.
+ * 잘못된 행은 건너뛰고 행 번호/필드와 함께 issues 로 보고한다.
+ */
+export function parseCatalog(data: unknown): CatalogResult {
+  if (!Array.isArray(data)) {
+    throw new Error(t('catalog.error.notArray'));
+  }
+  const issues: CatalogIssue[] = [];
+  const products: Product[] = [];
+  const seen = new Map<string, number>();
+
+  data.forEach((raw, row) => {
+    const p = validateRow(raw, row, issues);
+    if (!p) return;
+    const dup = seen.get(p.id);
+    if (dup !== undefined) {
+      issues.push({ row, id: p.id, field: 'id', message: 'catalog.issue.duplicateId', params: { row: dup + 1 } });
+      return;
+    }
+    seen.set(p.id, row);
+    products.push(p);
+  });
+
+  return { products, issues };
+}
+
+export async function loadCatalog(url = CATALOG_URL, signal?: AbortSignal): Promise<CatalogResult> {
+  const res = await fetch(url, { signal, cache: 'no-cache' });
+  if (!res.ok) throw new Error(t('catalog.error.http', { status: res.status }));
+  let data: unknown;
+  try {
+    data = await res.json();
+  } catch {
+    throw new Error(t('catalog.error.badJson'));
+  }
+  return parseCatalog(data);
+}
+
+// 컴포넌트에서 부를 때는 useI18n() 으로 구독해 두어야 언어를 바꿀 때 다시 그려진다
+export const issueMessage = (i: Pick<CatalogIssue, 'message' | 'params'>) => t(i.message, i.params);
+
+export const formatIssue = (i: CatalogIssue) =>
+  i.id
+    ? t('catalog.issue.rowWithId', { row: i.row + 1, id: i.id, message: issueMessage(i) })
+    : t('catalog.issue.row', { row: i.row + 1, message: issueMessage(i) });
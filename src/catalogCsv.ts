@@ -0,0 +1,188 @@
+import type { Product } from './catalog';
+import type { StorageDevice } from './specs';
+
+// --- Catalog CSV ---
+// 스프레드시트로 가격/사양을 일괄 수정할 수 있도록 상품 한 개를 한 행으로 펼친다.
+// 중첩 값: tags 는 "a|b", storage 는 "SSD:NVMe:1024|HDD:SATA:2048", memoryTypes 는 "DDR4|DDR5".
+// images 는 대체 텍스트에 아무 글자나 들어갈 수 있어서 JSON 배열 문자열 그대로 둔다.
+// 가져올 때는 객체로 되돌린 뒤 parseCatalog 로 다시 검증한다.
+// =, +, -, @ 로 시작하는 글자 칸은 스프레드시트가 수식으로 실행하지 않도록 앞에 ' 를 붙여 내보내고, 가져올 때 뗀다.
+
+type Column = {
+  key: string;
+  get: (p: Product) => string | number | boolean | undefined;
+};
+
+const LIST_SEP = '|';
+
+const COLUMNS: Column[] = [
+  { key: 'id', get: (p) => p.id },
+  { key: 'name', get: (p) => p.name },
+  { key: 'title', get: (p) => p.title },
+  { key: 'price', get: (p) => p.price },
+  { key: 'sale.price', get: (p) => p.sale?.price },
+  { key: 'sale.startsAt', get: (p) => p.sale?.startsAt },
+  { key: 'sale.endsAt', get: (p) => p.sale?.endsAt },
+  { key: 'stock', get: (p) => p.stock },
+  { key: 'img', get: (p) => p.img },
+  { key: 'images', get: (p) => (p.images ? JSON.stringify(p.images) : undefined) },
+  { key: 'tags', get: (p) => p.tags?.join(LIST_SEP) },
+  { key: 'cpu.vendor', get: (p) => p.cpu.vendor },
+  { key: 'cpu.family', get: (p) => p.cpu.family },
+  { key: 'cpu.model', get: (p) => p.cpu.model },
+  { key: 'cpu.cores', get: (p) => p.cpu.cores },
+  { key: 'cpu.threads', get: (p) => p.cpu.threads },
+  { key: 'cpu.boostGHz', get: (p) => p.cpu.boostGHz },
+  { key: 'cpu.socket', get: (p) => p.cpu.socket },
+  { key: 'cpu.tdpW', get: (p) => p.cpu.tdpW },
+  { key: 'cpu.memoryTypes', get: (p) => p.cpu.memoryTypes?.join(LIST_SEP) },
+  { key: 'gpu.vendor', get: (p) => p.gpu.vendor },
+  { key: 'gpu.family', get: (p) => p.gpu.family },
+  { key: 'gpu.model', get: (p) => p.gpu.model },
+  { key: 'gpu.vramGB', get: (p) => p.gpu.vramGB },
+  { key: 'gpu.tflops', get: (p) => p.gpu.tflops },
+  { key: 'gpu.integrated', get: (p) => p.gpu.integrated },
+  { key: 'gpu.tdpW', get: (p) => p.gpu.tdpW },
+  { key: 'gpu.lengthMm', get: (p) => p.gpu.lengthMm },
+  { key: 'ram.capacityGB', get: (p) => p.ram.capacityGB },
+  { key: 'ram.type', get: (p) => p.ram.type },
+  { key: 'ram.speedMHz', get: (p) => p.ram.speedMHz },
+  {
+    key: 'storage',
+    get: (p) => p.storage.map((d) => `${d.kind}:${d.interface}:${d.capacityGB}`).join(LIST_SEP),
+  },
+  { key: 'board.chipset', get: (p) => p.board?.chipset },
+  { key: 'board.socket', get: (p) => p.board?.socket },
+  { key: 'board.memoryType', get: (p) => p.board?.memoryType },
+  { key: 'case.maxGpuLengthMm', get: (p) => p.case?.maxGpuLengthMm },
+  { key: 'case.formFactor', get: (p) => p.case?.formFactor },
+  { key: 'psu.watts', get: (p) => p.psu?.watts },
+];
+
+const NUMERIC = new Set([
+  'price',
+  'sale.price',
+  'stock',
+  'cpu.cores',
+  'cpu.threads',
+  'cpu.boostGHz',
+  'cpu.tdpW',
+  'gpu.vramGB',
+  'gpu.tflops',
+  'gpu.tdpW',
+  'gpu.lengthMm',
+  'ram.capacityGB',
+  'ram.speedMHz',
+  'case.maxGpuLengthMm',
+  'psu.watts',
+]);
+
+// --- CSV text ---
+const FORMULA_START = /^[=+\-@]/;
+const FORMULA_ESCAPE = "'";
+
+const escapeFormula = (v: string) => (FORMULA_START.test(v) ? `${FORMULA_ESCAPE}${v}` : v);
+const unescapeFormula = (v: string) => (v.startsWith(FORMULA_ESCAPE) && FORMULA_START.test(v.slice(1)) ? v.slice(1) : v);
+
+const quote = (v: string) => (/[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+export const toCsv = (rows: string[][]) => rows.map((r) => r.map(quote).join(',')).join('\r\n');
+
+// RFC 4180: 큰따옴표로 감싼 칸 안의 쉼표/줄바꿈, "" 이스케이프
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += c;
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((v) => v.trim() !== ''));
+}
+
+// --- Products <-> CSV ---
+export function productsToCsv(products: Product[]): string {
+  const header = COLUMNS.map((c) => c.key);
+  const body = products.map((p) =>
+    COLUMNS.map((c) => {
+      const v = c.get(p);
+      return typeof v === 'string' ? escapeFormula(v) : String(v ?? '');
+    })
+  );
+  // 엑셀에서 한글이 깨지지 않도록 BOM 을 붙인다
+  return `\uFEFF${toCsv([header, ...body])}`;
+}
+
+const parseStorage = (v: string): Partial<StorageDevice>[] =>
+  v
+    .split(LIST_SEP)
+    .filter(Boolean)
+    .map((s) => {
+      const [kind, iface, capacity] = s.split(':');
+      return { kind, interface: iface, capacityGB: Number(capacity) } as Partial<StorageDevice>;
+    });
+
+// 깨진 JSON 은 문자열 그대로 넘겨서 parseCatalog 가 행 오류로 보고하게 한다
+const parseJson = (v: string): unknown => {
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+};
+
+const cellValue = (key: string, raw: string): unknown => {
+  const v = unescapeFormula(raw.trim());
+  if (v === '') return undefined;
+  if (NUMERIC.has(key)) return Number(v.replace(/,/g, ''));
+  if (key === 'gpu.integrated') return v.toLowerCase() === 'true';
+  if (key === 'tags' || key === 'cpu.memoryTypes') return v.split(LIST_SEP).map((x) => x.trim()).filter(Boolean);
+  if (key === 'storage') return parseStorage(v);
+  if (key === 'images') return parseJson(v);
+  return v;
+};
+
+/**
+ * CSV 를 상품 원본 객체 배열로 되돌린다 (검증은 하지 않음 → parseCatalog 로 넘긴다).
+ * 알 수 없는 열은 무시하고, 빈 칸은 값이 없는 것으로 본다.
+ */
+export function csvToRaw(text: string): unknown[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  const known = new Set(COLUMNS.map((c) => c.key));
+  return rows.map((cells) => {
+    const obj: Record<string, unknown> = {};
+    keys.forEach((key, i) => {
+      if (!known.has(key)) return;
+      const value = cellValue(key, cells[i] ?? '');
+      if (value === undefined) return;
+      const [head, sub] = key.split('.');
+      if (!sub) obj[head] = value;
+      else obj[head] = { ...((obj[head] as Record<string, unknown> | undefined) ?? {}), [sub]: value };
+    });
+    return obj;
+  });
+}
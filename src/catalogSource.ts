@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import { api, type ApiClient, type ProductPage } from './api';
+import { loadCatalog, parseCatalog, type CatalogResult, type Product } from './catalog';
+import { t } from './i18n';
+import { useLoader, type LoaderState } from './useLoader';
+
+// --- Catalog storage adapter ---
+// 매장 화면과 관리자 화면은 모두 이 어댑터를 거쳐 상품 목록을 읽고 쓴다.
+// 기본은 API 어댑터(서버의 /products)이고, 로컬 어댑터는 모의 서버가 브라우저 localStorage 에 저장할 때 쓴다.
+
+export interface CatalogAdapter {
+  id: string; // 언어와 상관없는 고정 식별자 (목록을 읽는 로더의 키)
+  name: string; // 관리자 화면에 보이는 이름
+  load(signal?: AbortSignal): Promise<CatalogResult>;
+  save(products: Product[]): Promise<void>;
+  // 저장된 변경을 버리고 배포된 원본으로 되돌린다
+  reset(): Promise<void>;
+  // 원본(products.json) 대신 수정본을 쓰는 중인지
+  isModified(): boolean;
+}
+
+export const CATALOG_STORAGE_KEY = 'pcshop_catalog_v1';
+
+// 로컬 어댑터: 수정본이 없으면 public/products.json 을 그대로 쓴다
+export function createLocalCatalogAdapter(storageKey = CATALOG_STORAGE_KEY): CatalogAdapter {
+  const read = () => localStorage.getItem(storageKey);
+  return {
+    id: `local:${storageKey}`,
+    get name() {
+      return t('admin.source.local');
+    },
+    async load(signal) {
+      const stored = read();
+      if (stored === null) return loadCatalog(undefined, signal);
+      try {
+        return parseCatalog(JSON.parse(stored));
+      } catch {
+        // 저장본이 깨졌으면 원본으로
+        return loadCatalog(undefined, signal);
+      }
+    },
+    async save(products) {
+      localStorage.setItem(storageKey, JSON.stringify(products));
+    },
+    async reset() {
+      localStorage.removeItem(storageKey);
+    },
+    isModified: () => read() !== null,
+  };
+}
+
+// API 어댑터: 수정본 여부는 마지막 응답 기준으로 기억한다
+export function createApiCatalogAdapter(client: ApiClient = api): CatalogAdapter {
+  let modified = false;
+  const remember = (page: ProductPage): CatalogResult => {
+    modified = page.modified;
+    return { products: page.products, issues: page.issues };
+  };
+  return {
+    id: client.id,
+    get name() {
+      return client.name;
+    },
+    load: (signal) => client.products.list({}, signal).then(remember),
+    async save(products) {
+      remember(await client.products.replace(products));
+      notify();
+    },
+    async reset() {
+      remember(await client.products.reset());
+      notify();
+    },
+    isModified: () => modified,
+  };
+}
+
+export const catalogAdapter: CatalogAdapter = createApiCatalogAdapter();
+
+// --- Change notifications ---
+// 관리자 화면에서 저장하면 (같은 탭/다른 탭 모두) 매장 목록을 다시 읽는다
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((l) => l());
+
+api.watch('products', notify);
+
+// 주문처럼 다른 경로로 서버의 상품(재고)이 바뀌었을 때 매장 목록을 다시 읽게 한다
+export const refreshCatalog = notify;
+
+export function onCatalogChange(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export type CatalogState = LoaderState<CatalogResult>;
+
+export function useCatalog(adapter: CatalogAdapter = catalogAdapter) {
+  const loader = useLoader((signal) => adapter.load(signal), adapter.id);
+  const { reload } = loader;
+  useEffect(() => onCatalogChange(reload), [reload]);
+  return loader;
+}
@@ -0,0 +1,63 @@
+// --- Checkout ---
+// 배송지 검증, 배송 옵션, 주문번호 생성 등 결제 화면에서 쓰는 순수 로직.
+
+import type { MessageKey } from './messages';
+
+export type ShippingInfo = {
+  recipient: string;
+  phone: string;
+  postalCode: string;
+  address1: string; // 도로명/지번 주소
+  address2: string; // 상세 주소
+  memo: string;
+};
+
+export const EMPTY_SHIPPING: ShippingInfo = {
+  recipient: '',
+  phone: '',
+  postalCode: '',
+  address1: '',
+  address2: '',
+  memo: '',
+};
+
+export type ShippingErrors = Partial<Record<keyof ShippingInfo, MessageKey>>; // 화면에서 t() 로 보여 준다
+
+// 휴대폰(010 등) 또는 지역번호 유선전화. 하이픈은 있어도 없어도 된다.
+const PHONE_RE = /^(01[016789]\d{7,8}|0(2|[3-6][1-5])\d{7,8})$/;
+const POSTAL_RE = /^\d{5}$/; // 2015년 이후 5자리 국가기초구역번호
+
+export const normalizePhone = (v: string) => v.replace(/[\s-]/g, '');
+
+export const formatPhone = (v: string) => {
+  const d = normalizePhone(v);
+  if (d.startsWith('02')) return d.replace(/^(02)(\d{3,4})(\d{4})$/, '$1-$2-$3');
+  return d.replace(/^(\d{3})(\d{3,4})(\d{4})$/, '$1-$2-$3');
+};
+
+export function validateShipping(s: ShippingInfo): ShippingErrors {
+  const errs: ShippingErrors = {};
+  if (s.recipient.trim().length < 2) errs.recipient = 'checkout.error.recipient';
+  if (!PHONE_RE.test(normalizePhone(s.phone))) errs.phone = 'checkout.error.phone';
+  if (!POSTAL_RE.test(s.postalCode.trim())) errs.postalCode = 'checkout.error.postalCode';
+  if (!s.address1.trim()) errs.address1 = 'checkout.error.address1';
+  if (!s.address2.trim()) errs.address2 = 'checkout.error.address2';
+  return errs;
+}
+
+export type DeliveryOption = 'standard' | 'express' | 'pickup';
+
+export const DELIVERY_OPTIONS: { value: DeliveryOption; label: MessageKey; fee: number; eta: MessageKey }[] = [
+  { value: 'standard', label: 'checkout.delivery.standard', fee: 0, eta: 'checkout.delivery.standardEta' },
+  { value: 'express', label: 'checkout.delivery.express', fee: 15000, eta: 'checkout.delivery.expressEta' },
+  { value: 'pickup', label: 'checkout.delivery.pickup', fee: 0, eta: 'checkout.delivery.pickupEta' },
+];
+
+export const deliveryFee = (d: DeliveryOption) => DELIVERY_OPTIONS.find((o) => o.value === d)?.fee ?? 0;
+
+// PC-20261019-4F7K2 형태
+export function createOrderId(now = new Date()) {
+  const ymd = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+  const rand = Math.random().toString(36).slice(2, 7).toUpperCase();
+  return `PC-${ymd}-${rand}`;
+}
@@ -0,0 +1,92 @@
+import type { Product } from './catalog';
+import { cpuBench, gpuBench, perfScore, valueScore } from './benchmarks';
+import { estimateFps, type Game, type Resolution } from './games';
+import { formatPrice } from './currency';
+import { localize, t } from './i18n';
+import { currentPrice } from './pricing';
+import { cpuLabel, formatCapacity, gpuLabel, ramLabel, storageLabel, storageTotalGB } from './specs';
+import { encodeUrlState, DEFAULT_URL_STATE } from './urlState';
+
+// --- Compare ---
+// 비교 표의 행 정의와 행별 최고값 계산. 상품 수는 COMPARE_LIMIT 까지 (표는 가로 스크롤).
+
+export const COMPARE_LIMIT = 6;
+
+export type CompareRow = {
+  key: string;
+  label: string;
+  text: (p: Product) => string;
+  score?: (p: Product) => number; // 숫자 비교가 가능한 행만
+  better?: 'high' | 'low';
+};
+
+export function compareRows(game: Game, res: Resolution): CompareRow[] {
+  return [
+    { key: 'price', label: t('compare.price'), text: (p) => formatPrice(currentPrice(p)), score: currentPrice, better: 'low' },
+    {
+      key: 'perf',
+      label: t('compare.perf'),
+      text: (p) => t('compare.points', { score: perfScore(p).toFixed(0) }),
+      score: perfScore,
+      better: 'high',
+    },
+    {
+      key: 'value',
+      label: t('compare.value'),
+      text: (p) => t('compare.valueText', { score: valueScore(p).toFixed(2) }),
+      score: valueScore,
+      better: 'high',
+    },
+    { key: 'cpu', label: 'CPU', text: (p) => cpuLabel(p.cpu), score: (p) => cpuBench(p.cpu).score, better: 'high' },
+    {
+      key: 'threads',
+      label: t('compare.threads'),
+      text: (p) => `${p.cpu.cores}C / ${p.cpu.threads}T`,
+      score: (p) => p.cpu.threads,
+      better: 'high',
+    },
+    { key: 'gpu', label: 'GPU', text: (p) => gpuLabel(p.gpu), score: (p) => gpuBench(p.gpu).score, better: 'high' },
+    { key: 'ram', label: 'RAM', text: (p) => ramLabel(p.ram), score: (p) => p.ram.capacityGB, better: 'high' },
+    {
+      key: 'storage',
+      label: t('spec.storage'),
+      text: (p) =>
+        t('compare.storageText', { label: storageLabel(p.storage), total: formatCapacity(storageTotalGB(p.storage)) }),
+      score: (p) => storageTotalGB(p.storage),
+      better: 'high',
+    },
+    { key: 'tags', label: t('compare.tags'), text: (p) => (p.tags ?? []).join(', ') },
+    {
+      key: 'game',
+      label: `${localize(game.name)} FPS`,
+      text: (p) => {
+        const e = estimateFps(p, game, res);
+        return t('compare.fpsText', { fps: e.fps, part: e.bottleneck === 'cpu' ? 'CPU' : 'GPU' });
+      },
+      score: (p) => estimateFps(p, game, res).fps,
+      better: 'high',
+    },
+  ];
+}
+
+// 모든 상품의 표기 값이 같은 행 ("차이점만 보기" 에서 숨김)
+export const isUniform = (row: CompareRow, products: Product[]) =>
+  products.every((p) => row.text(p) === row.text(products[0]));
+
+// 행에서 가장 좋은 값을 가진 상품의 인덱스. 모두 같으면 강조하지 않는다.
+export function bestIndexes(row: CompareRow, products: Product[]): number[] {
+  const { score, better } = row;
+  if (!score || !better || products.length < 2) return [];
+  const values = products.map(score);
+  const best = better === 'high' ? Math.max(...values) : Math.min(...values);
+  if (values.every((v) => v === best)) return [];
+  return values.flatMap((v, i) => (v === best ? [i] : []));
+}
+
+// 비교 목록만 담은 공유 링크 (받는 사람의 검색/필터 상태는 건드리지 않는다)
+export const compareShareUrl = (ids: string[]) =>
+  `${window.location.origin}${window.location.pathname}${encodeUrlState({
+    ...DEFAULT_URL_STATE,
+    selected: ids,
+    compareOpen: true,
+  })}`;
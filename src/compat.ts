@@ -0,0 +1,173 @@
+import type { Product } from './catalog';
+import { t } from './i18n';
+
+// --- Compatibility rules ---
+// 구성(기본 상품 또는 커스텀 구성)의 부품 조합을 검사한다.
+// 규칙은 Rule 함수 배열로 두고, 각 규칙은 자기 문제만 보고한다.
+
+export type CompatLevel = 'error' | 'warning' | 'info';
+
+export type CompatIssue = { level: CompatLevel; code: string; message: string };
+
+export type CompatReport = {
+  issues: CompatIssue[];
+  estimatedWatts: number;
+  recommendedPsuWatts: number;
+  ok: boolean; // error 가 하나도 없으면 true (장바구니에 담을 수 있음)
+};
+
+type Rule = (p: Product) => CompatIssue[];
+
+// 칩셋별 소켓. 표에 없는 칩셋은 소켓 일치 여부만 본다.
+const CHIPSET_SOCKET: Record<string, string> = {
+  Z790: 'LGA1700',
+  H770: 'LGA1700',
+  B760: 'LGA1700',
+  Z690: 'LGA1700',
+  B660: 'LGA1700',
+  H610: 'LGA1700',
+  Z590: 'LGA1200',
+  B560: 'LGA1200',
+  H510: 'LGA1200',
+  Z490: 'LGA1200',
+  B460: 'LGA1200',
+  X670E: 'AM5',
+  X670: 'AM5',
+  B650: 'AM5',
+  A620: 'AM5',
+  X570: 'AM4',
+  B550: 'AM4',
+  A520: 'AM4',
+};
+
+// 메인보드·메모리·저장장치·팬 등 CPU/GPU 외 소비전력 추정치
+const BASE_SYSTEM_WATTS = 75;
+const WATTS_PER_DRIVE = 8;
+// 최대 부하가 파워 용량의 80% 이내가 되도록 여유를 둔다
+const PSU_HEADROOM = 1.25;
+const PSU_SIZES = [400, 450, 500, 550, 600, 650, 750, 850, 1000, 1200, 1600];
+
+const socketRule: Rule = (p) => {
+  if (!p.board) return [{ level: 'info', code: 'board-unknown', message: t('compat.boardUnknown') }];
+  const issues: CompatIssue[] = [];
+  const { board, cpu } = p;
+  const chipsetSocket = CHIPSET_SOCKET[board.chipset.toUpperCase()];
+  if (chipsetSocket && chipsetSocket !== board.socket) {
+    issues.push({
+      level: 'error',
+      code: 'chipset-socket',
+      message: t('compat.chipsetSocket', { chipset: board.chipset, socket: chipsetSocket, boardSocket: board.socket }),
+    });
+  }
+  if (!cpu.socket) {
+    issues.push({
+      level: 'info',
+      code: 'cpu-socket-unknown',
+      message: t('compat.cpuSocketUnknown', { model: cpu.model }),
+    });
+  } else if (cpu.socket !== board.socket) {
+    issues.push({
+      level: 'error',
+      code: 'cpu-socket',
+      message: t('compat.cpuSocket', {
+        model: cpu.model,
+        socket: cpu.socket,
+        chipset: board.chipset,
+        boardSocket: board.socket,
+      }),
+    });
+  }
+  return issues;
+};
+
+const memoryRule: Rule = (p) => {
+  const issues: CompatIssue[] = [];
+  if (p.board && p.board.memoryType !== p.ram.type) {
+    issues.push({
+      level: 'error',
+      code: 'board-memory',
+      message: t('compat.boardMemory', {
+        chipset: p.board.chipset,
+        boardType: p.board.memoryType,
+        ramType: p.ram.type,
+      }),
+    });
+  }
+  if (p.cpu.memoryTypes && !p.cpu.memoryTypes.includes(p.ram.type)) {
+    issues.push({
+      level: 'error',
+      code: 'cpu-memory',
+      message: t('compat.cpuMemory', {
+        model: p.cpu.model,
+        ramType: p.ram.type,
+        supported: p.cpu.memoryTypes.join(', '),
+      }),
+    });
+  }
+  return issues;
+};
+
+const gpuLengthRule: Rule = (p) => {
+  if (p.gpu.integrated) return [];
+  if (!p.case || !p.gpu.lengthMm) {
+    return [{ level: 'info', code: 'gpu-length-unknown', message: t('compat.gpuLengthUnknown') }];
+  }
+  if (p.gpu.lengthMm > p.case.maxGpuLengthMm) {
+    return [
+      {
+        level: 'error',
+        code: 'gpu-length',
+        message: t('compat.gpuLength', { model: p.gpu.model, length: p.gpu.lengthMm, max: p.case.maxGpuLengthMm }),
+      },
+    ];
+  }
+  if (p.case.maxGpuLengthMm - p.gpu.lengthMm < 10) {
+    return [{ level: 'warning', code: 'gpu-length-tight', message: t('compat.gpuLengthTight') }];
+  }
+  return [];
+};
+
+export const estimateWatts = (p: Product) =>
+  (p.cpu.tdpW ?? 0) + (p.gpu.integrated ? 0 : (p.gpu.tdpW ?? 0)) + BASE_SYSTEM_WATTS + WATTS_PER_DRIVE * p.storage.length;
+
+export const recommendPsu = (watts: number) => {
+  const need = watts * PSU_HEADROOM;
+  return PSU_SIZES.find((s) => s >= need) ?? Math.ceil(need / 100) * 100;
+};
+
+const psuRule: Rule = (p) => {
+  const issues: CompatIssue[] = [];
+  if (p.cpu.tdpW === undefined || (!p.gpu.integrated && p.gpu.tdpW === undefined)) {
+    issues.push({ level: 'info', code: 'tdp-unknown', message: t('compat.tdpUnknown') });
+  }
+  if (!p.psu) return issues;
+  const watts = estimateWatts(p);
+  const recommended = recommendPsu(watts);
+  if (p.psu.watts < watts) {
+    issues.push({
+      level: 'error',
+      code: 'psu-insufficient',
+      message: t('compat.psuInsufficient', { psu: p.psu.watts, watts, recommended }),
+    });
+  } else if (p.psu.watts < recommended) {
+    issues.push({
+      level: 'warning',
+      code: 'psu-headroom',
+      message: t('compat.psuHeadroom', { psu: p.psu.watts, watts, recommended }),
+    });
+  }
+  return issues;
+};
+
+const RULES: Rule[] = [socketRule, memoryRule, gpuLengthRule, psuRule];
+
+export function checkBuild(p: Product): CompatReport {
+  const issues = RULES.flatMap((rule) => rule(p));
+  const estimatedWatts = estimateWatts(p);
+  return {
+    issues,
+    estimatedWatts,
+    recommendedPsuWatts: recommendPsu(estimatedWatts),
+    ok: !issues.some((i) => i.level === 'error'),
+  };
+}
@@ -0,0 +1,70 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, localeTag, useLocale } from './i18n';
+import { TEXT_CODEC, createLocalStore } from './localStore';
+
+// --- Display currency ---
+// 결제와 장바구니/주문 금액은 항상 원화(KRW)이고, 상품 가격만 고른 통화로 환산해서 보여 준다.
+// 환율은 아래 표를 직접 고쳐서 관리한다 (외부 환율 API 를 부르지 않음). 환산 금액은 참고용이다.
+
+export type DisplayCurrency = 'KRW' | 'USD' | 'JPY' | 'EUR';
+
+export const CURRENCIES: DisplayCurrency[] = ['KRW', 'USD', 'JPY', 'EUR'];
+
+// 1 단위당 원화 (JPY 는 1엔 기준)
+export const EXCHANGE_RATES: Record<DisplayCurrency, number> = {
+  KRW: 1,
+  USD: 1385,
+  JPY: 9.2,
+  EUR: 1505,
+};
+export const RATES_AS_OF = '2026-10-01';
+
+export const CURRENCY_STORAGE_KEY = 'pcshop_currency_v1';
+
+const isCurrency = (v: unknown): v is DisplayCurrency => CURRENCIES.includes(v as DisplayCurrency);
+
+const store = createLocalStore(CURRENCY_STORAGE_KEY, (v): DisplayCurrency => (isCurrency(v) ? v : 'KRW'), TEXT_CODEC);
+
+export function setCurrency(next: DisplayCurrency) {
+  if (next !== store.get()) store.set(next);
+}
+
+export const getCurrency = store.get;
+
+export const convertFromKrw = (krw: number, to: DisplayCurrency) => krw / EXCHANGE_RATES[to];
+
+// --- Formatting ---
+// 정산 금액 (장바구니/결제/주문 내역/관리자)
+export const formatKrw = (krw: number) =>
+  new Intl.NumberFormat(localeTag(), { style: 'currency', currency: 'KRW' }).format(krw);
+
+// 1000000 → "100만원", 1234500 → "123만 4,500원", 9000 → "9,000원"
+export function manwonLabel(price: number) {
+  const won = Math.round(price);
+  const man = Math.floor(won / 10000);
+  const rest = won % 10000;
+  if (man === 0) return `${rest.toLocaleString('ko-KR')}원`;
+  return rest === 0 ? `${man.toLocaleString('ko-KR')}만원` : `${man.toLocaleString('ko-KR')}만 ${rest.toLocaleString('ko-KR')}원`;
+}
+
+// 문장 속 짧은 원화 표기: 한국어는 "NN만원", 그 밖의 언어는 통화 기호
+export const formatKrwShort = (krw: number) => (getLocale() === 'ko' ? manwonLabel(krw) : formatKrw(krw));
+
+// 상품 가격 (고른 표시 통화)
+export function formatPrice(krw: number) {
+  const currency = store.get();
+  if (currency === 'KRW') return formatKrw(krw);
+  return new Intl.NumberFormat(localeTag(), { style: 'currency', currency }).format(convertFromKrw(krw, currency));
+}
+
+// 원화 금액 옆에 붙이는 환산 참고값 ("≈ $1,234.00"). 표시 통화가 원화면 null
+export const approxPrice = (krw: number) => (store.get() === 'KRW' ? null : `≈ ${formatPrice(krw)}`);
+
+export const useCurrency = () => useSyncExternalStore(store.subscribe, getCurrency);
+
+/** 컴포넌트용: 언어나 표시 통화가 바뀌면 다시 그려지도록 구독하고, 금액 형식 함수를 돌려준다. */
+export function useMoney() {
+  useLocale();
+  const current = useCurrency();
+  return { currency: current, formatKrw, formatKrwShort, formatPrice, approxPrice };
+}
@@ -0,0 +1,101 @@
+import { createContext, useContext, useLayoutEffect, type KeyboardEvent, type RefObject } from 'react';
+
+// --- Overlay stack ---
+// 열린 대화상자/서랍을 연 순서대로 쌓아 둔다. 맨 위 층만 조작할 수 있고(나머지와 #root 는 inert),
+// 하나라도 열려 있으면 페이지 스크롤을 잠근다. 닫히면 열기 전에 포커스가 있던 곳으로 돌려준다.
+
+const stack: HTMLElement[] = [];
+let savedScroll: { overflow: string; paddingRight: string } | null = null;
+
+function sync() {
+  const top = stack[stack.length - 1];
+  const root = document.getElementById('root');
+  if (root) root.inert = stack.length > 0;
+  for (const el of stack) el.inert = el !== top;
+
+  const body = document.body;
+  if (stack.length > 0 && !savedScroll) {
+    savedScroll = { overflow: body.style.overflow, paddingRight: body.style.paddingRight };
+    // 스크롤바가 사라지면서 화면이 옆으로 밀리지 않게 그 폭만큼 채운다
+    const scrollbar = window.innerWidth - document.documentElement.clientWidth;
+    body.style.overflow = 'hidden';
+    if (scrollbar > 0) body.style.paddingRight = `${scrollbar}px`;
+  } else if (stack.length === 0 && savedScroll) {
+    body.style.overflow = savedScroll.overflow;
+    body.style.paddingRight = savedScroll.paddingRight;
+    savedScroll = null;
+  }
+}
+
+// layer: 배경까지 포함한 겹 전체, focusTarget: 열릴 때 포커스를 줄 곳 (없으면 layer 안의 dialog 패널)
+export function useOverlayLayer(layer: RefObject<HTMLElement | null>, focusTarget?: RefObject<HTMLElement | null>) {
+  useLayoutEffect(() => {
+    const el = layer.current;
+    if (!el) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    stack.push(el);
+    sync();
+    const target = focusTarget?.current ?? el.querySelector<HTMLElement>('[role="dialog"]') ?? el;
+    target.focus({ preventScroll: true });
+    return () => {
+      stack.splice(stack.indexOf(el), 1);
+      sync();
+      if (opener?.isConnected) opener.focus({ preventScroll: true });
+    };
+    // ref 객체는 마운트 동안 바뀌지 않으므로 열릴 때 한 번만 쌓인다
+  }, [layer, focusTarget]);
+}
+
+// --- Keyboard: Esc 로 닫기 + Tab 순환 ---
+// 겹친 대화상자는 React 트리에서 부모 안에 있으므로 이벤트가 부모 층까지 올라온다. 처리한 층에서 멈춘다.
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+const focusableIn = (el: HTMLElement) =>
+  [...el.querySelectorAll<HTMLElement>(FOCUSABLE)].filter((f) => f.getClientRects().length > 0);
+
+export function handleOverlayKeys(e: KeyboardEvent<HTMLElement>, onClose: () => void) {
+  if (e.key === 'Escape') {
+    // 안쪽 위젯(검색 제안 등)이 먼저 Esc 를 썼으면 대화상자는 닫지 않는다
+    if (e.defaultPrevented) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onClose();
+  } else if (e.key === 'Tab') {
+    e.stopPropagation();
+    const items = focusableIn(e.currentTarget);
+    if (items.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = items[0];
+    const last = items[items.length - 1];
+    const active = document.activeElement;
+    const outside = !(active instanceof HTMLElement) || !items.includes(active);
+    if (e.shiftKey && (active === first || outside)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && (active === last || outside)) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+}
+
+// --- Dialog context (제목 id 연결, 닫기 버튼) ---
+export type DialogContextValue = { titleId: string; close: () => void; closable: boolean };
+
+export const DialogContext = createContext<DialogContextValue | null>(null);
+
+export function useDialog() {
+  const ctx = useContext(DialogContext);
+  if (!ctx) throw new Error('useDialog 는 Dialog/Drawer 안에서만 쓸 수 있습니다');
+  return ctx;
+}
@@ -0,0 +1,217 @@
+import type { Product } from './catalog';
+import { gpuBench } from './benchmarks';
+import { GAMES, findGame, runsAtTarget } from './games';
+import { isSoldOut } from './inventory';
+import { formatKrwShort } from './currency';
+import { localize, t } from './i18n';
+import type { MessageKey } from './messages';
+import { currentPrice } from './pricing';
+import { NO_RATINGS, RATING_STEPS, ratingOf, type RatingIndex } from './reviews';
+import { formatCapacity, storageTotalGB } from './specs';
+
+// --- Facets ---
+// 필터 상태와 옵션별 개수 계산. 데스크톱 사이드바와 모바일 드로어가 같은 로직을 쓴다.
+
+export type GpuTier = 'integrated' | 'entry' | 'performance' | 'flagship';
+
+export const GPU_TIERS: { key: GpuTier; label: MessageKey }[] = [
+  { key: 'flagship', label: 'filter.tier.flagship' },
+  { key: 'performance', label: 'filter.tier.performance' },
+  { key: 'entry', label: 'filter.tier.entry' },
+  { key: 'integrated', label: 'filter.tier.integrated' },
+];
+
+// 그래픽 벤치마크 점수 기준으로 등급을 나눈다 (제조사와 무관)
+export const gpuTier = (p: Product): GpuTier => {
+  if (p.gpu.integrated) return 'integrated';
+  const score = gpuBench(p.gpu).score;
+  if (score >= 40000) return 'flagship';
+  if (score >= 15000) return 'performance';
+  return 'entry';
+};
+
+export type Filters = {
+  cpu: string[]; // CPU family ("Core i7", "Ryzen 7")
+  gpu: GpuTier[];
+  tags: string[];
+  minRam: number; // GB
+  minStorage: number; // GB (total)
+  priceMin: number | null; // KRW
+  priceMax: number | null;
+  game: string | null; // 이 게임을 QHD 60fps 이상으로 돌릴 수 있는 상품만 (game id)
+  includeSoldOut: boolean; // 기본은 품절 상품을 숨긴다
+  minRating: number; // 평균 별점 (0 = 전체)
+};
+
+export const EMPTY_FILTERS: Filters = {
+  cpu: [],
+  gpu: [],
+  tags: [],
+  minRam: 0,
+  minStorage: 0,
+  priceMin: null,
+  priceMax: null,
+  game: null,
+  includeSoldOut: false,
+  minRating: 0,
+};
+
+export const RAM_STEPS = [0, 8, 16, 32, 64, 128];
+export const STORAGE_STEPS = [0, 256, 512, 1024, 2048, 4096];
+
+type FacetKey = 'cpu' | 'gpu' | 'tags' | 'ram' | 'storage' | 'price' | 'game' | 'stock' | 'rating';
+
+// 별점은 상품 데이터가 아니라 후기 저장소에서 오므로 평점 색인을 함께 넘긴다
+const test: Record<FacetKey, (p: Product, f: Filters, ratings: RatingIndex) => boolean> = {
+  cpu: (p, f) => f.cpu.length === 0 || f.cpu.includes(p.cpu.family),
+  gpu: (p, f) => f.gpu.length === 0 || f.gpu.includes(gpuTier(p)),
+  tags: (p, f) => f.tags.length === 0 || f.tags.some((t) => p.tags?.includes(t)),
+  ram: (p, f) => p.ram.capacityGB >= f.minRam,
+  storage: (p, f) => storageTotalGB(p.storage) >= f.minStorage,
+  price: (p, f) => {
+    const price = currentPrice(p);
+    return (f.priceMin === null || price >= f.priceMin) && (f.priceMax === null || price <= f.priceMax);
+  },
+  game: (p, f) => {
+    const game = findGame(f.game);
+    return !game || runsAtTarget(p, game);
+  },
+  stock: (p, f) => f.includeSoldOut || !isSoldOut(p),
+  rating: (p, f, ratings) => f.minRating === 0 || ratingOf(ratings, p.id).average >= f.minRating,
+};
+const FACET_KEYS = Object.keys(test) as FacetKey[];
+
+// skip 으로 지정한 facet 은 빼고 나머지 조건을 모두 검사한다
+const matchesExcept = (p: Product, f: Filters, ratings: RatingIndex, skip?: FacetKey) =>
+  FACET_KEYS.every((k) => k === skip || test[k](p, f, ratings));
+
+export const applyFilters = (products: Product[], f: Filters, ratings: RatingIndex = NO_RATINGS) =>
+  products.filter((p) => matchesExcept(p, f, ratings));
+
+export type FacetOption<T> = { value: T; label: string; count: number };
+type FacetCount<T> = Omit<FacetOption<T>, 'label'>;
+
+export type FacetCounts = {
+  cpu: FacetOption<string>[];
+  gpu: FacetOption<GpuTier>[];
+  tags: FacetOption<string>[];
+  ram: FacetOption<number>[];
+  storage: FacetOption<number>[];
+  game: FacetOption<string>[];
+  rating: FacetOption<number>[];
+  soldOut: number; // 다른 조건은 만족하는 품절 상품 수 ("품절 포함" 옆에 표시)
+  priceBounds: [number, number];
+};
+
+// 이름 없이 개수만 센 결과. 이름(GPU 등급, 게임 이름, '~ 이상')은 언어를 따르므로 labelFacets 가 따로 붙인다.
+export type FacetTally = {
+  [K in keyof FacetCounts]: FacetCounts[K] extends FacetOption<infer T>[] ? FacetCount<T>[] : FacetCounts[K];
+};
+
+const uniq = <T>(xs: T[]) => [...new Set(xs)];
+
+/**
+ * 옵션별 매칭 개수. 같은 facet 안의 다른 선택은 무시하고(OR) 나머지 facet 조건은 적용한다.
+ * 옵션 목록 자체는 전체 카탈로그에서 뽑으므로 0건이 된 옵션도 사라지지 않는다.
+ */
+export function tallyFacets(products: Product[], f: Filters, ratings: RatingIndex = NO_RATINGS): FacetTally {
+  const pool = (k: FacetKey) => products.filter((p) => matchesExcept(p, f, ratings, k));
+  const cpuPool = pool('cpu');
+  const gpuPool = pool('gpu');
+  const tagPool = pool('tags');
+  const ramPool = pool('ram');
+  const storagePool = pool('storage');
+  const gamePool = pool('game');
+  const stockPool = pool('stock');
+  const ratingPool = pool('rating');
+  const prices = products.map((p) => currentPrice(p));
+
+  return {
+    cpu: uniq(products.map((p) => p.cpu.family))
+      .sort((a, b) => a.localeCompare(b, 'ko'))
+      .map((v) => ({ value: v, count: cpuPool.filter((p) => p.cpu.family === v).length })),
+    gpu: GPU_TIERS.filter((tier) => products.some((p) => gpuTier(p) === tier.key)).map((tier) => ({
+      value: tier.key,
+      count: gpuPool.filter((p) => gpuTier(p) === tier.key).length,
+    })),
+    tags: uniq(products.flatMap((p) => p.tags ?? [])).map((v) => ({
+      value: v,
+      count: tagPool.filter((p) => p.tags?.includes(v)).length,
+    })),
+    ram: RAM_STEPS.map((v) => ({ value: v, count: ramPool.filter((p) => p.ram.capacityGB >= v).length })),
+    storage: STORAGE_STEPS.map((v) => ({
+      value: v,
+      count: storagePool.filter((p) => storageTotalGB(p.storage) >= v).length,
+    })),
+    game: GAMES.map((g) => ({ value: g.id, count: gamePool.filter((p) => runsAtTarget(p, g)).length })),
+    rating: RATING_STEPS.map((v) => ({
+      value: v,
+      count: ratingPool.filter((p) => v === 0 || ratingOf(ratings, p.id).average >= v).length,
+    })),
+    soldOut: stockPool.filter(isSoldOut).length,
+    priceBounds: prices.length ? [Math.min(...prices), Math.max(...prices)] : [0, 0],
+  };
+}
+
+const capacityLabel = (v: number) => (v === 0 ? t('filter.all') : t('filter.atLeast', { value: formatCapacity(v) }));
+
+// 현재 언어로 옵션 이름을 붙인다 (가벼워서 그릴 때마다 불러도 된다)
+export function labelFacets(tally: FacetTally): FacetCounts {
+  const tierLabel = (v: GpuTier) => GPU_TIERS.find((tier) => tier.key === v)?.label;
+  const gameName = (id: string) => GAMES.find((g) => g.id === id)?.name;
+  const label = <T>(options: FacetCount<T>[], name: (v: T) => string): FacetOption<T>[] =>
+    options.map((o) => ({ ...o, label: name(o.value) }));
+  return {
+    ...tally,
+    cpu: label(tally.cpu, (v) => v),
+    gpu: label(tally.gpu, (v) => {
+      const key = tierLabel(v);
+      return key ? t(key) : v;
+    }),
+    tags: label(tally.tags, (v) => v),
+    ram: label(tally.ram, capacityLabel),
+    storage: label(tally.storage, capacityLabel),
+    game: label(tally.game, (id) => {
+      const name = gameName(id);
+      return name ? localize(name) : id;
+    }),
+    rating: label(tally.rating, (v) => (v === 0 ? t('filter.all') : t('filter.ratingAtLeast', { value: v }))),
+  };
+}
+
+// --- Active filter chips ---
+export type FilterChip = { key: string; label: string; remove: (f: Filters) => Filters };
+
+export function activeChips(f: Filters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  f.cpu.forEach((v) => chips.push({ key: `cpu:${v}`, label: `CPU ${v}`, remove: (x) => ({ ...x, cpu: x.cpu.filter((c) => c !== v) }) }));
+  f.gpu.forEach((v) => {
+    const tier = GPU_TIERS.find((x) => x.key === v);
+    chips.push({
+      key: `gpu:${v}`,
+      label: `GPU ${tier ? t(tier.label) : v}`,
+      remove: (x) => ({ ...x, gpu: x.gpu.filter((g) => g !== v) }),
+    });
+  });
+  f.tags.forEach((v) => chips.push({ key: `tag:${v}`, label: `#${v}`, remove: (x) => ({ ...x, tags: x.tags.filter((t) => t !== v) }) }));
+  if (f.minRam > 0) chips.push({ key: 'ram', label: `RAM ${formatCapacity(f.minRam)}+`, remove: (x) => ({ ...x, minRam: 0 }) });
+  if (f.minStorage > 0) {
+    chips.push({ key: 'storage', label: t('filter.chip.storage', { value: formatCapacity(f.minStorage) }), remove: (x) => ({ ...x, minStorage: 0 }) });
+  }
+  if (f.priceMin !== null || f.priceMax !== null) {
+    const label = t('filter.chip.price', {
+      min: f.priceMin !== null ? formatKrwShort(f.priceMin) : '',
+      max: f.priceMax !== null ? formatKrwShort(f.priceMax) : '',
+    });
+    chips.push({ key: 'price', label: label.trim(), remove: (x) => ({ ...x, priceMin: null, priceMax: null }) });
+  }
+  const game = findGame(f.game);
+  if (game) chips.push({ key: 'game', label: t('filter.chip.game', { game: localize(game.name) }), remove: (x) => ({ ...x, game: null }) });
+  if (f.minRating > 0) {
+    chips.push({ key: 'rating', label: t('filter.ratingAtLeast', { value: f.minRating }), remove: (x) => ({ ...x, minRating: 0 }) });
+  }
+  if (f.includeSoldOut) chips.push({ key: 'soldout', label: t('filter.includeSoldOut'), remove: (x) => ({ ...x, includeSoldOut: false }) });
+  return chips;
+}
+
+export const toggleIn = <T>(xs: T[], v: T) => (xs.includes(v) ? xs.filter((x) => x !== v) : [...xs, v]);
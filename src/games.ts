@@ -0,0 +1,58 @@
+import type { Product } from './catalog';
+import { CPU_REF, cpuBench, gpuBench } from './benchmarks';
+import type { LocalizedText } from './i18n';
+import type { MessageKey } from './messages';
+
+// --- Game FPS estimates ---
+// 번들된 게임 데이터와 벤치마크 점수로 예상 FPS 를 계산한다. 실측값이 아니라 대략적인 추정치.
+// GPU 한계 FPS 는 그래픽 점수에 비례하고, CPU 한계 FPS 는 CPU 점수에 완만하게(제곱근) 비례한다.
+// 둘 중 낮은 쪽이 예상 FPS 이며, 그쪽이 병목이다.
+
+export type Game = {
+  id: string;
+  name: LocalizedText;
+  gpuRef: number; // FHD·높음 옵션에서 평균 60fps 가 나오는 GPU 그래픽 점수
+  cpuMaxFps: number; // 기준 최상위 CPU 에서 CPU 가 낼 수 있는 최대 FPS
+};
+
+export const GAMES: Game[] = [
+  { id: 'lol', name: { ko: '리그 오브 레전드', en: 'League of Legends' }, gpuRef: 600, cpuMaxFps: 420 },
+  { id: 'valorant', name: { ko: '발로란트', en: 'VALORANT' }, gpuRef: 900, cpuMaxFps: 450 },
+  { id: 'fconline', name: { ko: 'FC 온라인', en: 'FC Online' }, gpuRef: 2500, cpuMaxFps: 240 },
+  { id: 'overwatch2', name: { ko: '오버워치 2', en: 'Overwatch 2' }, gpuRef: 4500, cpuMaxFps: 320 },
+  { id: 'lostark', name: { ko: '로스트아크', en: 'Lost Ark' }, gpuRef: 5000, cpuMaxFps: 160 },
+  { id: 'pubg', name: { ko: '배틀그라운드', en: 'PUBG: Battlegrounds' }, gpuRef: 6000, cpuMaxFps: 220 },
+  { id: 'diablo4', name: { ko: '디아블로 IV', en: 'Diablo IV' }, gpuRef: 7000, cpuMaxFps: 200 },
+  { id: 'cyberpunk', name: { ko: '사이버펑크 2077', en: 'Cyberpunk 2077' }, gpuRef: 13000, cpuMaxFps: 140 },
+];
+
+export type Resolution = 'fhd' | 'qhd' | 'uhd';
+
+// cost: FHD 대비 GPU 부하 배수 (픽셀 수보다 조금 완만하게 늘어난다)
+export const RESOLUTIONS: { value: Resolution; label: MessageKey; cost: number }[] = [
+  { value: 'fhd', label: 'game.res.fhd', cost: 1 },
+  { value: 'qhd', label: 'game.res.qhd', cost: 1.7 },
+  { value: 'uhd', label: 'game.res.uhd', cost: 3.6 },
+];
+
+// 필터 기준: QHD 에서 평균 60fps 이상
+export const TARGET_FPS = 60;
+export const FILTER_RESOLUTION: Resolution = 'qhd';
+
+export const DEFAULT_GAME = 'pubg';
+
+export const findGame = (id: string | null) => GAMES.find((g) => g.id === id) ?? null;
+
+export type FpsEstimate = { fps: number; bottleneck: 'cpu' | 'gpu' };
+
+export function estimateFps(p: Product, game: Game, res: Resolution): FpsEstimate {
+  const cost = RESOLUTIONS.find((r) => r.value === res)?.cost ?? 1;
+  const gpuFps = (TARGET_FPS * gpuBench(p.gpu).score) / game.gpuRef / cost;
+  const cpuFps = game.cpuMaxFps * Math.sqrt(cpuBench(p.cpu).score / CPU_REF);
+  return gpuFps <= cpuFps ? { fps: Math.round(gpuFps), bottleneck: 'gpu' } : { fps: Math.round(cpuFps), bottleneck: 'cpu' };
+}
+
+export const runsAtTarget = (p: Product, game: Game) => estimateFps(p, game, FILTER_RESOLUTION).fps >= TARGET_FPS;
+
+// 화면 색 구분용: 쾌적 / 플레이 가능 / 어려움
+export const fpsGrade = (fps: number) => (fps >= TARGET_FPS ? 'smooth' : fps >= 30 ? 'playable' : 'poor');
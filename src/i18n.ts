@@ -0,0 +1,85 @@
+import { useSyncExternalStore } from 'react';
+import { TEXT_CODEC, createLocalStore } from './localStore';
+import { en, ko, type Message, type MessageKey } from './messages';
+
+// --- Localization ---
+// 화면 문구는 src/messages.ts 의 메시지 카탈로그에서 키로 꺼내 쓴다 (한국어가 기준, 영어는 같은 키를 모두 채운다).
+// 고른 언어는 이 브라우저에 기억하고, 처음 방문하면 브라우저 언어가 한국어일 때만 한국어로 시작한다.
+// 상품 데이터(상품명/태그)는 번역하지 않는다. 데이터 검증 메시지도 키와 값으로 넘겨 화면에서 t() 로 보여 준다.
+
+export type Locale = 'ko' | 'en';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'ko', label: '한국어' },
+  { value: 'en', label: 'English' },
+];
+
+// 숫자/날짜 형식에 쓰는 BCP 47 태그
+export const LOCALE_TAGS: Record<Locale, string> = { ko: 'ko-KR', en: 'en-US' };
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { ko, en };
+
+export const LOCALE_STORAGE_KEY = 'pcshop_locale_v1';
+
+const isLocale = (v: unknown): v is Locale => LOCALES.some((l) => l.value === v);
+
+// 저장된 언어가 없으면 브라우저 언어가 한국어일 때만 한국어
+const browserLocale = (): Locale =>
+  typeof navigator !== 'undefined' && !navigator.language.toLowerCase().startsWith('ko') ? 'en' : 'ko';
+
+const store = createLocalStore(LOCALE_STORAGE_KEY, (v): Locale => (isLocale(v) ? v : browserLocale()), TEXT_CODEC);
+
+const applyDocumentLang = () => {
+  if (typeof document !== 'undefined') document.documentElement.lang = store.get();
+};
+applyDocumentLang();
+store.subscribe(applyDocumentLang);
+
+export function setLocale(next: Locale) {
+  if (next !== store.get()) store.set(next);
+}
+
+export const subscribeLocale = store.subscribe;
+export const getLocale = store.get;
+export const localeTag = () => LOCALE_TAGS[store.get()];
+
+export const useLocale = () => useSyncExternalStore(subscribeLocale, getLocale);
+
+// --- Messages ---
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 현재 언어의 메시지. `{name}` 자리에 params 를 넣고, 복수형 메시지는 params.count 로 형태를 고른다.
+ * 컴포넌트에서는 useI18n() 으로 꺼내 써야 언어를 바꿀 때 다시 그려진다.
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const msg = CATALOGS[store.get()][key];
+  const text =
+    typeof msg === 'string'
+      ? msg
+      : msg[new Intl.PluralRules(localeTag()).select(Number(params?.count ?? 0)) === 'one' ? 'one' : 'other'];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (m, name: string) => {
+    const v = params[name];
+    if (v === undefined) return m;
+    return typeof v === 'number' ? formatNumber(v) : v;
+  });
+}
+
+// 코드에 들어 있는 짧은 데이터 문구(게임 이름, 쿠폰 이름 등)는 언어별 값을 함께 둔다
+export type LocalizedText = Record<Locale, string>;
+
+export const localize = (text: LocalizedText) => text[store.get()];
+
+// --- Formatting ---
+export const formatNumber = (n: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(localeTag(), options).format(n);
+
+export const formatDate = (value: string | number | Date, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(localeTag(), options).format(new Date(value));
+
+/** 컴포넌트용: 언어가 바뀌면 다시 그려지도록 구독하고, 번역/형식 함수를 돌려준다. */
+export function useI18n() {
+  const current = useLocale();
+  return { locale: current, t, formatNumber, formatDate };
+}
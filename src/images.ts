@@ -0,0 +1,27 @@
+import type { Product, ProductImage } from './catalog';
+
+// --- Product images ---
+// products.json 의 사진 경로는 public/ 기준 상대 경로로 적고, 배포 경로(BASE_URL)는 여기서 붙인다.
+// 여러 크기로 만들어 둔 사진은 src 에 '{w}' 를 넣고 widths 를 적으면 srcset 으로 브라우저가 고른다.
+
+const WIDTH_TOKEN = '{w}';
+
+const isAbsolute = (src: string) => /^(?:[a-z][a-z\d+.-]*:|\/)/i.test(src);
+
+export const imageUrl = (src: string) => (isAbsolute(src) ? src : `${import.meta.env.BASE_URL}${src}`);
+
+const withWidth = (src: string, w: number) => imageUrl(src.split(WIDTH_TOKEN).join(String(w)));
+
+// srcset 이 없으면 src 한 장만 쓴다 (SVG, 크기별 파일이 없는 사진)
+export function imageSources(img: ProductImage) {
+  const widths = img.widths && img.src.includes(WIDTH_TOKEN) ? [...img.widths].sort((a, b) => a - b) : [];
+  if (widths.length === 0) return { src: imageUrl(img.src.split(WIDTH_TOKEN).join('')) };
+  return {
+    src: withWidth(img.src, widths[widths.length - 1]),
+    srcSet: widths.map((w) => `${withWidth(img.src, w)} ${w}w`).join(', '),
+  };
+}
+
+export const productImages = (p: Product) => p.images?.filter((img) => img.src.trim() !== '') ?? [];
+
+export const primaryImage = (p: Product): ProductImage | undefined => productImages(p)[0];
@@ -0,0 +1,60 @@
+import type { Product } from './catalog';
+import { MAX_LINE_QTY, productQty, type CartState } from './cart';
+import { t } from './i18n';
+import type { MessageKey } from './messages';
+
+// --- Inventory ---
+// 상품별 재고(Product.stock)로 재고 표시, 장바구니 수량 제한, 결제 직전 재확인을 한다.
+// stock 이 없는 상품은 재고를 관리하지 않는 것으로 보고 항상 구매 가능으로 둔다.
+
+export type StockStatus = 'in' | 'low' | 'out';
+
+export const LOW_STOCK_THRESHOLD = 3; // 이 수량 이하이면 '품절 임박'
+
+export const STOCK_LABELS: Record<StockStatus, MessageKey> = {
+  in: 'stock.in',
+  low: 'stock.low',
+  out: 'stock.out',
+};
+
+export const stockStatus = (p: Product): StockStatus => {
+  if (p.stock === undefined) return 'in';
+  if (p.stock <= 0) return 'out';
+  return p.stock <= LOW_STOCK_THRESHOLD ? 'low' : 'in';
+};
+
+export const isSoldOut = (p: Product) => stockStatus(p) === 'out';
+
+// 한 상품을 장바구니에 담을 수 있는 최대 수량 (구성이 다른 라인 합계 기준)
+export const maxCartQty = (p: Product) => Math.min(MAX_LINE_QTY, p.stock ?? MAX_LINE_QTY);
+
+// 지금 더 담을 수 있는 수량
+export const remainingStock = (cart: CartState, p: Product) => Math.max(0, maxCartQty(p) - productQty(cart, p.id));
+
+export const stockLimitMessage = (p: Product) =>
+  isSoldOut(p)
+    ? t('stock.soldOutMessage', { title: p.title })
+    : t('stock.limitMessage', { title: p.title, count: maxCartQty(p) });
+
+// --- Checkout re-check ---
+export type StockIssue = { product: Product; requested: number; available: number };
+
+/** 장바구니 수량이 현재 재고를 넘는 상품 (products 는 결제 직전에 다시 읽은 카탈로그) */
+export function stockIssues(cart: CartState, products: Product[]): StockIssue[] {
+  const ids = [...new Set(cart.lines.map((l) => l.productId))];
+  return ids.flatMap((id) => {
+    const product = products.find((p) => p.id === id);
+    if (!product || product.stock === undefined) return [];
+    const requested = productQty(cart, id);
+    return requested > product.stock ? [{ product, requested, available: product.stock }] : [];
+  });
+}
+
+// cart 의 fitStock 액션에 넘길 재고표 (재고를 관리하는 상품만)
+export const stockTable = (products: Product[]) =>
+  Object.fromEntries(products.flatMap((p) => (p.stock === undefined ? [] : [[p.id, p.stock]]))) as Record<string, number>;
+
+export const formatStockIssue = (i: StockIssue) =>
+  i.available === 0
+    ? t('stock.issueSoldOut', { title: i.product.title })
+    : t('stock.issue', { title: i.product.title, requested: i.requested, available: i.available });
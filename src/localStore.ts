@@ -0,0 +1,55 @@
+// --- Browser-backed store ---
+// 이 브라우저에만 남기는 값(최근 검색어, 찜, 언어 등)을 모듈 전역에 두고 여러 화면이 useSyncExternalStore 로 구독한다.
+// 읽을 때는 validate 로 검증하고(없거나 깨졌으면 validate(null) 이 기본값을 정한다), 다른 탭에서 바뀌면 storage 이벤트로 따라간다.
+// 저장에 실패해도(용량 초과, 저장소 차단) 이번 세션 동안은 메모리 값을 쓴다. null 을 넣으면 저장된 값을 지운다.
+
+export type LocalCodec = { decode: (raw: string) => unknown; encode: (value: unknown) => string };
+
+export const JSON_CODEC: LocalCodec = { decode: (raw) => JSON.parse(raw), encode: (value) => JSON.stringify(value) };
+// 문자열 하나를 따옴표 없이 저장한다 (언어, 통화처럼 예전부터 그렇게 저장해 온 값)
+export const TEXT_CODEC: LocalCodec = { decode: (raw) => raw, encode: (value) => String(value) };
+
+export function createLocalStore<T>(key: string, validate: (data: unknown) => T, codec: LocalCodec = JSON_CODEC) {
+  const load = (): T => {
+    try {
+      const raw = localStorage.getItem(key);
+      return validate(raw === null ? null : codec.decode(raw));
+    } catch {
+      return validate(null);
+    }
+  };
+
+  let value = load();
+  const listeners = new Set<() => void>();
+  const emit = () => listeners.forEach((l) => l());
+
+  const set = (next: T) => {
+    value = next;
+    try {
+      if (next === null) localStorage.removeItem(key);
+      else localStorage.setItem(key, codec.encode(next));
+    } catch {
+      // 메모리 값은 그대로 쓴다
+    }
+    emit();
+  };
+
+  window.addEventListener('storage', (e) => {
+    if (e.key !== key && e.key !== null) return;
+    value = load();
+    emit();
+  });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  return { get: () => value, set, update: (fn: (current: T) => T) => set(fn(value)), subscribe };
+}
+
+// 배열로 저장하는 목록: 배열이 아니면 빈 목록, 항목은 isItem 을 통과한 것만 limit 개까지
+export const listOf =
+  <T>(isItem: (v: unknown) => v is T, limit = Infinity) =>
+  (data: unknown): T[] =>
+    Array.isArray(data) ? data.filter(isItem).slice(0, limit) : [];
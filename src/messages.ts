@@ -0,0 +1,1334 @@
+// --- Message catalog ---
+// 화면 문구는 모두 여기에 둔다. 키는 '영역.용도' 형식이고, {name} 자리는 t() 에 넘긴 값으로 바뀐다.
+// 한국어(ko)가 기준이며, 영어(en)는 타입 검사로 같은 키를 빠짐없이 채우게 되어 있다.
+// 영어의 단수/복수가 갈리는 문구는 { one, other } 로 쓰고 params.count 로 고른다.
+
+export type Message = string | { one: string; other: string };
+
+export const ko = {
+  // --- Specs ---
+  'spec.cpu': 'CPU',
+  'spec.gpu': 'GPU',
+  'spec.ram': 'RAM',
+  'spec.storage': '저장장치',
+  'spec.board': '메인보드',
+  'spec.psu': '파워',
+  'spec.cpuDetail': '{cores}코어 {threads}스레드 · 최대 {ghz}GHz',
+  'spec.vendor.Intel': '인텔',
+
+  // --- Sorting ---
+  'sort.prefix': '정렬: {label}',
+  'sort.featured': '추천',
+  'sort.perf': '성능(높은순)',
+  'sort.value': '가성비(만원당 성능)',
+  'sort.price': '가격(낮은순)',
+  'sort.rating': '평점순',
+  'sort.cpu': 'CPU 성능',
+  'sort.gpu': 'GPU 성능',
+  'sort.ram': 'RAM(높은순)',
+  'sort.name': '이름',
+
+  // --- Filters ---
+  'filter.title': '필터',
+  'filter.all': '전체',
+  'filter.atLeast': '{value} 이상',
+  'filter.gpuTier': 'GPU 등급',
+  'filter.game': '게임 성능 (QHD 60fps 이상)',
+  'filter.stock': '재고',
+  'filter.includeSoldOut': '품절 포함',
+  'filter.minRam': '최소 RAM',
+  'filter.minStorage': '최소 저장장치',
+  'filter.price': '가격 (만원)',
+  'filter.priceMin': '최저 가격 (만원)',
+  'filter.priceMax': '최고 가격 (만원)',
+  'filter.tags': '태그',
+  'filter.rating': '별점',
+  'filter.ratingAtLeast': '★{value} 이상',
+  'filter.tier.flagship': '하이엔드',
+  'filter.tier.performance': '고성능',
+  'filter.tier.entry': '보급형',
+  'filter.tier.integrated': '내장 그래픽',
+  'filter.chip.query': '검색: {query}',
+  'filter.chip.storage': '저장장치 {value}+',
+  'filter.chip.price': '가격 {min} ~ {max}',
+  'filter.chip.game': '{game} QHD 60fps+',
+  'filter.chip.remove': '{label} 필터 해제',
+  'filter.resetAll': '전체 초기화',
+  'filter.reset': '필터 초기화',
+
+  // --- Stock ---
+  'stock.in': '재고 있음',
+  'stock.low': '품절 임박',
+  'stock.out': '품절',
+  'stock.left': '({count}대 남음)',
+  'stock.soldOutMessage': '{title} 은(는) 품절입니다',
+  'stock.limitMessage': '{title} 은(는) 최대 {count}대까지 담을 수 있습니다',
+  'stock.issueSoldOut': '{title}: 품절',
+  'stock.issue': '{title}: {requested}대 → 재고 {available}대',
+  'stock.cartMax': '최대 {count}대까지 담을 수 있습니다',
+  'stock.cartSoldOut': '품절된 상품입니다',
+  'stock.cartOnly': '재고가 {count}대뿐입니다',
+  'restock.cancel': '재입고 알림 취소',
+  'restock.hint': '재입고되면 알려 드려요',
+  'restock.requested': '알림 신청됨',
+  'restock.request': '재입고 알림 신청',
+  'restock.noticeTitle': '재입고 알림',
+  'restock.noticeBody': '{title} 이(가) 다시 입고되었습니다',
+  'restock.noticeMore': ' 외 {count}건',
+  'restock.view': '상품 보기',
+  'common.closeNotice': '알림 닫기',
+
+  // --- Games ---
+  'game.res.fhd': 'FHD · 높음',
+  'game.res.qhd': 'QHD · 높음',
+  'game.res.uhd': '4K · 높음',
+
+  'game.pick': '게임 선택',
+  'game.preset': '해상도/옵션',
+  'game.cpuBottleneckHint': 'CPU 성능이 병목입니다',
+  'game.gpuBottleneckHint': 'GPU 성능이 병목입니다',
+  'game.cpuBottleneck': 'CPU 병목',
+  'game.gpuBottleneck': 'GPU 병목',
+  'game.title': '게임 성능',
+  'game.estimate': '평균 FPS 추정치',
+  'game.disclaimer': '벤치마크 점수 기반 추정치로, 실제 FPS 는 드라이버·설정·장면에 따라 다를 수 있습니다.',
+
+  // --- Compare ---
+  'compare.price': '가격',
+  'compare.perf': '종합 성능',
+  'compare.points': '{score}점',
+  'compare.value': '가성비',
+  'compare.valueText': '만원당 {score}',
+  'compare.threads': '코어/스레드',
+  'compare.storageText': '{label} (총 {total})',
+  'compare.tags': '특징',
+  'compare.fpsText': '{fps}fps ({part} 병목)',
+  'compare.limit': '최대 {count}개까지 비교할 수 있습니다',
+  'compare.tray': '비교 {count}/{limit}',
+  'compare.remove': '{title} 비교에서 제외',
+  'compare.removeShort': '비교에서 제외',
+  'compare.add': '비교에 추가',
+  'compare.reset': '초기화',
+  'compare.needTwo': '2개 이상 선택하면 비교할 수 있습니다',
+  'compare.open': '비교하기',
+  'compare.copyPrompt': '아래 링크를 복사하세요',
+  'compare.title': '상품 비교',
+  'compare.diffOnly': '차이점만 보기',
+  'compare.copied': '링크 복사됨',
+  'compare.share': '링크 공유',
+  'compare.best': '최고',
+  'compare.allSame': '모든 항목이 같습니다.',
+
+  // --- Compatibility ---
+  'compat.boardUnknown': '메인보드 정보가 없어 소켓/메모리 호환성을 확인할 수 없습니다',
+  'compat.chipsetSocket': '{chipset} 칩셋은 {socket} 소켓용입니다 (메인보드 표기 {boardSocket})',
+  'compat.cpuSocketUnknown': '{model} 의 소켓 정보가 없습니다',
+  'compat.cpuSocket': '{model}({socket}) 는 {chipset} 메인보드({boardSocket})에 장착할 수 없습니다',
+  'compat.boardMemory': '{chipset} 메인보드는 {boardType} 전용입니다 (선택한 메모리 {ramType})',
+  'compat.cpuMemory': '{model} 는 {ramType} 를 지원하지 않습니다 (지원: {supported})',
+  'compat.gpuLengthUnknown': '케이스/그래픽카드 길이 정보가 없어 장착 여부를 확인할 수 없습니다',
+  'compat.gpuLength': '{model}({length}mm) 가 케이스 허용 길이({max}mm)보다 깁니다',
+  'compat.gpuLengthTight': '그래픽카드와 케이스 여유 공간이 10mm 미만입니다',
+  'compat.tdpUnknown': '일부 부품의 소비전력 정보가 없어 전력 추정이 부정확할 수 있습니다',
+  'compat.psuInsufficient': '파워 {psu}W 로는 예상 소비전력 {watts}W 를 감당할 수 없습니다 (권장 {recommended}W)',
+  'compat.psuHeadroom': '파워 {psu}W 는 여유가 부족합니다 (예상 {watts}W, 권장 {recommended}W 이상)',
+  'compat.ok': '호환성 문제 없음',
+  'compat.okWithNotes': '호환 가능 (확인 필요)',
+  'compat.incompatible': '호환되지 않는 구성',
+  'compat.power': '예상 {watts}W · 권장 파워 {recommended}W',
+  'compat.installed': ' · 장착 {watts}W',
+  'compat.blocked': '호환되지 않는 구성은 담을 수 없습니다',
+
+  // --- Configurator ---
+  'config.title': '{title} 구성 변경',
+  'config.loading': '부품 목록을 불러오는 중…',
+  'config.base': '{label} (기본)',
+  'config.baseDelta': '기본',
+  'config.summary': '구성 요약',
+  'config.priceLine': '기본 {base} · 변경 {delta}',
+  'config.reset': '기본 구성',
+  'config.add': '이 구성으로 담기',
+  'config.custom': '커스텀: {parts}',
+  'config.open': '구성 변경',
+  'common.retry': '다시 시도',
+  'common.close': '닫기',
+
+  // --- Search ---
+  'search.label': '검색',
+  'search.placeholder': '검색: i7, 4070ti, 지포스, ram>=32, 가격<150만 ...',
+  'search.placeholderShort': 'i7, 4070ti, 지포스, ram>=32 ...',
+  'search.suggestions': '검색 추천',
+  'search.group.recent': '최근 검색어',
+  'search.group.spec': '사양',
+  'search.group.product': '상품',
+  'search.clearRecent': '최근 검색어 전체 삭제',
+  'search.removeRecent': '최근 검색어 {query} 삭제',
+
+  // --- Wishlist ---
+  'wish.remove': '찜 해제',
+  'wish.add': '찜하기',
+  'wish.drop': '가격 인하',
+  'wish.title': '찜 목록',
+  'wish.dropAlert': '가격 인하 알림',
+  'wish.empty': '찜한 상품이 없습니다.',
+  'wish.detail': '상세 보기',
+  'wish.savedAt': '{date} 찜',
+  'wish.dropAmount': '{amount} 인하',
+  'wish.riseAmount': '{amount} 인상',
+  'wish.removeItem': '{title} 찜 해제',
+  'wish.moveToCart': '장바구니로 이동',
+  'wish.comparing': '비교 중',
+  'wish.noticeTitle': '찜한 상품 가격이 내렸어요',
+  'wish.noticeBody': '{title} {amount} 인하',
+  'wish.view': '찜 목록 보기',
+
+  // --- Pricing ---
+  'price.saleUntil': '{date}까지 할인',
+  'price.vatIncluded': '부가세 포함',
+  'price.settlement': '결제 {amount}',
+  'price.listSubtotal': '상품 금액 (정가)',
+  'price.saleDiscount': '기간 할인',
+  'price.quantityDiscount': '수량 할인 · {label}',
+  'price.bundleDiscount': '세트 할인 · {label}',
+  'price.couponDiscount': '쿠폰 · {label}',
+  'price.delivery': '배송비',
+  'price.free': '무료',
+  'price.total': '결제 예정 금액',
+  'price.supply': '공급가액 {amount}',
+  'price.vat': '부가세 {amount}',
+  'price.krwNote': '결제는 원화(KRW)로 진행되며, 환산 금액은 참고용입니다 (환율 기준일 {date})',
+  'price.quantityTier': '{title} {count}대 이상 {percent}%',
+  'coupon.unknown': '존재하지 않는 쿠폰입니다',
+  'coupon.expired': '사용 기간이 아닌 쿠폰입니다',
+  'coupon.noTarget': '이 쿠폰을 쓸 수 있는 상품이 없습니다',
+  'coupon.minOrder': '{amount} 이상 주문 시 쓸 수 있습니다',
+  'coupon.remove': '쿠폰 해제',
+  'coupon.placeholder': '쿠폰 코드',
+  'coupon.apply': '적용',
+
+  // --- Checkout ---
+  'checkout.title': '주문/결제',
+  'checkout.step.review': '장바구니',
+  'checkout.step.shipping': '배송지',
+  'checkout.step.delivery': '배송 방법',
+  'checkout.step.payment': '결제',
+  'checkout.step.done': '완료',
+  'checkout.stockAlert': '재고가 부족한 상품이 있어요',
+  'checkout.fitStock': '재고에 맞게 수량 조정',
+  'checkout.recipient': '받는 분',
+  'checkout.phone': '연락처',
+  'checkout.postalCode': '우편번호',
+  'checkout.address1': '주소',
+  'checkout.address1Placeholder': '서울특별시 강남구 테헤란로 123',
+  'checkout.address2': '상세 주소',
+  'checkout.address2Placeholder': '4층 401호',
+  'checkout.memo': '배송 메모 (선택)',
+  'checkout.memoPlaceholder': '부재 시 경비실에 맡겨 주세요',
+  'checkout.error.recipient': '받는 분 이름을 2자 이상 입력해 주세요',
+  'checkout.error.phone': '연락처 형식이 올바르지 않습니다 (예: 010-1234-5678)',
+  'checkout.error.postalCode': '우편번호는 5자리 숫자입니다',
+  'checkout.error.address1': '주소를 입력해 주세요',
+  'checkout.error.address2': '상세 주소를 입력해 주세요',
+  'checkout.delivery.standard': '일반 택배',
+  'checkout.delivery.standardEta': '조립 후 2~3일',
+  'checkout.delivery.express': '퀵 배송 (수도권)',
+  'checkout.delivery.expressEta': '조립 후 당일',
+  'checkout.delivery.pickup': '매장 방문 수령',
+  'checkout.delivery.pickupEta': '조립 완료 시 연락',
+  'checkout.mockOutcome': '테스트 결제 결과 (데모)',
+  'checkout.declined': '결제가 거절되었습니다: {reason}',
+  'checkout.timeout': '결제 응답이 지연되어 취소되었습니다. 잠시 후 다시 시도해 주세요.',
+  'checkout.done': '주문이 완료되었습니다',
+  'checkout.doneHint': '조립이 시작되면 연락드릴게요.',
+  'checkout.orderId': '주문번호',
+  'checkout.paidAmount': '결제금액 {amount}',
+  'checkout.approval': '승인번호 {id}',
+  'checkout.back': '이전',
+  'checkout.toShipping': '배송지 입력',
+  'checkout.toDelivery': '배송 방법 선택',
+  'checkout.toPayment': '결제 수단 선택',
+  'checkout.pay': '{amount} 결제하기',
+  'checkout.viewOrder': '주문 상세 보기',
+  'checkout.orderSaving': '주문 내역을 저장하는 중…',
+  'checkout.orderSaveError': '결제는 승인되었지만 주문 내역을 저장하지 못했어요 ({error}). 다시 시도해 주세요.',
+  'checkout.orderVoiding': '재고가 모자라 주문을 접수하지 못했어요. 결제를 취소하는 중…',
+  'checkout.voidError': '재고가 모자라 주문을 접수하지 못했는데 결제를 취소하지 못했어요 ({error}). 다시 시도해 주세요.',
+  'checkout.stockVoided': '결제하는 사이 재고가 모자라져 주문을 접수하지 못했어요. 결제를 취소하고 장바구니를 되돌렸으니 수량을 조정해 주세요.',
+  'checkout.stockChanged': '결제 직전에 재고를 다시 확인했더니 모자란 상품이 있어 결제하지 않았어요. 수량을 조정해 주세요.',
+  'checkout.stockCheckError': '재고를 확인하지 못해 결제하지 않았어요 ({error}). 다시 시도해 주세요.',
+  'checkout.continue': '쇼핑 계속하기',
+  'payment.method': '결제 수단',
+  'payment.card': '신용/체크카드',
+  'payment.cardHint': '국내 모든 카드 (할부 가능)',
+  'payment.transfer': '실시간 계좌이체',
+  'payment.transferHint': '은행 계좌에서 바로 출금',
+  'payment.easypay': '간편결제',
+  'payment.easypayHint': '카카오페이 · 네이버페이 · 토스페이',
+  'payment.mock.approve': '승인',
+  'payment.mock.decline': '거절 (한도 초과)',
+  'payment.mock.timeout': '응답 없음 (시간 초과)',
+  'payment.mock.declinedReason': '카드 한도가 초과되었습니다',
+
+  // --- Orders ---
+  'order.status.paid': '결제완료',
+  'order.status.assembling': '조립중',
+  'order.status.shipping': '배송중',
+  'order.status.delivered': '배송완료',
+  'order.list': '주문 목록',
+  'order.title': '주문 {id}',
+  'order.history': '주문 내역',
+  'order.empty': '아직 주문 내역이 없습니다.',
+  'order.loading': '주문 내역을 불러오는 중…',
+  'order.loadError': '주문 내역을 불러오지 못했어요: {message}',
+  'order.more': ' 외 {count}건',
+  'order.scheduled': '예정 ',
+  'order.shipping': '배송지',
+  'order.memo': '메모: {memo}',
+  'order.payment': '결제 정보',
+  'order.subtotal': '상품 금액',
+  'order.discount': '할인',
+  'order.discountCoupon': '할인 (쿠폰 {code})',
+  'order.changed': '주문 이후 바뀐 상품이 있어요',
+  'order.warn.removed': '{title}: 더 이상 판매하지 않아 담을 수 없습니다',
+  'order.warn.soldOut': '{title}: 품절이라 담을 수 없습니다',
+  'order.warn.stock': '{title}: 재고가 {count}대뿐이라 {count}대만 담습니다',
+  'order.warn.price': '{title}: {before} → {after}',
+  'order.cancel': '취소',
+  'order.addAtCurrent': '현재 가격으로 담기',
+  'order.reorder': '다시 담기',
+  'order.total': '합계',
+
+  // --- Shop ---
+  'shop.title': '오기택의 컴퓨터샵',
+  'shop.orders': '주문내역',
+  'shop.count': '{count}개 상품',
+  'shop.showResults': '{count}개 상품 보기',
+  'shop.resultsLabel': '상품 목록',
+  'shop.gridHint': '화살표 키로 상품 사이를 옮기고, 상품에서 Enter 를 누르면 상세 정보를 엽니다.',
+  'shop.sort': '정렬',
+  'shop.grid': '그리드',
+  'shop.list': '리스트',
+  'shop.footer': '© {year} 오기택 • 쇼핑몰 UI',
+  'shop.admin': '관리자',
+  'shop.language': '언어',
+  'shop.currency': '표시 통화',
+  'shop.empty': '조건에 맞는 상품이 없어요',
+  'shop.emptyHint': '필터를 조정하거나 검색어를 바꿔보세요.',
+  'shop.reset': '초기화',
+  'shop.loading': '상품 목록을 불러오는 중…',
+  'shop.loadError': '상품 목록을 불러오지 못했어요',
+  'shop.catalogIssues': '상품 데이터에 문제가 있는 항목 {count}건이 제외되었습니다',
+  'product.add': '담기',
+  'product.addToCart': '장바구니 담기',
+  'product.details': '상세보기',
+  'product.detailsShort': '상세',
+  'product.detailTitle': '{title} 상세 정보',
+  'product.bigMemory': '메모리 빵빵',
+  'product.perf': '성능',
+  'product.perfLabel': '종합 성능 점수',
+  'product.valueTitle': '만원당 성능 {score}',
+  'product.estimated': ' · 일부 부품은 사양 기준 추정치',
+  'cart.title': '장바구니',
+  'cart.open': '장바구니 열기',
+  'cart.clear': '전체 삭제',
+  'cart.empty': '담긴 상품이 없습니다.',
+  'cart.loading': '장바구니를 불러오는 중…',
+  'cart.syncError': '장바구니를 서버와 맞추지 못했어요: {message}',
+  'cart.checkout': '결제 진행 (데모)',
+
+  // --- Reviews ---
+  'review.title': '구매 후기',
+  'review.count': '후기 {count}개',
+  'review.none': '아직 후기가 없어요. 첫 후기를 남겨 주세요.',
+  'review.badge': '별점 {value} · 후기 {count}개',
+  'review.starsLabel': '5점 만점에 {value}점',
+  'review.starN': '{star}점',
+  'review.rate': '별점 {count}점',
+  'review.sort': '후기 정렬',
+  'review.sort.recent': '최신순',
+  'review.sort.helpful': '도움순',
+  'review.sort.rating': '별점순',
+  'review.write': '후기 쓰기',
+  'review.submit': '등록',
+  'review.thanks': '후기가 등록되었어요. 감사합니다!',
+  'review.anonymous': '익명',
+  'review.helpful': '도움이 돼요 {count}',
+  'review.pros': '좋은 점',
+  'review.cons': '아쉬운 점',
+  'review.photoAlt': '후기 사진 {index}',
+  'review.addPhoto': '사진 추가',
+  'review.removePhoto': '사진 삭제',
+  'review.field.rating': '별점',
+  'review.field.title': '제목',
+  'review.field.body': '내용',
+  'review.field.pros': '좋은 점 (한 줄에 하나)',
+  'review.field.cons': '아쉬운 점 (한 줄에 하나)',
+  'review.field.useCase': '사용 용도',
+  'review.field.author': '닉네임 (선택)',
+  'review.field.photos': '사진 (최대 {count}장)',
+  'review.placeholder.title': '한 줄로 요약해 주세요',
+  'review.placeholder.body': '실제로 써 보니 어땠나요?',
+  'review.error.rating': '별점을 골라 주세요',
+  'review.error.title': '제목을 2자 이상 입력해 주세요',
+  'review.error.body': '내용을 10자 이상 입력해 주세요',
+  'review.error.save': '저장 공간이 부족해 후기를 저장하지 못했어요. 사진을 빼고 다시 시도해 주세요.',
+  'review.error.photo': '사진을 읽지 못했어요',
+  'review.error.server': '후기를 올리지 못했어요: {message}',
+  'review.loading': '후기를 불러오는 중…',
+  'review.loadError': '후기를 불러오지 못했어요: {message}',
+  'review.use.gaming': '게임',
+  'review.use.work': '업무',
+  'review.use.creative': '영상/디자인',
+  'review.use.office': '사무/인터넷',
+  'review.use.streaming': '방송',
+
+  // --- Gallery ---
+  'gallery.label': '상품 사진',
+  'gallery.open': '사진 크게 보기',
+  'gallery.thumb': '{index}번째 사진 보기: {alt}',
+  'gallery.counter': '{index} / {count}',
+  'gallery.prev': '이전 사진',
+  'gallery.next': '다음 사진',
+  'gallery.zoomHint': '두 손가락으로 벌리거나 두 번 눌러 확대 · 확대 후 끌어서 이동 · ←/→ 로 넘기기',
+
+  // --- Recommend ---
+  'rec.open': '나에게 맞는 PC 찾기',
+  'rec.title': '나에게 맞는 PC 찾기',
+  'rec.step': '{step}/{total} 단계',
+  'rec.q.budget': '예산은 어느 정도인가요?',
+  'rec.q.usage': '주로 어디에 쓰시나요?',
+  'rec.q.resolution': '어떤 해상도로 쓰시나요?',
+  'rec.q.resolutionHint': '게임·영상 작업의 성능 기준이 됩니다.',
+  'rec.res.fhdHint': '1920×1080 · 24인치 안팎 모니터',
+  'rec.res.qhdHint': '2560×1440 · 27인치 모니터',
+  'rec.res.uhdHint': '3840×2160 · 대형 모니터·TV',
+  'rec.q.prefs': '원하는 조건이 있나요? (선택)',
+  'rec.budget.upTo': '{max} 이하',
+  'rec.budget.range': '{min} ~ {max}',
+  'rec.budget.from': '{min} 이상',
+  'rec.usage.gaming': '게임',
+  'rec.usage.gamingHint': '최신 게임을 높은 옵션으로',
+  'rec.usage.video': '영상 편집',
+  'rec.usage.videoHint': '편집·인코딩·방송',
+  'rec.usage.office': '사무·웹',
+  'rec.usage.officeHint': '문서, 인터넷 강의, 웹 서핑',
+  'rec.usage.ai': 'AI·개발',
+  'rec.usage.aiHint': '로컬 AI 모델, 빌드, 컨테이너',
+  'rec.pref.quiet': '저소음',
+  'rec.pref.quietHint': '소비전력이 낮아 팬 소음이 적은 PC',
+  'rec.pref.compact': '소형',
+  'rec.pref.compactHint': '책상 위에 두기 좋은 작은 케이스',
+  'rec.back': '이전',
+  'rec.next': '다음',
+  'rec.showResults': '추천 결과 보기',
+  'rec.resultsTitle': '맞춤 추천 결과',
+  'rec.summary': '{budget} · {usage} · {res}',
+  'rec.score': '적합도 {score}%',
+  'rec.flag.overBudget': '예산 초과',
+  'rec.flag.underpowered': '성능 부족',
+  'rec.restart': '다시 답하기',
+  'rec.apply': '이 기준으로 추천 정렬',
+  'rec.clear': '맞춤 추천 해제',
+  'rec.active': '맞춤 추천: {summary}',
+  'rec.edit': '조건 바꾸기',
+  'rec.empty': '추천할 상품이 없습니다.',
+  'rec.reason.fps': '{res} {game} 예상 {fps}fps',
+  'rec.reason.vramUhd': 'VRAM {vram}GB는 4K 고옵션에 빠듯',
+  'rec.reason.videoCpu': '{cpu} 멀티코어 성능으로 편집·인코딩이 빠름',
+  'rec.reason.videoCpuSlow': '{cpu} 성능으로는 긴 영상 인코딩에 시간이 걸림',
+  'rec.reason.videoRam': 'RAM {ram}GB로 영상 편집에 여유',
+  'rec.reason.videoRamTight': 'RAM {ram}GB는 {res} 영상을 길게 편집하기에 빠듯',
+  'rec.reason.videoRamLow': 'RAM {ram}GB는 영상 편집에 부족',
+  'rec.reason.videoIgpu': '내장 그래픽이라 GPU 가속 효과가 적음',
+  'rec.reason.videoStorage': 'SSD {size}로 원본 보관 여유',
+  'rec.reason.videoStorageLow': 'SSD {size}는 원본 보관에 부족',
+  'rec.reason.officeOk': '사무·웹 작업에 충분한 성능',
+  'rec.reason.officeCpuSlow': '{cpu} 성능으로는 여러 프로그램을 함께 쓰면 느릴 수 있음',
+  'rec.reason.officeRamLow': 'RAM {ram}GB는 브라우저 탭 여러 개에도 부족',
+  'rec.reason.overkill': '사무용으로는 성능이 남아 가격 대비 아까움',
+  'rec.reason.aiIgpu': '내장 그래픽이라 로컬 AI 모델 실행이 어려움',
+  'rec.reason.aiVramLarge': 'VRAM {vram}GB로 큰 모델도 로컬 실행',
+  'rec.reason.aiVram': 'VRAM {vram}GB로 중간 크기 모델 실행 가능',
+  'rec.reason.aiVramSmall': 'VRAM {vram}GB는 작은 모델만 가능',
+  'rec.reason.aiCuda': 'CUDA 지원 NVIDIA GPU',
+  'rec.reason.aiNoCuda': 'CUDA 미지원 GPU라 쓸 수 있는 도구가 제한됨',
+  'rec.reason.aiRam': 'RAM {ram}GB로 데이터셋·컨테이너 작업에 여유',
+  'rec.reason.aiRamTight': 'RAM {ram}GB는 데이터셋·컨테이너 작업에 빠듯',
+  'rec.reason.devThreads': '{threads}스레드로 빌드·컴파일이 빠름',
+  'rec.reason.inBudget': '예산 범위 안',
+  'rec.reason.underBudget': '예산보다 {amount} 저렴',
+  'rec.reason.overBudget': '예산보다 {amount} 비쌈',
+  'rec.reason.quiet': '예상 소비전력 {watts}W로 발열·소음이 적음',
+  'rec.reason.loud': '예상 소비전력 {watts}W로 부하 시 팬 소음이 큼',
+  'rec.reason.compact': '{size} 소형 케이스',
+  'rec.reason.midSize': '{size} 중간 크기 케이스',
+  'rec.reason.large': '{size} 대형 케이스',
+
+  // --- Recently viewed / similar ---
+  'recent.title': '최근 본 상품',
+  'recent.clear': '기록 지우기',
+  'recent.remove': '최근 본 상품에서 {title} 지우기',
+  'similar.title': '비슷한 상품',
+  'similar.samePrice': '같은 가격',
+  'similar.pricier': '{amount} 비쌈',
+  'similar.cheaper': '{amount} 저렴',
+  'similar.better': '{part} 더 좋음',
+  'similar.worse': '{part} 더 낮음',
+  'similar.add': '{title} 장바구니에 담기',
+
+  // --- API ---
+  'api.error.network': '서버에 연결하지 못했습니다 ({message})',
+  'api.error.badResponse': '서버 응답 형식이 올바르지 않습니다',
+  'api.error.http': '요청이 실패했습니다 (HTTP {status})',
+  'api.error.aborted': '요청이 취소되었습니다',
+  'api.mock.productNotFound': '상품을 찾을 수 없습니다 (id: {id})',
+  'api.mock.productsNotArray': '상품 목록은 배열이어야 합니다',
+  'api.mock.invalidProducts': '잘못된 상품 데이터: {issue}',
+  'api.mock.invalidCart': '장바구니 형식이 올바르지 않습니다',
+  'api.mock.orderNotFound': '주문을 찾을 수 없습니다 ({id})',
+  'api.mock.invalidOrder': '주문 형식이 올바르지 않습니다',
+  'api.mock.duplicateOrder': '이미 있는 주문 번호입니다 ({id})',
+  'api.mock.outOfStock': '재고가 부족합니다: {items}',
+  'api.mock.invalidReview': '후기 형식이 올바르지 않습니다',
+  'api.mock.invalidVote': 'helpful 은 true/false 여야 합니다',
+  'api.mock.reviewNotFound': '후기를 찾을 수 없습니다 ({id})',
+  'api.mock.noRoute': '없는 API 경로입니다 ({path})',
+  'api.mock.badMethod': '{method} {path} 는 지원하지 않습니다',
+  'api.mock.badJson': '요청 본문이 JSON 이 아닙니다',
+  'api.mock.unavailable': '일시적인 서버 오류입니다 (모의 서버 장애 주입)',
+  'api.mock.quota': '서버 저장 공간이 부족합니다',
+  'api.mock.internal': '서버 오류: {message}',
+  'api.mock.name': '모의 서버',
+
+  // --- Admin ---
+  'admin.title': '관리자',
+  'admin.heading': '상품 관리',
+  'admin.toShop': '매장으로',
+  'admin.lock': '잠금',
+  'admin.save': '저장',
+  'admin.cancel': '취소',
+  'admin.apply': '적용',
+  'admin.passcode.setupHint': '처음 사용하는 관리자 암호를 정해 주세요. 이 브라우저에만 저장됩니다.',
+  'admin.passcode.enterHint': '관리자 암호를 입력하세요.',
+  'admin.passcode.label': '암호',
+  'admin.passcode.confirm': '암호 확인',
+  'admin.passcode.set': '암호 설정',
+  'admin.passcode.unlock': '잠금 해제',
+  'admin.passcode.tooShort': '암호는 {min}자 이상이어야 합니다',
+  'admin.passcode.mismatch': '암호 확인이 일치하지 않습니다',
+  'admin.passcode.wrong': '암호가 올바르지 않습니다',
+  'admin.source.local': '브라우저 저장소',
+  'admin.modified': '수정본 사용 중',
+  'admin.original': '원본',
+  'admin.unsaved': '저장 안 됨',
+  'admin.reset': '원본으로 되돌리기',
+  'admin.confirmLeave': '저장하지 않은 변경이 있습니다. 버리고 나갈까요?',
+  'admin.confirmReset': '저장된 변경을 모두 버리고 배포된 원본 상품 목록으로 되돌릴까요?',
+  'admin.confirmDelete': '{count}개 상품을 삭제할까요?',
+  'admin.saved': '{count}개 상품을 저장했습니다',
+  'admin.saveFailed': '저장 실패: {error}',
+  'admin.resetDone': '원본으로 되돌렸습니다',
+  'admin.resetFailed': '되돌리기 실패: {error}',
+  'admin.newProduct': '새 상품',
+  'admin.exportJson': 'JSON 내보내기',
+  'admin.exportCsv': 'CSV 내보내기',
+  'admin.import': '가져오기 (CSV/JSON)',
+  'admin.selectAll': '전체 선택',
+  'admin.col.order': '추천 순서',
+  'admin.col.product': '상품',
+  'admin.col.specs': '사양',
+  'admin.col.price': '가격',
+  'admin.col.stock': '재고',
+  'admin.col.actions': '관리',
+  'admin.select': '{title} 선택',
+  'admin.moveUp': '위로',
+  'admin.moveDown': '아래로',
+  'admin.salePrice': '할인가 {price}',
+  'admin.edit': '{title} 수정',
+  'admin.duplicate': '{title} 복제',
+  'admin.delete': '{title} 삭제',
+  'admin.copyTitle': '{title} (복사본)',
+  'admin.empty': '상품이 없습니다',
+  'admin.bulk.selected': '{count}개 선택',
+  'admin.bulk.mode': '가격 일괄 변경 방식',
+  'admin.bulk.percent': '% 인상/인하',
+  'admin.bulk.amount': '금액 인상/인하',
+  'admin.bulk.set': '가격 지정',
+  'admin.bulk.percentValue': '변경 비율 (%)',
+  'admin.bulk.amountValue': '금액 (원)',
+  'admin.bulk.won': '원',
+  'admin.bulk.round': '반올림 단위',
+  'admin.bulk.roundNone': '반올림 안 함',
+  'admin.bulk.round1000': '천원 단위',
+  'admin.bulk.round10000': '만원 단위',
+  'admin.bulk.delete': '선택 삭제',
+  'admin.bulk.clear': '선택 해제',
+  'admin.mock.current': '현재 응답 {latency}ms · 실패 {failure}%',
+  'admin.mock.applied': '모의 서버: 응답 {latency}ms, 실패 {failure}%',
+  'admin.mock.latency': '평균 응답 지연',
+  'admin.mock.failureRate': '실패 확률',
+  'admin.mock.defaults': '기본값 ({latency}ms · {failure}%)',
+  'admin.mock.resetData': '데이터 초기화',
+  'admin.mock.confirmReset': '모의 서버의 상품 수정본·장바구니·주문·후기를 모두 지우고 처음 데이터로 돌아갈까요?',
+  'admin.mock.confirmResetDirty': '저장하지 않은 변경도 함께 사라집니다. 모의 서버의 상품 수정본·장바구니·주문·후기를 모두 지울까요?',
+  'admin.mock.hint': '실패 확률만큼 요청이 503 으로 실패합니다. 매장 화면에서 불러오기·저장 오류와 다시 시도를 확인할 때 쓰세요.',
+  'admin.importDialog.title': '가져오기: {file}',
+  'admin.importDialog.summary': '유효한 상품 {count}개로 현재 작업본 전체를 바꿉니다.',
+  'admin.importDialog.skipped': '문제가 있어 제외되는 항목 {count}건',
+  'admin.importDialog.confirm': '가져오기',
+  'admin.imported': '{count}개 상품을 가져왔습니다 (저장해야 반영됩니다)',
+  'admin.importFailed': '가져오기 실패: {error}',
+  'admin.form.idTaken': '이미 쓰는 id 입니다 ({id})',
+  'admin.form.checkInput': '입력값을 확인해 주세요 ({count}건)',
+  'admin.form.optional': '{title} (선택)',
+  'admin.form.basics': '기본 정보',
+  'admin.form.name': '이름 (name)',
+  'admin.form.title': '상품명 (title)',
+  'admin.form.img': '이미지 (img)',
+  'admin.form.price': '가격 (원)',
+  'admin.form.stock': '재고 수량 (비우면 재고 관리 안 함)',
+  'admin.form.tags': '태그 (쉼표로 구분)',
+  'admin.form.photos': '사진 (첫 장이 대표 이미지, 없으면 이모지 표시)',
+  'admin.form.photoSrc': '경로 또는 URL (images/a-front.svg)',
+  'admin.form.photoPath': '사진 경로',
+  'admin.form.alt': '대체 텍스트',
+  'admin.form.photoWidths': '크기별 너비 px (400, 800)',
+  'admin.form.photoHint': '크기별로 만든 사진은 경로에 {w} 를 넣고 너비를 적으면 화면 크기에 맞는 파일을 고릅니다 (images/a-front-{w}.png).',
+  'admin.form.removePhoto': '사진 삭제',
+  'admin.form.addPhoto': '사진 추가',
+  'admin.form.sale': '기간 할인',
+  'admin.form.salePrice': '할인가 (원)',
+  'admin.form.saleStart': '시작 (비우면 즉시)',
+  'admin.form.saleEnd': '종료 (비우면 계속)',
+  'admin.form.vendor': '제조사',
+  'admin.form.cpuFamily': '제품군 (Core i7, Ryzen 7)',
+  'admin.form.family': '제품군',
+  'admin.form.model': '모델',
+  'admin.form.cores': '코어',
+  'admin.form.threads': '스레드',
+  'admin.form.boost': '최대 클럭 (GHz)',
+  'admin.form.cpuSocket': '소켓 (선택)',
+  'admin.form.tdp': '소비전력 W (선택)',
+  'admin.form.memoryTypes': '지원 메모리 (선택)',
+  'admin.form.integrated': '내장 그래픽',
+  'admin.form.cpuIntegrated': 'CPU 내장',
+  'admin.form.gpuLength': '길이 mm (선택)',
+  'admin.form.memory': '메모리',
+  'admin.form.capacity': '용량 (GB)',
+  'admin.form.ramType': '규격',
+  'admin.form.ramSpeed': '속도 MHz (선택)',
+  'admin.form.removeStorage': '저장장치 삭제',
+  'admin.form.addStorage': '저장장치 추가',
+  'admin.form.chipset': '칩셋',
+  'admin.form.socket': '소켓',
+  'admin.form.boardMemory': '메모리 규격',
+  'admin.form.case': '케이스',
+  'admin.form.maxGpuLength': '그래픽카드 허용 길이 (mm)',
+  'admin.form.formFactor': '케이스 크기 (선택)',
+  'admin.form.unknown': '모름',
+  'admin.form.psuWatts': '정격 출력 (W)',
+
+  // --- Catalog validation ---
+  'catalog.issue.row': '{row}번째 행: {message}',
+  'catalog.issue.rowWithId': '{row}번째 행 (id: {id}): {message}',
+  'catalog.issue.notObject': '객체가 아닙니다',
+  'catalog.issue.missing': '필수 항목 \'{field}\' 누락',
+  'catalog.issue.notString': '\'{field}\' 는 문자열이어야 합니다',
+  'catalog.issue.empty': '\'{field}\' 가 비어 있습니다',
+  'catalog.issue.notNumber': '\'{field}\' 는 숫자여야 합니다',
+  'catalog.issue.negative': '\'{field}\' 는 0 이상이어야 합니다',
+  'catalog.issue.nonNegativeNumber': '\'{field}\' 는 0 이상의 숫자여야 합니다',
+  'catalog.issue.nonNegativeInteger': '\'{field}\' 은 0 이상의 정수여야 합니다',
+  'catalog.issue.saleNotLower': '\'{field}\' 는 정가보다 낮아야 합니다',
+  'catalog.issue.badDate': '\'{field}\' 날짜 형식 오류',
+  'catalog.issue.saleEndsBeforeStart': '할인 종료가 시작보다 빠릅니다',
+  'catalog.issue.stringList': '\'{field}\' 는 문자열 배열이어야 합니다',
+  'catalog.issue.list': '\'{field}\' 는 배열이어야 합니다',
+  'catalog.issue.object': '\'{field}\' 는 객체여야 합니다',
+  'catalog.issue.altText': '\'{field}\' 는 문자열이어야 합니다 (대체 텍스트)',
+  'catalog.issue.widths': '\'{field}\' 는 양의 정수 배열이어야 합니다',
+  'catalog.issue.duplicateId': '중복된 id ({row}번째 행과 겹침)',
+  'catalog.issue.specMissing': '\'{field}\' 사양 누락',
+  'catalog.issue.specValueMissing': '\'{field}\' 누락',
+  'catalog.issue.oneOf': '\'{field}\' 는 {allowed} 중 하나여야 합니다',
+  'catalog.issue.listOf': '\'{field}\' 는 {allowed} 배열이어야 합니다',
+  'catalog.issue.boolean': '\'{field}\' 는 true/false 여야 합니다',
+  'catalog.issue.storageList': '\'{field}\' 는 저장장치 배열이어야 합니다',
+  'catalog.issue.badFormat': '\'{field}\' 형식 오류',
+  'catalog.error.notArray': '상품 데이터는 배열이어야 합니다',
+  'catalog.error.http': '상품 데이터를 불러오지 못했습니다 (HTTP {status})',
+  'catalog.error.badJson': '상품 데이터 JSON 형식이 올바르지 않습니다',
+  'parts.error.notArray': '부품 데이터는 배열이어야 합니다',
+  'parts.error.http': '부품 데이터를 불러오지 못했습니다 (HTTP {status})',
+  'parts.error.row': '부품 {row}번째 행: {message}',
+  'parts.error.rowWithId': '부품 {row}번째 행 ({id}): {message}',
+  'parts.error.missingId': 'id 누락',
+  'parts.error.duplicateId': '중복된 id \'{id}\'',
+  'parts.error.slot': 'slot 은 cpu/gpu/ram/storage 중 하나',
+  'parts.error.price': 'price 는 0 이상의 숫자',
+} satisfies Record<string, string>;
+
+export type MessageKey = keyof typeof ko;
+
+export const en: Record<MessageKey, Message> = {
+  // --- Specs ---
+  'spec.cpu': 'CPU',
+  'spec.gpu': 'GPU',
+  'spec.ram': 'RAM',
+  'spec.storage': 'Storage',
+  'spec.board': 'Motherboard',
+  'spec.psu': 'PSU',
+  'spec.cpuDetail': '{cores} cores / {threads} threads · up to {ghz}GHz',
+  'spec.vendor.Intel': 'Intel',
+
+  // --- Sorting ---
+  'sort.prefix': 'Sort: {label}',
+  'sort.featured': 'Featured',
+  'sort.perf': 'Performance (high → low)',
+  'sort.value': 'Value (perf per ₩10k)',
+  'sort.price': 'Price (low → high)',
+  'sort.rating': 'Top rated',
+  'sort.cpu': 'CPU performance',
+  'sort.gpu': 'GPU performance',
+  'sort.ram': 'RAM (high → low)',
+  'sort.name': 'Name',
+
+  // --- Filters ---
+  'filter.title': 'Filters',
+  'filter.all': 'All',
+  'filter.atLeast': '{value} or more',
+  'filter.gpuTier': 'GPU tier',
+  'filter.game': 'Game performance (QHD 60fps+)',
+  'filter.stock': 'Availability',
+  'filter.includeSoldOut': 'Include sold out',
+  'filter.minRam': 'Minimum RAM',
+  'filter.minStorage': 'Minimum storage',
+  'filter.price': 'Price (₩10,000)',
+  'filter.priceMin': 'Minimum price (₩10,000)',
+  'filter.priceMax': 'Maximum price (₩10,000)',
+  'filter.tags': 'Tags',
+  'filter.rating': 'Rating',
+  'filter.ratingAtLeast': '★{value} & up',
+  'filter.tier.flagship': 'Flagship',
+  'filter.tier.performance': 'Performance',
+  'filter.tier.entry': 'Entry',
+  'filter.tier.integrated': 'Integrated graphics',
+  'filter.chip.query': 'Search: {query}',
+  'filter.chip.storage': 'Storage {value}+',
+  'filter.chip.price': 'Price {min} – {max}',
+  'filter.chip.game': '{game} QHD 60fps+',
+  'filter.chip.remove': 'Remove filter: {label}',
+  'filter.resetAll': 'Clear all',
+  'filter.reset': 'Reset filters',
+
+  // --- Stock ---
+  'stock.in': 'In stock',
+  'stock.low': 'Low stock',
+  'stock.out': 'Sold out',
+  'stock.left': { one: '({count} left)', other: '({count} left)' },
+  'stock.soldOutMessage': '{title} is sold out',
+  'stock.limitMessage': { one: 'You can add up to {count} unit of {title}', other: 'You can add up to {count} units of {title}' },
+  'stock.issueSoldOut': '{title}: sold out',
+  'stock.issue': '{title}: {requested} requested → {available} in stock',
+  'stock.cartMax': { one: 'Up to {count} unit', other: 'Up to {count} units' },
+  'stock.cartSoldOut': 'This item is sold out',
+  'stock.cartOnly': { one: 'Only {count} left in stock', other: 'Only {count} left in stock' },
+  'restock.cancel': 'Cancel restock alert',
+  'restock.hint': 'Get notified when it is back',
+  'restock.requested': 'Alert set',
+  'restock.request': 'Notify me',
+  'restock.noticeTitle': 'Back in stock',
+  'restock.noticeBody': '{title} is back in stock',
+  'restock.noticeMore': { one: ' and {count} more', other: ' and {count} more' },
+  'restock.view': 'View item',
+  'common.closeNotice': 'Dismiss',
+
+  // --- Games ---
+  'game.res.fhd': 'FHD · High',
+  'game.res.qhd': 'QHD · High',
+  'game.res.uhd': '4K · High',
+
+  'game.pick': 'Choose a game',
+  'game.preset': 'Resolution / preset',
+  'game.cpuBottleneckHint': 'Limited by CPU performance',
+  'game.gpuBottleneckHint': 'Limited by GPU performance',
+  'game.cpuBottleneck': 'CPU-bound',
+  'game.gpuBottleneck': 'GPU-bound',
+  'game.title': 'Game performance',
+  'game.estimate': 'Estimated average FPS',
+  'game.disclaimer': 'Estimated from benchmark scores. Actual FPS varies with drivers, settings and scenes.',
+
+  // --- Compare ---
+  'compare.price': 'Price',
+  'compare.perf': 'Overall performance',
+  'compare.points': '{score} pts',
+  'compare.value': 'Value',
+  'compare.valueText': '{score} per ₩10k',
+  'compare.threads': 'Cores / threads',
+  'compare.storageText': '{label} ({total} total)',
+  'compare.tags': 'Features',
+  'compare.fpsText': '{fps}fps ({part}-bound)',
+  'compare.limit': 'You can compare up to {count} items',
+  'compare.tray': 'Compare {count}/{limit}',
+  'compare.remove': 'Remove {title} from comparison',
+  'compare.removeShort': 'Remove from comparison',
+  'compare.add': 'Add to comparison',
+  'compare.reset': 'Clear',
+  'compare.needTwo': 'Select at least 2 items to compare',
+  'compare.open': 'Compare',
+  'compare.copyPrompt': 'Copy the link below',
+  'compare.title': 'Compare products',
+  'compare.diffOnly': 'Show differences only',
+  'compare.copied': 'Link copied',
+  'compare.share': 'Share link',
+  'compare.best': 'Best',
+  'compare.allSame': 'All rows are identical.',
+
+  // --- Compatibility ---
+  'compat.boardUnknown': 'No motherboard info, so socket/memory compatibility cannot be checked',
+  'compat.chipsetSocket': 'The {chipset} chipset is for {socket} (motherboard lists {boardSocket})',
+  'compat.cpuSocketUnknown': 'Socket of {model} is unknown',
+  'compat.cpuSocket': '{model} ({socket}) does not fit the {chipset} motherboard ({boardSocket})',
+  'compat.boardMemory': 'The {chipset} motherboard only takes {boardType} (selected memory: {ramType})',
+  'compat.cpuMemory': '{model} does not support {ramType} (supported: {supported})',
+  'compat.gpuLengthUnknown': 'No case/graphics card length info, so fit cannot be checked',
+  'compat.gpuLength': '{model} ({length}mm) is longer than the case allows ({max}mm)',
+  'compat.gpuLengthTight': 'Less than 10mm of clearance between the graphics card and the case',
+  'compat.tdpUnknown': 'Some parts have no power data, so the estimate may be off',
+  'compat.psuInsufficient': 'A {psu}W PSU cannot handle the estimated {watts}W draw (recommended {recommended}W)',
+  'compat.psuHeadroom': 'A {psu}W PSU leaves little headroom (estimated {watts}W, {recommended}W+ recommended)',
+  'compat.ok': 'No compatibility issues',
+  'compat.okWithNotes': 'Compatible (please review)',
+  'compat.incompatible': 'Incompatible build',
+  'compat.power': 'Est. {watts}W · recommended PSU {recommended}W',
+  'compat.installed': ' · installed {watts}W',
+  'compat.blocked': 'Incompatible builds cannot be added to the cart',
+
+  // --- Configurator ---
+  'config.title': 'Customize {title}',
+  'config.loading': 'Loading parts…',
+  'config.base': '{label} (default)',
+  'config.baseDelta': 'Default',
+  'config.summary': 'Build summary',
+  'config.priceLine': 'Base {base} · change {delta}',
+  'config.reset': 'Default build',
+  'config.add': 'Add this build',
+  'config.custom': 'Custom: {parts}',
+  'config.open': 'Customize',
+  'common.retry': 'Try again',
+  'common.close': 'Close',
+
+  // --- Search ---
+  'search.label': 'Search',
+  'search.placeholder': 'Search: i7, 4070ti, geforce, ram>=32, price<1500000 ...',
+  'search.placeholderShort': 'i7, 4070ti, geforce, ram>=32 ...',
+  'search.suggestions': 'Search suggestions',
+  'search.group.recent': 'Recent searches',
+  'search.group.spec': 'Specs',
+  'search.group.product': 'Products',
+  'search.clearRecent': 'Clear recent searches',
+  'search.removeRecent': 'Remove recent search {query}',
+
+  // --- Wishlist ---
+  'wish.remove': 'Remove from wishlist',
+  'wish.add': 'Add to wishlist',
+  'wish.drop': 'Price drop',
+  'wish.title': 'Wishlist',
+  'wish.dropAlert': 'Price drop alert',
+  'wish.empty': 'Your wishlist is empty.',
+  'wish.detail': 'View details',
+  'wish.savedAt': 'Saved {date}',
+  'wish.dropAmount': '{amount} off',
+  'wish.riseAmount': '{amount} up',
+  'wish.removeItem': 'Remove {title} from wishlist',
+  'wish.moveToCart': 'Move to cart',
+  'wish.comparing': 'Comparing',
+  'wish.noticeTitle': 'Prices dropped on your wishlist',
+  'wish.noticeBody': '{title} is {amount} cheaper',
+  'wish.view': 'View wishlist',
+
+  // --- Pricing ---
+  'price.saleUntil': 'Sale ends {date}',
+  'price.vatIncluded': 'VAT included',
+  'price.settlement': 'Charged as {amount}',
+  'price.listSubtotal': 'Items (list price)',
+  'price.saleDiscount': 'Sale discount',
+  'price.quantityDiscount': 'Quantity discount · {label}',
+  'price.bundleDiscount': 'Bundle discount · {label}',
+  'price.couponDiscount': 'Coupon · {label}',
+  'price.delivery': 'Shipping',
+  'price.free': 'Free',
+  'price.total': 'Total due',
+  'price.supply': 'Net {amount}',
+  'price.vat': 'VAT {amount}',
+  'price.krwNote': 'You will be charged in Korean won (KRW). Converted amounts are for reference only (rates as of {date})',
+  'price.quantityTier': '{title} ×{count}+ {percent}% off',
+  'coupon.unknown': 'This coupon does not exist',
+  'coupon.expired': 'This coupon is not valid right now',
+  'coupon.noTarget': 'No items in your cart qualify for this coupon',
+  'coupon.minOrder': 'Valid on orders of {amount} or more',
+  'coupon.remove': 'Remove coupon',
+  'coupon.placeholder': 'Coupon code',
+  'coupon.apply': 'Apply',
+
+  // --- Checkout ---
+  'checkout.title': 'Checkout',
+  'checkout.step.review': 'Cart',
+  'checkout.step.shipping': 'Address',
+  'checkout.step.delivery': 'Delivery',
+  'checkout.step.payment': 'Payment',
+  'checkout.step.done': 'Done',
+  'checkout.stockAlert': 'Some items are short on stock',
+  'checkout.fitStock': 'Adjust quantities to stock',
+  'checkout.recipient': 'Recipient',
+  'checkout.phone': 'Phone',
+  'checkout.postalCode': 'Postal code',
+  'checkout.address1': 'Address',
+  'checkout.address1Placeholder': '123 Teheran-ro, Gangnam-gu, Seoul',
+  'checkout.address2': 'Address line 2',
+  'checkout.address2Placeholder': 'Unit 401, 4th floor',
+  'checkout.memo': 'Delivery note (optional)',
+  'checkout.memoPlaceholder': 'Leave at the security office if no one is home',
+  'checkout.error.recipient': 'Enter a recipient name of at least 2 characters',
+  'checkout.error.phone': 'Invalid phone number (e.g. 010-1234-5678)',
+  'checkout.error.postalCode': 'Postal code must be 5 digits',
+  'checkout.error.address1': 'Enter an address',
+  'checkout.error.address2': 'Enter address line 2',
+  'checkout.delivery.standard': 'Standard parcel',
+  'checkout.delivery.standardEta': '2–3 days after assembly',
+  'checkout.delivery.express': 'Express courier (Seoul metro area)',
+  'checkout.delivery.expressEta': 'Same day after assembly',
+  'checkout.delivery.pickup': 'Store pickup',
+  'checkout.delivery.pickupEta': 'We will call when it is ready',
+  'checkout.mockOutcome': 'Test payment result (demo)',
+  'checkout.declined': 'Payment declined: {reason}',
+  'checkout.timeout': 'The payment timed out and was cancelled. Please try again shortly.',
+  'checkout.done': 'Your order is placed',
+  'checkout.doneHint': 'We will contact you when assembly starts.',
+  'checkout.orderId': 'Order number',
+  'checkout.paidAmount': 'Paid {amount}',
+  'checkout.approval': 'Approval no. {id}',
+  'checkout.back': 'Back',
+  'checkout.toShipping': 'Enter address',
+  'checkout.toDelivery': 'Choose delivery',
+  'checkout.toPayment': 'Choose payment',
+  'checkout.pay': 'Pay {amount}',
+  'checkout.viewOrder': 'View order',
+  'checkout.orderSaving': 'Saving your order…',
+  'checkout.orderSaveError': 'Payment was approved, but we could not save your order ({error}). Please try again.',
+  'checkout.orderVoiding': 'Not enough stock to place the order. Cancelling the payment…',
+  'checkout.voidError': 'Not enough stock to place the order, and the payment could not be cancelled ({error}). Please try again.',
+  'checkout.stockVoided': 'Stock ran out while you were paying, so the order was not placed. The payment was cancelled and your cart restored — please adjust the quantities.',
+  'checkout.stockChanged': 'Some items ran short just before payment, so nothing was charged. Please adjust the quantities.',
+  'checkout.stockCheckError': 'Could not check stock, so nothing was charged ({error}). Please try again.',
+  'checkout.continue': 'Continue shopping',
+  'payment.method': 'Payment method',
+  'payment.card': 'Credit / debit card',
+  'payment.cardHint': 'All Korean cards (installments available)',
+  'payment.transfer': 'Bank transfer',
+  'payment.transferHint': 'Paid directly from your bank account',
+  'payment.easypay': 'Easy pay',
+  'payment.easypayHint': 'Kakao Pay · Naver Pay · Toss Pay',
+  'payment.mock.approve': 'Approve',
+  'payment.mock.decline': 'Decline (limit exceeded)',
+  'payment.mock.timeout': 'No response (timeout)',
+  'payment.mock.declinedReason': 'Card limit exceeded',
+
+  // --- Orders ---
+  'order.status.paid': 'Paid',
+  'order.status.assembling': 'Assembling',
+  'order.status.shipping': 'Shipping',
+  'order.status.delivered': 'Delivered',
+  'order.list': 'Order list',
+  'order.title': 'Order {id}',
+  'order.history': 'Order history',
+  'order.empty': 'You have no orders yet.',
+  'order.loading': 'Loading orders…',
+  'order.loadError': 'Could not load orders: {message}',
+  'order.more': { one: ' and {count} more item', other: ' and {count} more items' },
+  'order.scheduled': 'Expected ',
+  'order.shipping': 'Shipping address',
+  'order.memo': 'Note: {memo}',
+  'order.payment': 'Payment',
+  'order.subtotal': 'Items',
+  'order.discount': 'Discount',
+  'order.discountCoupon': 'Discount (coupon {code})',
+  'order.changed': 'Some items changed since you ordered',
+  'order.warn.removed': '{title}: no longer sold, so it cannot be added',
+  'order.warn.soldOut': '{title}: sold out, so it cannot be added',
+  'order.warn.stock': { one: '{title}: only {count} unit left, adding {count}', other: '{title}: only {count} units left, adding {count}' },
+  'order.warn.price': '{title}: {before} → {after}',
+  'order.cancel': 'Cancel',
+  'order.addAtCurrent': 'Add at current prices',
+  'order.reorder': 'Order again',
+  'order.total': 'Total',
+
+  // --- Shop ---
+  'shop.title': 'Ogitaek PC Shop',
+  'shop.orders': 'Orders',
+  'shop.count': { one: '{count} product', other: '{count} products' },
+  'shop.showResults': { one: 'Show {count} product', other: 'Show {count} products' },
+  'shop.resultsLabel': 'Products',
+  'shop.gridHint': 'Use the arrow keys to move between products and press Enter on a product to open its details.',
+  'shop.sort': 'Sort',
+  'shop.grid': 'Grid',
+  'shop.list': 'List',
+  'shop.footer': '© {year} Ogitaek • Shop UI',
+  'shop.admin': 'Admin',
+  'shop.language': 'Language',
+  'shop.currency': 'Display currency',
+  'shop.empty': 'No products match',
+  'shop.emptyHint': 'Try adjusting the filters or changing your search.',
+  'shop.reset': 'Reset',
+  'shop.loading': 'Loading products…',
+  'shop.loadError': 'Could not load products',
+  'shop.catalogIssues': { one: '{count} product with invalid data was left out', other: '{count} products with invalid data were left out' },
+  'product.add': 'Add',
+  'product.addToCart': 'Add to cart',
+  'product.details': 'Details',
+  'product.detailsShort': 'Details',
+  'product.detailTitle': '{title} details',
+  'product.bigMemory': 'Loads of RAM',
+  'product.perf': 'Perf',
+  'product.perfLabel': 'Overall performance score',
+  'product.valueTitle': 'Performance per ₩10k: {score}',
+  'product.estimated': ' · some parts estimated from specs',
+  'cart.title': 'Cart',
+  'cart.open': 'Open cart',
+  'cart.clear': 'Remove all',
+  'cart.empty': 'Your cart is empty.',
+  'cart.loading': 'Loading your cart…',
+  'cart.syncError': 'Could not sync your cart: {message}',
+  'cart.checkout': 'Proceed to checkout (demo)',
+
+  // --- Reviews ---
+  'review.title': 'Reviews',
+  'review.count': { one: '{count} review', other: '{count} reviews' },
+  'review.none': 'No reviews yet. Be the first to write one.',
+  'review.badge': { one: 'Rated {value} · {count} review', other: 'Rated {value} · {count} reviews' },
+  'review.starsLabel': '{value} out of 5 stars',
+  'review.starN': '{star}★',
+  'review.rate': { one: 'Rate {count} star', other: 'Rate {count} stars' },
+  'review.sort': 'Sort reviews',
+  'review.sort.recent': 'Newest',
+  'review.sort.helpful': 'Most helpful',
+  'review.sort.rating': 'Highest rating',
+  'review.write': 'Write a review',
+  'review.submit': 'Post review',
+  'review.thanks': 'Thanks! Your review is posted.',
+  'review.anonymous': 'Anonymous',
+  'review.helpful': 'Helpful ({count})',
+  'review.pros': 'Pros',
+  'review.cons': 'Cons',
+  'review.photoAlt': 'Review photo {index}',
+  'review.addPhoto': 'Add photo',
+  'review.removePhoto': 'Remove photo',
+  'review.field.rating': 'Rating',
+  'review.field.title': 'Title',
+  'review.field.body': 'Review',
+  'review.field.pros': 'Pros (one per line)',
+  'review.field.cons': 'Cons (one per line)',
+  'review.field.useCase': 'Used for',
+  'review.field.author': 'Nickname (optional)',
+  'review.field.photos': 'Photos (up to {count})',
+  'review.placeholder.title': 'Sum it up in one line',
+  'review.placeholder.body': 'How was it in real use?',
+  'review.error.rating': 'Choose a rating',
+  'review.error.title': 'Enter a title of at least 2 characters',
+  'review.error.body': 'Write at least 10 characters',
+  'review.error.save': 'Not enough storage to save the review. Try again without photos.',
+  'review.error.photo': 'Could not read the photo',
+  'review.error.server': 'Could not post your review: {message}',
+  'review.loading': 'Loading reviews…',
+  'review.loadError': 'Could not load reviews: {message}',
+  'review.use.gaming': 'Gaming',
+  'review.use.work': 'Work',
+  'review.use.creative': 'Video & design',
+  'review.use.office': 'Office & web',
+  'review.use.streaming': 'Streaming',
+
+  // --- Gallery ---
+  'gallery.label': 'Product photos',
+  'gallery.open': 'View larger photo',
+  'gallery.thumb': 'Show photo {index}: {alt}',
+  'gallery.counter': '{index} / {count}',
+  'gallery.prev': 'Previous photo',
+  'gallery.next': 'Next photo',
+  'gallery.zoomHint': 'Pinch or double-tap to zoom · drag to pan when zoomed · ←/→ to browse',
+
+  // --- Recommend ---
+  'rec.open': 'Find my PC',
+  'rec.title': 'Find the right PC for you',
+  'rec.step': 'Step {step} of {total}',
+  'rec.q.budget': 'What is your budget?',
+  'rec.q.usage': 'What will you mainly use it for?',
+  'rec.q.resolution': 'What resolution will you use?',
+  'rec.q.resolutionHint': 'Used as the performance target for games and video work.',
+  'rec.res.fhdHint': '1920×1080 · around 24-inch monitors',
+  'rec.res.qhdHint': '2560×1440 · 27-inch monitors',
+  'rec.res.uhdHint': '3840×2160 · large monitors and TVs',
+  'rec.q.prefs': 'Any preferences? (optional)',
+  'rec.budget.upTo': 'Up to {max}',
+  'rec.budget.range': '{min} – {max}',
+  'rec.budget.from': '{min} or more',
+  'rec.usage.gaming': 'Gaming',
+  'rec.usage.gamingHint': 'Modern games on high settings',
+  'rec.usage.video': 'Video editing',
+  'rec.usage.videoHint': 'Editing, encoding and streaming',
+  'rec.usage.office': 'Office & web',
+  'rec.usage.officeHint': 'Documents, online classes, browsing',
+  'rec.usage.ai': 'AI & development',
+  'rec.usage.aiHint': 'Local AI models, builds, containers',
+  'rec.pref.quiet': 'Quiet',
+  'rec.pref.quietHint': 'Low power draw, less fan noise',
+  'rec.pref.compact': 'Small form factor',
+  'rec.pref.compactHint': 'A small case that fits on a desk',
+  'rec.back': 'Back',
+  'rec.next': 'Next',
+  'rec.showResults': 'Show recommendations',
+  'rec.resultsTitle': 'Your recommendations',
+  'rec.summary': '{budget} · {usage} · {res}',
+  'rec.score': '{score}% match',
+  'rec.flag.overBudget': 'Over budget',
+  'rec.flag.underpowered': 'Underpowered',
+  'rec.restart': 'Start over',
+  'rec.apply': 'Sort by these answers',
+  'rec.clear': 'Clear my answers',
+  'rec.active': 'Personalized: {summary}',
+  'rec.edit': 'Change answers',
+  'rec.empty': 'No products to recommend.',
+  'rec.reason.fps': '{game} at {res}: about {fps} fps',
+  'rec.reason.vramUhd': '{vram}GB of VRAM is tight for 4K high settings',
+  'rec.reason.videoCpu': '{cpu} multi-core performance makes editing and encoding fast',
+  'rec.reason.videoCpuSlow': '{cpu} takes a while to encode long videos',
+  'rec.reason.videoRam': '{ram}GB of RAM leaves headroom for video editing',
+  'rec.reason.videoRamTight': '{ram}GB of RAM is tight for long {res} edits',
+  'rec.reason.videoRamLow': '{ram}GB of RAM is not enough for video editing',
+  'rec.reason.videoIgpu': 'Integrated graphics give little GPU acceleration',
+  'rec.reason.videoStorage': '{size} SSD has room for source footage',
+  'rec.reason.videoStorageLow': '{size} SSD is small for source footage',
+  'rec.reason.officeOk': 'Plenty for office work and browsing',
+  'rec.reason.officeCpuSlow': '{cpu} may slow down with many apps open',
+  'rec.reason.officeRamLow': '{ram}GB of RAM struggles even with several browser tabs',
+  'rec.reason.overkill': 'More power than office work needs',
+  'rec.reason.aiIgpu': 'Integrated graphics can barely run local AI models',
+  'rec.reason.aiVramLarge': '{vram}GB of VRAM runs large models locally',
+  'rec.reason.aiVram': '{vram}GB of VRAM runs mid-size models',
+  'rec.reason.aiVramSmall': '{vram}GB of VRAM limits you to small models',
+  'rec.reason.aiCuda': 'NVIDIA GPU with CUDA support',
+  'rec.reason.aiNoCuda': 'No CUDA support, so fewer tools work',
+  'rec.reason.aiRam': '{ram}GB of RAM handles datasets and containers',
+  'rec.reason.aiRamTight': '{ram}GB of RAM is tight for datasets and containers',
+  'rec.reason.devThreads': '{threads} threads make builds fast',
+  'rec.reason.inBudget': 'Within budget',
+  'rec.reason.underBudget': '{amount} under budget',
+  'rec.reason.overBudget': '{amount} over budget',
+  'rec.reason.quiet': 'About {watts}W under load, so it runs cool and quiet',
+  'rec.reason.loud': 'About {watts}W under load, so fans get loud',
+  'rec.reason.compact': 'Small {size} case',
+  'rec.reason.midSize': 'Mid-size {size} case',
+  'rec.reason.large': 'Large {size} case',
+
+  // --- Recently viewed / similar ---
+  'recent.title': 'Recently viewed',
+  'recent.clear': 'Clear history',
+  'recent.remove': 'Remove {title} from recently viewed',
+  'similar.title': 'Similar products',
+  'similar.samePrice': 'Same price',
+  'similar.pricier': '{amount} more',
+  'similar.cheaper': '{amount} less',
+  'similar.better': 'Better {part}',
+  'similar.worse': 'Lower {part}',
+  'similar.add': 'Add {title} to cart',
+
+  // --- API ---
+  'api.error.network': 'Could not reach the server ({message})',
+  'api.error.badResponse': 'The server sent an unexpected response',
+  'api.error.http': 'The request failed (HTTP {status})',
+  'api.error.aborted': 'The request was cancelled',
+  'api.mock.productNotFound': 'Product not found (id: {id})',
+  'api.mock.productsNotArray': 'The product list must be an array',
+  'api.mock.invalidProducts': 'Invalid product data: {issue}',
+  'api.mock.invalidCart': 'The cart is not in a valid format',
+  'api.mock.orderNotFound': 'Order not found ({id})',
+  'api.mock.invalidOrder': 'The order is not in a valid format',
+  'api.mock.duplicateOrder': 'An order with this number already exists ({id})',
+  'api.mock.outOfStock': 'Not enough stock: {items}',
+  'api.mock.invalidReview': 'The review is not in a valid format',
+  'api.mock.invalidVote': 'helpful must be true or false',
+  'api.mock.reviewNotFound': 'Review not found ({id})',
+  'api.mock.noRoute': 'Unknown API path ({path})',
+  'api.mock.badMethod': '{method} {path} is not supported',
+  'api.mock.badJson': 'The request body is not JSON',
+  'api.mock.unavailable': 'Temporary server error (mock server failure injection)',
+  'api.mock.quota': 'The server is out of storage space',
+  'api.mock.internal': 'Server error: {message}',
+  'api.mock.name': 'Mock server',
+
+  // --- Admin ---
+  'admin.title': 'Admin',
+  'admin.heading': 'Product management',
+  'admin.toShop': 'Back to shop',
+  'admin.lock': 'Lock',
+  'admin.save': 'Save',
+  'admin.cancel': 'Cancel',
+  'admin.apply': 'Apply',
+  'admin.passcode.setupHint': 'Choose an admin passcode. It is stored only in this browser.',
+  'admin.passcode.enterHint': 'Enter the admin passcode.',
+  'admin.passcode.label': 'Passcode',
+  'admin.passcode.confirm': 'Confirm passcode',
+  'admin.passcode.set': 'Set passcode',
+  'admin.passcode.unlock': 'Unlock',
+  'admin.passcode.tooShort': 'The passcode must be at least {min} characters',
+  'admin.passcode.mismatch': 'The passcodes do not match',
+  'admin.passcode.wrong': 'Incorrect passcode',
+  'admin.source.local': 'Browser storage',
+  'admin.modified': 'Using edited list',
+  'admin.original': 'Original',
+  'admin.unsaved': 'Unsaved',
+  'admin.reset': 'Restore original',
+  'admin.confirmLeave': 'You have unsaved changes. Discard them and leave?',
+  'admin.confirmReset': 'Discard all saved changes and go back to the published product list?',
+  'admin.confirmDelete': { one: 'Delete {count} product?', other: 'Delete {count} products?' },
+  'admin.saved': { one: 'Saved {count} product', other: 'Saved {count} products' },
+  'admin.saveFailed': 'Save failed: {error}',
+  'admin.resetDone': 'Restored the published product list',
+  'admin.resetFailed': 'Restore failed: {error}',
+  'admin.newProduct': 'New product',
+  'admin.exportJson': 'Export JSON',
+  'admin.exportCsv': 'Export CSV',
+  'admin.import': 'Import (CSV/JSON)',
+  'admin.selectAll': 'Select all',
+  'admin.col.order': 'Featured order',
+  'admin.col.product': 'Product',
+  'admin.col.specs': 'Specs',
+  'admin.col.price': 'Price',
+  'admin.col.stock': 'Stock',
+  'admin.col.actions': 'Actions',
+  'admin.select': 'Select {title}',
+  'admin.moveUp': 'Move up',
+  'admin.moveDown': 'Move down',
+  'admin.salePrice': 'Sale {price}',
+  'admin.edit': 'Edit {title}',
+  'admin.duplicate': 'Duplicate {title}',
+  'admin.delete': 'Delete {title}',
+  'admin.copyTitle': '{title} (copy)',
+  'admin.empty': 'No products',
+  'admin.bulk.selected': '{count} selected',
+  'admin.bulk.mode': 'Bulk price change',
+  'admin.bulk.percent': '% up/down',
+  'admin.bulk.amount': 'Amount up/down',
+  'admin.bulk.set': 'Set price',
+  'admin.bulk.percentValue': 'Change (%)',
+  'admin.bulk.amountValue': 'Amount (KRW)',
+  'admin.bulk.won': 'KRW',
+  'admin.bulk.round': 'Rounding',
+  'admin.bulk.roundNone': 'No rounding',
+  'admin.bulk.round1000': 'Nearest 1,000',
+  'admin.bulk.round10000': 'Nearest 10,000',
+  'admin.bulk.delete': 'Delete selected',
+  'admin.bulk.clear': 'Clear selection',
+  'admin.mock.current': 'Now {latency} ms · {failure}% failures',
+  'admin.mock.applied': 'Mock server: {latency} ms latency, {failure}% failures',
+  'admin.mock.latency': 'Average latency',
+  'admin.mock.failureRate': 'Failure rate',
+  'admin.mock.defaults': 'Defaults ({latency} ms · {failure}%)',
+  'admin.mock.resetData': 'Reset data',
+  'admin.mock.confirmReset': 'Delete all edited products, carts, orders and reviews on the mock server and start over?',
+  'admin.mock.confirmResetDirty': 'Your unsaved changes will be lost too. Delete all edited products, carts, orders and reviews on the mock server?',
+  'admin.mock.hint': 'That share of requests fails with 503. Use it to check loading/saving errors and retries in the shop.',
+  'admin.importDialog.title': 'Import: {file}',
+  'admin.importDialog.summary': { one: 'Replace the whole working copy with {count} valid product.', other: 'Replace the whole working copy with {count} valid products.' },
+  'admin.importDialog.skipped': { one: '{count} row skipped because of problems', other: '{count} rows skipped because of problems' },
+  'admin.importDialog.confirm': 'Import',
+  'admin.imported': { one: 'Imported {count} product (save to apply)', other: 'Imported {count} products (save to apply)' },
+  'admin.importFailed': 'Import failed: {error}',
+  'admin.form.idTaken': 'This id is already in use ({id})',
+  'admin.form.checkInput': { one: 'Please check the form ({count} problem)', other: 'Please check the form ({count} problems)' },
+  'admin.form.optional': '{title} (optional)',
+  'admin.form.basics': 'Basics',
+  'admin.form.name': 'Name (name)',
+  'admin.form.title': 'Product title (title)',
+  'admin.form.img': 'Icon (img)',
+  'admin.form.price': 'Price (KRW)',
+  'admin.form.stock': 'Stock (leave empty to not track stock)',
+  'admin.form.tags': 'Tags (comma-separated)',
+  'admin.form.photos': 'Photos (the first is the main image; the icon is shown if there are none)',
+  'admin.form.photoSrc': 'Path or URL (images/a-front.svg)',
+  'admin.form.photoPath': 'Photo path',
+  'admin.form.alt': 'Alt text',
+  'admin.form.photoWidths': 'Widths px (400, 800)',
+  'admin.form.photoHint': 'For photos made in several sizes, put {w} in the path and list the widths; the browser picks the file that fits (images/a-front-{w}.png).',
+  'admin.form.removePhoto': 'Remove photo',
+  'admin.form.addPhoto': 'Add photo',
+  'admin.form.sale': 'Sale',
+  'admin.form.salePrice': 'Sale price (KRW)',
+  'admin.form.saleStart': 'Starts (empty = now)',
+  'admin.form.saleEnd': 'Ends (empty = no end)',
+  'admin.form.vendor': 'Vendor',
+  'admin.form.cpuFamily': 'Family (Core i7, Ryzen 7)',
+  'admin.form.family': 'Family',
+  'admin.form.model': 'Model',
+  'admin.form.cores': 'Cores',
+  'admin.form.threads': 'Threads',
+  'admin.form.boost': 'Boost clock (GHz)',
+  'admin.form.cpuSocket': 'Socket (optional)',
+  'admin.form.tdp': 'Power draw W (optional)',
+  'admin.form.memoryTypes': 'Supported memory (optional)',
+  'admin.form.integrated': 'Integrated graphics',
+  'admin.form.cpuIntegrated': 'Built into the CPU',
+  'admin.form.gpuLength': 'Length mm (optional)',
+  'admin.form.memory': 'Memory',
+  'admin.form.capacity': 'Capacity (GB)',
+  'admin.form.ramType': 'Type',
+  'admin.form.ramSpeed': 'Speed MHz (optional)',
+  'admin.form.removeStorage': 'Remove drive',
+  'admin.form.addStorage': 'Add drive',
+  'admin.form.chipset': 'Chipset',
+  'admin.form.socket': 'Socket',
+  'admin.form.boardMemory': 'Memory type',
+  'admin.form.case': 'Case',
+  'admin.form.maxGpuLength': 'Max graphics card length (mm)',
+  'admin.form.formFactor': 'Case size (optional)',
+  'admin.form.unknown': 'Unknown',
+  'admin.form.psuWatts': 'Rated output (W)',
+
+  // --- Catalog validation ---
+  'catalog.issue.row': 'Row {row}: {message}',
+  'catalog.issue.rowWithId': 'Row {row} (id: {id}): {message}',
+  'catalog.issue.notObject': 'Not an object',
+  'catalog.issue.missing': 'Required field \'{field}\' is missing',
+  'catalog.issue.notString': '\'{field}\' must be a string',
+  'catalog.issue.empty': '\'{field}\' is empty',
+  'catalog.issue.notNumber': '\'{field}\' must be a number',
+  'catalog.issue.negative': '\'{field}\' must be 0 or more',
+  'catalog.issue.nonNegativeNumber': '\'{field}\' must be a number of 0 or more',
+  'catalog.issue.nonNegativeInteger': '\'{field}\' must be a whole number of 0 or more',
+  'catalog.issue.saleNotLower': '\'{field}\' must be lower than the regular price',
+  'catalog.issue.badDate': '\'{field}\' is not a valid date',
+  'catalog.issue.saleEndsBeforeStart': 'The sale ends before it starts',
+  'catalog.issue.stringList': '\'{field}\' must be a list of strings',
+  'catalog.issue.list': '\'{field}\' must be a list',
+  'catalog.issue.object': '\'{field}\' must be an object',
+  'catalog.issue.altText': '\'{field}\' must be a string (alt text)',
+  'catalog.issue.widths': '\'{field}\' must be a list of positive whole numbers',
+  'catalog.issue.duplicateId': 'Duplicate id (same as row {row})',
+  'catalog.issue.specMissing': '\'{field}\' specs are missing',
+  'catalog.issue.specValueMissing': '\'{field}\' is missing',
+  'catalog.issue.oneOf': '\'{field}\' must be one of {allowed}',
+  'catalog.issue.listOf': '\'{field}\' must be a list of {allowed}',
+  'catalog.issue.boolean': '\'{field}\' must be true or false',
+  'catalog.issue.storageList': '\'{field}\' must be a list of drives',
+  'catalog.issue.badFormat': '\'{field}\' has an invalid format',
+  'catalog.error.notArray': 'The product data must be a list',
+  'catalog.error.http': 'Couldn\'t load the product data (HTTP {status})',
+  'catalog.error.badJson': 'The product data is not valid JSON',
+  'parts.error.notArray': 'The parts data must be a list',
+  'parts.error.http': 'Couldn\'t load the parts data (HTTP {status})',
+  'parts.error.row': 'Part row {row}: {message}',
+  'parts.error.rowWithId': 'Part row {row} ({id}): {message}',
+  'parts.error.missingId': 'id is missing',
+  'parts.error.duplicateId': 'duplicate id \'{id}\'',
+  'parts.error.slot': 'slot must be one of cpu/gpu/ram/storage',
+  'parts.error.price': 'price must be a number of 0 or more',
+};
@@ -0,0 +1,52 @@
+import { CART_STORAGE_KEY } from './cart';
+import { CATALOG_STORAGE_KEY } from './catalogSource';
+import { ORDERS_STORAGE_KEY } from './orders';
+import { REVIEWS_STORAGE_KEY } from './reviews';
+
+// --- Mock server settings ---
+// 응답 지연과 실패 확률. 기본값은 VITE_MOCK_LATENCY_MS / VITE_MOCK_FAILURE_RATE, 관리자 화면에서 바꾸면 브라우저에 저장된다.
+// 모의 서버 본체(src/mockServer.ts)와 따로 두어 관리자 화면이 모의 서버 코드를 끌어오지 않게 한다.
+
+export type MockConfig = {
+  latencyMs: number; // 평균 응답 지연 (실제로는 0.5~1.5배 사이에서 흔들린다)
+  failureRate: number; // 0~1, 이 확률로 503 을 돌려준다
+};
+
+export const MOCK_CONFIG_STORAGE_KEY = 'pcshop_mock_v1';
+
+const envNumber = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return v !== undefined && v !== '' && Number.isFinite(n) ? n : fallback;
+};
+
+const clampConfig = (c: MockConfig): MockConfig => ({
+  latencyMs: Math.min(10_000, Math.max(0, Math.round(c.latencyMs))),
+  failureRate: Math.min(1, Math.max(0, c.failureRate)),
+});
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = clampConfig({
+  latencyMs: envNumber(import.meta.env.VITE_MOCK_LATENCY_MS, 300),
+  failureRate: envNumber(import.meta.env.VITE_MOCK_FAILURE_RATE, 0),
+});
+
+export function loadMockConfig(): MockConfig {
+  try {
+    const data = JSON.parse(localStorage.getItem(MOCK_CONFIG_STORAGE_KEY) || 'null') as Partial<MockConfig> | null;
+    return clampConfig({ ...DEFAULT_MOCK_CONFIG, ...data });
+  } catch {
+    return DEFAULT_MOCK_CONFIG;
+  }
+}
+
+// null 이면 기본값으로 되돌린다
+export function saveMockConfig(config: MockConfig | null) {
+  if (config) localStorage.setItem(MOCK_CONFIG_STORAGE_KEY, JSON.stringify(clampConfig(config)));
+  else localStorage.removeItem(MOCK_CONFIG_STORAGE_KEY);
+}
+
+// 모의 서버에 쌓인 데이터(관리자 수정본, 장바구니, 주문, 후기)를 지우고 처음 데이터로 돌아간다
+export const MOCK_DATA_KEYS = [CATALOG_STORAGE_KEY, CART_STORAGE_KEY, ORDERS_STORAGE_KEY, REVIEWS_STORAGE_KEY];
+
+export function resetMockData() {
+  MOCK_DATA_KEYS.forEach((key) => localStorage.removeItem(key));
+}
@@ -0,0 +1,276 @@
+import {
+  MOCK_TRANSPORT_ID,
+  abortError,
+  errorMessage,
+  wait,
+  type ApiResource,
+  type ApiTransport,
+  type OrderConflict,
+  type ProductPage,
+  type ReviewInput,
+} from './api';
+import { formatIssue, parseCatalog } from './catalog';
+import { CART_STORAGE_KEY, loadCart, saveCart, type CartState } from './cart';
+import { CATALOG_STORAGE_KEY, createLocalCatalogAdapter } from './catalogSource';
+import { t } from './i18n';
+import { formatStockIssue, stockIssues } from './inventory';
+import { loadMockConfig } from './mockConfig';
+import { ORDERS_STORAGE_KEY, loadOrders, saveOrders, type Order, type OrderLine } from './orders';
+import { REVIEWS_STORAGE_KEY, createLocalReviewAdapter, isReview, ratingIndex, type Review } from './reviews';
+import { parseQuery, searchProducts } from './search';
+import { isSortKey, sortProducts } from './sorting';
+
+// --- Mock REST server (브라우저 안) ---
+// src/api.ts 의 계약을 그대로 흉내 낸다. 데이터는 localStorage 에 두고, 처음에는 public/products.json 과
+// 예시 후기(src/sampleReviews.ts)로 시작한다. 요청마다 응답 지연을 두고, 설정한 확률로 503 을 돌려준다 (src/mockConfig.ts).
+
+type MockRequest = { params: Record<string, string>; query: URLSearchParams; body: unknown; signal: AbortSignal };
+type MockReply = { status: number; body?: unknown };
+
+const ok = (body: unknown, status = 200): MockReply => ({ status, body });
+const fail = (status: number, error: string, extra?: object): MockReply => ({ status, body: { error, ...extra } });
+
+const catalog = createLocalCatalogAdapter();
+const reviewStore = createLocalReviewAdapter();
+
+// --- Products ---
+async function productPage(query: URLSearchParams, signal: AbortSignal): Promise<ProductPage> {
+  const { products, issues } = await catalog.load(signal);
+  let list = products;
+  const ids = query.get('ids')?.split(',');
+  if (ids) list = list.filter((p) => ids.includes(p.id));
+  const q = query.get('q');
+  if (q) list = searchProducts(list, parseQuery(q));
+  const sort = query.get('sort');
+  if (sort && isSortKey(sort)) list = sortProducts(list, sort, ratingIndex(reviewStore.load().reviews));
+  const total = list.length;
+  const offset = Math.max(0, Number(query.get('offset')) || 0);
+  const limit = Math.max(0, Number(query.get('limit')) || total);
+  return { products: list.slice(offset, offset + limit), issues, total, modified: catalog.isModified() };
+}
+
+const products = {
+  list: async ({ query, signal }: MockRequest) => ok(await productPage(query, signal)),
+
+  get: async ({ params, signal }: MockRequest) => {
+    const { products } = await catalog.load(signal);
+    const p = products.find((x) => x.id === params.id);
+    return p ? ok(p) : fail(404, t('api.mock.productNotFound', { id: params.id }));
+  },
+
+  replace: async ({ body, signal }: MockRequest) => {
+    if (!Array.isArray(body)) return fail(400, t('api.mock.productsNotArray'));
+    const { products, issues } = parseCatalog(body);
+    if (issues.length > 0) return fail(422, t('api.mock.invalidProducts', { issue: formatIssue(issues[0]) }));
+    await catalog.save(products);
+    return ok(await productPage(new URLSearchParams(), signal));
+  },
+
+  reset: async ({ signal }: MockRequest) => {
+    await catalog.reset();
+    return ok(await productPage(new URLSearchParams(), signal));
+  },
+};
+
+// --- Cart ---
+const cart = {
+  get: () => ok(loadCart()),
+  put: ({ body }: MockRequest) => {
+    const data = body as Partial<CartState> | null;
+    if (!Array.isArray(data?.lines)) return fail(400, t('api.mock.invalidCart'));
+    saveCart({ lines: data.lines, coupon: data.coupon });
+    return ok(loadCart()); // 저장하면서 잘못된 라인은 걸러진다
+  },
+};
+
+// --- Orders ---
+type StockLine = Pick<OrderLine, 'productId' | 'qty'>;
+
+const isStockLines = (v: unknown): v is StockLine[] =>
+  Array.isArray(v) &&
+  v.length > 0 &&
+  v.every((l: Partial<StockLine> | null) => typeof l?.productId === 'string' && typeof l.qty === 'number' && l.qty > 0);
+
+// 모자란 상품이 있으면 409 (code: outOfStock) 를 돌려준다
+async function stockConflict(lines: StockLine[], signal: AbortSignal) {
+  const { products } = await catalog.load(signal);
+  const wanted = { lines: lines.map((l) => ({ key: l.productId, productId: l.productId, qty: l.qty })) };
+  const short = stockIssues(wanted, products);
+  if (short.length === 0) return { products, reply: null };
+  const conflict: OrderConflict = {
+    error: t('api.mock.outOfStock', { items: short.map(formatStockIssue).join(', ') }),
+    code: 'outOfStock',
+    items: short.map((i) => ({ productId: i.product.id, requested: i.requested, available: i.available })),
+  };
+  return { products, reply: ok(conflict, 409) };
+}
+
+const orders = {
+  list: () => ok(loadOrders()),
+  get: ({ params }: MockRequest) => {
+    const order = loadOrders().find((o) => o.id === params.id);
+    return order ? ok(order) : fail(404, t('api.mock.orderNotFound', { id: params.id }));
+  },
+  // 결제 전 확인용. 재고는 줄이지 않는다.
+  checkStock: async ({ body, signal }: MockRequest) => {
+    const lines = (body as { lines?: unknown } | null)?.lines;
+    if (!isStockLines(lines)) return fail(400, t('api.mock.invalidOrder'));
+    const { reply } = await stockConflict(lines, signal);
+    return reply ?? ok({ ok: true });
+  },
+  // 재고를 관리하는 상품은 주문 수량만큼 재고를 줄인다. 모자라면 409 와 함께 모자란 상품을 돌려준다.
+  create: async ({ body, signal }: MockRequest) => {
+    const order = body as Partial<Order> | null;
+    if (typeof order?.id !== 'string' || !isStockLines(order.lines)) return fail(400, t('api.mock.invalidOrder'));
+    const list = loadOrders();
+    if (list.some((o) => o.id === order.id)) {
+      return fail(409, t('api.mock.duplicateOrder', { id: order.id }), { code: 'duplicate' });
+    }
+
+    const { products, reply } = await stockConflict(order.lines, signal);
+    if (reply) return reply;
+    const sold = new Map<string, number>();
+    order.lines.forEach((l) => sold.set(l.productId, (sold.get(l.productId) ?? 0) + l.qty));
+    if (products.some((p) => p.stock !== undefined && sold.has(p.id))) {
+      await catalog.save(
+        products.map((p) => (p.stock !== undefined && sold.has(p.id) ? { ...p, stock: p.stock - (sold.get(p.id) ?? 0) } : p))
+      );
+    }
+    saveOrders([order as Order, ...list]);
+    return ok(order, 201);
+  },
+};
+
+// --- Reviews ---
+const reviews = {
+  list: ({ query }: MockRequest) => {
+    const data = reviewStore.load();
+    const productId = query.get('productId');
+    return ok(productId ? { ...data, reviews: data.reviews.filter((r) => r.productId === productId) } : data);
+  },
+  create: ({ body }: MockRequest) => {
+    const review: Review = {
+      ...(body as ReviewInput),
+      id: `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      createdAt: new Date().toISOString(),
+      helpful: 0,
+    };
+    if (!isReview(review)) return fail(400, t('api.mock.invalidReview'));
+    const data = reviewStore.load();
+    reviewStore.save({ ...data, reviews: [review, ...data.reviews] });
+    return ok(review, 201);
+  },
+  vote: ({ params, body }: MockRequest) => {
+    const helpful = (body as { helpful?: unknown } | null)?.helpful;
+    if (typeof helpful !== 'boolean') return fail(400, t('api.mock.invalidVote'));
+    const data = reviewStore.load();
+    const target = data.reviews.find((r) => r.id === params.id);
+    if (!target) return fail(404, t('api.mock.reviewNotFound', { id: params.id }));
+    const had = data.voted.includes(target.id);
+    if (had === helpful) return ok(target); // 같은 표를 두 번 보내도 한 번만 센다
+    const review = { ...target, helpful: Math.max(0, target.helpful + (helpful ? 1 : -1)) };
+    reviewStore.save({
+      reviews: data.reviews.map((r) => (r.id === review.id ? review : r)),
+      voted: helpful ? [...data.voted, review.id] : data.voted.filter((id) => id !== review.id),
+    });
+    return ok(review);
+  },
+};
+
+// --- Routing ---
+type Route = { method: string; path: string; handle: (req: MockRequest) => MockReply | Promise<MockReply> };
+
+const ROUTES: Route[] = [
+  { method: 'GET', path: '/products', handle: products.list },
+  { method: 'PUT', path: '/products', handle: products.replace },
+  { method: 'DELETE', path: '/products', handle: products.reset },
+  { method: 'GET', path: '/products/:id', handle: products.get },
+  { method: 'GET', path: '/cart', handle: cart.get },
+  { method: 'PUT', path: '/cart', handle: cart.put },
+  { method: 'GET', path: '/orders', handle: orders.list },
+  { method: 'POST', path: '/orders', handle: orders.create },
+  { method: 'POST', path: '/orders/stock-check', handle: orders.checkStock },
+  { method: 'GET', path: '/orders/:id', handle: orders.get },
+  { method: 'GET', path: '/reviews', handle: reviews.list },
+  { method: 'POST', path: '/reviews', handle: reviews.create },
+  { method: 'PUT', path: '/reviews/:id/vote', handle: reviews.vote },
+];
+
+// '/products/:id' 와 '/products/A' → { id: 'A' }
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const want = pattern.split('/').filter(Boolean);
+  const got = path.split('/').filter(Boolean);
+  if (want.length !== got.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < want.length; i++) {
+    if (want[i].startsWith(':')) params[want[i].slice(1)] = decodeURIComponent(got[i]);
+    else if (want[i] !== got[i]) return null;
+  }
+  return params;
+}
+
+async function route(request: Request): Promise<MockReply> {
+  const url = new URL(request.url);
+  const matches = ROUTES.flatMap((r) => {
+    const params = matchPath(r.path, url.pathname);
+    return params ? [{ route: r, params }] : [];
+  });
+  if (matches.length === 0) return fail(404, t('api.mock.noRoute', { path: url.pathname }));
+  const match = matches.find((m) => m.route.method === request.method);
+  if (!match) return fail(405, t('api.mock.badMethod', { method: request.method, path: url.pathname }));
+
+  let body: unknown;
+  const text = await request.text();
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    return fail(400, t('api.mock.badJson'));
+  }
+  return match.route.handle({ params: match.params, query: url.searchParams, body, signal: request.signal });
+}
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+const STORAGE_KEYS: Record<ApiResource, string> = {
+  products: CATALOG_STORAGE_KEY,
+  cart: CART_STORAGE_KEY,
+  orders: ORDERS_STORAGE_KEY,
+  reviews: REVIEWS_STORAGE_KEY,
+};
+
+export function createMockTransport(): ApiTransport {
+  return {
+    id: MOCK_TRANSPORT_ID,
+    get name() {
+      return t('api.mock.name');
+    },
+    mock: true,
+    async fetch(request) {
+      const config = loadMockConfig(); // 관리자 화면에서 바꾸면 다음 요청부터 적용
+      await wait(config.latencyMs * (0.5 + Math.random()), request.signal);
+      let reply: MockReply;
+      if (Math.random() < config.failureRate) {
+        reply = fail(503, t('api.mock.unavailable'));
+      } else {
+        try {
+          reply = await route(request);
+        } catch (e) {
+          if (request.signal.aborted) throw abortError();
+          reply = isQuotaError(e)
+            ? fail(413, t('api.mock.quota'))
+            : fail(500, t('api.mock.internal', { message: errorMessage(e) }));
+        }
+      }
+      const payload = reply.body === undefined ? null : JSON.stringify(reply.body);
+      return new Response(payload, { status: reply.status, headers: { 'Content-Type': 'application/json' } });
+    },
+    // 다른 탭의 모의 서버가 localStorage 를 바꾸면 storage 이벤트로 알린다
+    watch(resource, onChange) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key === STORAGE_KEYS[resource] || e.key === null) onChange();
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+}
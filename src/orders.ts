@@ -0,0 +1,146 @@
+import { useSyncExternalStore } from 'react';
+import { api, isApiError, type OrderConflict, type StockShortage } from './api';
+import type { Product } from './catalog';
+import type { CartBuild } from './cart';
+import type { DeliveryOption, ShippingInfo } from './checkout';
+import { t } from './i18n';
+import type { MessageKey } from './messages';
+import type { PaymentMethod } from './payment';
+import { currentPrice } from './pricing';
+import { createRemoteStore } from './remoteStore';
+
+// --- Orders ---
+// 결제가 끝난 주문을 서버에 보관한다. 가격은 주문 시점 값으로 고정해서 저장.
+
+export type OrderStatus = 'paid' | 'assembling' | 'shipping' | 'delivered';
+
+export const ORDER_STATUSES: { key: OrderStatus; label: MessageKey }[] = [
+  { key: 'paid', label: 'order.status.paid' },
+  { key: 'assembling', label: 'order.status.assembling' },
+  { key: 'shipping', label: 'order.status.shipping' },
+  { key: 'delivered', label: 'order.status.delivered' },
+];
+
+// 백엔드가 없으므로 결제 시각 기준 예상 일정으로 진행 상태를 보여준다
+const STATUS_OFFSET_HOURS: Record<OrderStatus, number> = {
+  paid: 0,
+  assembling: 2,
+  shipping: 24,
+  delivered: 72,
+};
+
+export type OrderLine = {
+  productId: string;
+  title: string;
+  img: string;
+  unitPrice: number; // 주문 시점 단가 (구성 변경 차액 포함)
+  qty: number;
+  build?: CartBuild;
+};
+
+export type Order = {
+  id: string;
+  placedAt: string; // ISO
+  lines: OrderLine[];
+  subtotal: number; // 상품 금액 (기간 할인가 기준)
+  discount?: number; // 수량/세트/쿠폰 할인 합계
+  couponCode?: string;
+  deliveryFee: number;
+  total: number;
+  delivery: DeliveryOption;
+  shipping: ShippingInfo;
+  payment: { method: PaymentMethod; transactionId: string };
+};
+
+export type TimelineStep = { status: OrderStatus; label: MessageKey; at: Date; done: boolean };
+
+export function orderTimeline(order: Order, now = new Date()): TimelineStep[] {
+  const placed = new Date(order.placedAt).getTime();
+  return ORDER_STATUSES.map(({ key, label }) => {
+    const at = new Date(placed + STATUS_OFFSET_HOURS[key] * 3600_000);
+    return { status: key, label, at, done: at.getTime() <= now.getTime() };
+  });
+}
+
+export const orderStatus = (order: Order, now = new Date()): OrderStatus =>
+  orderTimeline(order, now)
+    .filter((s) => s.done)
+    .at(-1)?.status ?? 'paid';
+
+export const orderStatusLabel = (s: OrderStatus) => t(ORDER_STATUSES.find((x) => x.key === s)?.label ?? 'order.status.paid');
+
+// --- Reorder ---
+export type ReorderWarning =
+  | { kind: 'removed'; title: string }
+  | { kind: 'price'; title: string; before: number; after: number }
+  | { kind: 'stock'; title: string; requested: number; available: number }; // available 0 = 품절
+
+export type ReorderPlan = {
+  lines: { productId: string; qty: number; build?: CartBuild; stock?: number }[];
+  warnings: ReorderWarning[];
+};
+
+export function planReorder(order: Order, products: Product[]): ReorderPlan {
+  const plan: ReorderPlan = { lines: [], warnings: [] };
+  for (const l of order.lines) {
+    const p = products.find((x) => x.id === l.productId);
+    if (!p) {
+      plan.warnings.push({ kind: 'removed', title: l.title });
+      continue;
+    }
+    const now = currentPrice(p) + (l.build?.priceDelta ?? 0);
+    if (now !== l.unitPrice) plan.warnings.push({ kind: 'price', title: l.title, before: l.unitPrice, after: now });
+    if (p.stock !== undefined && l.qty > p.stock) {
+      plan.warnings.push({ kind: 'stock', title: l.title, requested: l.qty, available: p.stock });
+      if (p.stock === 0) continue;
+    }
+    plan.lines.push({ productId: l.productId, qty: l.qty, build: l.build, stock: p.stock });
+  }
+  return plan;
+}
+
+// --- Persistence (모의 서버가 쓴다) ---
+export const ORDERS_STORAGE_KEY = 'pcshop_orders_v1';
+
+export function loadOrders(storage: Storage = localStorage): Order[] {
+  try {
+    const data = JSON.parse(storage.getItem(ORDERS_STORAGE_KEY) || '[]') as unknown;
+    return Array.isArray(data) ? (data as Order[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOrders(orders: Order[], storage: Storage = localStorage) {
+  storage.setItem(ORDERS_STORAGE_KEY, JSON.stringify(orders));
+}
+
+// --- Store ---
+// 주문 내역은 서버(GET /orders)에서 읽고, 결제가 끝나면 POST /orders 로 남긴다.
+const store = createRemoteStore<Order[]>('orders', () => api.orders.list(), []);
+
+const conflictOf = (e: unknown) => (isApiError(e) && e.status === 409 ? (e.body as OrderConflict | undefined) : undefined);
+
+// 재고 부족 409 면 모자란 상품 목록, 아니면 null
+export const stockShortage = (e: unknown): StockShortage[] | null => {
+  const conflict = conflictOf(e);
+  return conflict?.code === 'outOfStock' ? conflict.items : null;
+};
+
+// 결제 직전에 서버에 재고를 확인한다. 모자라면 예외를 던진다 (stockShortage 로 상품을 꺼낸다).
+export const checkStock = (lines: Pick<OrderLine, 'productId' | 'qty'>[]) => api.orders.checkStock(lines);
+
+// 서버에 주문을 남긴다. 실패하면 예외를 던진다 (결제는 이미 끝났으므로 호출 측에서 재시도를 안내하거나, 재고 부족이면 결제를 취소한다).
+// 재시도 때 주문 번호가 겹치면(duplicate) 앞선 요청이 응답만 잃고 저장된 것이므로 서버의 주문을 돌려준다.
+export async function placeOrder(order: Order) {
+  const saved = await api.orders.create(order).catch((e: unknown) => {
+    if (conflictOf(e)?.code === 'duplicate') return api.orders.get(order.id).catch(() => Promise.reject(e));
+    throw e;
+  });
+  store.update((list) => [saved, ...list.filter((o) => o.id !== saved.id)]);
+  return saved;
+}
+
+export const refreshOrders = store.refresh;
+
+export const useOrders = () => useSyncExternalStore(store.subscribe, store.get);
@@ -0,0 +1,145 @@
+import { issueMessage, type Product } from './catalog';
+import { t } from './i18n';
+import {
+  cpuLabel,
+  gpuLabel,
+  ramLabel,
+  storageLabel,
+  validateCpu,
+  validateGpu,
+  validateRam,
+  validateStorage,
+  type CpuSpec,
+  type GpuSpec,
+  type RamSpec,
+  type SpecError,
+  type StorageDevice,
+} from './specs';
+import type { MessageKey } from './messages';
+import { useLoader, type LoaderState } from './useLoader';
+
+// --- Parts (configurator option catalog) ---
+// 커스텀 구성에서 고를 수 있는 부품 목록. public/parts.json 에서 불러온다.
+// price 는 부품 단가이고, 상품 가격 차액은 (선택 부품 단가 - 기본 부품 단가) 로 계산한다.
+
+export type PartSlot = 'cpu' | 'gpu' | 'ram' | 'storage';
+
+export const PART_SLOTS: { slot: PartSlot; label: MessageKey }[] = [
+  { slot: 'cpu', label: 'spec.cpu' },
+  { slot: 'gpu', label: 'spec.gpu' },
+  { slot: 'ram', label: 'spec.ram' },
+  { slot: 'storage', label: 'spec.storage' },
+];
+
+type PartBase = { id: string; price: number };
+export type Part =
+  | (PartBase & { slot: 'cpu'; spec: CpuSpec })
+  | (PartBase & { slot: 'gpu'; spec: GpuSpec })
+  | (PartBase & { slot: 'ram'; spec: RamSpec })
+  | (PartBase & { slot: 'storage'; spec: StorageDevice[] });
+
+export type PartsResult = { parts: Part[] };
+
+export const PARTS_URL = `${import.meta.env.BASE_URL}parts.json`;
+
+const SPEC_VALIDATORS: Record<PartSlot, (v: unknown, path: string) => SpecError[]> = {
+  cpu: validateCpu,
+  gpu: validateGpu,
+  ram: validateRam,
+  storage: validateStorage,
+};
+
+// 부품 목록은 카탈로그보다 엄격하게 다룬다: 잘못된 항목이 하나라도 있으면 전체 실패
+export function parseParts(data: unknown): PartsResult {
+  if (!Array.isArray(data)) throw new Error(t('parts.error.notArray'));
+  const ids = new Set<string>();
+  const parts = data.map((raw, i) => {
+    const row = raw as Partial<Part>;
+    const fail = (message: string) => new Error(t('parts.error.row', { row: i + 1, message }));
+    if (typeof row.id !== 'string' || !row.id) throw fail(t('parts.error.missingId'));
+    if (ids.has(row.id)) throw fail(t('parts.error.duplicateId', { id: row.id }));
+    ids.add(row.id);
+    if (!row.slot || !(row.slot in SPEC_VALIDATORS)) throw fail(t('parts.error.slot'));
+    if (typeof row.price !== 'number' || row.price < 0) throw fail(t('parts.error.price'));
+    const errs = SPEC_VALIDATORS[row.slot](row.spec, 'spec');
+    if (errs.length) {
+      throw new Error(t('parts.error.rowWithId', { row: i + 1, id: row.id, message: issueMessage(errs[0]) }));
+    }
+    return row as Part;
+  });
+  return { parts };
+}
+
+export async function loadParts(url = PARTS_URL, signal?: AbortSignal): Promise<PartsResult> {
+  const res = await fetch(url, { signal, cache: 'no-cache' });
+  if (!res.ok) throw new Error(t('parts.error.http', { status: res.status }));
+  return parseParts(await res.json());
+}
+
+export type PartsState = LoaderState<PartsResult>;
+export const useParts = (url = PARTS_URL) => useLoader((signal) => loadParts(url, signal), url);
+
+// --- Builds ---
+export type BuildSelection = Partial<Record<PartSlot, string>>; // slot → part id (없으면 기본 구성)
+
+export const partLabel = (part: Part): string => {
+  switch (part.slot) {
+    case 'cpu':
+      return cpuLabel(part.spec);
+    case 'gpu':
+      return gpuLabel(part.spec);
+    case 'ram':
+      return ramLabel(part.spec);
+    case 'storage':
+      return storageLabel(part.spec);
+  }
+};
+
+const productSlotLabel = (p: Product, slot: PartSlot) =>
+  slot === 'cpu'
+    ? cpuLabel(p.cpu)
+    : slot === 'gpu'
+      ? gpuLabel(p.gpu)
+      : slot === 'ram'
+        ? ramLabel(p.ram)
+        : storageLabel(p.storage);
+
+// 상품의 기본 부품과 같은 사양의 부품 (표기 문자열이 같으면 같은 부품으로 본다)
+export const basePart = (p: Product, slot: PartSlot, parts: Part[]) =>
+  parts.find((x) => x.slot === slot && partLabel(x) === productSlotLabel(p, slot));
+
+// 카탈로그에 없는 기본 부품(내장 그래픽 등)은 단가 0 으로 친다
+const basePrice = (p: Product, slot: PartSlot, parts: Part[]) => basePart(p, slot, parts)?.price ?? 0;
+
+export const partDelta = (p: Product, part: Part, parts: Part[]) => part.price - basePrice(p, part.slot, parts);
+
+// 기본 구성과 같은 부품을 고른 슬롯은 선택에서 뺀다 (같은 구성은 같은 장바구니 항목이 되도록)
+export function normalizeSelection(p: Product, sel: BuildSelection, parts: Part[]): BuildSelection {
+  const out: BuildSelection = {};
+  for (const { slot } of PART_SLOTS) {
+    const id = sel[slot];
+    if (id && id !== basePart(p, slot, parts)?.id && parts.some((x) => x.id === id && x.slot === slot)) out[slot] = id;
+  }
+  return out;
+}
+
+export type ConfiguredBuild = {
+  product: Product; // 선택한 부품이 반영된 사양/가격
+  priceDelta: number;
+  selection: BuildSelection;
+};
+
+export function applyBuild(p: Product, sel: BuildSelection, parts: Part[]): ConfiguredBuild {
+  const selection = normalizeSelection(p, sel, parts);
+  let product: Product = { ...p };
+  let priceDelta = 0;
+  for (const id of Object.values(selection)) {
+    const part = parts.find((x) => x.id === id);
+    if (!part) continue;
+    priceDelta += partDelta(p, part, parts);
+    product = { ...product, [part.slot]: part.spec };
+  }
+  product.price = p.price + priceDelta;
+  if (p.sale) product.sale = { ...p.sale, price: p.sale.price + priceDelta };
+  return { product, priceDelta, selection };
+}
@@ -0,0 +1,96 @@
+// --- Payment ---
+// 결제 수단 연동은 PaymentProvider 인터페이스 뒤에 둔다.
+// 지금은 오프라인에서 승인/거절/시간초과를 흉내 내는 mock 구현만 있다.
+
+import { t } from './i18n';
+import type { MessageKey } from './messages';
+
+export type PaymentMethod = 'card' | 'transfer' | 'easypay';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'card', label: 'payment.card', hint: 'payment.cardHint' },
+  { value: 'transfer', label: 'payment.transfer', hint: 'payment.transferHint' },
+  { value: 'easypay', label: 'payment.easypay', hint: 'payment.easypayHint' },
+];
+
+export type PaymentRequest = {
+  orderId: string;
+  amount: number; // KRW
+  method: PaymentMethod;
+  customerName: string;
+};
+
+export type PaymentResult =
+  | { status: 'approved'; transactionId: string; approvedAt: string }
+  | { status: 'declined'; reason: string }
+  | { status: 'timeout' };
+
+export interface PaymentProvider {
+  readonly name: string;
+  requestPayment(req: PaymentRequest, signal?: AbortSignal): Promise<PaymentResult>;
+  // 승인된 결제를 취소한다 (주문을 접수하지 못했을 때). 실패하면 예외를 던진다.
+  cancelPayment(transactionId: string, signal?: AbortSignal): Promise<void>;
+}
+
+// 응답이 timeoutMs 안에 오지 않으면 timeout 으로 처리한다 (provider 구현과 무관하게 적용)
+export async function requestWithTimeout(
+  provider: PaymentProvider,
+  req: PaymentRequest,
+  timeoutMs = 8000
+): Promise<PaymentResult> {
+  const ctrl = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<PaymentResult>((resolve) => {
+    timer = setTimeout(() => {
+      ctrl.abort();
+      resolve({ status: 'timeout' });
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.requestPayment(req, ctrl.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// --- Mock provider ---
+export type MockOutcome = 'approve' | 'decline' | 'timeout';
+
+export const MOCK_OUTCOMES: { value: MockOutcome; label: MessageKey }[] = [
+  { value: 'approve', label: 'payment.mock.approve' },
+  { value: 'decline', label: 'payment.mock.decline' },
+  { value: 'timeout', label: 'payment.mock.timeout' },
+];
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(t);
+      resolve();
+    });
+  });
+
+export function createMockPaymentProvider(opts: { outcome?: MockOutcome; latencyMs?: number } = {}): PaymentProvider {
+  const { outcome = 'approve', latencyMs = 800 } = opts;
+  return {
+    name: 'mock',
+    async requestPayment(req, signal) {
+      if (outcome === 'timeout') {
+        // 절대 응답하지 않는 PG 를 흉내 낸다 (abort 되면 그때 끝남)
+        await new Promise<void>((resolve) => signal?.addEventListener('abort', () => resolve()));
+        return { status: 'timeout' };
+      }
+      await wait(latencyMs, signal);
+      if (outcome === 'decline') return { status: 'declined', reason: t('payment.mock.declinedReason') };
+      return {
+        status: 'approved',
+        transactionId: `MOCK-${req.orderId}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`,
+        approvedAt: new Date().toISOString(),
+      };
+    },
+    async cancelPayment(_transactionId, signal) {
+      await wait(latencyMs, signal);
+    },
+  };
+}
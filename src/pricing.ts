@@ -0,0 +1,157 @@
+import type { Product, SalePrice } from './catalog';
+import type { CartLine, CartState } from './cart';
+import { formatKrwShort } from './currency';
+import { localize, t } from './i18n';
+import { BUNDLES, COUPONS, QUANTITY_TIERS, type Coupon } from './promotions';
+
+// --- Pricing ---
+// 상품/장바구니 금액은 모두 여기서 계산한다. 적용 순서: 정가 → 기간 할인가 → 수량 할인 → 세트 할인 → 쿠폰.
+// 가격은 모두 부가세 포함 소비자가이고, 부가세는 결제 금액에서 거꾸로 나눠 보여준다.
+
+export const VAT_RATE = 0.1;
+
+const inWindow = (now: Date, startsAt?: string, endsAt?: string) =>
+  (!startsAt || new Date(startsAt) <= now) && (!endsAt || now <= new Date(endsAt));
+
+// 기간 안이고 정가보다 싼 할인가만 유효
+export const activeSale = (p: Product, now = new Date()): SalePrice | null =>
+  p.sale && p.sale.price < p.price && inWindow(now, p.sale.startsAt, p.sale.endsAt) ? p.sale : null;
+
+export type UnitPrice = {
+  list: number; // 정가
+  final: number; // 지금 파는 가격
+  discount: number;
+  percent: number; // 할인율 (반올림)
+  endsAt?: string; // 할인 종료 시각
+};
+
+export function unitPrice(p: Product, now = new Date()): UnitPrice {
+  const sale = activeSale(p, now);
+  const final = sale ? sale.price : p.price;
+  return {
+    list: p.price,
+    final,
+    discount: p.price - final,
+    percent: p.price > 0 ? Math.round((1 - final / p.price) * 100) : 0,
+    endsAt: sale?.endsAt,
+  };
+}
+
+// 정렬/필터/검색/비교에서 쓰는 '지금 가격'
+export const currentPrice = (p: Product, now?: Date) => unitPrice(p, now).final;
+
+export const vatSplit = (total: number) => {
+  const supply = Math.round(total / (1 + VAT_RATE));
+  return { supply, vat: total - supply };
+};
+
+// --- Cart lines ---
+// 구성 변경 차액은 할인 대상이 아니라 정가/할인가 모두에 그대로 더한다
+export const lineUnitPrice = (line: CartLine, product: Product, now?: Date) =>
+  unitPrice(product, now).final + (line.build?.priceDelta ?? 0);
+
+export type PricedLine = {
+  line: CartLine;
+  product: Product;
+  listUnit: number;
+  unit: number;
+  total: number; // unit × qty
+};
+
+export type AppliedDiscount = { key: string; label: string; amount: number };
+
+export type CouponResult =
+  | { status: 'applied'; coupon: Coupon; amount: number }
+  | { status: 'invalid'; code: string; reason: string };
+
+export type CartPricing = {
+  lines: PricedLine[];
+  listSubtotal: number; // 정가 합계
+  saleDiscount: number; // 기간 할인가로 줄어든 금액
+  subtotal: number; // 상품 금액 (할인가 기준)
+  quantity: AppliedDiscount[];
+  bundles: AppliedDiscount[];
+  coupon: CouponResult | null;
+  discount: number; // 수량 + 세트 + 쿠폰 할인 합계
+  total: number; // 상품 결제 금액 (배송비 제외)
+};
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+const findCoupon = (code: string) => COUPONS.find((c) => c.code.toUpperCase() === code.trim().toUpperCase());
+
+// 수량 할인: 같은 상품(구성 무관) 합계 수량이 구간 이상이면 그 상품 금액에서 % 할인
+function quantityDiscounts(lines: PricedLine[]): AppliedDiscount[] {
+  const ids = [...new Set(lines.map((l) => l.product.id))];
+  return ids.flatMap((id) => {
+    const group = lines.filter((l) => l.product.id === id);
+    const qty = sum(group.map((l) => l.line.qty));
+    const tier = [...QUANTITY_TIERS].sort((a, b) => b.minQty - a.minQty).find((t) => qty >= t.minQty);
+    if (!tier) return [];
+    const amount = Math.round((sum(group.map((l) => l.total)) * tier.percent) / 100);
+    const label = t('price.quantityTier', { title: group[0].product.title, count: tier.minQty, percent: tier.percent });
+    return [{ key: `qty:${id}`, label, amount }];
+  });
+}
+
+// 세트 할인: 세트 상품을 모두 담은 만큼(가장 적게 담은 상품 수량) 세트 수로 친다
+function bundleDiscounts(lines: PricedLine[]): AppliedDiscount[] {
+  const qtyOf = (id: string) => sum(lines.filter((l) => l.product.id === id).map((l) => l.line.qty));
+  return BUNDLES.flatMap((b) => {
+    const sets = Math.min(...b.productIds.map(qtyOf));
+    if (sets <= 0) return [];
+    const label = sets > 1 ? `${localize(b.label)} ×${sets}` : localize(b.label);
+    return [{ key: `bundle:${b.id}`, label, amount: b.discount * sets }];
+  });
+}
+
+function applyCoupon(code: string, lines: PricedLine[], base: number, quantity: AppliedDiscount[], now: Date): CouponResult {
+  const coupon = findCoupon(code);
+  if (!coupon) return { status: 'invalid', code, reason: t('coupon.unknown') };
+  if (!inWindow(now, coupon.startsAt, coupon.endsAt)) return { status: 'invalid', code, reason: t('coupon.expired') };
+
+  // 상품 지정 쿠폰은 해당 상품 금액(수량 할인 후)만, 전체 쿠폰은 다른 할인을 모두 뺀 금액을 기준으로 한다
+  let eligible = base;
+  if (coupon.productIds) {
+    const ids = coupon.productIds;
+    const targets = lines.filter((l) => ids.includes(l.product.id));
+    if (targets.length === 0) return { status: 'invalid', code, reason: t('coupon.noTarget') };
+    const qtyOff = sum(quantity.filter((d) => ids.some((id) => d.key === `qty:${id}`)).map((d) => d.amount));
+    eligible = sum(targets.map((l) => l.total)) - qtyOff;
+  }
+  if (coupon.minOrder && eligible < coupon.minOrder) {
+    return { status: 'invalid', code, reason: t('coupon.minOrder', { amount: formatKrwShort(coupon.minOrder) }) };
+  }
+  const raw = coupon.kind === 'fixed' ? coupon.value : Math.floor((eligible * coupon.value) / 100);
+  const amount = Math.max(0, Math.min(raw, coupon.maxDiscount ?? Infinity, eligible));
+  return { status: 'applied', coupon, amount };
+}
+
+/** 장바구니 전체 금액. 카탈로그에서 빠진 상품의 라인은 계산에서 제외한다. */
+export function priceCart(cart: CartState, products: Product[], now = new Date()): CartPricing {
+  const lines = cart.lines.flatMap((line): PricedLine[] => {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product) return [];
+    const unit = lineUnitPrice(line, product, now);
+    return [{ line, product, listUnit: product.price + (line.build?.priceDelta ?? 0), unit, total: unit * line.qty }];
+  });
+  const listSubtotal = sum(lines.map((l) => l.listUnit * l.line.qty));
+  const subtotal = sum(lines.map((l) => l.total));
+  const quantity = quantityDiscounts(lines);
+  const bundles = bundleDiscounts(lines);
+  const afterPromos = subtotal - sum(quantity.map((d) => d.amount)) - sum(bundles.map((d) => d.amount));
+  const coupon = cart.coupon && lines.length > 0 ? applyCoupon(cart.coupon, lines, afterPromos, quantity, now) : null;
+  const couponAmount = coupon?.status === 'applied' ? coupon.amount : 0;
+  const discount = subtotal - afterPromos + couponAmount;
+  return {
+    lines,
+    listSubtotal,
+    saleDiscount: listSubtotal - subtotal,
+    subtotal,
+    quantity,
+    bundles,
+    coupon,
+    discount,
+    total: Math.max(0, subtotal - discount),
+  };
+}
@@ -0,0 +1,81 @@
+import type { LocalizedText } from './i18n';
+
+// --- Promotions ---
+// 쿠폰, 수량 할인, 세트(번들) 할인 규칙. 계산은 src/pricing.ts 가 한다.
+// 백엔드가 생기기 전까지는 여기서 관리한다 (기간이 지난 규칙은 자동으로 무시됨).
+
+export type Coupon = {
+  code: string; // 대소문자 구분 없이 입력받는다
+  label: LocalizedText;
+  kind: 'fixed' | 'percent';
+  value: number; // fixed: 원, percent: %
+  maxDiscount?: number; // percent 쿠폰의 최대 할인액
+  minOrder?: number; // 최소 주문 금액 (다른 할인 적용 후, 쿠폰 대상 상품 기준)
+  productIds?: string[]; // 이 상품에만 적용 (없으면 전체)
+  startsAt?: string; // ISO
+  endsAt?: string; // ISO
+};
+
+export const COUPONS: Coupon[] = [
+  {
+    code: 'WELCOME5',
+    label: { ko: '첫 구매 5% 할인', en: '5% off your first order' },
+    kind: 'percent',
+    value: 5,
+    maxDiscount: 100000,
+  },
+  {
+    code: 'PC30000',
+    label: { ko: '3만원 할인', en: '₩30,000 off' },
+    kind: 'fixed',
+    value: 30000,
+    minOrder: 1000000,
+  },
+  {
+    code: 'GAMER10',
+    label: { ko: '게이밍 PC 10% 할인', en: '10% off gaming PCs' },
+    kind: 'percent',
+    value: 10,
+    maxDiscount: 200000,
+    productIds: ['B', 'C', 'D'],
+    endsAt: '2026-12-31T23:59:59+09:00',
+  },
+  {
+    code: 'SPRING24',
+    label: { ko: '2024 봄맞이 할인', en: 'Spring 2024 sale' },
+    kind: 'fixed',
+    value: 50000,
+    endsAt: '2024-05-31T23:59:59+09:00',
+  },
+];
+
+// 같은 상품(구성 무관)을 여러 대 살 때. 가장 높은 구간 하나만 적용한다.
+export type QuantityTier = { minQty: number; percent: number };
+
+export const QUANTITY_TIERS: QuantityTier[] = [
+  { minQty: 5, percent: 5 },
+  { minQty: 3, percent: 3 },
+];
+
+// 지정한 상품을 모두 담으면 세트마다 정액 할인
+export type Bundle = {
+  id: string;
+  label: LocalizedText;
+  productIds: string[];
+  discount: number; // 원 (세트 1개당)
+};
+
+export const BUNDLES: Bundle[] = [
+  {
+    id: 'highend-gaming',
+    label: { ko: '하이엔드 + 게이밍 세트', en: 'High-end + gaming bundle' },
+    productIds: ['A', 'C'],
+    discount: 50000,
+  },
+  {
+    id: 'office-pack',
+    label: { ko: '사무용 2대 세트', en: 'Office 2-pack' },
+    productIds: ['E', 'F'],
+    discount: 30000,
+  },
+];
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react';
+import type { Product } from './catalog';
+import { createLocalStore, listOf } from './localStore';
+
+// --- Recently viewed (최근 본 상품) ---
+// 상세 보기를 열 때마다 맨 앞으로 옮겨 기록한다. 최근 RECENT_LIMIT 개만 남긴다.
+
+export type RecentView = { productId: string; viewedAt: string }; // ISO
+
+export const RECENT_STORAGE_KEY = 'pcshop_recent_v1';
+export const RECENT_LIMIT = 12;
+
+const isRecentView = (v: unknown): v is RecentView => {
+  const o = v as Partial<RecentView> | null;
+  return typeof o?.productId === 'string' && typeof o.viewedAt === 'string';
+};
+
+const store = createLocalStore(RECENT_STORAGE_KEY, listOf(isRecentView, RECENT_LIMIT));
+
+export function recordView(productId: string) {
+  // 이미 맨 앞이면 그대로 둔다 (같은 상품을 다시 열어도 목록이 흔들리지 않게)
+  if (store.get()[0]?.productId === productId) return;
+  const view: RecentView = { productId, viewedAt: new Date().toISOString() };
+  store.update((views) => [view, ...views.filter((v) => v.productId !== productId)].slice(0, RECENT_LIMIT));
+}
+
+export const removeRecent = (productId: string) => store.update((views) => views.filter((v) => v.productId !== productId));
+export const clearRecent = () => store.set([]);
+
+export const useRecentViews = () => useSyncExternalStore(store.subscribe, store.get);
+
+// 본 순서대로 (카탈로그에서 사라진 상품은 빠진다)
+export const recentProducts = (list: RecentView[], products: Product[]) =>
+  list.flatMap((v) => products.filter((p) => p.id === v.productId));
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import { createLocalStore, listOf } from './localStore';
+
+// --- Recent searches ---
+// 검색어를 확정(Enter / 추천 선택)했을 때만 기록한다. 최근 것이 앞, 중복은 하나로.
+
+export const RECENT_SEARCHES_KEY = 'pcshop_recent_searches_v1';
+const MAX_RECENT = 8;
+
+const store = createLocalStore(RECENT_SEARCHES_KEY, listOf((x): x is string => typeof x === 'string', MAX_RECENT));
+
+export function addRecentSearch(query: string) {
+  const q = query.trim();
+  if (!q) return;
+  store.update((recent) => [q, ...recent.filter((x) => x !== q)].slice(0, MAX_RECENT));
+}
+
+export const removeRecentSearch = (query: string) => store.update((recent) => recent.filter((x) => x !== query));
+export const clearRecentSearches = () => store.set([]);
+
+export const useRecentSearches = () => useSyncExternalStore(store.subscribe, store.get);
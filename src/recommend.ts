@@ -0,0 +1,259 @@
+import { useSyncExternalStore } from 'react';
+import type { Product } from './catalog';
+import { cpuBench, perfScore } from './benchmarks';
+import { estimateWatts } from './compat';
+import { formatKrwShort, formatPrice } from './currency';
+import { GAMES, RESOLUTIONS, TARGET_FPS, estimateFps, fpsGrade, type Resolution } from './games';
+import { localize, t } from './i18n';
+import { createLocalStore } from './localStore';
+import type { MessageKey } from './messages';
+import { currentPrice } from './pricing';
+import { formatCapacity, ssdTotalGB } from './specs';
+
+// --- "나에게 맞는 PC 찾기" ---
+// 예산·주 용도·해상도·선호(저소음/소형)를 받아 상품마다 적합도(0~100)와 이유를 만든다.
+// 답변은 저장해 두고 '추천' 정렬이 이 적합도 순서를 따른다 (답변이 없으면 원래 순서).
+
+export type Usage = 'gaming' | 'video' | 'office' | 'ai';
+export type Preference = 'quiet' | 'compact';
+export type BudgetKey = 'under100' | '100to200' | '200to300' | 'over300';
+
+export type Needs = {
+  budget: BudgetKey;
+  usage: Usage;
+  resolution: Resolution;
+  prefs: Preference[];
+};
+
+export const BUDGETS: { value: BudgetKey; min: number; max: number | null }[] = [
+  { value: 'under100', min: 0, max: 1_000_000 },
+  { value: '100to200', min: 1_000_000, max: 2_000_000 },
+  { value: '200to300', min: 2_000_000, max: 3_000_000 },
+  { value: 'over300', min: 3_000_000, max: null },
+];
+
+export const USAGES: { value: Usage; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'gaming', label: 'rec.usage.gaming', hint: 'rec.usage.gamingHint' },
+  { value: 'video', label: 'rec.usage.video', hint: 'rec.usage.videoHint' },
+  { value: 'office', label: 'rec.usage.office', hint: 'rec.usage.officeHint' },
+  { value: 'ai', label: 'rec.usage.ai', hint: 'rec.usage.aiHint' },
+];
+
+export const PREFERENCES: { value: Preference; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'quiet', label: 'rec.pref.quiet', hint: 'rec.pref.quietHint' },
+  { value: 'compact', label: 'rec.pref.compact', hint: 'rec.pref.compactHint' },
+];
+
+export const DEFAULT_NEEDS: Needs = { budget: '100to200', usage: 'gaming', resolution: 'qhd', prefs: [] };
+
+const findBudget = (key: BudgetKey) => BUDGETS.find((b) => b.value === key) ?? BUDGETS[0];
+
+export function budgetLabel(key: BudgetKey) {
+  const { min, max } = findBudget(key);
+  if (max === null) return t('rec.budget.from', { min: formatKrwShort(min) });
+  if (min === 0) return t('rec.budget.upTo', { max: formatKrwShort(max) });
+  return t('rec.budget.range', { min: formatKrwShort(min), max: formatKrwShort(max) });
+}
+
+// 질문·요약에는 짧은 이름을 쓰고, 게임 fps 이유에는 옵션까지 붙은 게임 해상도 이름을 쓴다
+export const RESOLUTION_CHOICES: { value: Resolution; name: string; hint: MessageKey }[] = [
+  { value: 'fhd', name: 'FHD', hint: 'rec.res.fhdHint' },
+  { value: 'qhd', name: 'QHD', hint: 'rec.res.qhdHint' },
+  { value: 'uhd', name: '4K', hint: 'rec.res.uhdHint' },
+];
+
+const resName = (res: Resolution) => RESOLUTION_CHOICES.find((r) => r.value === res)?.name ?? 'FHD';
+const gameResLabel = (res: Resolution) => t(RESOLUTIONS.find((r) => r.value === res)?.label ?? 'game.res.fhd');
+
+// --- Saved answers ---
+export const NEEDS_STORAGE_KEY = 'pcshop_needs_v1';
+
+const isNeeds = (v: unknown): v is Needs => {
+  const o = v as Partial<Needs> | null;
+  return (
+    BUDGETS.some((b) => b.value === o?.budget) &&
+    USAGES.some((u) => u.value === o?.usage) &&
+    RESOLUTIONS.some((r) => r.value === o?.resolution) &&
+    Array.isArray(o?.prefs) &&
+    o.prefs.every((p) => PREFERENCES.some((x) => x.value === p))
+  );
+};
+
+const store = createLocalStore(NEEDS_STORAGE_KEY, (v): Needs | null => (isNeeds(v) ? v : null));
+
+export const saveNeeds = (next: Needs) => store.set(next);
+export const clearNeeds = () => store.set(null);
+
+export const useNeeds = () => useSyncExternalStore(store.subscribe, store.get);
+
+// --- Matching ---
+export type ReasonTone = 'good' | 'warn' | 'bad';
+export type Reason = { tone: ReasonTone; text: string };
+
+export type Match = {
+  product: Product;
+  score: number; // 0~100
+  reasons: Reason[];
+  overBudget: boolean;
+  underpowered: boolean; // 주 용도 기준 성능이 절반에 못 미침
+};
+
+type Fit = { fit: number; reasons: Reason[] }; // fit: 0~1
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const good = (text: string): Reason => ({ tone: 'good', text });
+const warn = (text: string): Reason => ({ tone: 'warn', text });
+const bad = (text: string): Reason => ({ tone: 'bad', text });
+
+// 대중적인 게임 하나와 무거운 게임 하나로 본다
+const GAMING_REFS = ['pubg', 'cyberpunk'];
+
+function gamingFit(p: Product, res: Resolution): Fit {
+  const reasons: Reason[] = [];
+  const fits = GAMES.filter((g) => GAMING_REFS.includes(g.id)).map((g) => {
+    const { fps } = estimateFps(p, g, res);
+    const grade = fpsGrade(fps);
+    const text = t('rec.reason.fps', { game: localize(g.name), res: gameResLabel(res), fps });
+    reasons.push(grade === 'smooth' ? good(text) : grade === 'playable' ? warn(text) : bad(text));
+    return clamp01(fps / TARGET_FPS);
+  });
+  if (res === 'uhd' && !p.gpu.integrated && p.gpu.vramGB < 12) {
+    reasons.push(warn(t('rec.reason.vramUhd', { vram: p.gpu.vramGB })));
+  }
+  return { fit: fits.reduce((a, b) => a + b, 0) / Math.max(1, fits.length), reasons };
+}
+
+function videoFit(p: Product, res: Resolution): Fit {
+  const reasons: Reason[] = [];
+  const uhd = res === 'uhd';
+  const cpuFit = clamp01(cpuBench(p.cpu).score / (uhd ? 45000 : 30000));
+  reasons.push(
+    cpuFit >= 1
+      ? good(t('rec.reason.videoCpu', { cpu: p.cpu.model }))
+      : warn(t('rec.reason.videoCpuSlow', { cpu: p.cpu.model }))
+  );
+  const ramNeed = uhd ? 64 : 32;
+  const ram = p.ram.capacityGB;
+  const ramFit = clamp01(ram / ramNeed);
+  if (ram >= ramNeed) reasons.push(good(t('rec.reason.videoRam', { ram })));
+  else if (ram >= 16) reasons.push(warn(t('rec.reason.videoRamTight', { ram, res: resName(res) })));
+  else reasons.push(bad(t('rec.reason.videoRamLow', { ram })));
+  const gpuFit = p.gpu.integrated ? 0.3 : 1;
+  if (p.gpu.integrated) reasons.push(warn(t('rec.reason.videoIgpu')));
+  const ssd = ssdTotalGB(p.storage);
+  const storageFit = clamp01(ssd / 2048);
+  if (ssd >= 2048) reasons.push(good(t('rec.reason.videoStorage', { size: formatCapacity(ssd) })));
+  else if (ssd < 1024) reasons.push(warn(t('rec.reason.videoStorageLow', { size: formatCapacity(ssd) })));
+  return { fit: 0.4 * cpuFit + 0.35 * ramFit + 0.15 * gpuFit + 0.1 * storageFit, reasons };
+}
+
+function officeFit(p: Product): Fit {
+  const reasons: Reason[] = [];
+  const cpuFit = clamp01(cpuBench(p.cpu).score / 10000);
+  const ram = p.ram.capacityGB;
+  const ramFit = ram >= 16 ? 1 : ram >= 8 ? 0.8 : 0.4;
+  if (cpuFit >= 1 && ram >= 8) reasons.push(good(t('rec.reason.officeOk')));
+  else if (cpuFit < 1) reasons.push(warn(t('rec.reason.officeCpuSlow', { cpu: p.cpu.model })));
+  if (ram < 8) reasons.push(bad(t('rec.reason.officeRamLow', { ram })));
+  // 사무용에 고성능 PC 는 돈을 더 쓰는 셈이라 조금 깎는다
+  const overkill = perfScore(p) >= 60;
+  if (overkill) reasons.push(warn(t('rec.reason.overkill')));
+  return { fit: (0.6 * cpuFit + 0.4 * ramFit) * (overkill ? 0.85 : 1), reasons };
+}
+
+function aiFit(p: Product): Fit {
+  const reasons: Reason[] = [];
+  let vramFit = 0.1;
+  if (p.gpu.integrated) {
+    reasons.push(bad(t('rec.reason.aiIgpu')));
+  } else {
+    const vram = p.gpu.vramGB;
+    vramFit = clamp01(vram / 24);
+    if (vram >= 24) reasons.push(good(t('rec.reason.aiVramLarge', { vram })));
+    else if (vram >= 12) reasons.push(good(t('rec.reason.aiVram', { vram })));
+    else reasons.push(warn(t('rec.reason.aiVramSmall', { vram })));
+  }
+  const cuda = !p.gpu.integrated && p.gpu.vendor === 'NVIDIA';
+  if (cuda) reasons.push(good(t('rec.reason.aiCuda')));
+  else if (!p.gpu.integrated) reasons.push(warn(t('rec.reason.aiNoCuda')));
+  const ram = p.ram.capacityGB;
+  if (ram >= 64) reasons.push(good(t('rec.reason.aiRam', { ram })));
+  else if (ram < 32) reasons.push(warn(t('rec.reason.aiRamTight', { ram })));
+  const threads = p.cpu.threads;
+  if (threads >= 16) reasons.push(good(t('rec.reason.devThreads', { threads })));
+  return {
+    fit: 0.5 * vramFit + 0.15 * (cuda ? 1 : 0) + 0.2 * clamp01(ram / 64) + 0.15 * clamp01(threads / 24),
+    reasons,
+  };
+}
+
+function usageFit(p: Product, n: Needs): Fit {
+  if (n.usage === 'gaming') return gamingFit(p, n.resolution);
+  if (n.usage === 'video') return videoFit(p, n.resolution);
+  if (n.usage === 'office') return officeFit(p);
+  return aiFit(p);
+}
+
+// 예산을 넘으면 넘은 비율의 두 배만큼 깎는다 (50% 초과면 0). 예산보다 싼 것은 거의 깎지 않는다.
+function budgetFit(p: Product, key: BudgetKey): Fit & { over: boolean } {
+  const { min, max } = findBudget(key);
+  const price = currentPrice(p);
+  if (max !== null && price > max) {
+    return {
+      fit: clamp01(1 - ((price - max) / max) * 2),
+      over: true,
+      reasons: [bad(t('rec.reason.overBudget', { amount: formatPrice(price - max) }))],
+    };
+  }
+  if (price < min) {
+    return { fit: 0.9, over: false, reasons: [good(t('rec.reason.underBudget', { amount: formatPrice(min - price) }))] };
+  }
+  return { fit: 1, over: false, reasons: [good(t('rec.reason.inBudget'))] };
+}
+
+const QUIET_WATTS = 300; // 이 아래면 조용한 편
+const LOUD_WATTS = 600; // 이 위면 부하 시 시끄러운 편
+
+function prefFit(p: Product, pref: Preference): Fit {
+  if (pref === 'quiet') {
+    const watts = estimateWatts(p);
+    const fit = clamp01((LOUD_WATTS - watts) / (LOUD_WATTS - QUIET_WATTS));
+    if (watts <= QUIET_WATTS) return { fit, reasons: [good(t('rec.reason.quiet', { watts }))] };
+    if (watts >= LOUD_WATTS) return { fit, reasons: [bad(t('rec.reason.loud', { watts }))] };
+    return { fit, reasons: [] };
+  }
+  const ff = p.case?.formFactor;
+  if (ff === 'ITX') return { fit: 1, reasons: [good(t('rec.reason.compact', { size: ff }))] };
+  if (ff === 'mATX') return { fit: 0.6, reasons: [warn(t('rec.reason.midSize', { size: ff }))] };
+  if (ff === 'ATX') return { fit: 0, reasons: [bad(t('rec.reason.large', { size: ff }))] };
+  return { fit: 0.3, reasons: [] };
+}
+
+// 가중치: 용도 60, 예산 25, 선호 15 (선호를 고르지 않으면 용도 70, 예산 30)
+export function matchProduct(p: Product, n: Needs): Match {
+  const usage = usageFit(p, n);
+  const budget = budgetFit(p, n.budget);
+  const prefs = n.prefs.map((pref) => prefFit(p, pref));
+  const prefAvg = prefs.reduce((sum, f) => sum + f.fit, 0) / Math.max(1, prefs.length);
+  const total =
+    prefs.length > 0 ? 0.6 * usage.fit + 0.25 * budget.fit + 0.15 * prefAvg : 0.7 * usage.fit + 0.3 * budget.fit;
+  return {
+    product: p,
+    score: Math.round(total * 100),
+    reasons: [...budget.reasons, ...usage.reasons, ...prefs.flatMap((f) => f.reasons)],
+    overBudget: budget.over,
+    underpowered: usage.fit < 0.5,
+  };
+}
+
+// 적합도 높은 순 (같으면 원래 순서)
+export const rankProducts = (products: Product[], n: Needs) =>
+  products.map((p) => matchProduct(p, n)).sort((a, b) => b.score - a.score);
+
+// "100만원 ~ 200만원 · 게임 · QHD" (결과 화면, 정렬 옆 안내)
+export const needsSummary = (n: Needs) =>
+  t('rec.summary', {
+    budget: budgetLabel(n.budget),
+    usage: t(USAGES.find((u) => u.value === n.usage)?.label ?? 'rec.usage.gaming'),
+    res: resName(n.resolution),
+  });
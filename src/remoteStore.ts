@@ -0,0 +1,47 @@
+import { api, errorMessage, type ApiResource } from './api';
+
+// --- Server-backed store ---
+// 서버에서 읽어 온 값을 모듈 전역에 두고 여러 화면이 useSyncExternalStore 로 구독한다 (주문 내역, 후기).
+// 처음 구독할 때 읽어 오고, 실패하면 마지막으로 읽은 값은 그대로 둔 채 error 를 채운다. refresh() 가 재시도.
+// 다른 탭에서 같은 자원이 바뀌면(모의 서버) 다시 읽는다.
+
+export type RemoteState<T> = { status: 'loading' | 'ready' | 'error'; data: T; error: string | null };
+
+export function createRemoteStore<T>(resource: ApiResource, fetchData: () => Promise<T>, initial: T) {
+  let state: RemoteState<T> = { status: 'loading', data: initial, error: null };
+  let started = false;
+  let latest = 0; // 늦게 도착한 이전 응답은 버린다
+  const listeners = new Set<() => void>();
+
+  const set = (next: RemoteState<T>) => {
+    state = next;
+    listeners.forEach((l) => l());
+  };
+
+  const refresh = async () => {
+    started = true;
+    const id = ++latest;
+    if (state.status !== 'loading') set({ ...state, status: 'loading', error: null });
+    try {
+      const data = await fetchData();
+      if (id === latest) set({ status: 'ready', data, error: null });
+    } catch (e) {
+      if (id === latest) set({ ...state, status: 'error', error: errorMessage(e) });
+    }
+  };
+
+  // 서버에 반영한 결과를 화면에 바로 넣는다 (다시 읽지 않고)
+  const update = (fn: (data: T) => T) => set({ ...state, data: fn(state.data) });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (!started) void refresh();
+    return () => listeners.delete(listener);
+  };
+
+  api.watch(resource, () => {
+    if (started) void refresh();
+  });
+
+  return { get: () => state, subscribe, refresh, update };
+}
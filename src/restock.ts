@@ -0,0 +1,51 @@
+import { useSyncExternalStore } from 'react';
+import type { Product } from './catalog';
+import { isSoldOut } from './inventory';
+import { createLocalStore, listOf } from './localStore';
+
+// --- Restock alerts (재입고 알림 신청) ---
+// 품절 상품에 알림을 신청해 두면, 카탈로그에서 재고가 다시 생겼을 때 화면에 알린다.
+// 지금은 이 브라우저 안에서만 알리고, 백엔드가 생기면 신청 목록을 서버로 보내 문자/메일로 바꾼다.
+
+export type RestockAlert = {
+  productId: string;
+  requestedAt: string; // ISO
+};
+
+export const RESTOCK_STORAGE_KEY = 'pcshop_restock_alerts_v1';
+
+const isAlert = (v: unknown): v is RestockAlert => {
+  const o = v as Partial<RestockAlert> | null;
+  return typeof o?.productId === 'string' && typeof o.requestedAt === 'string';
+};
+
+const store = createLocalStore(RESTOCK_STORAGE_KEY, listOf(isAlert));
+
+export function toggleRestockAlert(productId: string) {
+  if (hasRestockAlert(store.get(), productId)) removeRestockAlerts([productId]);
+  else store.update((alerts) => [...alerts, { productId, requestedAt: new Date().toISOString() }]);
+}
+
+// 알림을 확인(또는 닫기)하면 신청이 끝난 것으로 보고 지운다
+export const removeRestockAlerts = (productIds: string[]) =>
+  store.update((alerts) => alerts.filter((a) => !productIds.includes(a.productId)));
+
+// 카탈로그에서 빠진 상품의 신청은 지운다. 읽는 중의 빈 목록으로 지우지 않도록 다 읽어 온 카탈로그로만 부른다.
+export function pruneRestockAlerts(products: Product[]) {
+  const ids = new Set(products.map((p) => p.id));
+  const alerts = store.get();
+  if (alerts.every((a) => ids.has(a.productId))) return;
+  store.set(alerts.filter((a) => ids.has(a.productId)));
+}
+
+export const useRestockAlerts = () => useSyncExternalStore(store.subscribe, store.get);
+
+// --- Selectors ---
+export const hasRestockAlert = (list: RestockAlert[], productId: string) => list.some((a) => a.productId === productId);
+
+// 알림을 신청했고 지금은 다시 살 수 있는 상품
+export const restockedProducts = (list: RestockAlert[], products: Product[]) =>
+  list.flatMap((a) => {
+    const product = products.find((p) => p.id === a.productId);
+    return product && !isSoldOut(product) ? [product] : [];
+  });
@@ -0,0 +1,239 @@
+import { useSyncExternalStore } from 'react';
+import { api, type ReviewInput } from './api';
+import type { MessageKey } from './messages';
+import { createRemoteStore } from './remoteStore';
+import { SAMPLE_REVIEWS } from './sampleReviews';
+
+// --- Reviews (구매 후기와 별점) ---
+// 후기와 '도움이 돼요' 표는 서버(/reviews)에서 읽고 쓴다.
+// 모의 서버는 아래 로컬 어댑터로 브라우저 localStorage 에 저장한다.
+
+export type UseCase = 'gaming' | 'work' | 'creative' | 'office' | 'streaming';
+
+export const USE_CASES: { value: UseCase; label: MessageKey }[] = [
+  { value: 'gaming', label: 'review.use.gaming' },
+  { value: 'work', label: 'review.use.work' },
+  { value: 'creative', label: 'review.use.creative' },
+  { value: 'office', label: 'review.use.office' },
+  { value: 'streaming', label: 'review.use.streaming' },
+];
+
+export type Review = {
+  id: string;
+  productId: string;
+  rating: number; // 1~5
+  title: string;
+  body: string;
+  pros: string[];
+  cons: string[];
+  useCase: UseCase;
+  photos: string[]; // 줄인 JPEG data URL
+  author: string; // 빈 문자열이면 익명
+  createdAt: string; // ISO
+  helpful: number; // '도움이 돼요' 수
+};
+
+export type ReviewData = {
+  reviews: Review[];
+  voted: string[]; // 이 브라우저에서 '도움이 돼요'를 누른 후기 id
+};
+
+export const MAX_REVIEW_PHOTOS = 3;
+
+export const isReview = (v: unknown): v is Review => {
+  const o = v as Partial<Review> | null;
+  return (
+    typeof o?.id === 'string' &&
+    typeof o.productId === 'string' &&
+    typeof o.rating === 'number' &&
+    Number.isInteger(o.rating) && // 별점 분포의 칸 번호(rating - 1)로 쓰므로 1~5 정수만
+    o.rating >= 1 &&
+    o.rating <= 5 &&
+    typeof o.title === 'string' &&
+    typeof o.body === 'string' &&
+    Array.isArray(o.pros) &&
+    Array.isArray(o.cons) &&
+    USE_CASES.some((u) => u.value === o.useCase) &&
+    Array.isArray(o.photos) &&
+    typeof o.createdAt === 'string' &&
+    typeof o.helpful === 'number'
+  );
+};
+
+// --- Storage adapter (모의 서버가 쓴다) ---
+export interface ReviewAdapter {
+  load(): ReviewData;
+  // 저장 공간이 부족하면 예외를 던진다 (사진이 큰 경우)
+  save(data: ReviewData): void;
+}
+
+export const REVIEWS_STORAGE_KEY = 'pcshop_reviews_v1';
+
+// 로컬 어댑터: 저장본이 없으면 예시 후기로 시작한다
+export function createLocalReviewAdapter(storageKey = REVIEWS_STORAGE_KEY): ReviewAdapter {
+  return {
+    load() {
+      try {
+        const stored = localStorage.getItem(storageKey);
+        if (stored === null) return { reviews: SAMPLE_REVIEWS, voted: [] };
+        const data = JSON.parse(stored) as Partial<ReviewData> | null;
+        return {
+          reviews: Array.isArray(data?.reviews) ? data.reviews.filter(isReview) : [],
+          voted: Array.isArray(data?.voted) ? data.voted.filter((id): id is string => typeof id === 'string') : [],
+        };
+      } catch {
+        return { reviews: SAMPLE_REVIEWS, voted: [] };
+      }
+    },
+    save(data) {
+      localStorage.setItem(storageKey, JSON.stringify(data));
+    },
+  };
+}
+
+// --- Store ---
+const store = createRemoteStore<ReviewData>('reviews', () => api.reviews.list(), { reviews: [], voted: [] });
+
+export const refreshReviews = store.refresh;
+
+export const useReviewStore = () => useSyncExternalStore(store.subscribe, store.get);
+export const useReviewData = () => useReviewStore().data;
+export const useReviews = () => useReviewData().reviews;
+
+// --- Writing ---
+export type ReviewDraft = {
+  rating: number; // 0 = 아직 안 고름
+  title: string;
+  body: string;
+  pros: string; // 한 줄에 하나
+  cons: string;
+  useCase: UseCase;
+  photos: string[];
+  author: string;
+};
+
+export const EMPTY_DRAFT: ReviewDraft = {
+  rating: 0,
+  title: '',
+  body: '',
+  pros: '',
+  cons: '',
+  useCase: 'gaming',
+  photos: [],
+  author: '',
+};
+
+export type ReviewErrors = Partial<Record<'rating' | 'title' | 'body', MessageKey>>; // 화면에서 t() 로 보여 준다
+
+export function validateReview(d: ReviewDraft): ReviewErrors {
+  const errs: ReviewErrors = {};
+  if (d.rating < 1 || d.rating > 5) errs.rating = 'review.error.rating';
+  if (d.title.trim().length < 2) errs.title = 'review.error.title';
+  if (d.body.trim().length < 10) errs.body = 'review.error.body';
+  return errs;
+}
+
+const lines = (s: string) =>
+  s
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+/** 검증을 통과한 초안을 서버에 올린다. 서버가 거절하면(저장 공간 부족 등) 예외를 던진다. */
+export async function addReview(productId: string, d: ReviewDraft): Promise<Review> {
+  const input: ReviewInput = {
+    productId,
+    rating: Math.round(d.rating),
+    title: d.title.trim(),
+    body: d.body.trim(),
+    pros: lines(d.pros),
+    cons: lines(d.cons),
+    useCase: d.useCase,
+    photos: d.photos.slice(0, MAX_REVIEW_PHOTOS),
+    author: d.author.trim(),
+  };
+  const review = await api.reviews.create(input);
+  store.update((data) => ({ ...data, reviews: [review, ...data.reviews] }));
+  return review;
+}
+
+const setVote = (data: ReviewData, reviewId: string, on: boolean, helpful?: number): ReviewData => ({
+  reviews: data.reviews.map((r) =>
+    r.id === reviewId ? { ...r, helpful: helpful ?? Math.max(0, r.helpful + (on ? 1 : -1)) } : r
+  ),
+  voted: on ? [...data.voted.filter((id) => id !== reviewId), reviewId] : data.voted.filter((id) => id !== reviewId),
+});
+
+// 사용자마다 후기 하나에 한 번만 (다시 누르면 취소). 화면에 먼저 반영하고, 서버가 거절하면 되돌린다.
+export async function toggleHelpful(reviewId: string) {
+  const on = !store.get().data.voted.includes(reviewId);
+  store.update((data) => setVote(data, reviewId, on));
+  try {
+    const saved = await api.reviews.vote(reviewId, on);
+    store.update((data) => setVote(data, reviewId, on, saved.helpful));
+  } catch {
+    store.update((data) => setVote(data, reviewId, !on));
+  }
+}
+
+// 사진은 긴 변 기준으로 줄여 JPEG data URL 로 저장한다 (localStorage 용량 때문)
+export async function readReviewPhoto(file: File, maxSize = 800): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+// --- Ratings ---
+export type RatingSummary = {
+  average: number; // 후기가 없으면 0
+  count: number;
+  histogram: [number, number, number, number, number]; // 1점~5점 개수
+};
+
+export type RatingIndex = ReadonlyMap<string, RatingSummary>;
+
+export const NO_RATINGS: RatingIndex = new Map();
+
+const EMPTY_SUMMARY: RatingSummary = { average: 0, count: 0, histogram: [0, 0, 0, 0, 0] };
+
+export function ratingIndex(reviews: Review[]): RatingIndex {
+  const index = new Map<string, RatingSummary>();
+  reviews.forEach((r) => {
+    const s = index.get(r.productId) ?? { ...EMPTY_SUMMARY, histogram: [0, 0, 0, 0, 0] };
+    s.histogram[r.rating - 1] += 1;
+    s.average = (s.average * s.count + r.rating) / (s.count + 1);
+    s.count += 1;
+    index.set(r.productId, s);
+  });
+  return index;
+}
+
+export const ratingOf = (ratings: RatingIndex, productId: string) => ratings.get(productId) ?? EMPTY_SUMMARY;
+
+// 별점 필터 단계 (0 = 전체)
+export const RATING_STEPS = [0, 4.5, 4, 3];
+
+// --- Sorting reviews ---
+export type ReviewSort = 'recent' | 'helpful' | 'rating';
+
+export const REVIEW_SORTS: { value: ReviewSort; label: MessageKey }[] = [
+  { value: 'recent', label: 'review.sort.recent' },
+  { value: 'helpful', label: 'review.sort.helpful' },
+  { value: 'rating', label: 'review.sort.rating' },
+];
+
+const newest = (a: Review, b: Review) => b.createdAt.localeCompare(a.createdAt);
+
+export const sortReviews = (list: Review[], sort: ReviewSort) =>
+  [...list].sort((a, b) => {
+    if (sort === 'helpful') return b.helpful - a.helpful || newest(a, b);
+    if (sort === 'rating') return b.rating - a.rating || newest(a, b);
+    return newest(a, b);
+  });
+
+export const productReviews = (reviews: Review[], productId: string) => reviews.filter((r) => r.productId === productId);
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from 'react';
+
+// --- Hash route ---
+// 매장 화면은 쿼리스트링(urlState)을 쓰고, 관리자 화면만 #admin 해시로 구분한다 (GitHub Pages 호환).
+
+export type Route = 'shop' | 'admin';
+
+export const ADMIN_HASH = '#admin';
+
+const current = (): Route => (window.location.hash === ADMIN_HASH ? 'admin' : 'shop');
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('hashchange', listener);
+  return () => window.removeEventListener('hashchange', listener);
+};
+
+export const useRoute = () => useSyncExternalStore(subscribe, current);
+
+// 해시만 지워서 매장으로 돌아간다 (검색/필터 쿼리는 유지)
+export const goToShop = () => {
+  window.location.hash = '';
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+};
@@ -0,0 +1,53 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+
+// --- Keyboard navigation for the product grid/list ---
+// 카드 하나만 Tab 순서에 두고(roving tabindex) 화살표·Home/End 로 카드 사이를 옮긴다.
+// 한 줄에 카드가 몇 개인지는 화면 배치(첫 줄의 offsetTop)로 재므로 반응형 열 수와 목록 보기에 그대로 맞는다.
+// 카드 자체에 포커스가 있을 때 Enter/Space 를 누르면 onActivate (상세 열기).
+
+const ITEM = 'data-grid-item';
+
+export function useRovingGrid(count: number) {
+  const container = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState(0);
+  const current = Math.min(active, Math.max(0, count - 1)); // 목록이 줄어든 경우
+
+  const items = () => [...(container.current?.querySelectorAll<HTMLElement>(`:scope > [${ITEM}]`) ?? [])];
+
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    const els = items();
+    const from = els.indexOf(e.target as HTMLElement);
+    if (from < 0) return; // 카드 안의 버튼·입력에서 누른 키는 그대로 둔다
+    const top = els[0].offsetTop;
+    const cols = Math.max(1, els.filter((el) => el.offsetTop === top).length);
+    const moves: Record<string, number> = {
+      ArrowRight: from + 1,
+      ArrowLeft: from - 1,
+      ArrowDown: from + cols,
+      ArrowUp: from - cols,
+      Home: 0,
+      End: els.length - 1,
+    };
+    const to = moves[e.key];
+    if (to === undefined) return;
+    e.preventDefault();
+    if (to < 0 || to >= els.length) return;
+    setActive(to);
+    els[to].focus();
+  };
+
+  const itemProps = (index: number, onActivate: () => void) => ({
+    [ITEM]: '',
+    tabIndex: index === current ? 0 : -1,
+    // 카드 안의 버튼으로 포커스가 들어가도 그 카드를 기준으로 삼는다
+    onFocus: () => setActive(index),
+    onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+      if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+        e.preventDefault();
+        onActivate();
+      }
+    },
+  });
+
+  return { container, onKeyDown, itemProps };
+}
@@ -0,0 +1,126 @@
+import type { Review } from './reviews';
+
+// --- Sample reviews ---
+// 저장된 후기가 없을 때(처음 방문) 보여 주는 예시 후기. public/products.json 의 상품 id 와 맞춘다.
+
+const sample = (r: Omit<Review, 'photos'>): Review => ({ ...r, photos: [] });
+
+export const SAMPLE_REVIEWS: Review[] = [
+  sample({
+    id: 'sample-a1',
+    productId: 'A',
+    rating: 5,
+    title: '4K 에서도 여유롭습니다',
+    body: '사이버펑크 4K 울트라 옵션에서도 프레임이 잘 나옵니다. 조립 마감도 깔끔하고 선 정리가 잘 되어 왔어요.',
+    pros: ['4K 게이밍 성능', '깔끔한 선 정리'],
+    cons: ['부하 걸리면 팬 소음이 조금 있음'],
+    useCase: 'gaming',
+    author: '레이트레이싱',
+    createdAt: '2026-09-14T11:20:00.000Z',
+    helpful: 12,
+  }),
+  sample({
+    id: 'sample-a2',
+    productId: 'A',
+    rating: 4,
+    title: '성능은 최고, 가격이 아쉬움',
+    body: '렌더링과 게임 모두 만족스럽습니다. 다만 가격대가 있어서 별 하나 뺐어요.',
+    pros: ['렌더링 속도'],
+    cons: ['가격'],
+    useCase: 'creative',
+    author: '',
+    createdAt: '2026-08-30T02:05:00.000Z',
+    helpful: 4,
+  }),
+  sample({
+    id: 'sample-b1',
+    productId: 'B',
+    rating: 5,
+    title: '영상 편집용으로 샀어요',
+    body: '4K 타임라인 편집이 끊김 없이 됩니다. 인코딩 시간도 예전 컴퓨터의 절반 정도로 줄었어요.',
+    pros: ['편집 프리뷰가 부드러움', '조용함'],
+    cons: [],
+    useCase: 'creative',
+    author: '편집자K',
+    createdAt: '2026-09-02T08:40:00.000Z',
+    helpful: 9,
+  }),
+  sample({
+    id: 'sample-b2',
+    productId: 'B',
+    rating: 4,
+    title: '방송하면서 게임해도 괜찮네요',
+    body: '게임과 송출을 같이 돌려도 프레임 드랍이 거의 없습니다. 케이스가 생각보다 커서 책상 자리를 좀 차지해요.',
+    pros: ['송출 겸용 가능'],
+    cons: ['케이스 크기'],
+    useCase: 'streaming',
+    author: '',
+    createdAt: '2026-09-21T13:15:00.000Z',
+    helpful: 3,
+  }),
+  sample({
+    id: 'sample-c1',
+    productId: 'C',
+    rating: 4,
+    title: 'QHD 게이밍 딱 좋아요',
+    body: 'QHD 모니터로 배그, 오버워치 무난하게 돌아갑니다. 최신 AAA 는 옵션을 조금 타협해야 해요.',
+    pros: ['QHD 게이밍', '적당한 가격'],
+    cons: ['최신 게임은 옵션 타협'],
+    useCase: 'gaming',
+    author: '주말게이머',
+    createdAt: '2026-09-10T15:00:00.000Z',
+    helpful: 6,
+  }),
+  sample({
+    id: 'sample-d1',
+    productId: 'D',
+    rating: 5,
+    title: '입문용으로 가성비 최고',
+    body: '롤, 발로란트는 풀옵션으로 잘 됩니다. 이 가격에 이 정도면 충분히 만족합니다.',
+    pros: ['가격 대비 성능', '빠른 배송'],
+    cons: ['저장 공간이 조금 작음'],
+    useCase: 'gaming',
+    author: '새내기',
+    createdAt: '2026-09-18T10:30:00.000Z',
+    helpful: 15,
+  }),
+  sample({
+    id: 'sample-d2',
+    productId: 'D',
+    rating: 3,
+    title: '무난합니다',
+    body: '가벼운 게임은 괜찮은데 무거운 게임은 확실히 버거워요. 용도에 맞게 고르시면 될 듯합니다.',
+    pros: ['가벼운 게임은 충분'],
+    cons: ['무거운 게임은 힘듦'],
+    useCase: 'gaming',
+    author: '',
+    createdAt: '2026-08-25T19:45:00.000Z',
+    helpful: 2,
+  }),
+  sample({
+    id: 'sample-e1',
+    productId: 'E',
+    rating: 4,
+    title: '사무실 업무용으로 구매',
+    body: '엑셀, 문서 작업, 화상회의 모두 문제없습니다. 소음이 거의 없어서 좋아요.',
+    pros: ['조용함', '작은 크기'],
+    cons: [],
+    useCase: 'office',
+    author: '총무팀',
+    createdAt: '2026-09-05T01:10:00.000Z',
+    helpful: 5,
+  }),
+  sample({
+    id: 'sample-f1',
+    productId: 'F',
+    rating: 3,
+    title: '가격만큼 합니다',
+    body: '인터넷, 문서 작업 용도로는 충분해요. 여러 창을 띄우면 가끔 느려집니다.',
+    pros: ['저렴함'],
+    cons: ['멀티태스킹 시 버벅임'],
+    useCase: 'office',
+    author: '',
+    createdAt: '2026-09-12T06:50:00.000Z',
+    helpful: 1,
+  }),
+];
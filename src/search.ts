@@ -0,0 +1,294 @@
+import type { Product } from './catalog';
+import { perfScore } from './benchmarks';
+import { currentPrice } from './pricing';
+import { cpuLabel, gpuLabel, ramLabel, ssdTotalGB, storageLabel, storageTotalGB } from './specs';
+
+// --- Smart search ---
+// 검색어를 공백 단위 토큰으로 나눠 모두 만족하는(AND) 상품만 남기고 관련도 순으로 정렬한다.
+// - 공백/하이픈/밑줄은 무시 ("4070 ti" = "4070ti", "i7-14700k" = "i714700k")
+// - 초성만 입력하면 초성으로 비교 ("ㅇㅌ" → 인텔)
+// - 동의어 사전 (지포스↔NVIDIA RTX, 인텔↔Intel, 기가↔GB, 테라↔TB ...)
+// - 사양 조건식: ram>=32, ssd>=1tb, gpu:4080, 가격<150만, 코어>=8
+
+const SEPARATORS = /[\s\-_]/;
+
+export const normalize = (s: string) =>
+  [...s.normalize('NFC').toLowerCase()].filter((c) => !SEPARATORS.test(c)).join('');
+
+// --- 초성 ---
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const HANGUL_FIRST = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+const choseongOf = (c: string) => {
+  const code = c.charCodeAt(0);
+  return code >= HANGUL_FIRST && code <= HANGUL_LAST ? CHOSEONG[Math.floor((code - HANGUL_FIRST) / 588)] : c;
+};
+const toChoseong = (s: string) => [...s].map(choseongOf).join('');
+const isChoseongOnly = (s: string) => /^[ㄱ-ㅎ]+$/.test(s);
+
+// --- 동의어 ---
+// 같은 그룹 안의 단어는 서로 바꿔서도 찾는다 (normalize 된 형태로 적는다)
+const SYNONYMS: string[][] = [
+  ['지포스', 'geforce', 'nvidiartx', 'nvidia', 'rtx', '엔비디아'],
+  ['라데온', 'radeon'],
+  ['인텔', 'intel'],
+  ['라이젠', 'ryzen'],
+  ['에이엠디', 'amd'],
+  ['기가', 'gb'],
+  ['테라', 'tb'],
+  ['램', '메모리', 'ram'],
+  ['그래픽카드', '글카', 'gpu'],
+  ['씨피유', '프로세서', 'cpu'],
+  ['에스에스디', 'ssd'],
+  ['하드', 'hdd'],
+];
+
+const expandSynonyms = (term: string) => {
+  const out = new Set([term]);
+  for (const group of SYNONYMS) {
+    for (const word of group) {
+      if (!term.includes(word)) continue;
+      for (const alt of group) if (alt !== word) out.add(term.replace(word, alt));
+    }
+  }
+  return [...out];
+};
+
+// --- Query parsing ---
+type NumericField = 'ram' | 'storage' | 'ssd' | 'vram' | 'cores' | 'threads' | 'price' | 'perf';
+type TextField = 'cpu' | 'gpu' | 'tag';
+type Op = '>=' | '<=' | '>' | '<' | '=';
+
+const NUMERIC_FIELDS: Record<string, NumericField> = {
+  ram: 'ram',
+  램: 'ram',
+  메모리: 'ram',
+  storage: 'storage',
+  저장장치: 'storage',
+  용량: 'storage',
+  ssd: 'ssd',
+  vram: 'vram',
+  cores: 'cores',
+  코어: 'cores',
+  threads: 'threads',
+  스레드: 'threads',
+  price: 'price',
+  가격: 'price',
+  perf: 'perf',
+  성능: 'perf',
+};
+
+const TEXT_FIELDS: Record<string, TextField> = {
+  cpu: 'cpu',
+  씨피유: 'cpu',
+  gpu: 'gpu',
+  그래픽: 'gpu',
+  그래픽카드: 'gpu',
+  tag: 'tag',
+  태그: 'tag',
+};
+
+const numericValue: Record<NumericField, (p: Product) => number> = {
+  ram: (p) => p.ram.capacityGB,
+  storage: (p) => storageTotalGB(p.storage),
+  ssd: (p) => ssdTotalGB(p.storage),
+  vram: (p) => p.gpu.vramGB,
+  cores: (p) => p.cpu.cores,
+  threads: (p) => p.cpu.threads,
+  price: (p) => currentPrice(p),
+  perf: perfScore,
+};
+
+const UNIT: Record<string, number> = { 만원: 10000, 만: 10000, 원: 1, gb: 1, 기가: 1, g: 1, tb: 1024, 테라: 1024, t: 1024 };
+
+const parseAmount = (raw: string, field: NumericField): number | null => {
+  const m = /^(\d+(?:\.\d+)?)(만원|만|원|gb|기가|g|tb|테라|t)?$/.exec(raw);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  if (m[2]) return n * UNIT[m[2]];
+  // 단위 없는 가격은 10000 미만이면 만원 단위로 본다 ("가격<150")
+  return field === 'price' && n < 10000 ? n * 10000 : n;
+};
+
+export type SpecCondition =
+  | { kind: 'number'; field: NumericField; op: Op; value: number }
+  | { kind: 'text'; field: TextField; variants: string[] };
+
+export type SearchTerm = { raw: string; variants: string[]; choseong: boolean };
+
+export type ParsedQuery = { terms: SearchTerm[]; conditions: SpecCondition[] };
+
+const EXPR = /^([^<>=:]+)(>=|<=|>|<|=|:)(.+)$/;
+
+const toTerm = (raw: string): SearchTerm => ({
+  raw,
+  variants: expandSynonyms(raw),
+  choseong: isChoseongOnly(raw),
+});
+
+function parseToken(token: string, out: ParsedQuery) {
+  const m = EXPR.exec(token);
+  if (m) {
+    const [, key, op, value] = m;
+    const numeric = NUMERIC_FIELDS[key];
+    if (numeric) {
+      const amount = parseAmount(value, numeric);
+      if (amount !== null) {
+        out.conditions.push({ kind: 'number', field: numeric, op: op === ':' ? '=' : (op as Op), value: amount });
+        return;
+      }
+    }
+    const text = TEXT_FIELDS[key];
+    if (text && op === ':') {
+      out.conditions.push({ kind: 'text', field: text, variants: expandSynonyms(value) });
+      return;
+    }
+  }
+  // 알 수 없는 조건식은 일반 검색어로 취급
+  out.terms.push(toTerm(token));
+}
+
+export function parseQuery(q: string): ParsedQuery {
+  // "가격 < 150만" 처럼 연산자 양옆에 띄어쓴 경우도 하나의 토큰으로
+  const compact = q
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/\s*(>=|<=|>|<|=|:)\s*/g, '$1')
+    .trim();
+  const out: ParsedQuery = { terms: [], conditions: [] };
+  if (!compact) return out;
+  compact
+    .split(/\s+/)
+    .map(normalize)
+    .filter(Boolean)
+    .forEach((token) => parseToken(token, out));
+  return out;
+}
+
+export const isEmptyQuery = (q: ParsedQuery) => q.terms.length === 0 && q.conditions.length === 0;
+
+// --- Matching / ranking ---
+type Field = { weight: number; text: string; choseong: string };
+
+// 가중치: 상품명 > 부품 모델 > 태그·제조사 > 기타 사양
+const productFields = (p: Product): Field[] =>
+  [
+    [6, p.title],
+    [6, p.name],
+    [4, cpuLabel(p.cpu)],
+    [4, gpuLabel(p.gpu)],
+    [3, `${p.cpu.vendor} ${p.cpu.family}`],
+    [3, `${p.gpu.vendor} ${p.gpu.family}`],
+    [3, (p.tags ?? []).join(' ')],
+    [2, ramLabel(p.ram)],
+    [2, storageLabel(p.storage)],
+    [1, p.board?.chipset ?? ''],
+  ].map(([weight, text]) => {
+    const n = normalize(String(text));
+    return { weight: Number(weight), text: n, choseong: toChoseong(n) };
+  });
+
+const textFieldSource: Record<TextField, (p: Product) => string> = {
+  cpu: (p) => `${cpuLabel(p.cpu)} ${p.cpu.vendor} ${p.cpu.family}`,
+  gpu: (p) => `${gpuLabel(p.gpu)} ${p.gpu.family}`,
+  tag: (p) => (p.tags ?? []).join(' '),
+};
+
+const compare = (a: number, op: Op, b: number) =>
+  op === '>=' ? a >= b : op === '<=' ? a <= b : op === '>' ? a > b : op === '<' ? a < b : a === b;
+
+const meetsCondition = (p: Product, c: SpecCondition) =>
+  c.kind === 'number'
+    ? compare(numericValue[c.field](p), c.op, c.value)
+    : c.variants.some((v) => normalize(textFieldSource[c.field](p)).includes(v));
+
+// 0 이면 불일치. 필드 가중치 중 가장 큰 값 + 정확히 일치하면 가산점
+const termScore = (fields: Field[], t: SearchTerm) => {
+  let best = 0;
+  for (const f of fields) {
+    for (const v of t.variants) {
+      if (!f.text.includes(v)) continue;
+      const exact = f.text === v || f.text.startsWith(v) ? 2 : 0;
+      const synonym = v === t.raw ? 0 : 0.5; // 동의어로 찾은 경우는 살짝 낮게
+      best = Math.max(best, f.weight + exact - synonym);
+    }
+    if (t.choseong && f.choseong.includes(t.raw)) best = Math.max(best, f.weight / 2);
+  }
+  return best;
+};
+
+// 임의의 문자열(부품 모델명, 최근 검색어 등)이 검색어의 모든 단어를 포함하는지
+export function textMatches(text: string, q: ParsedQuery) {
+  const n = normalize(text);
+  const cho = toChoseong(n);
+  return q.terms.every((t) => t.variants.some((v) => n.includes(v)) || (t.choseong && cho.includes(t.raw)));
+}
+
+export function searchProducts(products: Product[], q: ParsedQuery): Product[] {
+  if (isEmptyQuery(q)) return products;
+  const scored: { p: Product; score: number }[] = [];
+  for (const p of products) {
+    if (!q.conditions.every((c) => meetsCondition(p, c))) continue;
+    const fields = productFields(p);
+    let score = 0;
+    let ok = true;
+    for (const t of q.terms) {
+      const s = termScore(fields, t);
+      if (s === 0) {
+        ok = false;
+        break;
+      }
+      score += s;
+    }
+    if (ok) scored.push({ p, score });
+  }
+  // 점수가 같으면 원래(추천) 순서 유지
+  return scored.sort((a, b) => b.score - a.score).map((x) => x.p);
+}
+
+// --- Highlighting ---
+export type Highlighter = { plain: string[]; choseong: string[] };
+
+export const NO_HIGHLIGHT: Highlighter = { plain: [], choseong: [] };
+
+export const highlighterFor = (q: ParsedQuery): Highlighter => ({
+  plain: [
+    ...q.terms.flatMap((t) => t.variants),
+    ...q.conditions.flatMap((c) => (c.kind === 'text' ? c.variants : [])),
+  ],
+  choseong: q.terms.filter((t) => t.choseong).map((t) => t.raw),
+});
+
+export type Segment = { text: string; hit: boolean };
+
+// 원문 그대로 보여주되, 정규화된 문자열에서 찾은 위치를 원문 위치로 되돌려 표시한다
+export function highlightSegments(text: string, h: Highlighter): Segment[] {
+  if (h.plain.length === 0 && h.choseong.length === 0) return [{ text, hit: false }];
+  const chars = [...text];
+  const index: number[] = [];
+  let norm = '';
+  chars.forEach((c, i) => {
+    if (SEPARATORS.test(c)) return;
+    index.push(i);
+    norm += c.toLowerCase();
+  });
+  const cho = toChoseong(norm);
+  const hit = new Array<boolean>(chars.length).fill(false);
+  const mark = (haystack: string, needle: string) => {
+    if (!needle) return;
+    for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) {
+      for (let i = index[at]; i <= index[at + needle.length - 1]; i++) hit[i] = true;
+    }
+  };
+  h.plain.forEach((n) => mark(norm, n));
+  h.choseong.forEach((n) => mark(cho, n));
+
+  const segments: Segment[] = [];
+  chars.forEach((c, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.hit === hit[i]) last.text += c;
+    else segments.push({ text: c, hit: hit[i] });
+  });
+  return segments;
+}
@@ -0,0 +1,55 @@
+import type { Product } from './catalog';
+import { cpuBench, gpuBench } from './benchmarks';
+import { gpuTier } from './facets';
+import { currentPrice } from './pricing';
+import { ssdTotalGB } from './specs';
+
+// --- 비슷한 상품 (상세 보기) ---
+// 사양 거리로 가까운 상품을 고른다. 점수·용량·가격은 배수 차이(log2)로 비교해서
+// "16GB ↔ 32GB" 와 "32GB ↔ 64GB" 를 같은 거리로 본다. GPU 등급이 다르면 한 번 더 벌린다.
+
+export type SpecPart = 'cpu' | 'gpu' | 'ram' | 'storage';
+export type SpecDiff = { part: SpecPart; better: boolean };
+
+export type Similar = {
+  product: Product;
+  distance: number;
+  priceDiff: number; // 기준 상품보다 비싸면 +
+  diffs: SpecDiff[]; // 눈에 띄게 다른 부품만
+};
+
+const WEIGHTS: Record<SpecPart | 'price', number> = { cpu: 1, gpu: 1.2, ram: 0.5, storage: 0.3, price: 1.5 };
+const TIER_GAP = 0.5;
+const NOTICEABLE = 0.25; // 약 19% 이상 차이 나면 다르다고 표시
+
+const specValues = (p: Product): Record<SpecPart | 'price', number> => ({
+  cpu: cpuBench(p.cpu).score,
+  gpu: gpuBench(p.gpu).score,
+  ram: p.ram.capacityGB,
+  storage: ssdTotalGB(p.storage),
+  price: currentPrice(p),
+});
+
+const ratio = (a: number, b: number) => Math.log2(Math.max(1, a) / Math.max(1, b));
+
+const PARTS: SpecPart[] = ['cpu', 'gpu', 'ram', 'storage'];
+
+export function compareSpecs(base: Product, other: Product): Similar {
+  const a = specValues(base);
+  const b = specValues(other);
+  let distance = gpuTier(base) === gpuTier(other) ? 0 : TIER_GAP;
+  for (const key of [...PARTS, 'price'] as const) distance += WEIGHTS[key] * Math.abs(ratio(b[key], a[key]));
+  const diffs = PARTS.flatMap((part) => {
+    const r = ratio(b[part], a[part]);
+    return Math.abs(r) >= NOTICEABLE ? [{ part, better: r > 0 }] : [];
+  });
+  return { product: other, distance, priceDiff: b.price - a.price, diffs };
+}
+
+// 가까운 순 (같으면 카탈로그 순서)
+export const similarProducts = (base: Product, products: Product[], limit = 4): Similar[] =>
+  products
+    .filter((p) => p.id !== base.id)
+    .map((p) => compareSpecs(base, p))
+    .sort((x, y) => x.distance - y.distance)
+    .slice(0, limit);
@@ -0,0 +1,52 @@
+import type { Product } from './catalog';
+import { cpuBench, gpuBench, perfScore, valueScore } from './benchmarks';
+import { currentPrice } from './pricing';
+import type { MessageKey } from './messages';
+import { NO_RATINGS, ratingOf, type RatingIndex } from './reviews';
+import { matchProduct, type Needs } from './recommend';
+
+// --- Sorting ---
+export type SortKey = 'featured' | 'perf' | 'value' | 'price' | 'rating' | 'cpu' | 'gpu' | 'ram' | 'name';
+
+export const SORT_OPTIONS: { value: SortKey; label: MessageKey }[] = [
+  { value: 'featured', label: 'sort.featured' },
+  { value: 'perf', label: 'sort.perf' },
+  { value: 'value', label: 'sort.value' },
+  { value: 'price', label: 'sort.price' },
+  { value: 'rating', label: 'sort.rating' },
+  { value: 'cpu', label: 'sort.cpu' },
+  { value: 'gpu', label: 'sort.gpu' },
+  { value: 'ram', label: 'sort.ram' },
+  { value: 'name', label: 'sort.name' },
+];
+
+export const isSortKey = (v: string): v is SortKey => SORT_OPTIONS.some((o) => o.value === v);
+
+// 평점순은 평균 별점, 같으면 후기 수가 많은 쪽이 먼저 (후기가 없는 상품은 맨 뒤)
+const byRating = (ratings: RatingIndex, a: Product, b: Product) => {
+  const ra = ratingOf(ratings, a.id);
+  const rb = ratingOf(ratings, b.id);
+  return rb.average - ra.average || rb.count - ra.count;
+};
+
+// '추천' 정렬은 저장된 맞춤 추천 답변이 있으면 적합도 순, 없으면 원래 순서
+export const sortProducts = (
+  list: Product[],
+  sort: SortKey,
+  ratings: RatingIndex = NO_RATINGS,
+  needs: Needs | null = null
+) => {
+  const match = sort === 'featured' && needs ? new Map(list.map((p) => [p.id, matchProduct(p, needs).score])) : null;
+  return [...list].sort((a, b) => {
+    if (match) return (match.get(b.id) ?? 0) - (match.get(a.id) ?? 0);
+    if (sort === 'perf') return perfScore(b) - perfScore(a);
+    if (sort === 'value') return valueScore(b) - valueScore(a);
+    if (sort === 'price') return currentPrice(a) - currentPrice(b);
+    if (sort === 'rating') return byRating(ratings, a, b);
+    if (sort === 'cpu') return cpuBench(b.cpu).score - cpuBench(a.cpu).score;
+    if (sort === 'gpu') return gpuBench(b.gpu).score - gpuBench(a.gpu).score;
+    if (sort === 'ram') return b.ram.capacityGB - a.ram.capacityGB;
+    if (sort === 'name') return a.name.localeCompare(b.name, 'ko');
+    return 0; // featured (original order)
+  });
+};
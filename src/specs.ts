@@ -0,0 +1,214 @@
+import { t, type MessageParams } from './i18n';
+import type { MessageKey } from './messages';
+
+// --- Hardware specs ---
+// 상품 사양은 구조화된 값으로 관리하고, 화면 표기/정렬 키/필터 값은 모두 여기서 파생한다.
+// (새 부품이 추가돼도 목록이나 정규식을 고칠 필요가 없도록)
+
+export type CpuVendor = 'Intel' | 'AMD';
+export type GpuVendor = 'NVIDIA' | 'AMD' | 'Intel';
+export type RamType = 'DDR4' | 'DDR5';
+export type StorageKind = 'SSD' | 'HDD';
+export type StorageInterface = 'NVMe' | 'SATA';
+
+export type CpuSpec = {
+  vendor: CpuVendor;
+  family: string; // "Core i9", "Ryzen 7", "Pentium"
+  model: string; // "i9-14900K", "Ryzen 7 7800X3D"
+  cores: number;
+  threads: number;
+  boostGHz: number;
+  socket?: string; // "LGA1700", "AM5" (호환성 검사용)
+  tdpW?: number; // 최대 소비전력 (PL2/PPT)
+  memoryTypes?: RamType[]; // 지원 메모리 규격
+};
+
+export type GpuSpec = {
+  vendor: GpuVendor;
+  family: string; // "GeForce RTX 40", "Radeon RX 7000", "UHD Graphics"
+  model: string; // "RTX 4070 Ti", "RX 7800 XT"
+  vramGB: number; // 0 for integrated graphics (shared memory)
+  tflops: number; // FP32 throughput (벤치마크 표에 없는 모델의 점수 추정용)
+  integrated?: boolean;
+  tdpW?: number; // 보드 전력 (내장 그래픽은 CPU 에 포함)
+  lengthMm?: number; // 카드 길이
+};
+
+export type RamSpec = {
+  capacityGB: number;
+  type: RamType;
+  speedMHz?: number;
+};
+
+export type StorageDevice = {
+  kind: StorageKind;
+  interface: StorageInterface;
+  capacityGB: number;
+};
+
+// 메인보드/케이스/파워 (구성 변경 시에도 그대로 유지되는 플랫폼)
+export type BoardSpec = {
+  chipset: string; // "Z790", "B650"
+  socket: string;
+  memoryType: RamType;
+};
+
+export type CaseSpec = {
+  maxGpuLengthMm: number;
+  formFactor?: CaseFormFactor; // 메인보드 규격 기준 케이스 크기 (없으면 알 수 없음)
+};
+
+export type CaseFormFactor = 'ATX' | 'mATX' | 'ITX';
+
+export type PsuSpec = {
+  watts: number;
+};
+
+export const CPU_VENDORS: CpuVendor[] = ['Intel', 'AMD'];
+export const GPU_VENDORS: GpuVendor[] = ['NVIDIA', 'AMD', 'Intel'];
+export const RAM_TYPES: RamType[] = ['DDR4', 'DDR5'];
+export const STORAGE_KINDS: StorageKind[] = ['SSD', 'HDD'];
+export const STORAGE_INTERFACES: StorageInterface[] = ['NVMe', 'SATA'];
+export const CASE_FORM_FACTORS: CaseFormFactor[] = ['ATX', 'mATX', 'ITX'];
+
+// 인텔만 한국어 표기가 따로 있다
+const vendorLabel = (v: CpuVendor) => (v === 'Intel' ? t('spec.vendor.Intel') : v);
+
+// --- Labels ---
+export const formatCapacity = (gb: number) => (gb >= 1024 && gb % 256 === 0 ? `${gb / 1024}TB` : `${gb}GB`);
+
+export const cpuLabel = (c: CpuSpec) => `${vendorLabel(c.vendor)} ${c.model}`;
+export const cpuDetail = (c: CpuSpec) =>
+  `${t('spec.cpuDetail', { cores: c.cores, threads: c.threads, ghz: String(c.boostGHz) })}${c.socket ? ` · ${c.socket}` : ''}`;
+
+export const boardLabel = (b: BoardSpec) => `${b.chipset} (${b.socket} · ${b.memoryType})`;
+
+export const gpuLabel = (g: GpuSpec) =>
+  g.integrated ? `${g.vendor} ${g.model}` : `${g.vendor} ${g.model} ${g.vramGB}GB`;
+
+export const ramLabel = (r: RamSpec) =>
+  `${formatCapacity(r.capacityGB)} ${r.type}${r.speedMHz ? `-${r.speedMHz}` : ''}`;
+
+export const storageDeviceLabel = (d: StorageDevice) =>
+  d.kind === 'HDD' ? `HDD ${formatCapacity(d.capacityGB)}` : `${d.interface} SSD ${formatCapacity(d.capacityGB)}`;
+export const storageLabel = (ds: StorageDevice[]) => ds.map(storageDeviceLabel).join(' + ');
+
+// --- Sort / filter keys ---
+export const storageTotalGB = (ds: StorageDevice[]) => ds.reduce((sum, d) => sum + d.capacityGB, 0);
+export const ssdTotalGB = (ds: StorageDevice[]) =>
+  ds.filter((d) => d.kind === 'SSD').reduce((sum, d) => sum + d.capacityGB, 0);
+
+// --- Validation ---
+// 경로와 메시지 목록을 돌려준다. 빈 배열이면 통과. 메시지는 키와 값으로 두고 화면에서 t() 로 보여 준다.
+export type SpecError = { field: string; message: MessageKey; params?: MessageParams };
+
+const specError = (field: string, message: MessageKey, params?: MessageParams): SpecError => ({
+  field,
+  message,
+  params: { field, ...params },
+});
+
+type Raw = Record<string, unknown>;
+const isRaw = (v: unknown): v is Raw => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkString = (o: Raw, key: string, path: string, errs: SpecError[]) => {
+  const v = o[key];
+  if (typeof v !== 'string' || v.trim() === '') errs.push(specError(`${path}.${key}`, 'catalog.issue.specValueMissing'));
+};
+const checkNumber = (o: Raw, key: string, path: string, errs: SpecError[], optional = false) => {
+  const v = o[key];
+  if (v === undefined && optional) return;
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) {
+    errs.push(specError(`${path}.${key}`, 'catalog.issue.nonNegativeNumber'));
+  }
+};
+const checkEnum = (o: Raw, key: string, path: string, allowed: readonly string[], errs: SpecError[]) => {
+  const v = o[key];
+  if (typeof v !== 'string' || !allowed.includes(v)) {
+    errs.push(specError(`${path}.${key}`, 'catalog.issue.oneOf', { allowed: allowed.join(' / ') }));
+  }
+};
+
+export function validateCpu(v: unknown, path = 'cpu'): SpecError[] {
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.specMissing')];
+  const errs: SpecError[] = [];
+  checkEnum(v, 'vendor', path, CPU_VENDORS, errs);
+  checkString(v, 'family', path, errs);
+  checkString(v, 'model', path, errs);
+  checkNumber(v, 'cores', path, errs);
+  checkNumber(v, 'threads', path, errs);
+  checkNumber(v, 'boostGHz', path, errs);
+  if (v.socket !== undefined) checkString(v, 'socket', path, errs);
+  checkNumber(v, 'tdpW', path, errs, true);
+  const mt = v.memoryTypes;
+  if (mt !== undefined && !(Array.isArray(mt) && mt.every((t) => RAM_TYPES.includes(t)))) {
+    errs.push(specError(`${path}.memoryTypes`, 'catalog.issue.listOf', { allowed: RAM_TYPES.join(' / ') }));
+  }
+  return errs;
+}
+
+export function validateGpu(v: unknown, path = 'gpu'): SpecError[] {
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.specMissing')];
+  const errs: SpecError[] = [];
+  checkEnum(v, 'vendor', path, GPU_VENDORS, errs);
+  checkString(v, 'family', path, errs);
+  checkString(v, 'model', path, errs);
+  checkNumber(v, 'vramGB', path, errs);
+  checkNumber(v, 'tflops', path, errs);
+  if (v.integrated !== undefined && typeof v.integrated !== 'boolean') {
+    errs.push(specError(`${path}.integrated`, 'catalog.issue.boolean'));
+  }
+  checkNumber(v, 'tdpW', path, errs, true);
+  checkNumber(v, 'lengthMm', path, errs, true);
+  return errs;
+}
+
+export function validateRam(v: unknown, path = 'ram'): SpecError[] {
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.specMissing')];
+  const errs: SpecError[] = [];
+  checkNumber(v, 'capacityGB', path, errs);
+  checkEnum(v, 'type', path, RAM_TYPES, errs);
+  checkNumber(v, 'speedMHz', path, errs, true);
+  return errs;
+}
+
+export function validateStorage(v: unknown, path = 'storage'): SpecError[] {
+  if (!Array.isArray(v) || v.length === 0) return [specError(path, 'catalog.issue.storageList')];
+  return v.flatMap((d, i) => {
+    const p = `${path}[${i}]`;
+    if (!isRaw(d)) return [specError(p, 'catalog.issue.badFormat')];
+    const errs: SpecError[] = [];
+    checkEnum(d, 'kind', p, STORAGE_KINDS, errs);
+    checkEnum(d, 'interface', p, STORAGE_INTERFACES, errs);
+    checkNumber(d, 'capacityGB', p, errs);
+    return errs;
+  });
+}
+
+// 플랫폼 정보는 선택 항목: 없으면 호환성 검사에서 '확인 불가' 로 안내한다
+export function validateBoard(v: unknown, path = 'board'): SpecError[] {
+  if (v === undefined) return [];
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.badFormat')];
+  const errs: SpecError[] = [];
+  checkString(v, 'chipset', path, errs);
+  checkString(v, 'socket', path, errs);
+  checkEnum(v, 'memoryType', path, RAM_TYPES, errs);
+  return errs;
+}
+
+export function validateCase(v: unknown, path = 'case'): SpecError[] {
+  if (v === undefined) return [];
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.badFormat')];
+  const errs: SpecError[] = [];
+  checkNumber(v, 'maxGpuLengthMm', path, errs);
+  if (v.formFactor !== undefined) checkEnum(v, 'formFactor', path, CASE_FORM_FACTORS, errs);
+  return errs;
+}
+
+export function validatePsu(v: unknown, path = 'psu'): SpecError[] {
+  if (v === undefined) return [];
+  if (!isRaw(v)) return [specError(path, 'catalog.issue.badFormat')];
+  const errs: SpecError[] = [];
+  checkNumber(v, 'watts', path, errs);
+  return errs;
+}
@@ -0,0 +1,54 @@
+import type { Product } from './catalog';
+import { parseQuery, searchProducts, textMatches } from './search';
+import { cpuLabel, gpuLabel } from './specs';
+
+// --- Search suggestions ---
+// 자동완성 목록: 최근 검색어 → 사양 값(CPU/GPU 모델) → 상품 순.
+// 검색어가 비어 있으면 최근 검색어만 보여준다.
+
+export type Suggestion =
+  | { kind: 'recent'; id: string; query: string }
+  | { kind: 'clear-recent'; id: string }
+  | { kind: 'spec'; id: string; group: 'CPU' | 'GPU'; label: string; query: string }
+  | { kind: 'product'; id: string; product: Product };
+
+const MAX_RECENT = 3;
+const MAX_SPECS = 5;
+const MAX_PRODUCTS = 5;
+
+// 카탈로그에 실제로 있는 모델만 제안한다 (검색어로 넣을 값은 제조사 없는 모델명)
+const specValues = (products: Product[]) => {
+  const cpus = new Map(products.map((p) => [p.cpu.model, cpuLabel(p.cpu)]));
+  const gpus = new Map(products.map((p) => [p.gpu.model, gpuLabel(p.gpu)]));
+  return [
+    ...[...cpus].map(([query, label]) => ({ group: 'CPU' as const, label, query })),
+    ...[...gpus].map(([query, label]) => ({ group: 'GPU' as const, label, query })),
+  ];
+};
+
+export function suggest(products: Product[], query: string, recent: string[]): Suggestion[] {
+  const q = query.trim();
+  if (!q) {
+    if (recent.length === 0) return [];
+    return [
+      ...recent.map((r, i): Suggestion => ({ kind: 'recent', id: `recent-${i}`, query: r })),
+      { kind: 'clear-recent', id: 'clear-recent' },
+    ];
+  }
+  const parsed = parseQuery(q);
+  const recentHits = recent
+    .filter((r) => r !== q && parsed.terms.length > 0 && textMatches(r, parsed))
+    .slice(0, MAX_RECENT)
+    .map((r, i): Suggestion => ({ kind: 'recent', id: `recent-${i}`, query: r }));
+  const specs =
+    parsed.terms.length === 0
+      ? []
+      : specValues(products)
+          .filter((v) => textMatches(v.label, parsed) && v.query.toLowerCase() !== q.toLowerCase())
+          .slice(0, MAX_SPECS)
+          .map((v, i): Suggestion => ({ kind: 'spec', id: `spec-${i}`, ...v }));
+  const items = searchProducts(products, parsed)
+    .slice(0, MAX_PRODUCTS)
+    .map((p): Suggestion => ({ kind: 'product', id: `product-${p.id}`, product: p }));
+  return [...recentHits, ...specs, ...items];
+}
@@ -0,0 +1,105 @@
+import { COMPARE_LIMIT } from './compare';
+import { EMPTY_FILTERS, GPU_TIERS, type Filters, type GpuTier } from './facets';
+import { findGame } from './games';
+import { RATING_STEPS } from './reviews';
+import { isSortKey, type SortKey } from './sorting';
+
+// --- URL state ---
+// 검색/필터/정렬/레이아웃/비교/상세 상태를 쿼리스트링으로 주고받는다.
+// GitHub Pages 는 경로 기반 라우팅을 지원하지 않으므로 index.html 경로는 그대로 두고 ?query 만 쓴다.
+
+export type Layout = 'grid' | 'list';
+
+export type ShopUrlState = {
+  query: string;
+  filters: Filters;
+  sort: SortKey;
+  layout: Layout;
+  selected: string[]; // compare list (product ids)
+  compareOpen: boolean; // 비교 창 열림 (공유 링크용)
+  detailId: string | null;
+};
+
+export const DEFAULT_URL_STATE: ShopUrlState = {
+  query: '',
+  filters: EMPTY_FILTERS,
+  sort: 'featured',
+  layout: 'grid',
+  selected: [],
+  compareOpen: false,
+  detailId: null,
+};
+
+const LIST_SEP = ',';
+const splitList = (v: string | null) => (v ? v.split(LIST_SEP).filter(Boolean) : []);
+const toInt = (v: string | null) => {
+  const n = v === null ? NaN : parseInt(v, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+export function encodeUrlState(s: ShopUrlState): string {
+  const params = new URLSearchParams();
+  const f = s.filters;
+  if (s.query.trim()) params.set('q', s.query);
+  if (f.cpu.length) params.set('cpu', f.cpu.join(LIST_SEP));
+  if (f.gpu.length) params.set('gpu', f.gpu.join(LIST_SEP));
+  if (f.tags.length) params.set('tags', f.tags.join(LIST_SEP));
+  if (f.minRam) params.set('ram', String(f.minRam));
+  if (f.minStorage) params.set('storage', String(f.minStorage));
+  if (f.priceMin !== null) params.set('pmin', String(f.priceMin));
+  if (f.priceMax !== null) params.set('pmax', String(f.priceMax));
+  if (f.game) params.set('game', f.game);
+  if (f.includeSoldOut) params.set('soldout', '1');
+  if (f.minRating) params.set('rating', String(f.minRating));
+  if (s.sort !== 'featured') params.set('sort', s.sort);
+  if (s.layout !== 'grid') params.set('view', s.layout);
+  if (s.selected.length) params.set('cmp', s.selected.join(LIST_SEP));
+  if (s.compareOpen && s.selected.length) params.set('compare', '1');
+  if (s.detailId) params.set('p', s.detailId);
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+// 별점 필터는 정해진 단계만 받는다
+const toRatingStep = (v: string | null) => RATING_STEPS.find((s) => String(s) === v) ?? 0;
+
+// 알 수 없는 값은 조용히 기본값으로 되돌린다 (오래된 링크, 손으로 고친 주소 대비)
+export function decodeUrlState(search: string): ShopUrlState {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort') ?? '';
+  const gpuKeys = GPU_TIERS.map((t) => t.key);
+  return {
+    query: params.get('q') ?? '',
+    filters: {
+      cpu: splitList(params.get('cpu')),
+      gpu: splitList(params.get('gpu')).filter((g): g is GpuTier => gpuKeys.includes(g as GpuTier)),
+      tags: splitList(params.get('tags')),
+      minRam: toInt(params.get('ram')) ?? 0,
+      minStorage: toInt(params.get('storage')) ?? 0,
+      priceMin: toInt(params.get('pmin')),
+      priceMax: toInt(params.get('pmax')),
+      game: findGame(params.get('game'))?.id ?? null,
+      includeSoldOut: params.get('soldout') === '1',
+      minRating: toRatingStep(params.get('rating')),
+    },
+    sort: isSortKey(sort) ? sort : 'featured',
+    layout: params.get('view') === 'list' ? 'list' : 'grid',
+    selected: [...new Set(splitList(params.get('cmp')))].slice(0, COMPARE_LIMIT), // 공유 링크도 비교 한도까지만
+    compareOpen: params.get('compare') === '1',
+    detailId: params.get('p') || null,
+  };
+}
+
+// 검색어 입력처럼 연속으로 바뀌는 값은 히스토리를 쌓지 않고 교체한다
+const onlyQueryChanged = (a: ShopUrlState, b: ShopUrlState) =>
+  a.query !== b.query && encodeUrlState({ ...a, query: '' }) === encodeUrlState({ ...b, query: '' });
+
+export function writeUrlState(next: ShopUrlState, prev: ShopUrlState | null) {
+  const search = encodeUrlState(next);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (prev && !onlyQueryChanged(prev, next)) window.history.pushState(null, '', url);
+  else window.history.replaceState(null, '', url);
+}
+
+export const readUrlState = () => decodeUrlState(window.location.search);
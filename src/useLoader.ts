@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// --- Async loader hook ---
+// public/ 의 JSON 같은 비동기 리소스를 읽을 때 쓰는 공용 훅 (로딩/에러/재시도)
+// 로딩 화면은 처음 읽을 때(또는 key 가 바뀌었을 때)만 보인다. 다시 읽는 동안에는 이전 값을 그대로 두고 refreshing 만 켠다.
+export type LoaderState<T> =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | ({ status: 'ready'; refreshing: boolean } & T);
+
+export function useLoader<T extends object>(load: (signal: AbortSignal) => Promise<T>, key: string) {
+  const [state, setState] = useState<LoaderState<T>>({ status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+  // load 는 key 로 식별한다. 호출 측이 매 렌더 새 함수를 넘겨도 다시 읽지 않도록 마지막 함수만 기억해 둔다.
+  const loadRef = useRef(load);
+  useEffect(() => {
+    loadRef.current = load;
+  });
+  const loadedKey = useRef<string | null>(null); // 지금 state 에 든 값을 읽어 온 key
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const refresh = loadedKey.current === key;
+    setState((s) => (refresh && s.status === 'ready' ? { ...s, refreshing: true } : { status: 'loading' }));
+    loadRef.current(ctrl.signal)
+      .then((r) => {
+        loadedKey.current = key;
+        setState({ status: 'ready', refreshing: false, ...r });
+      })
+      .catch((e: unknown) => {
+        if (ctrl.signal.aborted) return;
+        // 다시 읽기에 실패하면 이전 값을 계속 보여 준다 (다음 변경 알림이나 새로고침 때 다시 읽는다)
+        setState((s) =>
+          refresh && s.status === 'ready'
+            ? { ...s, refreshing: false }
+            : { status: 'error', error: e instanceof Error ? e.message : String(e) }
+        );
+      });
+    return () => ctrl.abort();
+  }, [key, attempt]);
+
+  const reload = useCallback(() => setAttempt((n) => n + 1), []);
+  return { state, reload };
+}
@@ -0,0 +1,6 @@
+// --- Utilities ---
+export const cx = (...cls: (string | boolean | undefined)[]) => cls.filter(Boolean).join(' ');
+
+// 아이콘 가시성(어두운 배경에서도 잘 보이도록)
+export const ICON = 'h-7 w-7 text-emerald-700';
+export const ICON_DIM = 'h-7 w-7 text-emerald-400';
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 실제 API 서버 주소 (없으면 브라우저 안의 모의 서버를 쓴다)
+  readonly VITE_API_URL?: string;
+  // 모의 서버 기본 응답 지연(ms)과 실패 확률(0~1). 관리자 화면에서 바꿀 수 있다.
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_FAILURE_RATE?: string;
+}
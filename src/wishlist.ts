@@ -0,0 +1,61 @@
+import { useSyncExternalStore } from 'react';
+import type { Product } from './catalog';
+import { createLocalStore, listOf } from './localStore';
+import { currentPrice } from './pricing';
+
+// --- Wishlist (찜하기) ---
+// 찜한 시점의 가격(할인가 포함)을 함께 저장해 두고, 현재 가격이 더 낮으면 '가격 인하' 로 알린다.
+
+export type WishItem = {
+  productId: string;
+  savedPrice: number; // 찜할 때의 가격
+  savedAt: string; // ISO
+  notifiedPrice?: number; // 이 가격까지의 인하는 이미 알림을 닫았음
+};
+
+export const WISHLIST_STORAGE_KEY = 'pcshop_wishlist_v1';
+
+const isWishItem = (v: unknown): v is WishItem => {
+  const o = v as Partial<WishItem> | null;
+  return typeof o?.productId === 'string' && typeof o.savedPrice === 'number' && typeof o.savedAt === 'string';
+};
+
+const store = createLocalStore(WISHLIST_STORAGE_KEY, listOf(isWishItem));
+
+export function toggleWish(p: Product) {
+  if (isWished(store.get(), p.id)) removeWish(p.id);
+  else {
+    const item: WishItem = { productId: p.id, savedPrice: currentPrice(p), savedAt: new Date().toISOString() };
+    store.update((items) => [item, ...items]);
+  }
+}
+
+export const removeWish = (productId: string) => store.update((items) => items.filter((w) => w.productId !== productId));
+
+// 알림을 닫으면 현재 가격을 기억해 두고, 그보다 더 내려갈 때만 다시 알린다
+export function dismissPriceDrops(drops: PriceDrop[]) {
+  const seen = new Map(drops.map((d) => [d.item.productId, currentPrice(d.product)]));
+  store.update((items) =>
+    items.map((w) => (seen.has(w.productId) ? { ...w, notifiedPrice: seen.get(w.productId) } : w))
+  );
+}
+
+export const useWishlist = () => useSyncExternalStore(store.subscribe, store.get);
+
+// --- Selectors ---
+export type PriceDrop = { item: WishItem; product: Product; amount: number };
+
+export const isWished = (list: WishItem[], productId: string) => list.some((w) => w.productId === productId);
+
+export const priceDrop = (item: WishItem, product: Product) => Math.max(0, item.savedPrice - currentPrice(product));
+
+// 찜한 뒤 가격이 내린 상품 (카탈로그에서 빠진 상품은 제외)
+export const priceDrops = (list: WishItem[], products: Product[]): PriceDrop[] =>
+  list.flatMap((item) => {
+    const product = products.find((p) => p.id === item.productId);
+    return product && currentPrice(product) < item.savedPrice ? [{ item, product, amount: priceDrop(item, product) }] : [];
+  });
+
+// 아직 알림을 닫지 않은 인하 건
+export const unseenPriceDrops = (list: WishItem[], products: Product[]) =>
+  priceDrops(list, products).filter((d) => d.item.notifiedPrice === undefined || currentPrice(d.product) < d.item.notifiedPrice);